@@ -119,6 +119,7 @@ export const config = {
     maxChats: Number(process.env.DATA_EXPORT_MAX_CHATS || 500),
     maxMessagesPerChat: Number(process.env.DATA_EXPORT_MAX_MESSAGES || 1000),
     maxSessions: Number(process.env.DATA_EXPORT_MAX_SESSIONS || 50),
+    maxRecipes: Number(process.env.DATA_EXPORT_MAX_RECIPES || 500),
   },
   thirdParty: {
     crmEndpoint: process.env.CRM_WEBHOOK_URL || '',
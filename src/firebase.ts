@@ -60,6 +60,20 @@ interface QueryOptions {
 
 const collections = new Map<string, Map<string, DocumentData>>();
 
+// Stand-in for FieldValue.increment(); resolved against the stored value when the write is applied.
+class MockIncrement {
+  constructor(readonly operand: number) {}
+}
+
+function applyFieldTransforms(existing: DocumentData | undefined, data: DocumentData): DocumentData {
+  return Object.fromEntries(
+    Object.entries(data).map(([key, value]) => [
+      key,
+      value instanceof MockIncrement ? (Number(existing?.[key]) || 0) + value.operand : value
+    ])
+  );
+}
+
 const randomId = () => `mock_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 
 function getCollectionStore(name: string): Map<string, DocumentData> {
@@ -91,6 +105,8 @@ function matchesFilter(data: DocumentData, filter: Filter): boolean {
       return fieldValue < filter.value;
     case '<=':
       return fieldValue <= filter.value;
+    case 'array-contains':
+      return Array.isArray(fieldValue) && fieldValue.includes(filter.value);
     default:
       return false;
   }
@@ -196,10 +212,12 @@ function createDocRef(collectionName: string, docId: string) {
   return {
     id: docId,
     collectionName,
-    async set(data: DocumentData): Promise<void> {
+    async set(data: DocumentData, options?: { merge?: boolean }): Promise<void> {
       const store = getCollectionStore(collectionName);
+      const existing = store.get(docId);
       logDocAction('set', collectionName, docId, data);
-      store.set(docId, { ...data });
+      const resolved = applyFieldTransforms(existing, data);
+      store.set(docId, options?.merge ? { ...existing, ...resolved } : resolved);
     },
     async get() {
       const store = getCollectionStore(collectionName);
@@ -220,7 +238,7 @@ function createDocRef(collectionName: string, docId: string) {
         throw new Error(`Document ${docId} does not exist in collection ${collectionName}`);
       }
       logDocAction('update', collectionName, docId, data);
-      store.set(docId, { ...existing, ...data });
+      store.set(docId, { ...existing, ...applyFieldTransforms(existing, data) });
     },
     async delete(): Promise<void> {
       const store = getCollectionStore(collectionName);
@@ -260,9 +278,9 @@ function createCollection(collectionName: string) {
 const mockFirestore = () => ({
   collection: (name: string) => createCollection(name),
   batch: () => ({
-    async set(docRef: any, data: DocumentData) {
+    async set(docRef: any, data: DocumentData, options?: { merge?: boolean }) {
       logger.debug({ data }, 'Mock Firebase: batch set document');
-      await docRef.set(data);
+      await docRef.set(data, options);
     },
     async update(docRef: any, data: DocumentData) {
       logger.debug({ data }, 'Mock Firebase: batch update document');
@@ -276,6 +294,31 @@ const mockFirestore = () => ({
       logger.debug('Mock Firebase: batch commit');
     }
   }),
+  // Reads go straight to the store; writes are queued and applied once the callback resolves.
+  async runTransaction<T>(updateFunction: (transaction: any) => Promise<T>): Promise<T> {
+    const writes: Array<() => Promise<void>> = [];
+    const transaction = {
+      get: (target: any) => target.get(),
+      set(docRef: any, data: DocumentData, options?: { merge?: boolean }) {
+        writes.push(() => docRef.set(data, options));
+        return transaction;
+      },
+      update(docRef: any, data: DocumentData) {
+        writes.push(() => docRef.update(data));
+        return transaction;
+      },
+      delete(docRef: any) {
+        writes.push(() => docRef.delete());
+        return transaction;
+      }
+    };
+    const result = await updateFunction(transaction);
+    for (const write of writes) {
+      await write();
+    }
+    logger.debug({ writes: writes.length }, 'Mock Firebase: transaction committed');
+    return result;
+  },
   async recursiveDelete(target: any) {
     logger.debug({ target }, 'Mock Firebase: recursive delete invoked');
     return 0;
@@ -417,7 +460,9 @@ export const admin = {
 };
 
 export const FieldValue = {
-  serverTimestamp: () => new Date()
+  serverTimestamp: () => new Date(),
+  increment: (operand: number) =>
+    isFirebaseInitialized ? firebaseAdmin.firestore.FieldValue.increment(operand) : new MockIncrement(operand)
 };
 
 // Export Firestore instance
@@ -59,6 +59,9 @@ import { createDeleteAccountRouter } from './routes/deleteAccount';
 import { createPremiumRouter } from './routes/premium';
 import { createMealsRouter } from './routes/meals';
 import { createProgressRouter } from './routes/progress';
+import { createFoodsRouter } from './routes/foods';
+import { createRecipesRouter } from './routes/recipes';
+import { createAdminRouter } from './routes/admin';
 // Chat router: resolve robustly to avoid ESM/CJS interop issues in Render
 // We intentionally avoid static import here
 import notificationRouter from './routes/notifications';
@@ -83,6 +86,12 @@ import {
 } from './middleware/errorHandler';
 import { logger } from './utils/logger';
 import { initializeRedis } from './redis';
+import { seedFoodCatalog } from './server/fitcal/services/foodService';
+import { resumePendingAnalysisJobs } from './server/fitcal/services/analysisJobService';
+import {
+  DAILY_STATS_RECONCILE_INTERVAL_MS,
+  reconcileRecentDailyStats
+} from './server/fitcal/services/dailyStatsReconciliationService';
 
 // Initialize Sentry first
 initSentry();
@@ -113,6 +122,20 @@ const initializeServices = async () => {
       requestTimeout: 60000,
     });
 
+    // Seed the bundled food catalog (no-op when the stored seed version is current)
+    try {
+      await seedFoodCatalog();
+    } catch (error) {
+      logger.warn({ err: error }, 'Food catalog seeding failed, continuing with existing catalog');
+    }
+
+    // Re-queue meal analysis jobs interrupted by the last shutdown
+    try {
+      await resumePendingAnalysisJobs();
+    } catch (error) {
+      logger.warn({ err: error }, 'Failed to resume pending meal analysis jobs');
+    }
+
     // Test cache connection
     const cacheConnected = await cacheService.ping();
     if (!cacheConnected) {
@@ -230,6 +253,9 @@ const startServer = async () => {
     }
     mountRouter(`/api/${API_VERSION}/meals`, createMealsRouter, 'meals');
     mountRouter(`/api/${API_VERSION}/progress`, createProgressRouter, 'progress');
+    mountRouter(`/api/${API_VERSION}/foods`, createFoodsRouter, 'foods');
+    mountRouter(`/api/${API_VERSION}/recipes`, createRecipesRouter, 'recipes');
+    mountRouter(`/api/${API_VERSION}/admin`, createAdminRouter, 'admin');
 
 
     // Legacy routes (backward compatibility)
@@ -249,6 +275,9 @@ const startServer = async () => {
     }
     mountRouter('/api/meals', createMealsRouter, 'meals (api legacy)');
     mountRouter('/api/progress', createProgressRouter, 'progress (api legacy)');
+    mountRouter('/api/foods', createFoodsRouter, 'foods (api legacy)');
+    mountRouter('/api/recipes', createRecipesRouter, 'recipes (api legacy)');
+    mountRouter('/api/admin', createAdminRouter, 'admin (api legacy)');
     mountRouterInstance('/notifications', notificationRouter, 'notifications');
 
     // 404 handler (must be before error handler)
@@ -305,6 +334,24 @@ const startServer = async () => {
       }
     }, 60 * 60 * 1000); // 1 hour
 
+    // Take over meal analysis jobs whose instance stopped without finishing them
+    setInterval(async () => {
+      try {
+        await resumePendingAnalysisJobs();
+      } catch (error) {
+        logger.error({ err: error }, 'Failed to resume pending meal analysis jobs');
+      }
+    }, Number(process.env.MEAL_ANALYSIS_JOB_RESUME_INTERVAL_MS || 5 * 60 * 1000)); // 5 minutes
+
+    // Daily stats reconciliation (repairs counter drift for recently active users; one instance per interval)
+    setInterval(async () => {
+      try {
+        await reconcileRecentDailyStats();
+      } catch (error) {
+        logger.error({ err: error }, 'Daily stats reconciliation failed');
+      }
+    }, DAILY_STATS_RECONCILE_INTERVAL_MS); // 6 hours
+
     // Data retention cleanup (run daily at 3 AM)
     setInterval(async () => {
       try {
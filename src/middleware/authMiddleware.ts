@@ -355,9 +355,20 @@ export function requireAdmin(
     return;
   }
 
-  // For now, we don't have role-based access control
-  // This is a placeholder for future implementation
-  // You would check user.role or user.permissions here
-  
+  // There is no role model yet; admins are listed by id or email in the environment
+  const adminIds = (process.env.ADMIN_USER_IDS || '').split(',').map(value => value.trim()).filter(Boolean);
+  const adminEmails = (process.env.ADMIN_EMAILS || '').split(',').map(value => value.trim().toLowerCase()).filter(Boolean);
+  const isAdmin = adminIds.includes(authReq.user.id)
+    || (!!authReq.user.email && adminEmails.includes(authReq.user.email.toLowerCase()));
+
+  if (!isAdmin) {
+    logger.warn({ userId: authReq.user.id, path: req.path }, 'Admin access denied');
+    res.status(403).json({
+      error: 'access_denied',
+      message: 'Admin access required'
+    });
+    return;
+  }
+
   next();
 }
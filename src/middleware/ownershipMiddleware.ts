@@ -0,0 +1,79 @@
+import { Request, Response, NextFunction } from 'express';
+import { db } from '../firebase';
+import { AuthRequest } from './authMiddleware';
+import { logger } from '../utils/logger';
+
+export interface OwnershipOptions {
+  collection: string;
+  notFoundMessage: string;
+  // Reads the resource id from the request; defaults to `req.params.id`.
+  getResourceId?: (req: Request) => unknown;
+  ownerField?: string;
+  // Requests without an id pass through (e.g. a chat message that starts a new session).
+  optional?: boolean;
+}
+
+export interface OwnedResourceRequest extends AuthRequest {
+  ownedResource?: { id: string; [key: string]: any };
+}
+
+/**
+ * Ownership middleware factory. Runs after `authenticateToken` and answers 404, not 403, when the
+ * resource belongs to someone else so ids of other users' resources cannot be probed.
+ */
+export const requireOwnership = (options: OwnershipOptions) => {
+  const ownerField = options.ownerField || 'user_id';
+  const getResourceId = options.getResourceId || ((req: Request) => req.params.id);
+
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const authReq = req as OwnedResourceRequest;
+    if (!authReq.user) {
+      res.status(401).json({ error: 'access_denied', message: 'Authentication required' });
+      return;
+    }
+
+    const resourceId = getResourceId(req);
+    if (resourceId === undefined || resourceId === null || resourceId === '') {
+      if (options.optional) {
+        next();
+        return;
+      }
+      res.status(404).json({ error: 'not_found', message: options.notFoundMessage });
+      return;
+    }
+
+    try {
+      const doc = typeof resourceId === 'string'
+        ? await db.collection(options.collection).doc(resourceId).get()
+        : null;
+      if (!doc?.exists || doc.data()?.[ownerField] !== authReq.user.id) {
+        if (doc?.exists) {
+          logger.warn(
+            { userId: authReq.user.id, collection: options.collection, resourceId, path: req.path },
+            'Access to a resource owned by another user denied'
+          );
+        }
+        res.status(404).json({ error: 'not_found', message: options.notFoundMessage });
+        return;
+      }
+
+      authReq.ownedResource = { ...doc.data(), id: doc.id };
+      next();
+    } catch (error) {
+      logger.error({ err: error, collection: options.collection, resourceId }, 'Ownership check failed');
+      res.status(500).json({ error: 'internal_error', message: 'Ownership check failed' });
+    }
+  };
+};
+
+export const requireMealOwnership = requireOwnership({ collection: 'meals', notFoundMessage: 'Meal not found' });
+
+export const requireChatSessionOwnership = requireOwnership({
+  collection: 'chat_sessions',
+  notFoundMessage: 'Chat session not found'
+});
+
+export const requireExerciseOwnership = requireOwnership({
+  collection: 'exercise_logs',
+  notFoundMessage: 'Exercise not found'
+});
@@ -0,0 +1,139 @@
+import { Router } from 'express';
+import { authenticateToken, AuthRequest, requireAdmin } from '../middleware/authMiddleware';
+import {
+  CorrectionFilters,
+  forEachCorrection,
+  getAnalysisAccuracyMetrics,
+  toCorrectionExportRecord
+} from '../server/fitcal/services/analysisCorrectionService';
+import { reconcileDailyStats } from '../server/fitcal/services/dailyStatsReconciliationService';
+import { MAX_PROGRESS_RANGE_DAYS } from '../server/fitcal/services/progressService';
+import { getUserInfo } from '../server/fitcal/services/userInfoService';
+import { countDaysInRange, isValidDateString } from '../server/fitcal/utils/timezone';
+import { logger } from '../utils/logger';
+import { attachRouteLogger } from '../utils/routeLogger';
+
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Reads `from`, `to`, `model` and `language` from the query string. A date-only `to` covers that
+ * whole day.
+ */
+const parseCorrectionFilters = (query: Record<string, unknown>) => {
+  const filters: CorrectionFilters = {};
+  const errors: string[] = [];
+
+  (['from', 'to'] as const).forEach(key => {
+    const value = query[key];
+    if (value === undefined) {
+      return;
+    }
+    const date = new Date(String(value));
+    if (typeof value !== 'string' || Number.isNaN(date.getTime())) {
+      errors.push(`${key} must be an ISO date`);
+      return;
+    }
+    if (key === 'to' && DATE_ONLY_PATTERN.test(value)) {
+      date.setUTCHours(23, 59, 59, 999);
+    }
+    filters[key] = date.toISOString();
+  });
+
+  if (typeof query.model === 'string' && query.model.trim()) {
+    filters.model = query.model.trim();
+  }
+  if (typeof query.language === 'string' && query.language.trim()) {
+    filters.language = query.language.trim();
+  }
+
+  return { filters, errors };
+};
+
+export const createAdminRouter = () => {
+  const router = Router();
+  attachRouteLogger(router, 'fitcal-admin');
+
+  router.get('/analysis/metrics', authenticateToken, requireAdmin, async (req, res) => {
+    try {
+      const { filters, errors } = parseCorrectionFilters(req.query);
+      if (errors.length) {
+        res.status(400).json({ error: 'invalid_request', message: errors.join(', ') });
+        return;
+      }
+
+      const metrics = await getAnalysisAccuracyMetrics(filters);
+      res.json({ filters, ...metrics });
+    } catch (error) {
+      logger.error({ err: error }, 'Failed to compute analysis metrics');
+      res.status(500).json({ error: 'internal_error', message: 'Failed to compute analysis metrics' });
+    }
+  });
+
+  router.get('/analysis/corrections/export', authenticateToken, requireAdmin, async (req, res) => {
+    const { filters, errors } = parseCorrectionFilters(req.query);
+    if (errors.length) {
+      res.status(400).json({ error: 'invalid_request', message: errors.join(', ') });
+      return;
+    }
+
+    try {
+      res.setHeader('Content-Type', 'application/x-ndjson; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="analysis-corrections-${Date.now()}.jsonl"`);
+      const count = await forEachCorrection(filters, correction => {
+        res.write(`${JSON.stringify(toCorrectionExportRecord(correction))}\n`);
+      });
+      logger.info({ filters, count }, 'Analysis corrections exported');
+      res.end();
+    } catch (error) {
+      logger.error({ err: error }, 'Failed to export analysis corrections');
+      if (res.headersSent) {
+        res.end();
+        return;
+      }
+      res.status(500).json({ error: 'internal_error', message: 'Failed to export analysis corrections' });
+    }
+  });
+
+  router.post('/daily-stats/reconcile', authenticateToken, requireAdmin, async (req, res) => {
+    try {
+      const { user_id, from, to, dry_run } = req.body || {};
+      if (typeof user_id !== 'string' || !user_id.trim()) {
+        res.status(400).json({ error: 'invalid_request', message: 'user_id is required' });
+        return;
+      }
+      if (!isValidDateString(from) || !isValidDateString(to)) {
+        res.status(400).json({ error: 'invalid_request', message: 'from and to are required as YYYY-MM-DD' });
+        return;
+      }
+      if (from > to || countDaysInRange(from, to) > MAX_PROGRESS_RANGE_DAYS) {
+        res.status(400).json({
+          error: 'invalid_request',
+          message: `from must not be after to and the range at most ${MAX_PROGRESS_RANGE_DAYS} days`
+        });
+        return;
+      }
+      if (dry_run !== undefined && typeof dry_run !== 'boolean') {
+        res.status(400).json({ error: 'invalid_request', message: 'dry_run must be a boolean' });
+        return;
+      }
+
+      const user = await getUserInfo(user_id.trim());
+      if (!user) {
+        res.status(404).json({ error: 'not_found', message: 'User not found' });
+        return;
+      }
+
+      const report = await reconcileDailyStats(user, from, to, { dryRun: dry_run });
+      logger.info(
+        { adminId: (req as AuthRequest).user?.id, userId: user.id, from, to, daysRepaired: report.days_repaired },
+        'Daily stats reconciled by admin'
+      );
+      res.json(report);
+    } catch (error) {
+      logger.error({ err: error }, 'Failed to reconcile daily stats');
+      res.status(500).json({ error: 'internal_error', message: 'Failed to reconcile daily stats' });
+    }
+  });
+
+  return router;
+};
@@ -1,5 +1,6 @@
 import { Router } from 'express';
 import { authenticateToken, AuthRequest } from '../middleware/authMiddleware';
+import { requireChatSessionOwnership, requireOwnership } from '../middleware/ownershipMiddleware';
 import { ensureUserInfo } from '../server/fitcal/services/userInfoService';
 import { formatDateInTimeZone } from '../server/fitcal/utils/timezone';
 import { getOrCreateDailyStats } from '../server/fitcal/services/progressService';
@@ -7,11 +8,19 @@ import { handleChatMessage, handleChatMessageStream, listChatMessages, listChatS
 import { logger } from '../utils/logger';
 import { attachRouteLogger } from '../utils/routeLogger';
 
+// Without this check a message could be appended to another user's session by passing its id.
+const requireBodySessionOwnership = requireOwnership({
+  collection: 'chat_sessions',
+  notFoundMessage: 'Chat session not found',
+  getResourceId: req => req.body?.sessionId,
+  optional: true
+});
+
 export const createChatRouter = () => {
   const router = Router();
   attachRouteLogger(router, 'fitcal-chat');
 
-  router.post('/', authenticateToken, async (req, res) => {
+  router.post('/', authenticateToken, requireBodySessionOwnership, async (req, res) => {
     try {
       const authReq = req as AuthRequest;
       if (!authReq.user) {
@@ -94,7 +103,7 @@ export const createChatRouter = () => {
     }
   });
 
-  router.get('/sessions/:id/messages', authenticateToken, async (req, res) => {
+  router.get('/sessions/:id/messages', authenticateToken, requireChatSessionOwnership, async (req, res) => {
     try {
       const messages = await listChatMessages(req.params.id);
       res.json({ messages });
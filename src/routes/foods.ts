@@ -0,0 +1,147 @@
+import { Router } from 'express';
+import { authenticateToken, AuthRequest } from '../middleware/authMiddleware';
+import { getFood, getFoodName, searchFoods } from '../server/fitcal/services/foodService';
+import { logBarcodeProduct, lookupBarcodeProduct, normalizeBarcode } from '../server/fitcal/services/barcodeService';
+import { ensureUserInfo } from '../server/fitcal/services/userInfoService';
+import { findDietaryConflicts } from '../server/fitcal/services/dietaryService';
+import { logger } from '../utils/logger';
+import { attachRouteLogger } from '../utils/routeLogger';
+
+export const createFoodsRouter = () => {
+  const router = Router();
+  attachRouteLogger(router, 'fitcal-foods');
+
+  router.get('/search', authenticateToken, async (req, res) => {
+    try {
+      const authReq = req as AuthRequest;
+      if (!authReq.user) {
+        res.status(401).json({ error: 'access_denied', message: 'Authentication required' });
+        return;
+      }
+
+      const query = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+      if (!query) {
+        res.status(400).json({ error: 'invalid_request', message: 'q is required' });
+        return;
+      }
+
+      const userInfo = await ensureUserInfo(authReq.user.id, {
+        name: authReq.user.name,
+        email: authReq.user.email
+      });
+      const limit = Number(req.query.limit);
+      const foods = await searchFoods(
+        query,
+        Number.isFinite(limit) && limit > 0 ? limit : undefined,
+        authReq.user.id
+      );
+      res.json({
+        query,
+        foods: foods.map(food => ({
+          ...food,
+          dietary_warnings: findDietaryConflicts(userInfo, [{ name: getFoodName(food, userInfo.language), ...food }])
+        }))
+      });
+    } catch (error) {
+      logger.error({ err: error }, 'Food search failed');
+      res.status(500).json({ error: 'internal_error', message: 'Food search failed' });
+    }
+  });
+
+  router.get('/barcode/:ean', authenticateToken, async (req, res) => {
+    try {
+      const authReq = req as AuthRequest;
+      const barcode = normalizeBarcode(req.params.ean);
+      if (!barcode) {
+        res.status(400).json({ error: 'invalid_request', message: 'Invalid EAN/UPC barcode' });
+        return;
+      }
+
+      const product = await lookupBarcodeProduct(barcode, authReq.user?.id);
+      if (!product) {
+        res.status(404).json({ error: 'not_found', message: 'Product not found' });
+        return;
+      }
+      res.json(product);
+    } catch (error) {
+      logger.error({ err: error }, 'Barcode lookup failed');
+      res.status(500).json({ error: 'internal_error', message: 'Barcode lookup failed' });
+    }
+  });
+
+  router.post('/barcode/:ean/log', authenticateToken, async (req, res) => {
+    try {
+      const authReq = req as AuthRequest;
+      if (!authReq.user) {
+        res.status(401).json({ error: 'access_denied', message: 'Authentication required' });
+        return;
+      }
+
+      const barcode = normalizeBarcode(req.params.ean);
+      if (!barcode) {
+        res.status(400).json({ error: 'invalid_request', message: 'Invalid EAN/UPC barcode' });
+        return;
+      }
+
+      const { servings, grams, meal_time, label } = req.body || {};
+      const servingsValue = servings === undefined ? undefined : Number(servings);
+      const gramsValue = grams === undefined ? undefined : Number(grams);
+      if (
+        (servingsValue !== undefined && (!Number.isFinite(servingsValue) || servingsValue <= 0))
+        || (gramsValue !== undefined && (!Number.isFinite(gramsValue) || gramsValue <= 0))
+      ) {
+        res.status(400).json({ error: 'invalid_request', message: 'servings and grams must be positive numbers' });
+        return;
+      }
+
+      const product = await lookupBarcodeProduct(barcode, authReq.user.id);
+      if (!product) {
+        res.status(404).json({ error: 'not_found', message: 'Product not found' });
+        return;
+      }
+      if (gramsValue === undefined && !product.serving_size_g) {
+        res.status(400).json({ error: 'invalid_request', message: 'Product has no serving size; grams is required' });
+        return;
+      }
+
+      const userInfo = await ensureUserInfo(authReq.user.id, {
+        name: authReq.user.name,
+        email: authReq.user.email
+      });
+
+      let mealTime = meal_time ? new Date(meal_time) : new Date();
+      if (Number.isNaN(mealTime.getTime())) {
+        mealTime = new Date();
+      }
+
+      const result = await logBarcodeProduct(userInfo, product, {
+        servings: servingsValue,
+        grams: gramsValue,
+        mealTime: mealTime.toISOString(),
+        label: label || null
+      });
+
+      res.status(201).json({ ok: true, product, ...result });
+    } catch (error) {
+      logger.error({ err: error }, 'Barcode meal logging failed');
+      res.status(500).json({ error: 'internal_error', message: 'Barcode meal logging failed' });
+    }
+  });
+
+  router.get('/:id', authenticateToken, async (req, res) => {
+    try {
+      const authReq = req as AuthRequest;
+      const food = await getFood(req.params.id, authReq.user?.id);
+      if (!food) {
+        res.status(404).json({ error: 'not_found', message: 'Food not found' });
+        return;
+      }
+      res.json(food);
+    } catch (error) {
+      logger.error({ err: error }, 'Failed to fetch food');
+      res.status(500).json({ error: 'internal_error', message: 'Failed to fetch food' });
+    }
+  });
+
+  return router;
+};
@@ -1,29 +1,194 @@
-import { Router, Request } from 'express';
+import { Router, Request, Response } from 'express';
 import multer from 'multer';
 import { authenticateToken, AuthRequest } from '../middleware/authMiddleware';
-import { createMeal, listMealsForDate, getMeal, updateMeal, analyzeMeal, confirmMeal, uploadMealImage } from '../server/fitcal/services/mealService';
+import { requireMealOwnership } from '../middleware/ownershipMiddleware';
+import {
+  createMeal,
+  listMealsForDate,
+  getMeal,
+  updateMeal,
+  analyzeMeal,
+  analyzeNutritionLabelMeal,
+  answerClarifyingQuestions,
+  compareMealAnalyses,
+  ALLOWED_ANALYSIS_MODELS,
+  DEFAULT_ANALYSIS_MODEL,
+  DEFAULT_COMPARISON_MODELS,
+  isAllowedAnalysisModel,
+  MAX_COMPARISON_MODELS,
+  confirmMeal,
+  ConfirmedMealItemInput,
+  sanitizeConfirmedItems,
+  addMealImages,
+  isMealImageRole,
+  DuplicateMealUpload,
+  MealImage,
+  MealImageRole,
+  MAX_MEAL_IMAGES,
+  MEAL_TOTALS_FROM_ITEMS_ERROR,
+  sanitizeMealUpdates,
+  editMeal,
+  deleteMeal,
+  formatAnalysisResponse,
+  formatLabelAnalysisResponse,
+  listMealItems,
+  sanitizeMealItemInput,
+  addMealItem,
+  updateMealItem,
+  deleteMealItem,
+  logMealWithItems,
+  duplicateMeal,
+  groupMealsByType,
+  withSignedImageUrls,
+  isMealType,
+  MEAL_TYPES,
+  isPhotoMealSource,
+  PHOTO_MEAL_SOURCES
+} from '../server/fitcal/services/mealService';
+import {
+  createMealTemplateFromMeal,
+  deleteMealTemplate,
+  listMealTemplates,
+  logMealFromTemplate
+} from '../server/fitcal/services/mealTemplateService';
+import {
+  AnalysisMode,
+  ANALYSIS_MODES,
+  enqueueMealAnalysis,
+  getAnalysisJob
+} from '../server/fitcal/services/analysisJobService';
+import { findDietaryConflicts } from '../server/fitcal/services/dietaryService';
+import { FoodPortionInput, resolveFoodPortion } from '../server/fitcal/services/foodService';
 import { ensureUserInfo } from '../server/fitcal/services/userInfoService';
 import { formatDateInTimeZone, getUtcRangeForDate } from '../server/fitcal/utils/timezone';
-import { incrementDailyStats } from '../server/fitcal/services/progressService';
+import { EXTENDED_NUTRIENT_KEYS, ExtendedNutrients } from '../server/fitcal/utils/nutrition';
 import { logger } from '../utils/logger';
 import { attachRouteLogger } from '../utils/routeLogger';
 
 const upload = multer({ storage: multer.memoryStorage() });
 
+const mealImageFields = upload.fields([
+  { name: 'image', maxCount: 1 },
+  { name: 'images', maxCount: MAX_MEAL_IMAGES }
+]);
+
+const MAX_MEAL_DESCRIPTION_LENGTH = 1000;
+
+const NOT_FOUND_MESSAGES = ['Meal not found', 'Meal item not found', 'Meal template not found', 'Analysis result not found'];
+
+const isNotFoundError = (error: unknown) => NOT_FOUND_MESSAGES.includes((error as Error)?.message);
+
+const isUnconfirmedMealError = (error: unknown) => ((error as Error)?.message || '').startsWith('Only confirmed meals');
+
+const LABEL_PORTION_ERRORS = ['Nutrition label has not been analyzed yet', 'Product has no serving size; grams is required'];
+
+const isLabelPortionError = (error: unknown) => LABEL_PORTION_ERRORS.includes((error as Error)?.message);
+
+const MAX_CLARIFICATION_ANSWERS = 10;
+const MAX_CLARIFICATION_TEXT_LENGTH = 200;
+const INVALID_MODEL_MESSAGE = `model must be one of ${ALLOWED_ANALYSIS_MODELS.join(', ')}`;
+
+const isClarificationError = (error: unknown) => {
+  const message = (error as Error)?.message || '';
+  return message === 'Analysis result has no clarifying questions' || message.startsWith('Unknown clarifying');
+};
+
+const sendAnalysisError = (res: Response, error: unknown) => {
+  const message = (error as Error)?.message || 'Meal analysis failed';
+  const lower = message.toLowerCase();
+  const isConfigIssue = lower.includes('gemini_api_key');
+  const isInputIssue = lower.includes('image') || lower.includes('meal');
+  const status = isConfigIssue ? 503 : isInputIssue ? 400 : 500;
+  logger.error({ err: error }, 'Meal analysis failed');
+  res.status(status).json({
+    error: isConfigIssue ? 'service_unavailable' : isInputIssue ? 'invalid_request' : 'internal_error',
+    message
+  });
+};
+
+type MealImageFiles = Record<string, Express.Multer.File[]> | undefined;
+
+/**
+ * Pairs uploaded files with their roles. `image` is always the primary photo; `images` take their
+ * roles from `image_roles` (array or comma-separated, same order) and default to primary, then angle.
+ */
+const collectMealImageUploads = (files: MealImageFiles, rolesInput: unknown, existingRoles: MealImageRole[] = []) => {
+  const single = files?.image || [];
+  const multiple = files?.images || [];
+  const roles = (Array.isArray(rolesInput) ? rolesInput : typeof rolesInput === 'string' ? rolesInput.split(',') : [])
+    .map(role => String(role).trim())
+    .filter(Boolean);
+
+  const invalidRole = roles.find(role => !isMealImageRole(role));
+  if (invalidRole) {
+    return { error: `image_roles contains an unknown role: ${invalidRole}` };
+  }
+
+  const uploads: Array<{ buffer: Buffer; mimeType: string; role: MealImageRole }> = single.map(file => ({
+    buffer: file.buffer,
+    mimeType: file.mimetype,
+    role: 'primary'
+  }));
+  multiple.forEach((file, index) => {
+    const isFirstImage = existingRoles.length === 0 && uploads.length === 0 && index === 0;
+    const fallback: MealImageRole = isFirstImage ? 'primary' : 'angle';
+    uploads.push({
+      buffer: file.buffer,
+      mimeType: file.mimetype,
+      role: (roles[index] as MealImageRole) || fallback
+    });
+  });
+
+  const allRoles = [...existingRoles, ...uploads.map(item => item.role)];
+  if (allRoles.includes('after') && !allRoles.includes('before')) {
+    return { error: 'An "after" image requires a "before" image' };
+  }
+
+  return { uploads };
+};
+
+// Lets the client ask "you already logged this meal" when a photo was just used for another meal.
+const formatDuplicateWarning = (duplicates: DuplicateMealUpload[]) =>
+  duplicates.length
+    ? {
+        meal_id: duplicates[0].meal_id,
+        logged_at: duplicates[0].logged_at,
+        image_ids: duplicates.map(duplicate => duplicate.image_id)
+      }
+    : null;
+
+const resolveMealTime = (value: unknown) => {
+  const mealTime = value ? new Date(value as string) : new Date();
+  return Number.isNaN(mealTime.getTime()) ? new Date().toISOString() : mealTime.toISOString();
+};
+
 export const createMealsRouter = () => {
   const router = Router();
   attachRouteLogger(router, 'fitcal-meals');
 
-  router.post('/', authenticateToken, upload.single('image'), async (req, res) => {
+  router.post('/', authenticateToken, mealImageFields, async (req, res) => {
     try {
       const authReq = req as AuthRequest;
-      const fileRequest = req as Request & { file?: Express.Multer.File };
+      const fileRequest = req as Request & { files?: MealImageFiles };
       if (!authReq.user) {
         res.status(401).json({ error: 'access_denied', message: 'Authentication required' });
         return;
       }
 
-      const { source = 'camera', meal_time, image_url, label } = req.body;
+      const { source = 'camera', meal_time, label, meal_type, image_roles } = req.body;
+      if (!isPhotoMealSource(source)) {
+        res.status(400).json({ error: 'invalid_request', message: `source must be one of ${PHOTO_MEAL_SOURCES.join(', ')}` });
+        return;
+      }
+      if (meal_type !== undefined && !isMealType(meal_type)) {
+        res.status(400).json({ error: 'invalid_request', message: `meal_type must be one of ${MEAL_TYPES.join(', ')}` });
+        return;
+      }
+      const { uploads, error: imageError } = collectMealImageUploads(fileRequest.files, image_roles);
+      if (imageError || !uploads) {
+        res.status(400).json({ error: 'invalid_request', message: imageError });
+        return;
+      }
       const userInfo = await ensureUserInfo(authReq.user.id, {
         name: authReq.user.name,
         email: authReq.user.email
@@ -31,36 +196,32 @@ export const createMealsRouter = () => {
 
       const meal = await createMeal({
         userId: authReq.user.id,
-        imageUrl: image_url || null,
         label: label || null,
         source,
-        mealTime: meal_time
+        mealTime: meal_time,
+        mealType: meal_type,
+        timeZone: userInfo.timezone
       });
 
-      if (fileRequest.file) {
-        const uploaded = await uploadMealImage(
-          authReq.user.id,
-          meal.id,
-          fileRequest.file.buffer,
-          fileRequest.file.mimetype
-        );
-        const updates: Record<string, any> = {
-          image_url: uploaded.url,
-          updated_at: new Date().toISOString()
-        };
-        if (uploaded.base64) {
-          updates.image_base64 = uploaded.base64;
-          updates.image_mime_type = uploaded.mimeType || fileRequest.file.mimetype;
-        }
-        await updateMeal(meal.id, updates);
-        meal.image_url = uploaded.url;
+      let duplicates: DuplicateMealUpload[] = [];
+      if (uploads.length) {
+        const added = await addMealImages(authReq.user.id, meal.id, uploads);
+        meal.images = added.images;
+        meal.image_url = meal.image_url || added.images.find(image => image.role === 'primary')?.url || added.images[0].url;
+        meal.duplicate_of_meal_id = added.duplicates[0]?.meal_id ?? null;
+        duplicates = added.duplicates;
       }
 
       res.status(201).json({
-        ...meal,
-        timezone: userInfo.timezone
+        ...(await withSignedImageUrls(meal)),
+        timezone: userInfo.timezone,
+        duplicate_warning: formatDuplicateWarning(duplicates)
       });
     } catch (error) {
+      if ((error as Error)?.message === 'Meal image storage is unavailable') {
+        res.status(503).json({ error: 'service_unavailable', message: 'Meal image storage is unavailable' });
+        return;
+      }
       logger.error({ err: error }, 'Failed to create meal');
       res.status(500).json({ error: 'internal_error', message: 'Meal creation failed' });
     }
@@ -80,9 +241,24 @@ export const createMealsRouter = () => {
         protein_g,
         carbs_g,
         fat_g,
-        label
+        label,
+        meal_type
       } = req.body || {};
 
+      if (meal_type !== undefined && !isMealType(meal_type)) {
+        res.status(400).json({ error: 'invalid_request', message: `meal_type must be one of ${MEAL_TYPES.join(', ')}` });
+        return;
+      }
+
+      // Fiber, sugar, sodium and micronutrients are optional; invalid values are ignored.
+      const extendedNutrients: Partial<ExtendedNutrients> = {};
+      EXTENDED_NUTRIENT_KEYS.forEach(key => {
+        const value = Number(req.body?.[key]);
+        if (req.body?.[key] !== undefined && req.body?.[key] !== null && Number.isFinite(value)) {
+          extendedNutrients[key] = Math.max(value, 0);
+        }
+      });
+
       const caloriesValue = Number(calories ?? 0);
       const proteinValue = Number(protein_g ?? 0);
       const carbsValue = Number(carbs_g ?? 0);
@@ -113,6 +289,8 @@ export const createMealsRouter = () => {
         userId: authReq.user.id,
         source: 'manual',
         mealTime: mealTime.toISOString(),
+        mealType: meal_type,
+        timeZone: userInfo.timezone,
         label: label || null
       });
 
@@ -121,17 +299,11 @@ export const createMealsRouter = () => {
         protein_g: Number.isFinite(proteinValue) ? Math.max(proteinValue, 0) : 0,
         carbs_g: Number.isFinite(carbsValue) ? Math.max(carbsValue, 0) : 0,
         fat_g: Number.isFinite(fatValue) ? Math.max(fatValue, 0) : 0,
+        ...extendedNutrients,
         label: label || null
       });
 
-      const totals = await confirmMeal(meal.id);
-      const date = formatDateInTimeZone(mealTime, userInfo.timezone || 'UTC');
-      const stats = await incrementDailyStats(userInfo, date, {
-        calories_consumed: totals.calories || 0,
-        protein_consumed_g: totals.protein_g || 0,
-        carbs_consumed_g: totals.carbs_g || 0,
-        fat_consumed_g: totals.fat_g || 0
-      });
+      const { totals, daily_stats: stats } = await confirmMeal(userInfo, meal.id);
 
       res.status(201).json({
         ok: true,
@@ -145,6 +317,225 @@ export const createMealsRouter = () => {
     }
   });
 
+  router.post('/from-foods', authenticateToken, async (req, res) => {
+    try {
+      const authReq = req as AuthRequest;
+      if (!authReq.user) {
+        res.status(401).json({ error: 'access_denied', message: 'Authentication required' });
+        return;
+      }
+
+      const { items, meal_time, label, meal_type } = req.body || {};
+      if (!Array.isArray(items) || items.length === 0) {
+        res.status(400).json({ error: 'invalid_request', message: 'items are required' });
+        return;
+      }
+      if (meal_type !== undefined && !isMealType(meal_type)) {
+        res.status(400).json({ error: 'invalid_request', message: `meal_type must be one of ${MEAL_TYPES.join(', ')}` });
+        return;
+      }
+      if (items.some((item: FoodPortionInput) => typeof item?.food_id !== 'string')) {
+        res.status(400).json({ error: 'invalid_request', message: 'Each item requires a food_id' });
+        return;
+      }
+
+      const userInfo = await ensureUserInfo(authReq.user.id, {
+        name: authReq.user.name,
+        email: authReq.user.email
+      });
+
+      let portions;
+      try {
+        portions = await Promise.all(
+          items.map((item: FoodPortionInput) => resolveFoodPortion(item, userInfo.language, userInfo.id))
+        );
+      } catch (error) {
+        res.status(400).json({ error: 'invalid_request', message: (error as Error).message });
+        return;
+      }
+
+      const result = await logMealWithItems(userInfo, {
+        source: 'manual',
+        label: label || null,
+        mealTime: resolveMealTime(meal_time),
+        mealType: meal_type,
+        items: portions
+      });
+
+      res.status(201).json({
+        ok: true,
+        meal_id: result.meal.id,
+        items: result.items,
+        totals: result.totals,
+        daily_stats: result.daily_stats
+      });
+    } catch (error) {
+      logger.error({ err: error }, 'Food-based meal logging failed');
+      res.status(500).json({ error: 'internal_error', message: 'Food-based meal logging failed' });
+    }
+  });
+
+  router.post('/analyze-text', authenticateToken, async (req, res) => {
+    try {
+      const authReq = req as AuthRequest;
+      if (!authReq.user) {
+        res.status(401).json({ error: 'access_denied', message: 'Authentication required' });
+        return;
+      }
+
+      const { description, meal_time, meal_type, label } = req.body || {};
+      if (typeof description !== 'string' || description.trim() === '') {
+        res.status(400).json({ error: 'invalid_request', message: 'description is required' });
+        return;
+      }
+      if (description.length > MAX_MEAL_DESCRIPTION_LENGTH) {
+        res.status(400).json({
+          error: 'invalid_request',
+          message: `description must be at most ${MAX_MEAL_DESCRIPTION_LENGTH} characters`
+        });
+        return;
+      }
+      if (meal_type !== undefined && !isMealType(meal_type)) {
+        res.status(400).json({ error: 'invalid_request', message: `meal_type must be one of ${MEAL_TYPES.join(', ')}` });
+        return;
+      }
+      const model = req.body?.model ?? DEFAULT_ANALYSIS_MODEL;
+      if (!isAllowedAnalysisModel(model)) {
+        res.status(400).json({ error: 'invalid_request', message: INVALID_MODEL_MESSAGE });
+        return;
+      }
+
+      const userInfo = await ensureUserInfo(authReq.user.id, {
+        name: authReq.user.name,
+        email: authReq.user.email
+      });
+
+      const meal = await createMeal({
+        userId: authReq.user.id,
+        label: label || null,
+        description: description.trim(),
+        source: 'text',
+        mealTime: resolveMealTime(meal_time),
+        mealType: meal_type,
+        timeZone: userInfo.timezone
+      });
+
+      const options = req.body?.options || {};
+      const result = await analyzeMeal(meal.id, model, options.language || userInfo.language || 'tr');
+
+      res.status(201).json({
+        meal_id: meal.id,
+        ...formatAnalysisResponse(result)
+      });
+    } catch (error) {
+      sendAnalysisError(res, error);
+    }
+  });
+
+  router.get('/templates', authenticateToken, async (req, res) => {
+    try {
+      const authReq = req as AuthRequest;
+      if (!authReq.user) {
+        res.status(401).json({ error: 'access_denied', message: 'Authentication required' });
+        return;
+      }
+
+      const templates = await listMealTemplates(authReq.user.id);
+      res.json({ templates });
+    } catch (error) {
+      logger.error({ err: error }, 'Failed to list meal templates');
+      res.status(500).json({ error: 'internal_error', message: 'Failed to list meal templates' });
+    }
+  });
+
+  router.post('/templates', authenticateToken, async (req, res) => {
+    try {
+      const authReq = req as AuthRequest;
+      if (!authReq.user) {
+        res.status(401).json({ error: 'access_denied', message: 'Authentication required' });
+        return;
+      }
+
+      const { meal_id, name } = req.body || {};
+      if (typeof meal_id !== 'string' || !meal_id) {
+        res.status(400).json({ error: 'invalid_request', message: 'meal_id is required' });
+        return;
+      }
+
+      const userInfo = await ensureUserInfo(authReq.user.id, {
+        name: authReq.user.name,
+        email: authReq.user.email
+      });
+      const template = await createMealTemplateFromMeal(
+        userInfo,
+        meal_id,
+        typeof name === 'string' && name.trim() ? name.trim() : undefined
+      );
+      res.status(201).json(template);
+    } catch (error) {
+      if (isNotFoundError(error)) {
+        res.status(404).json({ error: 'not_found', message: (error as Error).message });
+        return;
+      }
+      if (isUnconfirmedMealError(error)) {
+        res.status(400).json({ error: 'invalid_request', message: (error as Error).message });
+        return;
+      }
+      logger.error({ err: error }, 'Failed to create meal template');
+      res.status(500).json({ error: 'internal_error', message: 'Failed to create meal template' });
+    }
+  });
+
+  router.delete('/templates/:templateId', authenticateToken, async (req, res) => {
+    try {
+      const authReq = req as AuthRequest;
+      if (!authReq.user) {
+        res.status(401).json({ error: 'access_denied', message: 'Authentication required' });
+        return;
+      }
+
+      await deleteMealTemplate(authReq.user.id, req.params.templateId);
+      res.json({ ok: true });
+    } catch (error) {
+      if (isNotFoundError(error)) {
+        res.status(404).json({ error: 'not_found', message: (error as Error).message });
+        return;
+      }
+      logger.error({ err: error }, 'Failed to delete meal template');
+      res.status(500).json({ error: 'internal_error', message: 'Failed to delete meal template' });
+    }
+  });
+
+  router.post('/from-template/:templateId', authenticateToken, async (req, res) => {
+    try {
+      const authReq = req as AuthRequest;
+      if (!authReq.user) {
+        res.status(401).json({ error: 'access_denied', message: 'Authentication required' });
+        return;
+      }
+
+      const userInfo = await ensureUserInfo(authReq.user.id, {
+        name: authReq.user.name,
+        email: authReq.user.email
+      });
+      const result = await logMealFromTemplate(userInfo, req.params.templateId, resolveMealTime(req.body?.meal_time));
+      res.status(201).json({
+        ok: true,
+        meal_id: result.meal.id,
+        items: result.items,
+        totals: result.totals,
+        daily_stats: result.daily_stats
+      });
+    } catch (error) {
+      if (isNotFoundError(error)) {
+        res.status(404).json({ error: 'not_found', message: (error as Error).message });
+        return;
+      }
+      logger.error({ err: error }, 'Failed to log meal from template');
+      res.status(500).json({ error: 'internal_error', message: 'Failed to log meal from template' });
+    }
+  });
+
   router.get('/', authenticateToken, async (req, res) => {
     try {
       const authReq = req as AuthRequest;
@@ -162,87 +553,468 @@ export const createMealsRouter = () => {
         : formatDateInTimeZone(new Date(), userInfo.timezone || 'UTC');
 
       const { start, end } = getUtcRangeForDate(date, userInfo.timezone || 'UTC');
-      const meals = await listMealsForDate(authReq.user.id, start, end);
+      const meals = await Promise.all((await listMealsForDate(authReq.user.id, start, end)).map(withSignedImageUrls));
 
-      res.json({ date, meals });
+      res.json({ date, meals, meals_by_type: groupMealsByType(meals, userInfo.timezone || 'UTC') });
     } catch (error) {
       logger.error({ err: error }, 'Failed to list meals');
       res.status(500).json({ error: 'internal_error', message: 'Failed to list meals' });
     }
   });
 
-  router.get('/:id', authenticateToken, async (req, res) => {
+  router.get('/:id', authenticateToken, requireMealOwnership, async (req, res) => {
     try {
       const meal = await getMeal(req.params.id);
       if (!meal) {
         res.status(404).json({ error: 'not_found', message: 'Meal not found' });
         return;
       }
-      res.json(meal);
+      res.json(await withSignedImageUrls(meal));
     } catch (error) {
       logger.error({ err: error }, 'Failed to fetch meal');
       res.status(500).json({ error: 'internal_error', message: 'Failed to fetch meal' });
     }
   });
 
-  router.patch('/:id', authenticateToken, async (req, res) => {
+  router.patch('/:id', authenticateToken, requireMealOwnership, async (req, res) => {
     try {
-      const updates = req.body || {};
-      await updateMeal(req.params.id, updates);
-      res.json({ ok: true });
+      const authReq = req as AuthRequest;
+      if (!authReq.user) {
+        res.status(401).json({ error: 'access_denied', message: 'Authentication required' });
+        return;
+      }
+
+      const { updates, errors } = sanitizeMealUpdates(req.body || {});
+      if (errors.length) {
+        res.status(400).json({ error: 'invalid_request', message: errors.join(', ') });
+        return;
+      }
+
+      const userInfo = await ensureUserInfo(authReq.user.id, {
+        name: authReq.user.name,
+        email: authReq.user.email
+      });
+      const result = await editMeal(userInfo, req.params.id, updates);
+      res.json({ ok: true, meal: result.meal, daily_stats: result.daily_stats });
     } catch (error) {
+      if (isNotFoundError(error)) {
+        res.status(404).json({ error: 'not_found', message: (error as Error).message });
+        return;
+      }
+      if ((error as Error)?.message === MEAL_TOTALS_FROM_ITEMS_ERROR) {
+        res.status(409).json({ error: 'conflict', message: MEAL_TOTALS_FROM_ITEMS_ERROR });
+        return;
+      }
       logger.error({ err: error }, 'Failed to update meal');
       res.status(500).json({ error: 'internal_error', message: 'Failed to update meal' });
     }
   });
 
-  router.post('/:id/analyze', authenticateToken, async (req, res) => {
+  router.delete('/:id', authenticateToken, requireMealOwnership, async (req, res) => {
     try {
       const authReq = req as AuthRequest;
       if (!authReq.user) {
         res.status(401).json({ error: 'access_denied', message: 'Authentication required' });
         return;
       }
+
       const userInfo = await ensureUserInfo(authReq.user.id, {
         name: authReq.user.name,
         email: authReq.user.email
       });
+      const result = await deleteMeal(userInfo, req.params.id);
+      res.json({ ok: true, daily_stats: result.daily_stats });
+    } catch (error) {
+      if (isNotFoundError(error)) {
+        res.status(404).json({ error: 'not_found', message: (error as Error).message });
+        return;
+      }
+      logger.error({ err: error }, 'Failed to delete meal');
+      res.status(500).json({ error: 'internal_error', message: 'Failed to delete meal' });
+    }
+  });
 
-      const model = req.body?.model || process.env.GEMINI_MODEL || 'gemini-2.5-flash';
+  router.get('/:id/items', authenticateToken, requireMealOwnership, async (req, res) => {
+    try {
+      const meal = await getMeal(req.params.id);
+      if (!meal) {
+        res.status(404).json({ error: 'not_found', message: 'Meal not found' });
+        return;
+      }
+      const items = await listMealItems(req.params.id);
+      res.json({ items });
+    } catch (error) {
+      logger.error({ err: error }, 'Failed to list meal items');
+      res.status(500).json({ error: 'internal_error', message: 'Failed to list meal items' });
+    }
+  });
+
+  router.post('/:id/items', authenticateToken, requireMealOwnership, async (req, res) => {
+    try {
+      const authReq = req as AuthRequest;
+      if (!authReq.user) {
+        res.status(401).json({ error: 'access_denied', message: 'Authentication required' });
+        return;
+      }
+
+      const { input, errors } = sanitizeMealItemInput(req.body || {}, { requireAll: true });
+      if (errors.length) {
+        res.status(400).json({ error: 'invalid_request', message: errors.join(', ') });
+        return;
+      }
+
+      const userInfo = await ensureUserInfo(authReq.user.id, {
+        name: authReq.user.name,
+        email: authReq.user.email
+      });
+      const result = await addMealItem(userInfo, req.params.id, input);
+      res.status(201).json({ ok: true, ...result });
+    } catch (error) {
+      if (isNotFoundError(error)) {
+        res.status(404).json({ error: 'not_found', message: (error as Error).message });
+        return;
+      }
+      logger.error({ err: error }, 'Failed to add meal item');
+      res.status(500).json({ error: 'internal_error', message: 'Failed to add meal item' });
+    }
+  });
+
+  router.patch('/:id/items/:itemId', authenticateToken, requireMealOwnership, async (req, res) => {
+    try {
+      const authReq = req as AuthRequest;
+      if (!authReq.user) {
+        res.status(401).json({ error: 'access_denied', message: 'Authentication required' });
+        return;
+      }
+
+      const { input, errors } = sanitizeMealItemInput(req.body || {}, { requireAll: false });
+      if (errors.length) {
+        res.status(400).json({ error: 'invalid_request', message: errors.join(', ') });
+        return;
+      }
+
+      const userInfo = await ensureUserInfo(authReq.user.id, {
+        name: authReq.user.name,
+        email: authReq.user.email
+      });
+      const result = await updateMealItem(userInfo, req.params.id, req.params.itemId, input);
+      res.json({ ok: true, ...result });
+    } catch (error) {
+      if (isNotFoundError(error)) {
+        res.status(404).json({ error: 'not_found', message: (error as Error).message });
+        return;
+      }
+      logger.error({ err: error }, 'Failed to update meal item');
+      res.status(500).json({ error: 'internal_error', message: 'Failed to update meal item' });
+    }
+  });
+
+  router.delete('/:id/items/:itemId', authenticateToken, requireMealOwnership, async (req, res) => {
+    try {
+      const authReq = req as AuthRequest;
+      if (!authReq.user) {
+        res.status(401).json({ error: 'access_denied', message: 'Authentication required' });
+        return;
+      }
+
+      const userInfo = await ensureUserInfo(authReq.user.id, {
+        name: authReq.user.name,
+        email: authReq.user.email
+      });
+      const result = await deleteMealItem(userInfo, req.params.id, req.params.itemId);
+      res.json({ ok: true, ...result });
+    } catch (error) {
+      if (isNotFoundError(error)) {
+        res.status(404).json({ error: 'not_found', message: (error as Error).message });
+        return;
+      }
+      logger.error({ err: error }, 'Failed to delete meal item');
+      res.status(500).json({ error: 'internal_error', message: 'Failed to delete meal item' });
+    }
+  });
+
+  router.post('/:id/images', authenticateToken, requireMealOwnership, mealImageFields, async (req, res) => {
+    try {
+      const authReq = req as AuthRequest;
+      const fileRequest = req as Request & { files?: MealImageFiles };
+      if (!authReq.user) {
+        res.status(401).json({ error: 'access_denied', message: 'Authentication required' });
+        return;
+      }
+
+      const meal = await getMeal(req.params.id);
+      if (!meal || meal.user_id !== authReq.user.id) {
+        res.status(404).json({ error: 'not_found', message: 'Meal not found' });
+        return;
+      }
+      if (meal.status === 'confirmed') {
+        res.status(400).json({ error: 'invalid_request', message: 'Images cannot be added to a confirmed meal' });
+        return;
+      }
+
+      const { uploads, error: imageError } = collectMealImageUploads(
+        fileRequest.files,
+        req.body?.image_roles,
+        (meal.images || []).map((image: MealImage) => image.role)
+      );
+      if (imageError || !uploads) {
+        res.status(400).json({ error: 'invalid_request', message: imageError });
+        return;
+      }
+      if (!uploads.length) {
+        res.status(400).json({ error: 'invalid_request', message: 'At least one image is required' });
+        return;
+      }
+
+      const { images, duplicates } = await addMealImages(authReq.user.id, meal.id, uploads);
+      const signed = await withSignedImageUrls({ id: meal.id, images });
+      res.status(201).json({ meal_id: meal.id, images: signed.images, duplicate_warning: formatDuplicateWarning(duplicates) });
+    } catch (error) {
+      const message = (error as Error)?.message || '';
+      if (message.startsWith('A meal can have at most')) {
+        res.status(400).json({ error: 'invalid_request', message });
+        return;
+      }
+      if (message === 'Meal image storage is unavailable') {
+        res.status(503).json({ error: 'service_unavailable', message });
+        return;
+      }
+      logger.error({ err: error }, 'Failed to add meal images');
+      res.status(500).json({ error: 'internal_error', message: 'Adding meal images failed' });
+    }
+  });
+
+  router.post('/:id/duplicate', authenticateToken, requireMealOwnership, async (req, res) => {
+    try {
+      const authReq = req as AuthRequest;
+      if (!authReq.user) {
+        res.status(401).json({ error: 'access_denied', message: 'Authentication required' });
+        return;
+      }
+
+      const userInfo = await ensureUserInfo(authReq.user.id, {
+        name: authReq.user.name,
+        email: authReq.user.email
+      });
+      const result = await duplicateMeal(userInfo, req.params.id, resolveMealTime(req.body?.meal_time));
+      res.status(201).json({
+        ok: true,
+        meal_id: result.meal.id,
+        items: result.items,
+        totals: result.totals,
+        daily_stats: result.daily_stats
+      });
+    } catch (error) {
+      if (isNotFoundError(error)) {
+        res.status(404).json({ error: 'not_found', message: (error as Error).message });
+        return;
+      }
+      if (isUnconfirmedMealError(error)) {
+        res.status(400).json({ error: 'invalid_request', message: (error as Error).message });
+        return;
+      }
+      logger.error({ err: error }, 'Failed to duplicate meal');
+      res.status(500).json({ error: 'internal_error', message: 'Failed to duplicate meal' });
+    }
+  });
+
+  router.post('/:id/analyze', authenticateToken, requireMealOwnership, async (req, res) => {
+    try {
+      const authReq = req as AuthRequest;
+      if (!authReq.user) {
+        res.status(401).json({ error: 'access_denied', message: 'Authentication required' });
+        return;
+      }
+      const userInfo = await ensureUserInfo(authReq.user.id, {
+        name: authReq.user.name,
+        email: authReq.user.email
+      });
+
+      const model = req.body?.model ?? DEFAULT_ANALYSIS_MODEL;
+      if (!isAllowedAnalysisModel(model)) {
+        res.status(400).json({ error: 'invalid_request', message: INVALID_MODEL_MESSAGE });
+        return;
+      }
+      const options = req.body?.options || {};
+      const language = options.language || userInfo.language || 'tr';
+      if (options.mode !== undefined && !ANALYSIS_MODES.includes(options.mode)) {
+        res.status(400).json({ error: 'invalid_request', message: `options.mode must be one of ${ANALYSIS_MODES.join(', ')}` });
+        return;
+      }
+
+      const meal = await getMeal(req.params.id);
+      const mode: AnalysisMode = options.mode || (meal?.source === 'label' ? 'label' : 'plate');
+
+      const isAsync = req.body?.async === true || req.query.mode === 'async';
+      if (isAsync) {
+        if (!meal) {
+          res.status(404).json({ error: 'not_found', message: 'Meal not found' });
+          return;
+        }
+        const job = await enqueueMealAnalysis({
+          userId: authReq.user.id,
+          mealId: req.params.id,
+          model,
+          language,
+          mode
+        });
+        res.status(202).json({
+          job_id: job.id,
+          meal_id: job.meal_id,
+          status: job.status,
+          poll_url: `${req.baseUrl}/${job.meal_id}/analysis-jobs/${job.id}`
+        });
+        return;
+      }
+
+      if (mode === 'label') {
+        const label = await analyzeNutritionLabelMeal(req.params.id, model, language);
+        res.json(
+          formatLabelAnalysisResponse(label, findDietaryConflicts(userInfo, [{ name: label.raw.product_name, ...label.raw }]))
+        );
+        return;
+      }
+
+      const result = await analyzeMeal(req.params.id, model, language);
+
+      res.json(formatAnalysisResponse(result, findDietaryConflicts(userInfo, result.raw.items)));
+    } catch (error) {
+      sendAnalysisError(res, error);
+    }
+  });
+
+  router.post('/:id/analyze/compare', authenticateToken, requireMealOwnership, async (req, res) => {
+    try {
+      const authReq = req as AuthRequest;
+      if (!authReq.user) {
+        res.status(401).json({ error: 'access_denied', message: 'Authentication required' });
+        return;
+      }
+
+      const models = req.body?.models ?? DEFAULT_COMPARISON_MODELS;
+      if (
+        !Array.isArray(models)
+        || models.length < 2
+        || models.length > MAX_COMPARISON_MODELS
+        || new Set(models).size !== models.length
+      ) {
+        res.status(400).json({
+          error: 'invalid_request',
+          message: `models must list 2 to ${MAX_COMPARISON_MODELS} different model names`
+        });
+        return;
+      }
+      if (!models.every(isAllowedAnalysisModel)) {
+        res.status(400).json({ error: 'invalid_request', message: `models must each be one of ${ALLOWED_ANALYSIS_MODELS.join(', ')}` });
+        return;
+      }
+
+      const userInfo = await ensureUserInfo(authReq.user.id, {
+        name: authReq.user.name,
+        email: authReq.user.email
+      });
       const options = req.body?.options || {};
-      const result = await analyzeMeal(req.params.id, model, options.language || userInfo.language || 'tr');
+      const language = options.language || userInfo.language || 'tr';
+
+      const comparison = await compareMealAnalyses(req.params.id, models, language);
 
       res.json({
-        calories: result.raw.total_calories,
-        macros: {
-          protein_g: result.raw.total_macros?.p || 0,
-          carbs_g: result.raw.total_macros?.c || 0,
-          fat_g: result.raw.total_macros?.f || 0
-        },
-        protein: result.raw.total_macros?.p || 0,
-        carbs: result.raw.total_macros?.c || 0,
-        fat: result.raw.total_macros?.f || 0,
-        items: result.raw.items || [],
-        confidence: result.raw.confidence || 0,
-        health_score: result.raw.health_score ?? null,
-        coach_note: result.raw.coach_note ?? null,
-        analysis_result_id: result.analysis.id
+        meal_id: req.params.id,
+        comparison_id: comparison.comparisonId,
+        results: comparison.results.map(result =>
+          formatAnalysisResponse(result, findDietaryConflicts(userInfo, result.raw.items))
+        ),
+        failures: comparison.failures
       });
     } catch (error) {
-      const message = (error as Error)?.message || 'Meal analysis failed';
-      const lower = message.toLowerCase();
-      const isConfigIssue = lower.includes('gemini_api_key');
-      const isInputIssue = lower.includes('image') || lower.includes('meal');
-      const status = isConfigIssue ? 503 : isInputIssue ? 400 : 500;
-      logger.error({ err: error }, 'Meal analysis failed');
-      res.status(status).json({
-        error: isConfigIssue ? 'service_unavailable' : isInputIssue ? 'invalid_request' : 'internal_error',
-        message
+      sendAnalysisError(res, error);
+    }
+  });
+
+  router.post('/:id/analysis/:resultId/answers', authenticateToken, requireMealOwnership, async (req, res) => {
+    try {
+      const authReq = req as AuthRequest;
+      if (!authReq.user) {
+        res.status(401).json({ error: 'access_denied', message: 'Authentication required' });
+        return;
+      }
+
+      const answers = req.body?.answers;
+      const isValidAnswer = (answer: any) =>
+        typeof answer?.question_id === 'string'
+        && (typeof answer.option_id === 'string'
+          || (typeof answer.text === 'string'
+            && answer.text.trim() !== ''
+            && answer.text.length <= MAX_CLARIFICATION_TEXT_LENGTH));
+      if (!Array.isArray(answers) || !answers.length || answers.length > MAX_CLARIFICATION_ANSWERS || !answers.every(isValidAnswer)) {
+        res.status(400).json({
+          error: 'invalid_request',
+          message: `answers must list 1 to ${MAX_CLARIFICATION_ANSWERS} entries with a question_id and an option_id or text`
+        });
+        return;
+      }
+      const model = req.body?.model;
+      if (model !== undefined && !isAllowedAnalysisModel(model)) {
+        res.status(400).json({ error: 'invalid_request', message: INVALID_MODEL_MESSAGE });
+        return;
+      }
+
+      const userInfo = await ensureUserInfo(authReq.user.id, {
+        name: authReq.user.name,
+        email: authReq.user.email
+      });
+      const options = req.body?.options || {};
+      const language = options.language || userInfo.language || 'tr';
+
+      const result = await answerClarifyingQuestions(req.params.id, req.params.resultId, answers, language, model);
+
+      res.status(201).json(formatAnalysisResponse(result, findDietaryConflicts(userInfo, result.raw.items)));
+    } catch (error) {
+      if (isNotFoundError(error)) {
+        res.status(404).json({ error: 'not_found', message: (error as Error).message });
+        return;
+      }
+      if (isClarificationError(error)) {
+        res.status(400).json({ error: 'invalid_request', message: (error as Error).message });
+        return;
+      }
+      sendAnalysisError(res, error);
+    }
+  });
+
+  router.get('/:id/analysis-jobs/:jobId', authenticateToken, requireMealOwnership, async (req, res) => {
+    try {
+      const authReq = req as AuthRequest;
+      if (!authReq.user) {
+        res.status(401).json({ error: 'access_denied', message: 'Authentication required' });
+        return;
+      }
+
+      const job = await getAnalysisJob(authReq.user.id, req.params.id, req.params.jobId);
+      if (!job) {
+        res.status(404).json({ error: 'not_found', message: 'Analysis job not found' });
+        return;
+      }
+
+      res.json({
+        job_id: job.id,
+        meal_id: job.meal_id,
+        status: job.status,
+        attempts: job.attempts,
+        max_attempts: job.max_attempts,
+        result: job.result,
+        error: job.error,
+        created_at: job.created_at,
+        started_at: job.started_at,
+        finished_at: job.finished_at
       });
+    } catch (error) {
+      logger.error({ err: error }, 'Failed to fetch analysis job');
+      res.status(500).json({ error: 'internal_error', message: 'Analysis job lookup failed' });
     }
   });
 
-  router.post('/:id/confirm', authenticateToken, async (req, res) => {
+  router.post('/:id/confirm', authenticateToken, requireMealOwnership, async (req, res) => {
     try {
       const authReq = req as AuthRequest;
       if (!authReq.user) {
@@ -253,16 +1025,30 @@ export const createMealsRouter = () => {
         name: authReq.user.name,
         email: authReq.user.email
       });
-      const totals = await confirmMeal(req.params.id, req.body?.analysisResultId);
-      const meal = await getMeal(req.params.id);
-      const mealTime = meal?.meal_time ? new Date(meal.meal_time) : new Date();
-      const date = formatDateInTimeZone(mealTime, userInfo.timezone || 'UTC');
+      const { servings, grams } = req.body || {};
+      const servingsValue = servings === undefined ? undefined : Number(servings);
+      const gramsValue = grams === undefined ? undefined : Number(grams);
+      if (
+        (servingsValue !== undefined && (!Number.isFinite(servingsValue) || servingsValue <= 0))
+        || (gramsValue !== undefined && (!Number.isFinite(gramsValue) || gramsValue <= 0))
+      ) {
+        res.status(400).json({ error: 'invalid_request', message: 'servings and grams must be positive numbers' });
+        return;
+      }
 
-      const stats = await incrementDailyStats(userInfo, date, {
-        calories_consumed: totals.calories || 0,
-        protein_consumed_g: totals.protein_g || 0,
-        carbs_consumed_g: totals.carbs_g || 0,
-        fat_consumed_g: totals.fat_g || 0
+      let editedItems: ConfirmedMealItemInput[] | undefined;
+      if (req.body?.items !== undefined) {
+        const { items, errors } = sanitizeConfirmedItems(req.body.items);
+        if (errors.length) {
+          res.status(400).json({ error: 'invalid_request', message: errors.join(', ') });
+          return;
+        }
+        editedItems = items;
+      }
+
+      const { daily_stats: stats } = await confirmMeal(userInfo, req.params.id, req.body?.analysisResultId, {
+        labelPortion: { servings: servingsValue, grams: gramsValue },
+        items: editedItems
       });
 
       res.json({
@@ -270,6 +1056,14 @@ export const createMealsRouter = () => {
         daily_stats: stats
       });
     } catch (error) {
+      if (isNotFoundError(error)) {
+        res.status(404).json({ error: 'not_found', message: (error as Error).message });
+        return;
+      }
+      if (isLabelPortionError(error)) {
+        res.status(400).json({ error: 'invalid_request', message: (error as Error).message });
+        return;
+      }
       logger.error({ err: error }, 'Meal confirm failed');
       res.status(500).json({ error: 'internal_error', message: 'Meal confirmation failed' });
     }
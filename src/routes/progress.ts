@@ -1,11 +1,63 @@
 import { Router } from 'express';
 import { authenticateToken, AuthRequest } from '../middleware/authMiddleware';
+import { OwnedResourceRequest, requireExerciseOwnership } from '../middleware/ownershipMiddleware';
 import { ensureUserInfo, getUserInfo, updateUserInfo } from '../server/fitcal/services/userInfoService';
-import { formatDateInTimeZone } from '../server/fitcal/utils/timezone';
-import { getOrCreateDailyStats, getWeeklyStats, incrementDailyStats, logWater } from '../server/fitcal/services/progressService';
+import {
+  countDaysInRange,
+  formatDateInTimeZone,
+  getUtcRangeForDate,
+  isValidDateString,
+  WEEK_DAYS
+} from '../server/fitcal/utils/timezone';
+import {
+  getEnergyBalance,
+  getMonthlyStats,
+  getOrCreateDailyStats,
+  getProgressForRange,
+  getWeeklyStats,
+  incrementDailyStats,
+  logWater,
+  MAX_PROGRESS_RANGE_DAYS,
+  setDailySteps
+} from '../server/fitcal/services/progressService';
+import { listMealsForDate, summarizeMealsByType } from '../server/fitcal/services/mealService';
+import { sanitizeDietaryRestrictions } from '../server/fitcal/services/dietaryService';
+import {
+  deleteExercise,
+  ExerciseLog,
+  listExercisesForDate,
+  logExercise,
+  sanitizeExerciseInput
+} from '../server/fitcal/services/exerciseService';
+import { importHealthSamples, sanitizeHealthSamples } from '../server/fitcal/services/healthImportService';
+import { getWeightHistory, logWeight, MAX_WEIGHT_KG, MIN_WEIGHT_KG } from '../server/fitcal/services/weightService';
 import { logger } from '../utils/logger';
 import { attachRouteLogger } from '../utils/routeLogger';
 
+const DAY_MS = 24 * 60 * 60_000;
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DEFAULT_WEIGHT_HISTORY_DAYS = 90;
+const MAX_WEIGHT_HISTORY_DAYS = 2 * 366;
+const MAX_WEIGHT_NOTE_LENGTH = 200;
+const MAX_DAILY_STEPS = 200_000;
+// Allows for small clock differences between the device and the server.
+const FUTURE_TOLERANCE_MS = 5 * 60_000;
+
+/**
+ * Reads a `from`/`to` query value. A date-only value covers the whole day in the user's time zone;
+ * anything else is parsed as a timestamp (an invalid value yields an invalid Date).
+ */
+const parseRangeBound = (value: unknown, timeZone: string, edge: 'start' | 'end') => {
+  if (value === undefined) {
+    return null;
+  }
+  if (typeof value === 'string' && DATE_ONLY_PATTERN.test(value)) {
+    const { start, end } = getUtcRangeForDate(value, timeZone);
+    return edge === 'start' ? start : new Date(end.getTime() - 1);
+  }
+  return new Date(typeof value === 'string' ? value : NaN);
+};
+
 export const createProgressRouter = () => {
   const router = Router();
   attachRouteLogger(router, 'fitcal-progress');
@@ -25,9 +77,23 @@ export const createProgressRouter = () => {
       const date = typeof req.query.date === 'string'
         ? req.query.date
         : formatDateInTimeZone(new Date(), userInfo.timezone || 'UTC');
+      // The query parameter overrides the saved preference for a single request.
+      const addExerciseCalories = req.query.add_exercise_calories === undefined
+        ? userInfo.add_exercise_calories ?? false
+        : req.query.add_exercise_calories === 'true';
 
-      const daily = await getOrCreateDailyStats(userInfo, date);
-      res.json(daily);
+      const { start, end } = getUtcRangeForDate(date, userInfo.timezone || 'UTC');
+      const [daily, meals, exercises] = await Promise.all([
+        getOrCreateDailyStats(userInfo, date),
+        listMealsForDate(authReq.user.id, start, end),
+        listExercisesForDate(userInfo, date)
+      ]);
+      res.json({
+        ...daily,
+        ...getEnergyBalance(daily, addExerciseCalories),
+        meal_types: summarizeMealsByType(meals, userInfo.timezone || 'UTC'),
+        exercises
+      });
     } catch (error) {
       logger.error({ err: error }, 'Failed to fetch daily stats');
       res.status(500).json({ error: 'internal_error', message: 'Failed to fetch daily stats' });
@@ -42,15 +108,21 @@ export const createProgressRouter = () => {
         return;
       }
 
+      // Any date inside the week works; `weekStart` is kept for older clients.
+      const date = req.query.date ?? req.query.weekStart;
+      if (date !== undefined && !isValidDateString(date)) {
+        res.status(400).json({ error: 'invalid_request', message: 'date must be YYYY-MM-DD' });
+        return;
+      }
+
       const userInfo = await ensureUserInfo(authReq.user.id, {
         name: authReq.user.name,
         email: authReq.user.email
       });
-      const weekStart = typeof req.query.weekStart === 'string'
-        ? req.query.weekStart
-        : formatDateInTimeZone(new Date(), userInfo.timezone || 'UTC');
-
-      const weekly = await getWeeklyStats(userInfo, weekStart);
+      const weekly = await getWeeklyStats(
+        userInfo,
+        (date as string | undefined) ?? formatDateInTimeZone(new Date(), userInfo.timezone || 'UTC')
+      );
       res.json(weekly);
     } catch (error) {
       logger.error({ err: error }, 'Failed to fetch weekly stats');
@@ -58,6 +130,113 @@ export const createProgressRouter = () => {
     }
   });
 
+  router.get('/monthly', authenticateToken, async (req, res) => {
+    try {
+      const authReq = req as AuthRequest;
+      if (!authReq.user) {
+        res.status(401).json({ error: 'access_denied', message: 'Authentication required' });
+        return;
+      }
+
+      const { month } = req.query;
+      if (month !== undefined && (typeof month !== 'string' || !isValidDateString(`${month}-01`))) {
+        res.status(400).json({ error: 'invalid_request', message: 'month must be YYYY-MM' });
+        return;
+      }
+
+      const userInfo = await ensureUserInfo(authReq.user.id, {
+        name: authReq.user.name,
+        email: authReq.user.email
+      });
+      const monthly = await getMonthlyStats(
+        userInfo,
+        (month as string | undefined) ?? formatDateInTimeZone(new Date(), userInfo.timezone || 'UTC').slice(0, 7)
+      );
+      res.json(monthly);
+    } catch (error) {
+      logger.error({ err: error }, 'Failed to fetch monthly stats');
+      res.status(500).json({ error: 'internal_error', message: 'Failed to fetch monthly stats' });
+    }
+  });
+
+  router.get('/range', authenticateToken, async (req, res) => {
+    try {
+      const authReq = req as AuthRequest;
+      if (!authReq.user) {
+        res.status(401).json({ error: 'access_denied', message: 'Authentication required' });
+        return;
+      }
+
+      const { from, to } = req.query;
+      if (!isValidDateString(from) || !isValidDateString(to)) {
+        res.status(400).json({ error: 'invalid_request', message: 'from and to are required as YYYY-MM-DD' });
+        return;
+      }
+      if (from > to || countDaysInRange(from, to) > MAX_PROGRESS_RANGE_DAYS) {
+        res.status(400).json({
+          error: 'invalid_request',
+          message: `from must not be after to and the range at most ${MAX_PROGRESS_RANGE_DAYS} days`
+        });
+        return;
+      }
+
+      const userInfo = await ensureUserInfo(authReq.user.id, {
+        name: authReq.user.name,
+        email: authReq.user.email
+      });
+      const progress = await getProgressForRange(userInfo, from, to);
+      res.json(progress);
+    } catch (error) {
+      logger.error({ err: error }, 'Failed to fetch progress range');
+      res.status(500).json({ error: 'internal_error', message: 'Failed to fetch progress range' });
+    }
+  });
+
+  router.put('/settings', authenticateToken, async (req, res) => {
+    try {
+      const authReq = req as AuthRequest;
+      if (!authReq.user) {
+        res.status(401).json({ error: 'access_denied', message: 'Authentication required' });
+        return;
+      }
+
+      const { week_start_day, add_exercise_calories } = req.body || {};
+      if (week_start_day === undefined && add_exercise_calories === undefined) {
+        res.status(400).json({ error: 'invalid_request', message: 'week_start_day or add_exercise_calories is required' });
+        return;
+      }
+      if (week_start_day !== undefined && !WEEK_DAYS.includes(week_start_day)) {
+        res.status(400).json({ error: 'invalid_request', message: `week_start_day must be one of ${WEEK_DAYS.join(', ')}` });
+        return;
+      }
+      if (add_exercise_calories !== undefined && typeof add_exercise_calories !== 'boolean') {
+        res.status(400).json({ error: 'invalid_request', message: 'add_exercise_calories must be a boolean' });
+        return;
+      }
+
+      await ensureUserInfo(authReq.user.id, {
+        name: authReq.user.name,
+        email: authReq.user.email
+      });
+      const updates: Record<string, any> = {};
+      if (week_start_day !== undefined) {
+        updates.week_start_day = week_start_day;
+      }
+      if (add_exercise_calories !== undefined) {
+        updates.add_exercise_calories = add_exercise_calories;
+      }
+      const updated = await updateUserInfo(authReq.user.id, updates);
+      res.json({
+        ok: true,
+        week_start_day: updated.week_start_day,
+        add_exercise_calories: updated.add_exercise_calories ?? false
+      });
+    } catch (error) {
+      logger.error({ err: error }, 'Failed to update progress settings');
+      res.status(500).json({ error: 'internal_error', message: 'Failed to update progress settings' });
+    }
+  });
+
   router.post('/weight', authenticateToken, async (req, res) => {
     try {
       const authReq = req as AuthRequest;
@@ -65,20 +244,257 @@ export const createProgressRouter = () => {
         res.status(401).json({ error: 'access_denied', message: 'Authentication required' });
         return;
       }
-      const { weight_kg } = req.body || {};
-      if (!weight_kg) {
+      const { weight_kg, logged_at, note } = req.body || {};
+      if (weight_kg === undefined || weight_kg === null || weight_kg === '') {
         res.status(400).json({ error: 'invalid_request', message: 'weight_kg is required' });
         return;
       }
+      const weightValue = Number(weight_kg);
+      if (!Number.isFinite(weightValue) || weightValue < MIN_WEIGHT_KG || weightValue > MAX_WEIGHT_KG) {
+        res.status(400).json({
+          error: 'invalid_request',
+          message: `weight_kg must be between ${MIN_WEIGHT_KG} and ${MAX_WEIGHT_KG}`
+        });
+        return;
+      }
+      const loggedAt = logged_at === undefined ? new Date() : new Date(logged_at);
+      if (Number.isNaN(loggedAt.getTime()) || loggedAt.getTime() > Date.now() + FUTURE_TOLERANCE_MS) {
+        res.status(400).json({ error: 'invalid_request', message: 'logged_at must be a past ISO date' });
+        return;
+      }
+      if (note !== undefined && note !== null && (typeof note !== 'string' || note.length > MAX_WEIGHT_NOTE_LENGTH)) {
+        res.status(400).json({
+          error: 'invalid_request',
+          message: `note must be a string of at most ${MAX_WEIGHT_NOTE_LENGTH} characters`
+        });
+        return;
+      }
 
-      const updated = await updateUserInfo(authReq.user.id, { current_weight_kg: weight_kg });
-      res.json({ ok: true, user: updated });
+      const userInfo = await ensureUserInfo(authReq.user.id, {
+        name: authReq.user.name,
+        email: authReq.user.email
+      });
+      const result = await logWeight(userInfo, weightValue, loggedAt.toISOString(), note);
+      res.json({ ok: true, ...result });
     } catch (error) {
       logger.error({ err: error }, 'Failed to update weight');
       res.status(500).json({ error: 'internal_error', message: 'Failed to update weight' });
     }
   });
 
+  router.get('/weight', authenticateToken, async (req, res) => {
+    try {
+      const authReq = req as AuthRequest;
+      if (!authReq.user) {
+        res.status(401).json({ error: 'access_denied', message: 'Authentication required' });
+        return;
+      }
+
+      const userInfo = await ensureUserInfo(authReq.user.id, {
+        name: authReq.user.name,
+        email: authReq.user.email
+      });
+      const timeZone = userInfo.timezone || 'UTC';
+      const to = parseRangeBound(req.query.to, timeZone, 'end') ?? new Date();
+      const from = parseRangeBound(req.query.from, timeZone, 'start')
+        ?? new Date(to.getTime() - DEFAULT_WEIGHT_HISTORY_DAYS * DAY_MS);
+      if (Number.isNaN(from.getTime()) || Number.isNaN(to.getTime())) {
+        res.status(400).json({ error: 'invalid_request', message: 'from and to must be dates (YYYY-MM-DD) or ISO timestamps' });
+        return;
+      }
+      if (from > to || to.getTime() - from.getTime() > MAX_WEIGHT_HISTORY_DAYS * DAY_MS) {
+        res.status(400).json({
+          error: 'invalid_request',
+          message: `from must be before to and the range at most ${MAX_WEIGHT_HISTORY_DAYS} days`
+        });
+        return;
+      }
+
+      const history = await getWeightHistory(userInfo, from, to);
+      res.json(history);
+    } catch (error) {
+      logger.error({ err: error }, 'Failed to fetch weight history');
+      res.status(500).json({ error: 'internal_error', message: 'Failed to fetch weight history' });
+    }
+  });
+
+  router.post('/exercise', authenticateToken, async (req, res) => {
+    try {
+      const authReq = req as AuthRequest;
+      if (!authReq.user) {
+        res.status(401).json({ error: 'access_denied', message: 'Authentication required' });
+        return;
+      }
+
+      const { input, errors } = sanitizeExerciseInput(req.body || {});
+      if (errors.length) {
+        res.status(400).json({ error: 'invalid_request', message: errors.join(', ') });
+        return;
+      }
+
+      const userInfo = await ensureUserInfo(authReq.user.id, {
+        name: authReq.user.name,
+        email: authReq.user.email
+      });
+      const result = await logExercise(userInfo, input);
+      res.json({ ok: true, ...result });
+    } catch (error) {
+      logger.error({ err: error }, 'Failed to log exercise');
+      res.status(500).json({ error: 'internal_error', message: 'Failed to log exercise' });
+    }
+  });
+
+  router.get('/exercise', authenticateToken, async (req, res) => {
+    try {
+      const authReq = req as AuthRequest;
+      if (!authReq.user) {
+        res.status(401).json({ error: 'access_denied', message: 'Authentication required' });
+        return;
+      }
+      if (req.query.date !== undefined && !isValidDateString(req.query.date)) {
+        res.status(400).json({ error: 'invalid_request', message: 'date must be YYYY-MM-DD' });
+        return;
+      }
+
+      const userInfo = await ensureUserInfo(authReq.user.id, {
+        name: authReq.user.name,
+        email: authReq.user.email
+      });
+      const date = (req.query.date as string | undefined)
+        ?? formatDateInTimeZone(new Date(), userInfo.timezone || 'UTC');
+      const exercises = await listExercisesForDate(userInfo, date);
+      res.json({
+        date,
+        exercises,
+        calories_burned: exercises.reduce((sum, exercise) => sum + (exercise.calories_burned || 0), 0)
+      });
+    } catch (error) {
+      logger.error({ err: error }, 'Failed to fetch exercises');
+      res.status(500).json({ error: 'internal_error', message: 'Failed to fetch exercises' });
+    }
+  });
+
+  router.delete('/exercise/:id', authenticateToken, requireExerciseOwnership, async (req, res) => {
+    try {
+      const authReq = req as OwnedResourceRequest;
+      if (!authReq.user) {
+        res.status(401).json({ error: 'access_denied', message: 'Authentication required' });
+        return;
+      }
+
+      const userInfo = await ensureUserInfo(authReq.user.id, {
+        name: authReq.user.name,
+        email: authReq.user.email
+      });
+      const result = await deleteExercise(userInfo, authReq.ownedResource as ExerciseLog);
+      res.json({ ok: true, ...result });
+    } catch (error) {
+      if ((error as Error)?.message === 'Exercise not found') {
+        res.status(404).json({ error: 'not_found', message: 'Exercise not found' });
+        return;
+      }
+      logger.error({ err: error }, 'Failed to delete exercise');
+      res.status(500).json({ error: 'internal_error', message: 'Failed to delete exercise' });
+    }
+  });
+
+  router.post('/steps', authenticateToken, async (req, res) => {
+    try {
+      const authReq = req as AuthRequest;
+      if (!authReq.user) {
+        res.status(401).json({ error: 'access_denied', message: 'Authentication required' });
+        return;
+      }
+      const { steps, date, mode = 'set' } = req.body || {};
+      const stepsValue = Number(steps);
+      if (steps === undefined || steps === null || !Number.isInteger(stepsValue) || stepsValue < 0 || stepsValue > MAX_DAILY_STEPS) {
+        res.status(400).json({ error: 'invalid_request', message: `steps must be an integer between 0 and ${MAX_DAILY_STEPS}` });
+        return;
+      }
+      if (mode !== 'set' && mode !== 'add') {
+        res.status(400).json({ error: 'invalid_request', message: 'mode must be set or add' });
+        return;
+      }
+      if (date !== undefined && !isValidDateString(date)) {
+        res.status(400).json({ error: 'invalid_request', message: 'date must be YYYY-MM-DD' });
+        return;
+      }
+
+      const userInfo = await ensureUserInfo(authReq.user.id, {
+        name: authReq.user.name,
+        email: authReq.user.email
+      });
+      const day = (date as string | undefined) ?? formatDateInTimeZone(new Date(), userInfo.timezone || 'UTC');
+      const daily = mode === 'add'
+        ? await incrementDailyStats(userInfo, day, { steps: stepsValue })
+        : await setDailySteps(userInfo, day, stepsValue);
+      res.json({ ok: true, daily_stats: daily });
+    } catch (error) {
+      logger.error({ err: error }, 'Failed to log steps');
+      res.status(500).json({ error: 'internal_error', message: 'Failed to log steps' });
+    }
+  });
+
+  router.post('/health/import', authenticateToken, async (req, res) => {
+    try {
+      const authReq = req as AuthRequest;
+      if (!authReq.user) {
+        res.status(401).json({ error: 'access_denied', message: 'Authentication required' });
+        return;
+      }
+
+      const { samples, errors } = sanitizeHealthSamples(req.body || {});
+      if (errors.length) {
+        res.status(400).json({ error: 'invalid_request', message: errors.join(', ') });
+        return;
+      }
+
+      const userInfo = await ensureUserInfo(authReq.user.id, {
+        name: authReq.user.name,
+        email: authReq.user.email
+      });
+      const result = await importHealthSamples(userInfo, samples);
+      res.json({ ok: true, ...result });
+    } catch (error) {
+      logger.error({ err: error }, 'Failed to import health samples');
+      res.status(500).json({ error: 'internal_error', message: 'Failed to import health samples' });
+    }
+  });
+
+  router.put('/dietary', authenticateToken, async (req, res) => {
+    try {
+      const authReq = req as AuthRequest;
+      if (!authReq.user) {
+        res.status(401).json({ error: 'access_denied', message: 'Authentication required' });
+        return;
+      }
+
+      const { updates, errors } = sanitizeDietaryRestrictions(req.body || {});
+      if (errors.length) {
+        res.status(400).json({ error: 'invalid_request', message: errors.join(', ') });
+        return;
+      }
+      if (!Object.keys(updates).length) {
+        res.status(400).json({ error: 'invalid_request', message: 'dietary_preferences or allergens is required' });
+        return;
+      }
+
+      await ensureUserInfo(authReq.user.id, {
+        name: authReq.user.name,
+        email: authReq.user.email
+      });
+      const updated = await updateUserInfo(authReq.user.id, updates);
+      res.json({
+        ok: true,
+        dietary_preferences: updated.dietary_preferences || [],
+        allergens: updated.allergens || []
+      });
+    } catch (error) {
+      logger.error({ err: error }, 'Failed to update dietary restrictions');
+      res.status(500).json({ error: 'internal_error', message: 'Failed to update dietary restrictions' });
+    }
+  });
+
   router.post('/water', authenticateToken, async (req, res) => {
     try {
       const authReq = req as AuthRequest;
@@ -183,6 +599,9 @@ export const createProgressRouter = () => {
         updates.goal = goal;
       }
 
+      const dietary = sanitizeDietaryRestrictions(req.body || {});
+      Object.assign(updates, dietary.updates);
+
       updates.onboarding_completed = true;
       if (typeof device_id === 'string' && device_id.trim() !== '') {
         updates.onboarding_device_id = device_id;
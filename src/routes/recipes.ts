@@ -0,0 +1,204 @@
+import { Router } from 'express';
+import { authenticateToken, AuthRequest } from '../middleware/authMiddleware';
+import { ensureUserInfo } from '../server/fitcal/services/userInfoService';
+import {
+  createRecipe,
+  deleteRecipe,
+  getRecipe,
+  listRecipes,
+  logRecipePortion,
+  sanitizeRecipeInput,
+  updateRecipe
+} from '../server/fitcal/services/recipeService';
+import { logger } from '../utils/logger';
+import { attachRouteLogger } from '../utils/routeLogger';
+
+// Errors thrown while resolving ingredients or portions that the client can fix.
+const isInputError = (error: unknown) => {
+  const message = (error as Error)?.message || '';
+  return ['Food not found', 'Serving not found', 'Invalid quantity', 'Recipe has no total yield']
+    .some(prefix => message.startsWith(prefix));
+};
+
+export const createRecipesRouter = () => {
+  const router = Router();
+  attachRouteLogger(router, 'fitcal-recipes');
+
+  router.get('/', authenticateToken, async (req, res) => {
+    try {
+      const authReq = req as AuthRequest;
+      if (!authReq.user) {
+        res.status(401).json({ error: 'access_denied', message: 'Authentication required' });
+        return;
+      }
+
+      const recipes = await listRecipes(authReq.user.id);
+      res.json({ recipes });
+    } catch (error) {
+      logger.error({ err: error }, 'Failed to list recipes');
+      res.status(500).json({ error: 'internal_error', message: 'Failed to list recipes' });
+    }
+  });
+
+  router.post('/', authenticateToken, async (req, res) => {
+    try {
+      const authReq = req as AuthRequest;
+      if (!authReq.user) {
+        res.status(401).json({ error: 'access_denied', message: 'Authentication required' });
+        return;
+      }
+
+      const { input, errors } = sanitizeRecipeInput(req.body || {}, { requireAll: true });
+      if (errors.length) {
+        res.status(400).json({ error: 'invalid_request', message: errors.join(', ') });
+        return;
+      }
+
+      const userInfo = await ensureUserInfo(authReq.user.id, {
+        name: authReq.user.name,
+        email: authReq.user.email
+      });
+      const recipe = await createRecipe(userInfo, input);
+      res.status(201).json(recipe);
+    } catch (error) {
+      if (isInputError(error)) {
+        res.status(400).json({ error: 'invalid_request', message: (error as Error).message });
+        return;
+      }
+      logger.error({ err: error }, 'Failed to create recipe');
+      res.status(500).json({ error: 'internal_error', message: 'Failed to create recipe' });
+    }
+  });
+
+  router.get('/:id', authenticateToken, async (req, res) => {
+    try {
+      const authReq = req as AuthRequest;
+      if (!authReq.user) {
+        res.status(401).json({ error: 'access_denied', message: 'Authentication required' });
+        return;
+      }
+
+      const recipe = await getRecipe(authReq.user.id, req.params.id);
+      if (!recipe) {
+        res.status(404).json({ error: 'not_found', message: 'Recipe not found' });
+        return;
+      }
+      res.json(recipe);
+    } catch (error) {
+      logger.error({ err: error }, 'Failed to fetch recipe');
+      res.status(500).json({ error: 'internal_error', message: 'Failed to fetch recipe' });
+    }
+  });
+
+  router.patch('/:id', authenticateToken, async (req, res) => {
+    try {
+      const authReq = req as AuthRequest;
+      if (!authReq.user) {
+        res.status(401).json({ error: 'access_denied', message: 'Authentication required' });
+        return;
+      }
+
+      const { input, errors } = sanitizeRecipeInput(req.body || {}, { requireAll: false });
+      if (errors.length) {
+        res.status(400).json({ error: 'invalid_request', message: errors.join(', ') });
+        return;
+      }
+
+      const userInfo = await ensureUserInfo(authReq.user.id, {
+        name: authReq.user.name,
+        email: authReq.user.email
+      });
+      const recipe = await updateRecipe(userInfo, req.params.id, input);
+      res.json(recipe);
+    } catch (error) {
+      if ((error as Error)?.message === 'Recipe not found') {
+        res.status(404).json({ error: 'not_found', message: 'Recipe not found' });
+        return;
+      }
+      if (isInputError(error)) {
+        res.status(400).json({ error: 'invalid_request', message: (error as Error).message });
+        return;
+      }
+      logger.error({ err: error }, 'Failed to update recipe');
+      res.status(500).json({ error: 'internal_error', message: 'Failed to update recipe' });
+    }
+  });
+
+  router.delete('/:id', authenticateToken, async (req, res) => {
+    try {
+      const authReq = req as AuthRequest;
+      if (!authReq.user) {
+        res.status(401).json({ error: 'access_denied', message: 'Authentication required' });
+        return;
+      }
+
+      await deleteRecipe(authReq.user.id, req.params.id);
+      res.json({ ok: true });
+    } catch (error) {
+      if ((error as Error)?.message === 'Recipe not found') {
+        res.status(404).json({ error: 'not_found', message: 'Recipe not found' });
+        return;
+      }
+      logger.error({ err: error }, 'Failed to delete recipe');
+      res.status(500).json({ error: 'internal_error', message: 'Failed to delete recipe' });
+    }
+  });
+
+  router.post('/:id/log', authenticateToken, async (req, res) => {
+    try {
+      const authReq = req as AuthRequest;
+      if (!authReq.user) {
+        res.status(401).json({ error: 'access_denied', message: 'Authentication required' });
+        return;
+      }
+
+      const { servings, grams, meal_time } = req.body || {};
+      const servingsValue = servings === undefined ? undefined : Number(servings);
+      const gramsValue = grams === undefined ? undefined : Number(grams);
+      if (
+        (servingsValue !== undefined && (!Number.isFinite(servingsValue) || servingsValue <= 0))
+        || (gramsValue !== undefined && (!Number.isFinite(gramsValue) || gramsValue <= 0))
+      ) {
+        res.status(400).json({ error: 'invalid_request', message: 'servings and grams must be positive numbers' });
+        return;
+      }
+
+      const userInfo = await ensureUserInfo(authReq.user.id, {
+        name: authReq.user.name,
+        email: authReq.user.email
+      });
+
+      let mealTime = meal_time ? new Date(meal_time) : new Date();
+      if (Number.isNaN(mealTime.getTime())) {
+        mealTime = new Date();
+      }
+
+      const result = await logRecipePortion(userInfo, req.params.id, {
+        servings: servingsValue,
+        grams: gramsValue,
+        mealTime: mealTime.toISOString()
+      });
+
+      res.status(201).json({
+        ok: true,
+        meal_id: result.meal.id,
+        items: result.items,
+        totals: result.totals,
+        daily_stats: result.daily_stats
+      });
+    } catch (error) {
+      if ((error as Error)?.message === 'Recipe not found') {
+        res.status(404).json({ error: 'not_found', message: 'Recipe not found' });
+        return;
+      }
+      if (isInputError(error)) {
+        res.status(400).json({ error: 'invalid_request', message: (error as Error).message });
+        return;
+      }
+      logger.error({ err: error }, 'Recipe logging failed');
+      res.status(500).json({ error: 'internal_error', message: 'Recipe logging failed' });
+    }
+  });
+
+  return router;
+};
@@ -0,0 +1,57 @@
+import type { BarcodeProductLookup } from '../services/barcodeService';
+
+// Sample products answered by the local stub provider so barcode flows work without a remote API.
+export const SAMPLE_BARCODE_PRODUCTS: BarcodeProductLookup[] = [
+  {
+    barcode: '8690000000012',
+    name: 'Örnek Süzme Yoğurt',
+    brand: 'FitCal Sample',
+    serving_size_g: 150,
+    serving_label: '1 kase',
+    per_100g: {
+      calories: 97,
+      protein_g: 9,
+      carbs_g: 4,
+      fat_g: 5,
+      sugar_g: 4,
+      saturated_fat_g: 3.3,
+      sodium_mg: 40,
+      calcium_mg: 110
+    }
+  },
+  {
+    barcode: '8690000000029',
+    name: 'Örnek Yulaf Bar',
+    brand: 'FitCal Sample',
+    serving_size_g: 40,
+    serving_label: '1 bar',
+    per_100g: {
+      calories: 410,
+      protein_g: 8,
+      carbs_g: 62,
+      fat_g: 14,
+      fiber_g: 6.5,
+      sugar_g: 24,
+      saturated_fat_g: 4.2,
+      sodium_mg: 120
+    }
+  },
+  {
+    barcode: '8690000000036',
+    name: 'Örnek Portakal Suyu',
+    brand: 'FitCal Sample',
+    serving_size_g: 200,
+    serving_label: '1 bardak',
+    per_100g: {
+      calories: 45,
+      protein_g: 0.7,
+      carbs_g: 10.4,
+      fat_g: 0.2,
+      fiber_g: 0.2,
+      sugar_g: 8.4,
+      sodium_mg: 1,
+      potassium_mg: 200,
+      vitamin_c_mg: 50
+    }
+  }
+];
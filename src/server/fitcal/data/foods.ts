@@ -0,0 +1,408 @@
+import type { FoodSeed } from '../services/foodService';
+
+// Bump when entries change so seedFoodCatalog rewrites the catalog on next start.
+export const FOOD_CATALOG_SEED_VERSION = 4;
+
+export const FOOD_CATALOG_SEED: FoodSeed[] = [
+  {
+    id: 'egg',
+    name_tr: 'Yumurta',
+    name_en: 'Egg',
+    aliases: ['haşlanmış yumurta', 'boiled egg'],
+    allergens: ['egg'],
+    contains: ['egg'],
+    per_100g: { calories: 143, protein_g: 12.6, carbs_g: 0.7, fat_g: 9.5 },
+    servings: [{ id: 'piece', name_tr: 'Adet', name_en: 'Piece', grams: 50 }]
+  },
+  {
+    id: 'white-bread',
+    name_tr: 'Beyaz ekmek',
+    name_en: 'White bread',
+    aliases: ['ekmek', 'bread'],
+    allergens: ['gluten'],
+    per_100g: { calories: 265, protein_g: 9, carbs_g: 49, fat_g: 3.2 },
+    servings: [{ id: 'slice', name_tr: 'Dilim', name_en: 'Slice', grams: 25 }]
+  },
+  {
+    id: 'whole-wheat-bread',
+    name_tr: 'Tam buğday ekmeği',
+    name_en: 'Whole wheat bread',
+    aliases: ['kepekli ekmek', 'wholemeal bread'],
+    allergens: ['gluten'],
+    per_100g: { calories: 247, protein_g: 13, carbs_g: 41, fat_g: 3.4 },
+    servings: [{ id: 'slice', name_tr: 'Dilim', name_en: 'Slice', grams: 30 }]
+  },
+  {
+    id: 'simit',
+    name_tr: 'Simit',
+    name_en: 'Simit',
+    aliases: ['sesame bagel'],
+    allergens: ['gluten', 'sesame'],
+    per_100g: { calories: 275, protein_g: 9.5, carbs_g: 52, fat_g: 4 },
+    servings: [{ id: 'piece', name_tr: 'Adet', name_en: 'Piece', grams: 110 }]
+  },
+  {
+    id: 'rice-pilaf',
+    name_tr: 'Pirinç pilavı',
+    name_en: 'Rice pilaf',
+    aliases: ['pilav', 'rice'],
+    allergens: ['milk'],
+    contains: ['dairy'],
+    per_100g: { calories: 155, protein_g: 2.9, carbs_g: 29, fat_g: 3.1 },
+    servings: [{ id: 'portion', name_tr: 'Porsiyon', name_en: 'Portion', grams: 150 }]
+  },
+  {
+    id: 'boiled-rice',
+    name_tr: 'Haşlanmış pirinç',
+    name_en: 'Boiled rice',
+    aliases: ['white rice', 'beyaz pirinç'],
+    per_100g: { calories: 130, protein_g: 2.7, carbs_g: 28, fat_g: 0.3 },
+    servings: [{ id: 'portion', name_tr: 'Porsiyon', name_en: 'Portion', grams: 150 }]
+  },
+  {
+    id: 'bulgur-pilaf',
+    name_tr: 'Bulgur pilavı',
+    name_en: 'Bulgur pilaf',
+    aliases: ['bulgur'],
+    allergens: ['gluten'],
+    per_100g: { calories: 130, protein_g: 3.5, carbs_g: 23, fat_g: 3 },
+    servings: [{ id: 'portion', name_tr: 'Porsiyon', name_en: 'Portion', grams: 150 }]
+  },
+  {
+    id: 'pasta-boiled',
+    name_tr: 'Makarna (haşlanmış)',
+    name_en: 'Pasta (boiled)',
+    aliases: ['spaghetti', 'spagetti'],
+    allergens: ['gluten'],
+    per_100g: { calories: 158, protein_g: 5.8, carbs_g: 30.9, fat_g: 0.9 },
+    servings: [{ id: 'plate', name_tr: 'Tabak', name_en: 'Plate', grams: 200 }]
+  },
+  {
+    id: 'oats',
+    name_tr: 'Yulaf ezmesi',
+    name_en: 'Rolled oats',
+    aliases: ['oatmeal', 'yulaf'],
+    allergens: ['gluten'],
+    per_100g: { calories: 379, protein_g: 13.2, carbs_g: 67.7, fat_g: 6.5 },
+    servings: [{ id: 'portion', name_tr: 'Porsiyon', name_en: 'Portion', grams: 40 }, { id: 'tbsp', name_tr: 'Yemek kaşığı', name_en: 'Tablespoon', grams: 10 }]
+  },
+  {
+    id: 'lentil-soup',
+    name_tr: 'Mercimek çorbası',
+    name_en: 'Lentil soup',
+    aliases: ['çorba', 'soup'],
+    per_100g: { calories: 70, protein_g: 3.8, carbs_g: 10, fat_g: 1.8 },
+    servings: [{ id: 'bowl', name_tr: 'Kase', name_en: 'Bowl', grams: 250 }]
+  },
+  {
+    id: 'dry-bean-stew',
+    name_tr: 'Kuru fasulye',
+    name_en: 'White bean stew',
+    aliases: ['fasulye', 'beans'],
+    per_100g: { calories: 115, protein_g: 6, carbs_g: 15, fat_g: 3.5 },
+    servings: [{ id: 'portion', name_tr: 'Porsiyon', name_en: 'Portion', grams: 250 }]
+  },
+  {
+    id: 'chickpeas-cooked',
+    name_tr: 'Nohut (haşlanmış)',
+    name_en: 'Chickpeas (cooked)',
+    aliases: ['nohut', 'garbanzo'],
+    per_100g: { calories: 164, protein_g: 8.9, carbs_g: 27.4, fat_g: 2.6 },
+    servings: [{ id: 'portion', name_tr: 'Porsiyon', name_en: 'Portion', grams: 150 }]
+  },
+  {
+    id: 'hummus',
+    name_tr: 'Humus',
+    name_en: 'Hummus',
+    aliases: [],
+    allergens: ['sesame'],
+    per_100g: { calories: 166, protein_g: 7.9, carbs_g: 14.3, fat_g: 9.6 },
+    servings: [{ id: 'tbsp', name_tr: 'Yemek kaşığı', name_en: 'Tablespoon', grams: 15 }]
+  },
+  {
+    id: 'chicken-breast-grilled',
+    name_tr: 'Izgara tavuk göğsü',
+    name_en: 'Grilled chicken breast',
+    aliases: ['tavuk', 'chicken'],
+    contains: ['poultry'],
+    per_100g: { calories: 165, protein_g: 31, carbs_g: 0, fat_g: 3.6 },
+    servings: [{ id: 'portion', name_tr: 'Porsiyon', name_en: 'Portion', grams: 150 }]
+  },
+  {
+    id: 'chicken-doner',
+    name_tr: 'Tavuk döner',
+    name_en: 'Chicken doner',
+    aliases: ['döner', 'doner kebab'],
+    contains: ['poultry'],
+    per_100g: { calories: 200, protein_g: 20, carbs_g: 4, fat_g: 11.5 },
+    servings: [{ id: 'portion', name_tr: 'Porsiyon', name_en: 'Portion', grams: 150 }]
+  },
+  {
+    id: 'meatballs-grilled',
+    name_tr: 'Izgara köfte',
+    name_en: 'Grilled meatballs',
+    aliases: ['köfte', 'kofta'],
+    allergens: ['gluten'],
+    contains: ['meat'],
+    per_100g: { calories: 245, protein_g: 18, carbs_g: 6, fat_g: 16 },
+    servings: [{ id: 'piece', name_tr: 'Adet', name_en: 'Piece', grams: 30 }, { id: 'portion', name_tr: 'Porsiyon', name_en: 'Portion', grams: 180 }]
+  },
+  {
+    id: 'ground-beef-cooked',
+    name_tr: 'Kıyma (pişmiş)',
+    name_en: 'Ground beef (cooked)',
+    aliases: ['kıyma', 'minced meat'],
+    contains: ['meat'],
+    per_100g: { calories: 250, protein_g: 26, carbs_g: 0, fat_g: 15 },
+    servings: [{ id: 'portion', name_tr: 'Porsiyon', name_en: 'Portion', grams: 100 }]
+  },
+  {
+    id: 'salmon',
+    name_tr: 'Somon',
+    name_en: 'Salmon',
+    aliases: ['balık', 'fish'],
+    allergens: ['fish'],
+    contains: ['fish'],
+    per_100g: { calories: 208, protein_g: 20, carbs_g: 0, fat_g: 13 },
+    servings: [{ id: 'fillet', name_tr: 'Fileto', name_en: 'Fillet', grams: 150 }]
+  },
+  {
+    id: 'tuna-canned',
+    name_tr: 'Ton balığı (konserve)',
+    name_en: 'Canned tuna',
+    aliases: ['ton', 'tuna'],
+    allergens: ['fish'],
+    contains: ['fish'],
+    per_100g: { calories: 116, protein_g: 25.5, carbs_g: 0, fat_g: 0.8 },
+    servings: [{ id: 'can', name_tr: 'Kutu', name_en: 'Can', grams: 75 }]
+  },
+  {
+    id: 'lahmacun',
+    name_tr: 'Lahmacun',
+    name_en: 'Lahmacun',
+    aliases: ['turkish pizza'],
+    allergens: ['gluten'],
+    contains: ['meat'],
+    per_100g: { calories: 235, protein_g: 10, carbs_g: 33, fat_g: 7 },
+    servings: [{ id: 'piece', name_tr: 'Adet', name_en: 'Piece', grams: 120 }]
+  },
+  {
+    id: 'pizza-margherita',
+    name_tr: 'Pizza margarita',
+    name_en: 'Margherita pizza',
+    aliases: ['pizza'],
+    allergens: ['gluten', 'milk', 'lactose'],
+    contains: ['dairy'],
+    per_100g: { calories: 266, protein_g: 11, carbs_g: 33, fat_g: 10 },
+    servings: [{ id: 'slice', name_tr: 'Dilim', name_en: 'Slice', grams: 100 }]
+  },
+  {
+    id: 'white-cheese',
+    name_tr: 'Beyaz peynir',
+    name_en: 'White cheese',
+    aliases: ['feta', 'peynir'],
+    allergens: ['milk', 'lactose'],
+    contains: ['dairy'],
+    per_100g: { calories: 260, protein_g: 17, carbs_g: 1.5, fat_g: 21 },
+    servings: [{ id: 'slice', name_tr: 'Dilim', name_en: 'Slice', grams: 30 }]
+  },
+  {
+    id: 'kashar-cheese',
+    name_tr: 'Kaşar peyniri',
+    name_en: 'Kashar cheese',
+    aliases: ['kaşar', 'cheddar'],
+    allergens: ['milk'],
+    contains: ['dairy'],
+    per_100g: { calories: 350, protein_g: 26, carbs_g: 1.5, fat_g: 27 },
+    servings: [{ id: 'slice', name_tr: 'Dilim', name_en: 'Slice', grams: 20 }]
+  },
+  {
+    id: 'yogurt',
+    name_tr: 'Yoğurt',
+    name_en: 'Yogurt',
+    aliases: ['yoghurt'],
+    allergens: ['milk', 'lactose'],
+    contains: ['dairy'],
+    per_100g: { calories: 61, protein_g: 3.5, carbs_g: 4.7, fat_g: 3.3 },
+    servings: [{ id: 'bowl', name_tr: 'Kase', name_en: 'Bowl', grams: 200 }, { id: 'tbsp', name_tr: 'Yemek kaşığı', name_en: 'Tablespoon', grams: 20 }]
+  },
+  {
+    id: 'ayran',
+    name_tr: 'Ayran',
+    name_en: 'Ayran',
+    aliases: ['yogurt drink'],
+    allergens: ['milk', 'lactose'],
+    contains: ['dairy'],
+    per_100g: { calories: 36, protein_g: 1.7, carbs_g: 2.5, fat_g: 2 },
+    servings: [{ id: 'glass', name_tr: 'Bardak', name_en: 'Glass', grams: 200 }]
+  },
+  {
+    id: 'milk',
+    name_tr: 'Süt',
+    name_en: 'Milk',
+    aliases: ['whole milk'],
+    allergens: ['milk', 'lactose'],
+    contains: ['dairy'],
+    per_100g: { calories: 61, protein_g: 3.2, carbs_g: 4.8, fat_g: 3.3 },
+    servings: [{ id: 'glass', name_tr: 'Bardak', name_en: 'Glass', grams: 200 }]
+  },
+  {
+    id: 'black-olives',
+    name_tr: 'Siyah zeytin',
+    name_en: 'Black olives',
+    aliases: ['zeytin', 'olive'],
+    per_100g: { calories: 115, protein_g: 0.8, carbs_g: 6, fat_g: 10.7 },
+    servings: [{ id: 'piece', name_tr: 'Adet', name_en: 'Piece', grams: 4 }]
+  },
+  {
+    id: 'olive-oil',
+    name_tr: 'Zeytinyağı',
+    name_en: 'Olive oil',
+    aliases: ['yağ', 'oil'],
+    per_100g: { calories: 884, protein_g: 0, carbs_g: 0, fat_g: 100 },
+    servings: [{ id: 'tbsp', name_tr: 'Yemek kaşığı', name_en: 'Tablespoon', grams: 13.5 }, { id: 'tsp', name_tr: 'Tatlı kaşığı', name_en: 'Teaspoon', grams: 4.5 }]
+  },
+  {
+    id: 'butter',
+    name_tr: 'Tereyağı',
+    name_en: 'Butter',
+    aliases: [],
+    allergens: ['milk'],
+    contains: ['dairy'],
+    per_100g: { calories: 717, protein_g: 0.9, carbs_g: 0.1, fat_g: 81 },
+    servings: [{ id: 'tbsp', name_tr: 'Yemek kaşığı', name_en: 'Tablespoon', grams: 14 }]
+  },
+  {
+    id: 'honey',
+    name_tr: 'Bal',
+    name_en: 'Honey',
+    aliases: [],
+    contains: ['honey'],
+    per_100g: { calories: 304, protein_g: 0.3, carbs_g: 82.4, fat_g: 0 },
+    servings: [{ id: 'tbsp', name_tr: 'Yemek kaşığı', name_en: 'Tablespoon', grams: 21 }, { id: 'tsp', name_tr: 'Tatlı kaşığı', name_en: 'Teaspoon', grams: 7 }]
+  },
+  {
+    id: 'sugar',
+    name_tr: 'Şeker',
+    name_en: 'Sugar',
+    aliases: ['toz şeker'],
+    per_100g: { calories: 387, protein_g: 0, carbs_g: 100, fat_g: 0 },
+    servings: [{ id: 'tsp', name_tr: 'Çay kaşığı', name_en: 'Teaspoon', grams: 4 }, { id: 'cube', name_tr: 'Küp', name_en: 'Cube', grams: 3 }]
+  },
+  {
+    id: 'tea',
+    name_tr: 'Çay (şekersiz)',
+    name_en: 'Tea (unsweetened)',
+    aliases: ['black tea', 'siyah çay'],
+    per_100g: { calories: 1, protein_g: 0, carbs_g: 0.3, fat_g: 0 },
+    servings: [{ id: 'glass', name_tr: 'Çay bardağı', name_en: 'Tea glass', grams: 100 }]
+  },
+  {
+    id: 'filter-coffee',
+    name_tr: 'Filtre kahve',
+    name_en: 'Black coffee',
+    aliases: ['kahve', 'coffee'],
+    per_100g: { calories: 2, protein_g: 0.3, carbs_g: 0, fat_g: 0 },
+    servings: [{ id: 'cup', name_tr: 'Fincan', name_en: 'Cup', grams: 240 }]
+  },
+  {
+    id: 'cola',
+    name_tr: 'Kola',
+    name_en: 'Cola',
+    aliases: ['soda', 'gazlı içecek'],
+    per_100g: { calories: 42, protein_g: 0, carbs_g: 10.6, fat_g: 0 },
+    servings: [{ id: 'can', name_tr: 'Kutu', name_en: 'Can', grams: 330 }]
+  },
+  {
+    id: 'tomato',
+    name_tr: 'Domates',
+    name_en: 'Tomato',
+    aliases: [],
+    per_100g: { calories: 18, protein_g: 0.9, carbs_g: 3.9, fat_g: 0.2 },
+    servings: [{ id: 'medium', name_tr: 'Orta boy', name_en: 'Medium', grams: 120 }]
+  },
+  {
+    id: 'cucumber',
+    name_tr: 'Salatalık',
+    name_en: 'Cucumber',
+    aliases: ['hıyar'],
+    per_100g: { calories: 15, protein_g: 0.7, carbs_g: 3.6, fat_g: 0.1 },
+    servings: [{ id: 'medium', name_tr: 'Orta boy', name_en: 'Medium', grams: 150 }]
+  },
+  {
+    id: 'potato-boiled',
+    name_tr: 'Haşlanmış patates',
+    name_en: 'Boiled potato',
+    aliases: ['patates', 'potato'],
+    per_100g: { calories: 87, protein_g: 1.9, carbs_g: 20, fat_g: 0.1 },
+    servings: [{ id: 'medium', name_tr: 'Orta boy', name_en: 'Medium', grams: 150 }]
+  },
+  {
+    id: 'french-fries',
+    name_tr: 'Patates kızartması',
+    name_en: 'French fries',
+    aliases: ['fries', 'cips'],
+    per_100g: { calories: 312, protein_g: 3.4, carbs_g: 41, fat_g: 15 },
+    servings: [{ id: 'portion', name_tr: 'Porsiyon', name_en: 'Portion', grams: 120 }]
+  },
+  {
+    id: 'banana',
+    name_tr: 'Muz',
+    name_en: 'Banana',
+    aliases: [],
+    per_100g: { calories: 89, protein_g: 1.1, carbs_g: 22.8, fat_g: 0.3 },
+    servings: [{ id: 'medium', name_tr: 'Orta boy', name_en: 'Medium', grams: 120 }]
+  },
+  {
+    id: 'apple',
+    name_tr: 'Elma',
+    name_en: 'Apple',
+    aliases: [],
+    per_100g: { calories: 52, protein_g: 0.3, carbs_g: 13.8, fat_g: 0.2 },
+    servings: [{ id: 'medium', name_tr: 'Orta boy', name_en: 'Medium', grams: 180 }]
+  },
+  {
+    id: 'orange',
+    name_tr: 'Portakal',
+    name_en: 'Orange',
+    aliases: [],
+    per_100g: { calories: 47, protein_g: 0.9, carbs_g: 11.8, fat_g: 0.1 },
+    servings: [{ id: 'medium', name_tr: 'Orta boy', name_en: 'Medium', grams: 150 }]
+  },
+  {
+    id: 'avocado',
+    name_tr: 'Avokado',
+    name_en: 'Avocado',
+    aliases: [],
+    per_100g: { calories: 160, protein_g: 2, carbs_g: 8.5, fat_g: 14.7 },
+    servings: [{ id: 'half', name_tr: 'Yarım', name_en: 'Half', grams: 70 }]
+  },
+  {
+    id: 'almonds',
+    name_tr: 'Badem',
+    name_en: 'Almonds',
+    aliases: ['kuruyemiş', 'nuts'],
+    allergens: ['tree_nut'],
+    per_100g: { calories: 579, protein_g: 21.2, carbs_g: 21.6, fat_g: 49.9 },
+    servings: [{ id: 'handful', name_tr: 'Avuç', name_en: 'Handful', grams: 28 }]
+  },
+  {
+    id: 'walnuts',
+    name_tr: 'Ceviz',
+    name_en: 'Walnuts',
+    aliases: ['kuruyemiş', 'nuts'],
+    allergens: ['tree_nut'],
+    per_100g: { calories: 654, protein_g: 15.2, carbs_g: 13.7, fat_g: 65.2 },
+    servings: [{ id: 'handful', name_tr: 'Avuç', name_en: 'Handful', grams: 28 }]
+  },
+  {
+    id: 'baklava',
+    name_tr: 'Baklava',
+    name_en: 'Baklava',
+    aliases: ['tatlı', 'dessert'],
+    allergens: ['gluten', 'tree_nut', 'milk'],
+    contains: ['dairy'],
+    per_100g: { calories: 428, protein_g: 6.7, carbs_g: 49, fat_g: 23 },
+    servings: [{ id: 'slice', name_tr: 'Dilim', name_en: 'Slice', grams: 40 }]
+  }
+];
@@ -0,0 +1,374 @@
+import { db } from '../../../firebase';
+import type { DocumentData, QueryDocumentSnapshot } from 'firebase-admin/firestore';
+import { v4 as uuidv4 } from 'uuid';
+import { logger } from '../../../utils/logger';
+import type { MealAnalysis } from '../utils/analysisSchema';
+import { normalizeFoodText } from './foodService';
+import type { AnalysisResult, MealRecord } from './mealService';
+
+export interface CorrectionItem {
+  name: string;
+  amount: number;
+  unit: string;
+  calories: number;
+  protein_g: number;
+  carbs_g: number;
+  fat_g: number;
+}
+
+export type CorrectionChange =
+  | { type: 'renamed'; index: number; from: string; to: string }
+  | { type: 'portion_changed'; index: number; name: string; unit: string; from_amount: number; to_amount: number }
+  | { type: 'nutrition_changed'; index: number; name: string; from_calories: number; to_calories: number }
+  | { type: 'deleted'; index: number; name: string; amount: number; unit: string; calories: number }
+  | { type: 'added'; name: string; amount: number; unit: string; calories: number };
+
+export interface CorrectionMetrics {
+  predicted_items: number;
+  confirmed_items: number;
+  renamed: number;
+  portion_changed: number;
+  nutrition_changed: number;
+  deleted: number;
+  added: number;
+  predicted_calories: number;
+  confirmed_calories: number;
+  calorie_error: number;
+  calorie_error_ratio: number;
+}
+
+export interface AnalysisCorrection {
+  id: string;
+  user_id: string;
+  meal_id: string;
+  analysis_result_id: string;
+  model: string;
+  language: string;
+  input: {
+    source: string;
+    description: string | null;
+    // Storage paths only: URLs may be signed or inline data and must not end up in exports.
+    // Images without a storage path (inline or legacy public uploads) are left out.
+    image_paths: string[];
+  };
+  predicted: { items: CorrectionItem[]; total_calories: number };
+  confirmed: { items: CorrectionItem[]; total_calories: number };
+  changes: CorrectionChange[];
+  metrics: CorrectionMetrics;
+  has_corrections: boolean;
+  created_at: string;
+}
+
+export interface CorrectionFilters {
+  from?: string;
+  to?: string;
+  model?: string;
+  language?: string;
+}
+
+// Small differences are rounding or unit conversion, not a user correction.
+const CHANGE_TOLERANCE_RATIO = 0.05;
+const EXPORT_PAGE_SIZE = 500;
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+const changed = (from: number, to: number) => Math.abs(to - from) > Math.max(1, Math.abs(from) * CHANGE_TOLERANCE_RATIO);
+
+const toCorrectionItem = (item: Partial<CorrectionItem>): CorrectionItem => ({
+  name: item.name || '',
+  amount: Number(item.amount) || 0,
+  unit: item.unit || 'g',
+  calories: Number(item.calories) || 0,
+  protein_g: Number(item.protein_g) || 0,
+  carbs_g: Number(item.carbs_g) || 0,
+  fat_g: Number(item.fat_g) || 0
+});
+
+export const analysisItemsToCorrectionItems = (analysis: MealAnalysis) =>
+  analysis.items.map(item =>
+    toCorrectionItem({
+      name: item.name,
+      amount: item.amount,
+      unit: item.unit,
+      calories: item.calories,
+      protein_g: item.macros?.p,
+      carbs_g: item.macros?.c,
+      fat_g: item.macros?.f
+    })
+  );
+
+/**
+ * Pairs each confirmed item with the predicted item it came from. Clients send the original index
+ * (`analysis_item_index`) for items they edited; items without one are matched by name. Unpaired
+ * predicted items were deleted and unpaired confirmed items were added by the user.
+ */
+export const diffAnalysisItems = (
+  predicted: CorrectionItem[],
+  confirmed: Array<CorrectionItem & { analysis_item_index?: number | null }>
+) => {
+  const pairs = new Map<number, number>();
+  const usedPredicted = new Set<number>();
+
+  confirmed.forEach((item, confirmedIndex) => {
+    const index = item.analysis_item_index;
+    if (Number.isInteger(index) && (index as number) >= 0 && (index as number) < predicted.length && !usedPredicted.has(index as number)) {
+      pairs.set(confirmedIndex, index as number);
+      usedPredicted.add(index as number);
+    }
+  });
+  confirmed.forEach((item, confirmedIndex) => {
+    if (pairs.has(confirmedIndex)) {
+      return;
+    }
+    const name = normalizeFoodText(item.name);
+    const index = predicted.findIndex((candidate, candidateIndex) =>
+      !usedPredicted.has(candidateIndex) && normalizeFoodText(candidate.name) === name
+    );
+    if (index !== -1) {
+      pairs.set(confirmedIndex, index);
+      usedPredicted.add(index);
+    }
+  });
+
+  const changes: CorrectionChange[] = [];
+  confirmed.forEach((item, confirmedIndex) => {
+    const index = pairs.get(confirmedIndex);
+    if (index === undefined) {
+      changes.push({ type: 'added', name: item.name, amount: item.amount, unit: item.unit, calories: item.calories });
+      return;
+    }
+    const original = predicted[index];
+    if (normalizeFoodText(original.name) !== normalizeFoodText(item.name)) {
+      changes.push({ type: 'renamed', index, from: original.name, to: item.name });
+    }
+    const portionChanged = changed(original.amount, item.amount);
+    if (portionChanged) {
+      changes.push({
+        type: 'portion_changed',
+        index,
+        name: item.name,
+        unit: item.unit,
+        from_amount: original.amount,
+        to_amount: item.amount
+      });
+    }
+    if (!portionChanged && changed(original.calories, item.calories)) {
+      changes.push({
+        type: 'nutrition_changed',
+        index,
+        name: item.name,
+        from_calories: original.calories,
+        to_calories: item.calories
+      });
+    }
+  });
+  predicted.forEach((item, index) => {
+    if (!usedPredicted.has(index)) {
+      changes.push({ type: 'deleted', index, name: item.name, amount: item.amount, unit: item.unit, calories: item.calories });
+    }
+  });
+
+  const predictedCalories = round(predicted.reduce((sum, item) => sum + item.calories, 0));
+  const confirmedCalories = round(confirmed.reduce((sum, item) => sum + item.calories, 0));
+  const count = (type: CorrectionChange['type']) => changes.filter(change => change.type === type).length;
+  const metrics: CorrectionMetrics = {
+    predicted_items: predicted.length,
+    confirmed_items: confirmed.length,
+    renamed: count('renamed'),
+    portion_changed: count('portion_changed'),
+    nutrition_changed: count('nutrition_changed'),
+    deleted: count('deleted'),
+    added: count('added'),
+    predicted_calories: predictedCalories,
+    confirmed_calories: confirmedCalories,
+    calorie_error: round(predictedCalories - confirmedCalories),
+    calorie_error_ratio: Math.round((Math.abs(predictedCalories - confirmedCalories) / Math.max(confirmedCalories, 1)) * 1000) / 1000
+  };
+
+  return { changes, metrics };
+};
+
+/**
+ * Stores how the confirmed meal differs from what the model predicted. Confirmations without edits
+ * are stored too, as they are the baseline the correction rates are measured against.
+ */
+export const recordAnalysisCorrection = async (input: {
+  meal: MealRecord;
+  analysisResult: AnalysisResult;
+  analysis: MealAnalysis;
+  confirmedItems: Array<Partial<CorrectionItem> & { analysis_item_index?: number | null }>;
+}) => {
+  const predicted = analysisItemsToCorrectionItems(input.analysis);
+  const confirmed = input.confirmedItems.map(item => ({
+    ...toCorrectionItem(item),
+    analysis_item_index: item.analysis_item_index ?? null
+  }));
+  const { changes, metrics } = diffAnalysisItems(predicted, confirmed);
+
+  const correction: AnalysisCorrection = {
+    id: uuidv4(),
+    user_id: input.meal.user_id,
+    meal_id: input.meal.id,
+    analysis_result_id: input.analysisResult.id,
+    model: input.analysisResult.model,
+    language: input.analysisResult.language || 'unknown',
+    input: {
+      source: input.meal.source,
+      description: input.meal.description || null,
+      image_paths: (input.meal.images || [])
+        .map(image => image.storage_path)
+        .filter((path): path is string => Boolean(path))
+    },
+    predicted: { items: predicted, total_calories: metrics.predicted_calories },
+    confirmed: { items: confirmed.map(toCorrectionItem), total_calories: metrics.confirmed_calories },
+    changes,
+    metrics,
+    has_corrections: changes.length > 0,
+    created_at: new Date().toISOString()
+  };
+
+  await db.collection('analysis_corrections').doc(correction.id).set(correction);
+  logger.info(
+    { mealId: correction.meal_id, model: correction.model, changes: changes.length, calorieErrorRatio: metrics.calorie_error_ratio },
+    'Analysis correction recorded'
+  );
+  return correction;
+};
+
+const buildCorrectionsQuery = (filters: CorrectionFilters) => {
+  let query = db.collection('analysis_corrections').orderBy('created_at', 'asc');
+  if (filters.from) {
+    query = query.where('created_at', '>=', filters.from);
+  }
+  if (filters.to) {
+    query = query.where('created_at', '<=', filters.to);
+  }
+  return query;
+};
+
+// Model and language are filtered in memory so the query only needs the single-field created_at index.
+const matchesFilters = (correction: AnalysisCorrection, filters: CorrectionFilters) =>
+  (!filters.model || correction.model === filters.model) && (!filters.language || correction.language === filters.language);
+
+/**
+ * Walks all corrections in creation order, one page at a time, so large exports never hold the
+ * whole collection in memory.
+ */
+export const forEachCorrection = async (
+  filters: CorrectionFilters,
+  onCorrection: (correction: AnalysisCorrection) => void
+) => {
+  let lastDoc: QueryDocumentSnapshot<DocumentData> | null = null;
+  let count = 0;
+
+  for (;;) {
+    let query = buildCorrectionsQuery(filters).limit(EXPORT_PAGE_SIZE);
+    if (lastDoc) {
+      query = query.startAfter(lastDoc);
+    }
+    const snapshot = await query.get();
+    snapshot.docs.forEach((doc: QueryDocumentSnapshot<DocumentData>) => {
+      const correction = { id: doc.id, ...doc.data() } as AnalysisCorrection;
+      if (matchesFilters(correction, filters)) {
+        onCorrection(correction);
+        count += 1;
+      }
+    });
+    if (snapshot.docs.length < EXPORT_PAGE_SIZE) {
+      return count;
+    }
+    lastDoc = snapshot.docs[snapshot.docs.length - 1];
+  }
+};
+
+// The exported dataset is for prompt tuning; it does not need to know who the user was.
+export const toCorrectionExportRecord = ({ user_id: _userId, ...correction }: AnalysisCorrection) => correction;
+
+const ratio = (part: number, whole: number) => (whole ? Math.round((part / whole) * 1000) / 1000 : 0);
+
+/**
+ * Aggregates corrections per model and language, alongside how often each model's result was picked
+ * when users were shown a comparison.
+ */
+export const getAnalysisAccuracyMetrics = async (filters: CorrectionFilters) => {
+  const groups = new Map<string, {
+    model: string;
+    language: string;
+    confirmations: number;
+    corrected: number;
+    predicted_items: number;
+    renamed: number;
+    portion_changed: number;
+    nutrition_changed: number;
+    deleted: number;
+    added: number;
+    calorie_error_ratio_sum: number;
+  }>();
+
+  await forEachCorrection(filters, correction => {
+    const key = `${correction.model}|${correction.language}`;
+    const group = groups.get(key) || {
+      model: correction.model,
+      language: correction.language,
+      confirmations: 0,
+      corrected: 0,
+      predicted_items: 0,
+      renamed: 0,
+      portion_changed: 0,
+      nutrition_changed: 0,
+      deleted: 0,
+      added: 0,
+      calorie_error_ratio_sum: 0
+    };
+    group.confirmations += 1;
+    group.corrected += correction.has_corrections ? 1 : 0;
+    group.predicted_items += correction.metrics.predicted_items;
+    group.renamed += correction.metrics.renamed;
+    group.portion_changed += correction.metrics.portion_changed;
+    group.nutrition_changed += correction.metrics.nutrition_changed;
+    group.deleted += correction.metrics.deleted;
+    group.added += correction.metrics.added;
+    group.calorie_error_ratio_sum += correction.metrics.calorie_error_ratio;
+    groups.set(key, group);
+  });
+
+  let selectionsQuery = db.collection('analysis_model_selections').orderBy('created_at', 'asc');
+  if (filters.from) {
+    selectionsQuery = selectionsQuery.where('created_at', '>=', filters.from);
+  }
+  if (filters.to) {
+    selectionsQuery = selectionsQuery.where('created_at', '<=', filters.to);
+  }
+  const selectionsSnapshot = await selectionsQuery.get();
+  const selections = new Map<string, { model: string; offered: number; picked: number }>();
+  selectionsSnapshot.docs.forEach((doc: QueryDocumentSnapshot<DocumentData>) => {
+    const selection = doc.data();
+    (selection.candidate_models || []).forEach((model: string) => {
+      const entry = selections.get(model) || { model, offered: 0, picked: 0 };
+      entry.offered += 1;
+      entry.picked += model === selection.selected_model ? 1 : 0;
+      selections.set(model, entry);
+    });
+  });
+
+  return {
+    models: Array.from(groups.values())
+      .sort((a, b) => b.confirmations - a.confirmations)
+      .map(group => ({
+        model: group.model,
+        language: group.language,
+        confirmations: group.confirmations,
+        correction_rate: ratio(group.corrected, group.confirmations),
+        rename_rate: ratio(group.renamed, group.predicted_items),
+        portion_change_rate: ratio(group.portion_changed, group.predicted_items),
+        nutrition_change_rate: ratio(group.nutrition_changed, group.predicted_items),
+        deletion_rate: ratio(group.deleted, group.predicted_items),
+        added_items_per_meal: ratio(group.added, group.confirmations),
+        mean_calorie_error_ratio: ratio(group.calorie_error_ratio_sum, group.confirmations)
+      })),
+    model_selections: Array.from(selections.values()).map(entry => ({
+      ...entry,
+      pick_rate: ratio(entry.picked, entry.offered)
+    }))
+  };
+};
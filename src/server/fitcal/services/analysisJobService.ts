@@ -0,0 +1,375 @@
+import { hostname } from 'os';
+import { db } from '../../../firebase';
+import type { DocumentData, DocumentReference, QueryDocumentSnapshot, Transaction } from 'firebase-admin/firestore';
+import { v4 as uuidv4 } from 'uuid';
+import { logger } from '../../../utils/logger';
+import { getWebSocketService } from '../../../services/websocketService';
+import { findDietaryConflicts } from './dietaryService';
+import {
+  analyzeMeal,
+  analyzeNutritionLabelMeal,
+  formatAnalysisResponse,
+  formatLabelAnalysisResponse
+} from './mealService';
+import { getUserInfo } from './userInfoService';
+
+export type AnalysisJobStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+
+export type AnalysisMode = 'plate' | 'label';
+
+export const ANALYSIS_MODES: AnalysisMode[] = ['plate', 'label'];
+
+export interface AnalysisJob {
+  id: string;
+  meal_id: string;
+  user_id: string;
+  model: string;
+  language: string;
+  mode?: AnalysisMode;
+  status: AnalysisJobStatus;
+  attempts: number;
+  max_attempts: number;
+  result: ReturnType<typeof formatAnalysisResponse> | ReturnType<typeof formatLabelAnalysisResponse> | null;
+  error: string | null;
+  created_at: string;
+  updated_at: string;
+  started_at: string | null;
+  finished_at: string | null;
+  // The instance that owns the job and until when; another instance may take it over once it expires.
+  worker_id?: string | null;
+  lease_expires_at?: string | null;
+}
+
+export const MEAL_ANALYSIS_EVENT = 'meal:analysis';
+
+const MAX_ATTEMPTS = Number(process.env.MEAL_ANALYSIS_JOB_MAX_ATTEMPTS || 3);
+const RETRY_BASE_DELAY_MS = Number(process.env.MEAL_ANALYSIS_JOB_RETRY_DELAY_MS || 2000);
+const MAX_CONCURRENT_JOBS = Number(process.env.MEAL_ANALYSIS_JOB_CONCURRENCY || 2);
+const LEASE_MS = Number(process.env.MEAL_ANALYSIS_JOB_LEASE_MS || 2 * 60_000);
+// The lease is renewed well before it runs out so a slow Gemini call does not lose the job.
+const LEASE_RENEW_INTERVAL_MS = Math.floor(LEASE_MS / 3);
+
+const WORKER_ID = `${hostname()}-${process.pid}-${uuidv4().slice(0, 8)}`;
+
+// Errors caused by the meal itself or by configuration; retrying would only repeat them.
+const NON_RETRYABLE_ERRORS = [
+  'meal not found',
+  'image is missing',
+  'description is missing',
+  'requires a "before" image',
+  'cannot be analyzed',
+  'gemini_api_key'
+];
+
+const pendingJobIds: string[] = [];
+let activeJobs = 0;
+
+const jobsCollection = () => db.collection('analysis_jobs');
+
+const isRetryableError = (error: unknown) => {
+  const message = ((error as Error)?.message || '').toLowerCase();
+  return !NON_RETRYABLE_ERRORS.some(fragment => message.includes(fragment));
+};
+
+/**
+ * Writes to a job only while this instance still holds it. A worker whose lease ran out and was taken
+ * over by another instance gets null back and has to stop, so it cannot renew the new owner's lease
+ * or overwrite its status and result.
+ */
+const updateOwnedJob = (jobId: string, updates: Partial<AnalysisJob>): Promise<Partial<AnalysisJob> | null> =>
+  db.runTransaction(async (transaction: Transaction) => {
+    const ref: DocumentReference = jobsCollection().doc(jobId);
+    const doc = await transaction.get(ref);
+    if (!doc.exists || doc.data()?.worker_id !== WORKER_ID) {
+      return null;
+    }
+    const payload = { ...updates, updated_at: new Date().toISOString() };
+    transaction.update(ref, payload);
+    return payload;
+  });
+
+const notifyUser = (job: AnalysisJob, updates: Partial<AnalysisJob>) => {
+  try {
+    getWebSocketService()?.sendToUser(job.user_id, MEAL_ANALYSIS_EVENT, {
+      job_id: job.id,
+      meal_id: job.meal_id,
+      status: updates.status ?? job.status,
+      attempts: updates.attempts ?? job.attempts,
+      result: updates.result ?? null,
+      error: updates.error ?? null
+    });
+  } catch (error) {
+    logger.warn({ err: error, jobId: job.id }, 'Failed to push meal analysis event');
+  }
+};
+
+const getLeaseExpiry = () => new Date(Date.now() + LEASE_MS).toISOString();
+
+const isLeaseExpired = (job: Pick<AnalysisJob, 'lease_expires_at'>) =>
+  !job.lease_expires_at || job.lease_expires_at <= new Date().toISOString();
+
+/**
+ * Leases the job to this instance inside a transaction, so two instances resuming the same job
+ * cannot both hold it. `start` also marks the job as running. Returns null when the job is finished
+ * or another instance holds a live lease.
+ */
+const leaseJob = (jobId: string, options: { start: boolean }): Promise<AnalysisJob | null> =>
+  db.runTransaction(async (transaction: Transaction) => {
+    const ref: DocumentReference = jobsCollection().doc(jobId);
+    const doc = await transaction.get(ref);
+    if (!doc.exists) {
+      logger.warn({ jobId }, 'Analysis job disappeared before it could run');
+      return null;
+    }
+    const job = { id: doc.id, ...doc.data() } as AnalysisJob;
+    if (job.status === 'succeeded' || job.status === 'failed') {
+      return null;
+    }
+    if (job.worker_id && job.worker_id !== WORKER_ID && !isLeaseExpired(job)) {
+      logger.info({ jobId, workerId: job.worker_id }, 'Analysis job is leased by another instance');
+      return null;
+    }
+
+    const now = new Date().toISOString();
+    const leased: Partial<AnalysisJob> = { worker_id: WORKER_ID, lease_expires_at: getLeaseExpiry(), updated_at: now };
+    if (options.start) {
+      leased.status = 'running';
+      leased.started_at = job.started_at || now;
+    }
+    transaction.update(ref, leased);
+    return { ...job, ...leased };
+  });
+
+const claimJob = (jobId: string) => leaseJob(jobId, { start: true });
+
+const delay = (ms: number) => new Promise(resolve => {
+  const timer = setTimeout(resolve, ms);
+  if (typeof timer.unref === 'function') {
+    timer.unref();
+  }
+});
+
+const analyzeJobMeal = async (job: AnalysisJob) => {
+  const user = await getUserInfo(job.user_id);
+  if (job.mode === 'label') {
+    const label = await analyzeNutritionLabelMeal(job.meal_id, job.model, job.language);
+    return formatLabelAnalysisResponse(label, user ? findDietaryConflicts(user, [{ name: label.raw.product_name, ...label.raw }]) : []);
+  }
+  const analysis = await analyzeMeal(job.meal_id, job.model, job.language);
+  return formatAnalysisResponse(analysis, user ? findDietaryConflicts(user, analysis.raw.items) : []);
+};
+
+const logLostLease = (job: AnalysisJob) =>
+  logger.warn({ jobId: job.id, mealId: job.meal_id }, 'Analysis job was taken over by another instance; stopping here');
+
+const runJob = async (jobId: string) => {
+  const job = await claimJob(jobId);
+  if (!job) {
+    return;
+  }
+  if (job.attempts >= job.max_attempts) {
+    const failed = await updateOwnedJob(jobId, {
+      status: 'failed',
+      error: job.error || 'Meal analysis retries exhausted',
+      finished_at: new Date().toISOString(),
+      lease_expires_at: null
+    });
+    if (failed) {
+      notifyUser(job, failed);
+    }
+    return;
+  }
+
+  notifyUser(job, { status: 'running' });
+  let leaseLost = false;
+  const heartbeat = setInterval(() => {
+    updateOwnedJob(jobId, { lease_expires_at: getLeaseExpiry() })
+      .then(renewed => {
+        leaseLost = leaseLost || !renewed;
+      })
+      .catch(error => logger.warn({ err: error, jobId }, 'Failed to renew analysis job lease'));
+  }, LEASE_RENEW_INTERVAL_MS);
+  if (typeof heartbeat.unref === 'function') {
+    heartbeat.unref();
+  }
+
+  try {
+    for (let attempt = job.attempts + 1; attempt <= job.max_attempts; attempt += 1) {
+      if (leaseLost) {
+        logLostLease(job);
+        return;
+      }
+      try {
+        const result = await analyzeJobMeal(job);
+        const succeeded = await updateOwnedJob(jobId, {
+          status: 'succeeded',
+          attempts: attempt,
+          result,
+          error: null,
+          finished_at: new Date().toISOString(),
+          lease_expires_at: null
+        });
+        if (!succeeded) {
+          logLostLease(job);
+          return;
+        }
+        logger.info({ jobId, mealId: job.meal_id, attempt }, 'Meal analysis job succeeded');
+        notifyUser(job, succeeded);
+        return;
+      } catch (error) {
+        const message = (error as Error)?.message || 'Meal analysis failed';
+        const canRetry = attempt < job.max_attempts && isRetryableError(error);
+        logger.warn({ err: error, jobId, mealId: job.meal_id, attempt, canRetry }, 'Meal analysis job attempt failed');
+
+        if (!canRetry) {
+          const failed = await updateOwnedJob(jobId, {
+            status: 'failed',
+            attempts: attempt,
+            error: message,
+            finished_at: new Date().toISOString(),
+            lease_expires_at: null
+          });
+          if (failed) {
+            notifyUser(job, failed);
+          } else {
+            logLostLease(job);
+          }
+          return;
+        }
+
+        const retrying = await updateOwnedJob(jobId, { attempts: attempt, error: message });
+        if (!retrying) {
+          logLostLease(job);
+          return;
+        }
+        notifyUser(job, { ...retrying, status: 'running' });
+        await delay(RETRY_BASE_DELAY_MS * 2 ** (attempt - 1));
+      }
+    }
+  } finally {
+    clearInterval(heartbeat);
+  }
+};
+
+const drainQueue = () => {
+  while (activeJobs < MAX_CONCURRENT_JOBS && pendingJobIds.length) {
+    const jobId = pendingJobIds.shift() as string;
+    activeJobs += 1;
+    runJob(jobId)
+      .catch(error => logger.error({ err: error, jobId }, 'Meal analysis job crashed'))
+      .finally(() => {
+        activeJobs -= 1;
+        drainQueue();
+      });
+  }
+};
+
+let queueHeartbeat: NodeJS.Timeout | null = null;
+
+/**
+ * Jobs waiting in this instance's queue keep their lease renewed, so a long queue does not let the
+ * lease run out and another instance take over a job that is still going to run here. Jobs that
+ * are no longer ours (finished, or taken over after all) are dropped from the queue.
+ */
+const renewQueuedLeases = async () => {
+  for (const jobId of [...pendingJobIds]) {
+    try {
+      if (!(await leaseJob(jobId, { start: false }))) {
+        const index = pendingJobIds.indexOf(jobId);
+        if (index !== -1) {
+          pendingJobIds.splice(index, 1);
+        }
+      }
+    } catch (error) {
+      logger.warn({ err: error, jobId }, 'Failed to renew queued analysis job lease');
+    }
+  }
+};
+
+const scheduleJob = (jobId: string) => {
+  pendingJobIds.push(jobId);
+  if (!queueHeartbeat) {
+    queueHeartbeat = setInterval(() => {
+      if (pendingJobIds.length) {
+        renewQueuedLeases().catch(error => logger.warn({ err: error }, 'Failed to renew queued analysis job leases'));
+      }
+    }, LEASE_RENEW_INTERVAL_MS);
+    if (typeof queueHeartbeat.unref === 'function') {
+      queueHeartbeat.unref();
+    }
+  }
+  setImmediate(drainQueue);
+};
+
+export const enqueueMealAnalysis = async (input: {
+  userId: string;
+  mealId: string;
+  model: string;
+  language: string;
+  mode?: AnalysisMode;
+}) => {
+  const now = new Date().toISOString();
+  const job: AnalysisJob = {
+    id: uuidv4(),
+    meal_id: input.mealId,
+    user_id: input.userId,
+    model: input.model,
+    language: input.language,
+    mode: input.mode || 'plate',
+    status: 'queued',
+    attempts: 0,
+    max_attempts: MAX_ATTEMPTS,
+    result: null,
+    error: null,
+    created_at: now,
+    updated_at: now,
+    started_at: null,
+    finished_at: null,
+    // Leased from the start so other instances leave it alone while it waits in this one's queue.
+    worker_id: WORKER_ID,
+    lease_expires_at: getLeaseExpiry()
+  };
+
+  await jobsCollection().doc(job.id).set(job);
+  logger.info({ jobId: job.id, mealId: job.meal_id, userId: job.user_id }, 'Meal analysis job queued');
+  scheduleJob(job.id);
+  return job;
+};
+
+export const getAnalysisJob = async (userId: string, mealId: string, jobId: string) => {
+  const doc = await jobsCollection().doc(jobId).get();
+  if (!doc.exists) {
+    return null;
+  }
+  const job = { id: doc.id, ...doc.data() } as AnalysisJob;
+  return job.user_id === userId && job.meal_id === mealId ? job : null;
+};
+
+/**
+ * Jobs live in process memory while they run, so a job whose instance stopped is left queued or
+ * running with a lease nobody renews. Runs at startup and periodically; only jobs whose lease has
+ * expired are picked up, and each is leased before it is queued, so only one instance gets it.
+ * Attempts already spent count toward the retry limit.
+ */
+export const resumePendingAnalysisJobs = async () => {
+  const snapshots = await Promise.all(
+    (['queued', 'running'] as AnalysisJobStatus[]).map(status => jobsCollection().where('status', '==', status).get())
+  );
+  const candidateIds = snapshots.flatMap(snapshot =>
+    snapshot.docs
+      .filter((doc: QueryDocumentSnapshot<DocumentData>) => isLeaseExpired(doc.data() as AnalysisJob))
+      .map((doc: QueryDocumentSnapshot<DocumentData>) => doc.id)
+  ).filter((jobId: string) => !pendingJobIds.includes(jobId));
+
+  const jobIds: string[] = [];
+  for (const jobId of candidateIds) {
+    if (await leaseJob(jobId, { start: false })) {
+      jobIds.push(jobId);
+    }
+  }
+  jobIds.forEach(scheduleJob);
+  if (jobIds.length) {
+    logger.info({ count: jobIds.length, workerId: WORKER_ID }, 'Resumed pending meal analysis jobs');
+  }
+  return jobIds.length;
+};
@@ -0,0 +1,153 @@
+import { db } from '../../../firebase';
+import { logger } from '../../../utils/logger';
+import { SAMPLE_BARCODE_PRODUCTS } from '../data/barcodeProducts';
+import { NutrientProfile, NutritionTotals, pickTotals, scaleTotals } from '../utils/nutrition';
+import { FoodRecord, findLabelFoodByBarcode } from './foodService';
+import { logMealWithItems } from './mealService';
+import type { UserInfo } from './userInfoService';
+
+export interface BarcodeProductLookup {
+  barcode: string;
+  name: string;
+  brand?: string | null;
+  serving_size_g?: number | null;
+  serving_label?: string | null;
+  per_100g: NutrientProfile;
+}
+
+export interface BarcodeProduct extends BarcodeProductLookup {
+  id: string;
+  source: string;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * A remote product database (Open Food Facts, a retailer API, ...). Providers receive a normalized
+ * barcode and return null when they do not know the product.
+ */
+export interface BarcodeProductProvider {
+  name: string;
+  lookup: (barcode: string) => Promise<BarcodeProductLookup | null>;
+}
+
+const stubBarcodeProductProvider: BarcodeProductProvider = {
+  name: 'local-stub',
+  lookup: async (barcode: string) => SAMPLE_BARCODE_PRODUCTS.find(product => product.barcode === barcode) || null
+};
+
+let barcodeProductProvider: BarcodeProductProvider = stubBarcodeProductProvider;
+
+export const setBarcodeProductProvider = (provider: BarcodeProductProvider) => {
+  barcodeProductProvider = provider;
+};
+
+const hasValidCheckDigit = (digits: string) => {
+  const body = digits.slice(0, -1);
+  const sum = body
+    .split('')
+    .reverse()
+    .reduce((acc, digit, index) => acc + Number(digit) * (index % 2 === 0 ? 3 : 1), 0);
+  return (10 - (sum % 10)) % 10 === Number(digits[digits.length - 1]);
+};
+
+/**
+ * Accepts EAN-8, UPC-A and EAN-13 codes and returns the canonical form used as the product id
+ * (UPC-A is widened to EAN-13 with a leading zero). Returns null for malformed codes.
+ */
+export const normalizeBarcode = (code: string) => {
+  const digits = (code || '').replace(/\s|-/g, '');
+  if (!/^\d+$/.test(digits) || ![8, 12, 13].includes(digits.length) || !hasValidCheckDigit(digits)) {
+    return null;
+  }
+  return digits.length === 12 ? `0${digits}` : digits;
+};
+
+const fromLabelFood = (food: FoodRecord, barcode: string): BarcodeProduct => {
+  const serving = (food.servings || []).find(item => item.id === 'serving');
+  return {
+    id: food.id,
+    barcode,
+    // Label foods are named "<brand> <product>" and keep the bare product name as their alias.
+    name: food.brand ? food.aliases?.[0] || food.name_en : food.name_en,
+    brand: food.brand || null,
+    serving_size_g: serving?.grams || null,
+    serving_label: serving?.name_en || null,
+    per_100g: pickTotals(food.per_100g),
+    source: 'label',
+    created_at: food.created_at,
+    updated_at: food.updated_at
+  };
+};
+
+/**
+ * Finds a product by barcode: in the shared product cache, then among the nutrition labels the user
+ * scanned, then at the product provider. Only provider results are cached for everyone; a user's
+ * label reading is returned to that user alone.
+ */
+export const lookupBarcodeProduct = async (barcode: string, userId?: string): Promise<BarcodeProduct | null> => {
+  const productRef = db.collection('food_products').doc(barcode);
+  const existing = await productRef.get();
+  if (existing.exists) {
+    return { id: existing.id, ...existing.data() } as BarcodeProduct;
+  }
+
+  if (userId) {
+    const labelFood = await findLabelFoodByBarcode(userId, barcode);
+    if (labelFood) {
+      return fromLabelFood(labelFood, barcode);
+    }
+  }
+
+  const found = await barcodeProductProvider.lookup(barcode);
+  if (!found) {
+    logger.info({ barcode, provider: barcodeProductProvider.name }, 'Barcode product not found');
+    return null;
+  }
+
+  const now = new Date().toISOString();
+  const product: BarcodeProduct = {
+    ...found,
+    id: barcode,
+    barcode,
+    brand: found.brand || null,
+    serving_size_g: found.serving_size_g || null,
+    serving_label: found.serving_label || null,
+    per_100g: pickTotals(found.per_100g),
+    source: barcodeProductProvider.name,
+    created_at: now,
+    updated_at: now
+  };
+  await productRef.set(product);
+  logger.info({ barcode, provider: barcodeProductProvider.name }, 'Barcode product cached');
+  return product;
+};
+
+export const logBarcodeProduct = async (
+  user: UserInfo,
+  product: BarcodeProduct,
+  options: { servings?: number; grams?: number; mealTime?: string; label?: string | null }
+) => {
+  const grams = options.grams ?? (product.serving_size_g ? product.serving_size_g * (options.servings ?? 1) : NaN);
+  if (!Number.isFinite(grams) || grams <= 0) {
+    throw new Error('Product has no serving size; grams is required');
+  }
+
+  const { meal, items, totals, daily_stats: stats } = await logMealWithItems(user, {
+    source: 'barcode',
+    label: options.label || product.name,
+    mealTime: options.mealTime,
+    items: [
+      {
+        name: product.brand ? `${product.brand} ${product.name}` : product.name,
+        amount: Math.round(grams * 10) / 10,
+        unit: 'g',
+        barcode: product.barcode,
+        ...scaleTotals(pickTotals(product.per_100g), grams / 100)
+      }
+    ]
+  });
+
+  logger.info({ mealId: meal.id, userId: user.id, barcode: product.barcode, grams }, 'Barcode product logged');
+  return { meal_id: meal.id, item: items[0], totals, daily_stats: stats };
+};
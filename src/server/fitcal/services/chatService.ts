@@ -4,6 +4,7 @@ import { v4 as uuidv4 } from 'uuid';
 import { formatDateInTimeZone } from '../utils/timezone';
 import { generateCoachResponse, generateSummary, streamCoachResponse } from './geminiService';
 import { calculateDailyTargets, UserInfo } from './userInfoService';
+import { describeDietaryRestrictions } from './dietaryService';
 import { logger } from '../../../utils/logger';
 import { getWebSocketService } from '../../../services/websocketService';
 
@@ -147,13 +148,14 @@ const buildContext = async (user: UserInfo, stats: any, memorySummary: any, rece
   const weeklySummary = await getRecentStatsSummary(user);
 
   const userContext = `Kullanıcı: ${user.name || 'Bilinmiyor'}, Hedef: ${user.goal || 'maintain'}, Boy/Kilo: ${user.height_cm || '-'} / ${user.current_weight_kg || '-'}`;
+  const restrictions = describeDietaryRestrictions(user);
   const dailyStats = `Bugün (${today}) Alınan: ${stats?.calories_consumed || 0} kcal (Hedef ${targets.calories_goal} kcal), Protein: ${stats?.protein_consumed_g || 0}g, Su: ${stats?.water_ml || 0}ml, Adım: ${stats?.steps || 0}`;
   const memory = `Hafıza Özeti: ${memorySummary?.summary || 'Yeni kullanıcı, sıcak karşıla.'}`;
   const history = recentMessages
     .map((msg: { role?: string; content?: string }) => `${msg.role === 'assistant' ? 'Koç' : 'Kullanıcı'}: ${msg.content ?? ''}`)
     .join('\n');
 
-  return `${userContext}\n---\n${dailyStats}\n---\n${weeklySummary}\n---\n${memory}\n---\nSon Konuşmalar:\n${history}\n---\nYeni Mesaj: ${currentMessage}`;
+  return `${userContext}\n${restrictions}\n---\n${dailyStats}\n---\n${weeklySummary}\n---\n${memory}\n---\nSon Konuşmalar:\n${history}\n---\nYeni Mesaj: ${currentMessage}`;
 };
 
 const prepareChatContext = async (params: {
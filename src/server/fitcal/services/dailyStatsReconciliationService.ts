@@ -0,0 +1,223 @@
+import { hostname } from 'os';
+import { db } from '../../../firebase';
+import type { DocumentData, DocumentReference, Query, QueryDocumentSnapshot, Transaction } from 'firebase-admin/firestore';
+import { v4 as uuidv4 } from 'uuid';
+import { logger } from '../../../utils/logger';
+import { addDaysToDate, formatDateInTimeZone, getUtcRangeForDate, listDatesInRange } from '../utils/timezone';
+import { DAILY_STATS_CONSUMED_FIELDS, sumTotals, toDailyStatsDeltas } from '../utils/nutrition';
+import { getDailyStatsRef } from './progressService';
+import { calculateDailyTargets, getUserInfo, UserInfo } from './userInfoService';
+
+export interface DailyStatsFieldDrift {
+  stored: number;
+  expected: number;
+}
+
+export interface DailyStatsRepair {
+  date: string;
+  created: boolean;
+  duplicates_removed: number;
+  fields: Record<string, DailyStatsFieldDrift>;
+}
+
+export interface DailyStatsReconciliationReport {
+  user_id: string;
+  from: string;
+  to: string;
+  dry_run: boolean;
+  days_checked: number;
+  days_repaired: number;
+  repairs: DailyStatsRepair[];
+}
+
+// Counters derived from source documents; steps and goals have no source to rebuild them from.
+const RECONCILED_FIELDS = [...Object.values(DAILY_STATS_CONSUMED_FIELDS), 'water_ml', 'calories_burned'];
+
+// Stored totals are rounded to one decimal; smaller differences are rounding, not drift.
+const DRIFT_TOLERANCE = 0.05;
+
+const DEFAULT_LOOKBACK_DAYS = Number(process.env.DAILY_STATS_RECONCILE_LOOKBACK_DAYS || 2);
+
+export const DAILY_STATS_RECONCILE_INTERVAL_MS = Number(process.env.DAILY_STATS_RECONCILE_INTERVAL_MS || 6 * 60 * 60 * 1000);
+// A little shorter than the interval, so timer drift does not make the next pass skip a turn.
+const RECONCILE_LEASE_MS = Math.max(DAILY_STATS_RECONCILE_INTERVAL_MS - 5 * 60_000, DAILY_STATS_RECONCILE_INTERVAL_MS / 2);
+
+const INSTANCE_ID = `${hostname()}-${process.pid}-${uuidv4().slice(0, 8)}`;
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+const sumField = (docs: Array<QueryDocumentSnapshot<DocumentData>>, field: string) =>
+  round(docs.reduce((sum, doc) => sum + (Number(doc.data()[field]) || 0), 0));
+
+/**
+ * Rebuilds one day from confirmed meals, water logs and exercise logs inside a transaction, so an
+ * increment that lands while the day is being recomputed makes the transaction retry instead of
+ * being overwritten.
+ * Duplicate daily_stats documents for the day (left by concurrent creates) are merged into one.
+ */
+const reconcileDay = (user: UserInfo, date: string, dryRun: boolean): Promise<DailyStatsRepair | null> =>
+  db.runTransaction(async (transaction: Transaction) => {
+    const { start, end } = getUtcRangeForDate(date, user.timezone || 'UTC');
+    const inDay = (collection: string, timeField: string): Query =>
+      db
+        .collection(collection)
+        .where('user_id', '==', user.id)
+        .where(timeField, '>=', start.toISOString())
+        .where(timeField, '<', end.toISOString());
+    const onDate = (collection: string): Query =>
+      db.collection(collection).where('user_id', '==', user.id).where('date', '==', date);
+    const statsQuery = onDate('daily_stats');
+    const [statsSnapshot, mealsSnapshot, waterSnapshot, exerciseSnapshot] = await Promise.all([
+      transaction.get(statsQuery),
+      transaction.get(inDay('meals', 'meal_time')),
+      transaction.get(inDay('water_logs', 'timestamp')),
+      // Exercise logs count towards their stored date, which for imported workouts is the day they were
+      // imported into rather than the day performed_at falls on.
+      transaction.get(onDate('exercise_logs'))
+    ]);
+
+    const confirmedMeals = mealsSnapshot.docs
+      .map((doc: QueryDocumentSnapshot<DocumentData>) => doc.data())
+      .filter((meal: DocumentData) => meal.status === 'confirmed');
+    const expected: Record<string, number> = {
+      ...toDailyStatsDeltas(sumTotals(confirmedMeals)),
+      water_ml: sumField(waterSnapshot.docs, 'amount_ml'),
+      calories_burned: sumField(exerciseSnapshot.docs, 'calories_burned')
+    };
+
+    const docs: Array<QueryDocumentSnapshot<DocumentData>> = statsSnapshot.docs;
+    const preferredRef = getDailyStatsRef(user.id, date);
+    const kept = docs.find(doc => doc.id === preferredRef.id) || docs[0];
+    const duplicates = docs.filter(doc => doc !== kept);
+    const stored = kept?.data() || {};
+
+    const fields: Record<string, DailyStatsFieldDrift> = {};
+    RECONCILED_FIELDS.forEach(field => {
+      const storedValue = Number(stored[field]) || 0;
+      const expectedValue = round(expected[field] || 0);
+      if (Math.abs(storedValue - expectedValue) > DRIFT_TOLERANCE) {
+        fields[field] = { stored: storedValue, expected: expectedValue };
+      }
+    });
+
+    const hasActivity = RECONCILED_FIELDS.some(field => expected[field]);
+    if ((!kept && !hasActivity) || (kept && !duplicates.length && !Object.keys(fields).length)) {
+      return null;
+    }
+
+    if (!dryRun) {
+      const corrected = Object.fromEntries(RECONCILED_FIELDS.map(field => [field, round(expected[field] || 0)]));
+      const reconciledAt = new Date().toISOString();
+      if (kept) {
+        // Steps are synced as the day's running total, so duplicates hold copies rather than parts of it.
+        const steps = Math.max(...docs.map(doc => Number(doc.data().steps) || 0));
+        transaction.set(kept.ref, { ...corrected, steps, reconciled_at: reconciledAt }, { merge: true });
+        duplicates.forEach(doc => transaction.delete(doc.ref));
+      } else {
+        transaction.set(preferredRef, {
+          user_id: user.id,
+          date,
+          ...calculateDailyTargets(user),
+          ...corrected,
+          steps: 0,
+          reconciled_at: reconciledAt
+        });
+      }
+    }
+
+    return { date, created: !kept, duplicates_removed: duplicates.length, fields };
+  });
+
+/**
+ * Recomputes daily_stats for `from`..`to` (inclusive, YYYY-MM-DD in the user's time zone) and
+ * repairs any day whose counters drifted from the meals, water and exercise logs they summarize.
+ * With `dryRun` the drift is reported but nothing is written.
+ */
+export const reconcileDailyStats = async (
+  user: UserInfo,
+  from: string,
+  to: string,
+  options: { dryRun?: boolean } = {}
+): Promise<DailyStatsReconciliationReport> => {
+  const dryRun = options.dryRun ?? false;
+  const dates = listDatesInRange(from, to);
+  const repairs: DailyStatsRepair[] = [];
+  for (const date of dates) {
+    const repair = await reconcileDay(user, date, dryRun);
+    if (repair) {
+      repairs.push(repair);
+    }
+  }
+
+  if (repairs.length) {
+    logger.warn({ userId: user.id, from, to, dryRun, repairs }, 'Daily stats drift detected');
+  }
+  return {
+    user_id: user.id,
+    from,
+    to,
+    dry_run: dryRun,
+    days_checked: dates.length,
+    days_repaired: dryRun ? 0 : repairs.length,
+    repairs
+  };
+};
+
+/**
+ * Every instance schedules the repair pass; a lease document lets only one of them run it per
+ * interval. The lease is not released when the pass ends, so the others skip the rest of the interval.
+ */
+const acquireReconciliationLease = () =>
+  db.runTransaction(async (transaction: Transaction) => {
+    const ref: DocumentReference = db.collection('scheduled_job_leases').doc('daily_stats_reconciliation');
+    const doc = await transaction.get(ref);
+    const now = new Date();
+    const lease = doc.exists ? doc.data() : null;
+    if (lease && lease.worker_id !== INSTANCE_ID && lease.lease_expires_at > now.toISOString()) {
+      return false;
+    }
+    transaction.set(ref, {
+      worker_id: INSTANCE_ID,
+      leased_at: now.toISOString(),
+      lease_expires_at: new Date(now.getTime() + RECONCILE_LEASE_MS).toISOString()
+    });
+    return true;
+  });
+
+/**
+ * Scheduled repair pass: reconciles the last few days of every user who has daily_stats in that
+ * window. The window is widened by a day on both sides so every time zone's "today" is covered.
+ * Returns null when another instance already runs the pass for this interval.
+ */
+export const reconcileRecentDailyStats = async (lookbackDays = DEFAULT_LOOKBACK_DAYS) => {
+  if (!(await acquireReconciliationLease())) {
+    logger.info({ workerId: INSTANCE_ID }, 'Daily stats reconciliation is leased by another instance');
+    return null;
+  }
+
+  const today = formatDateInTimeZone(new Date(), 'UTC');
+  const from = addDaysToDate(today, -(lookbackDays + 1));
+  const to = addDaysToDate(today, 1);
+
+  const snapshot = await db.collection('daily_stats').where('date', '>=', from).where('date', '<=', to).get();
+  const userIds = Array.from(
+    new Set<string>(snapshot.docs.map((doc: QueryDocumentSnapshot<DocumentData>) => doc.data().user_id).filter(Boolean))
+  );
+
+  let daysRepaired = 0;
+  for (const userId of userIds) {
+    try {
+      const user = await getUserInfo(userId);
+      if (!user) {
+        continue;
+      }
+      const report = await reconcileDailyStats(user, from, to);
+      daysRepaired += report.days_repaired;
+    } catch (error) {
+      logger.error({ err: error, userId }, 'Daily stats reconciliation failed for user');
+    }
+  }
+
+  logger.info({ from, to, users: userIds.length, daysRepaired }, 'Daily stats reconciliation completed');
+  return { from, to, users_checked: userIds.length, days_repaired: daysRepaired };
+};
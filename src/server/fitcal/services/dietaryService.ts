@@ -0,0 +1,178 @@
+import type { UserInfo } from './userInfoService';
+
+export const ALLERGENS = [
+  'gluten',
+  'milk',
+  'lactose',
+  'egg',
+  'peanut',
+  'tree_nut',
+  'soy',
+  'fish',
+  'shellfish',
+  'sesame'
+] as const;
+
+export type Allergen = (typeof ALLERGENS)[number];
+
+export const DIETARY_PREFERENCES = ['vegetarian', 'vegan', 'pescatarian', 'halal', 'kosher'] as const;
+
+export type DietaryPreference = (typeof DIETARY_PREFERENCES)[number];
+
+// Ingredient classes that decide whether a food fits a diet, independent of allergens.
+export const DIET_TAGS = ['meat', 'poultry', 'pork', 'fish', 'shellfish', 'dairy', 'egg', 'honey', 'gelatin', 'alcohol'] as const;
+
+export type DietTag = (typeof DIET_TAGS)[number];
+
+export interface DietaryAttributes {
+  allergens?: Allergen[];
+  contains?: DietTag[];
+}
+
+export interface DietaryWarning {
+  type: 'allergen' | 'diet';
+  code: Allergen | DietaryPreference;
+  item_name: string | null;
+  message: string;
+}
+
+const FORBIDDEN_TAGS: Record<DietaryPreference, DietTag[]> = {
+  vegetarian: ['meat', 'poultry', 'pork', 'fish', 'shellfish', 'gelatin'],
+  vegan: ['meat', 'poultry', 'pork', 'fish', 'shellfish', 'gelatin', 'dairy', 'egg', 'honey'],
+  pescatarian: ['meat', 'poultry', 'pork', 'gelatin'],
+  halal: ['pork', 'alcohol'],
+  kosher: ['pork', 'shellfish']
+};
+
+const ALLERGEN_LABELS: Record<Allergen, { tr: string; en: string }> = {
+  gluten: { tr: 'gluten', en: 'gluten' },
+  milk: { tr: 'süt', en: 'milk' },
+  lactose: { tr: 'laktoz', en: 'lactose' },
+  egg: { tr: 'yumurta', en: 'egg' },
+  peanut: { tr: 'yer fıstığı', en: 'peanut' },
+  tree_nut: { tr: 'sert kabuklu yemiş', en: 'tree nuts' },
+  soy: { tr: 'soya', en: 'soy' },
+  fish: { tr: 'balık', en: 'fish' },
+  shellfish: { tr: 'kabuklu deniz ürünü', en: 'shellfish' },
+  sesame: { tr: 'susam', en: 'sesame' }
+};
+
+const DIET_LABELS: Record<DietaryPreference, { tr: string; en: string }> = {
+  vegetarian: { tr: 'vejetaryen', en: 'vegetarian' },
+  vegan: { tr: 'vegan', en: 'vegan' },
+  pescatarian: { tr: 'pesketaryen', en: 'pescatarian' },
+  halal: { tr: 'helal', en: 'halal' },
+  kosher: { tr: 'koşer', en: 'kosher' }
+};
+
+export const isAllergen = (value: unknown): value is Allergen => ALLERGENS.includes(value as Allergen);
+
+export const isDietaryPreference = (value: unknown): value is DietaryPreference =>
+  DIETARY_PREFERENCES.includes(value as DietaryPreference);
+
+export const isDietTag = (value: unknown): value is DietTag => DIET_TAGS.includes(value as DietTag);
+
+/**
+ * Validates a user's dietary settings. Unknown values are reported instead of being dropped so the
+ * client can surface typos.
+ */
+export const sanitizeDietaryRestrictions = (body: Record<string, any>) => {
+  const updates: Pick<UserInfo, 'dietary_preferences' | 'allergens'> = {};
+  const errors: string[] = [];
+
+  if (body.dietary_preferences !== undefined) {
+    if (!Array.isArray(body.dietary_preferences) || !body.dietary_preferences.every(isDietaryPreference)) {
+      errors.push(`dietary_preferences must be a list of ${DIETARY_PREFERENCES.join(', ')}`);
+    } else {
+      updates.dietary_preferences = Array.from(new Set(body.dietary_preferences as DietaryPreference[]));
+    }
+  }
+
+  if (body.allergens !== undefined) {
+    if (!Array.isArray(body.allergens) || !body.allergens.every(isAllergen)) {
+      errors.push(`allergens must be a list of ${ALLERGENS.join(', ')}`);
+    } else {
+      updates.allergens = Array.from(new Set(body.allergens as Allergen[]));
+    }
+  }
+
+  return { updates, errors };
+};
+
+const label = (labels: { tr: string; en: string }, language?: string) =>
+  (language || 'tr').toLowerCase().startsWith('en') ? labels.en : labels.tr;
+
+/**
+ * Compares tagged items against the user's allergens and diets. Kosher additionally forbids meat and
+ * dairy in the same meal, so that rule looks at the items together rather than one by one.
+ */
+export const findDietaryConflicts = (
+  user: Pick<UserInfo, 'dietary_preferences' | 'allergens' | 'language'>,
+  items: Array<DietaryAttributes & { name?: string | null }>
+): DietaryWarning[] => {
+  const userAllergens = user.allergens || [];
+  const diets = user.dietary_preferences || [];
+  if (!userAllergens.length && !diets.length) {
+    return [];
+  }
+
+  const isEnglish = (user.language || 'tr').toLowerCase().startsWith('en');
+  const warnings: DietaryWarning[] = [];
+
+  items.forEach(item => {
+    const itemName = item.name || null;
+    (item.allergens || []).filter(allergen => userAllergens.includes(allergen)).forEach(allergen => {
+      const allergenLabel = label(ALLERGEN_LABELS[allergen], user.language);
+      warnings.push({
+        type: 'allergen',
+        code: allergen,
+        item_name: itemName,
+        message: isEnglish
+          ? `${itemName || 'This food'} may contain ${allergenLabel}.`
+          : `${itemName || 'Bu besin'} ${allergenLabel} içerebilir.`
+      });
+    });
+
+    diets.forEach(diet => {
+      const conflict = (item.contains || []).find(tag => FORBIDDEN_TAGS[diet].includes(tag));
+      if (!conflict) {
+        return;
+      }
+      const dietLabel = label(DIET_LABELS[diet], user.language);
+      warnings.push({
+        type: 'diet',
+        code: diet,
+        item_name: itemName,
+        message: isEnglish
+          ? `${itemName || 'This food'} may not fit your ${dietLabel} diet (${conflict}).`
+          : `${itemName || 'Bu besin'} ${dietLabel} beslenmene uymayabilir (${conflict}).`
+      });
+    });
+  });
+
+  if (diets.includes('kosher')) {
+    const tags = items.flatMap(item => item.contains || []);
+    const hasMeat = tags.includes('meat') || tags.includes('poultry');
+    if (hasMeat && tags.includes('dairy')) {
+      warnings.push({
+        type: 'diet',
+        code: 'kosher',
+        item_name: null,
+        message: isEnglish
+          ? 'This meal combines meat and dairy, which is not kosher.'
+          : 'Bu öğün et ve süt ürünlerini bir arada içeriyor; koşer değildir.'
+      });
+    }
+  }
+
+  return warnings;
+};
+
+export const describeDietaryRestrictions = (user: Pick<UserInfo, 'dietary_preferences' | 'allergens'>) => {
+  const diets = (user.dietary_preferences || []).map(diet => DIET_LABELS[diet].tr);
+  const allergens = (user.allergens || []).map(allergen => ALLERGEN_LABELS[allergen].tr);
+  if (!diets.length && !allergens.length) {
+    return 'Beslenme kısıtı belirtilmemiş.';
+  }
+  return `Beslenme kısıtları: Diyet: ${diets.join(', ') || '-'}, Alerjen/intolerans: ${allergens.join(', ') || '-'}. Önerilerinde bunlara kesinlikle uy.`;
+};
@@ -0,0 +1,257 @@
+import { db } from '../../../firebase';
+import type { DocumentData, DocumentReference, QueryDocumentSnapshot, Transaction } from 'firebase-admin/firestore';
+import { logger } from '../../../utils/logger';
+import { formatDateInTimeZone, getUtcRangeForDate } from '../utils/timezone';
+import { applyDailyStatsDeltasInTransaction } from './progressService';
+import { UserInfo } from './userInfoService';
+
+export const EXERCISE_TYPES = [
+  'walking',
+  'running',
+  'cycling',
+  'swimming',
+  'strength',
+  'hiit',
+  'yoga',
+  'hiking',
+  'dancing',
+  'other'
+] as const;
+
+export type ExerciseType = (typeof EXERCISE_TYPES)[number];
+
+export const EXERCISE_INTENSITIES = ['light', 'moderate', 'vigorous'] as const;
+
+export type ExerciseIntensity = (typeof EXERCISE_INTENSITIES)[number];
+
+export interface ExerciseInput {
+  type: ExerciseType;
+  duration_min: number;
+  intensity?: ExerciseIntensity;
+  distance_km?: number | null;
+  calories_burned?: number | null;
+  performed_at?: string;
+  note?: string | null;
+}
+
+export interface ExerciseLog {
+  id: string;
+  user_id: string;
+  type: ExerciseType;
+  intensity: ExerciseIntensity;
+  duration_min: number;
+  distance_km: number | null;
+  met: number | null;
+  weight_kg: number;
+  calories_burned: number;
+  calories_source: 'estimated' | 'reported';
+  performed_at: string;
+  date: string;
+  note: string | null;
+  // Set on workouts imported from a health platform.
+  health_sample_id?: string;
+  source?: string;
+  created_at: string;
+}
+
+const MAX_DURATION_MIN = 24 * 60;
+const MAX_DISTANCE_KM = 500;
+const MAX_REPORTED_CALORIES = 10_000;
+const MAX_NOTE_LENGTH = 200;
+// Allows for small clock differences between the device and the server.
+const FUTURE_TOLERANCE_MS = 5 * 60_000;
+
+// Same fallback weight as the calorie target calculation when the profile has none.
+const DEFAULT_WEIGHT_KG = 70;
+
+// MET values per intensity, from the Compendium of Physical Activities.
+const INTENSITY_METS: Record<ExerciseType, Record<ExerciseIntensity, number>> = {
+  walking: { light: 2.8, moderate: 3.5, vigorous: 5.0 },
+  running: { light: 6.0, moderate: 9.8, vigorous: 11.5 },
+  cycling: { light: 4.0, moderate: 6.8, vigorous: 10.0 },
+  swimming: { light: 5.8, moderate: 7.0, vigorous: 9.8 },
+  strength: { light: 3.5, moderate: 5.0, vigorous: 6.0 },
+  hiit: { light: 6.0, moderate: 8.0, vigorous: 10.0 },
+  yoga: { light: 2.5, moderate: 3.0, vigorous: 4.0 },
+  hiking: { light: 5.3, moderate: 6.0, vigorous: 7.8 },
+  dancing: { light: 3.0, moderate: 5.0, vigorous: 7.3 },
+  other: { light: 3.0, moderate: 4.5, vigorous: 6.0 }
+};
+
+// When a distance is given, speed is a better signal than the self-reported intensity.
+// Each entry is [minimum speed in km/h, MET].
+const SPEED_METS: Partial<Record<ExerciseType, Array<[number, number]>>> = {
+  walking: [[0, 2.0], [3.2, 2.8], [4.0, 3.0], [4.8, 3.5], [5.6, 4.3], [6.4, 5.0], [7.2, 7.0]],
+  running: [[0, 6.0], [8.0, 8.3], [9.7, 9.8], [11.3, 11.0], [12.9, 11.8], [14.5, 12.8], [16.1, 14.5]],
+  cycling: [[0, 4.0], [16.0, 6.8], [19.3, 8.0], [22.5, 10.0], [25.7, 12.0], [30.6, 15.8]]
+};
+
+export const isExerciseType = (value: unknown): value is ExerciseType =>
+  typeof value === 'string' && (EXERCISE_TYPES as readonly string[]).includes(value);
+
+export const isExerciseIntensity = (value: unknown): value is ExerciseIntensity =>
+  typeof value === 'string' && (EXERCISE_INTENSITIES as readonly string[]).includes(value);
+
+export const getExerciseMet = (
+  type: ExerciseType,
+  intensity: ExerciseIntensity,
+  durationMin: number,
+  distanceKm?: number | null
+) => {
+  const bands = SPEED_METS[type];
+  if (bands && distanceKm && durationMin > 0) {
+    const speed = distanceKm / (durationMin / 60);
+    return bands.reduce((met, [minSpeed, value]) => (speed >= minSpeed ? value : met), bands[0][1]);
+  }
+  return INTENSITY_METS[type][intensity];
+};
+
+export const sanitizeExerciseInput = (body: Record<string, any>) => {
+  const input: Partial<ExerciseInput> = {};
+  const errors: string[] = [];
+
+  if (!isExerciseType(body.type)) {
+    errors.push(`type must be one of ${EXERCISE_TYPES.join(', ')}`);
+  } else {
+    input.type = body.type;
+  }
+
+  if (body.intensity !== undefined) {
+    if (!isExerciseIntensity(body.intensity)) {
+      errors.push(`intensity must be one of ${EXERCISE_INTENSITIES.join(', ')}`);
+    } else {
+      input.intensity = body.intensity;
+    }
+  }
+
+  const duration = Number(body.duration_min);
+  if (body.duration_min === undefined || !Number.isFinite(duration) || duration <= 0 || duration > MAX_DURATION_MIN) {
+    errors.push(`duration_min must be a positive number up to ${MAX_DURATION_MIN}`);
+  } else {
+    input.duration_min = Math.round(duration * 10) / 10;
+  }
+
+  if (body.distance_km !== undefined && body.distance_km !== null) {
+    const distance = Number(body.distance_km);
+    if (!Number.isFinite(distance) || distance <= 0 || distance > MAX_DISTANCE_KM) {
+      errors.push(`distance_km must be a positive number up to ${MAX_DISTANCE_KM}`);
+    } else {
+      input.distance_km = Math.round(distance * 100) / 100;
+    }
+  }
+
+  if (body.calories_burned !== undefined && body.calories_burned !== null) {
+    const calories = Number(body.calories_burned);
+    if (!Number.isFinite(calories) || calories < 0 || calories > MAX_REPORTED_CALORIES) {
+      errors.push(`calories_burned must be between 0 and ${MAX_REPORTED_CALORIES}`);
+    } else {
+      input.calories_burned = calories;
+    }
+  }
+
+  if (body.performed_at !== undefined) {
+    const performedAt = new Date(body.performed_at);
+    if (Number.isNaN(performedAt.getTime()) || performedAt.getTime() > Date.now() + FUTURE_TOLERANCE_MS) {
+      errors.push('performed_at must be a past ISO date');
+    } else {
+      input.performed_at = performedAt.toISOString();
+    }
+  }
+
+  if (body.note !== undefined && body.note !== null) {
+    if (typeof body.note !== 'string' || body.note.length > MAX_NOTE_LENGTH) {
+      errors.push(`note must be a string of at most ${MAX_NOTE_LENGTH} characters`);
+    } else {
+      input.note = body.note.trim() || null;
+    }
+  }
+
+  return { input: input as ExerciseInput, errors };
+};
+
+/**
+ * Calories burned = MET × body weight (kg) × hours. This is the gross burn of the activity; the
+ * resting share is small for typical workout lengths and is not subtracted.
+ */
+export const estimateCaloriesBurned = (met: number, weightKg: number, durationMin: number) =>
+  Math.round(met * weightKg * (durationMin / 60));
+
+export const buildExerciseLog = (user: UserInfo, input: ExerciseInput): Omit<ExerciseLog, 'id'> => {
+  const timeZone = user.timezone || 'UTC';
+  const intensity = input.intensity || 'moderate';
+  const performedAt = input.performed_at || new Date().toISOString();
+  const weightKg = user.current_weight_kg || DEFAULT_WEIGHT_KG;
+  const isReported = input.calories_burned !== undefined && input.calories_burned !== null;
+  const met = isReported ? null : getExerciseMet(input.type, intensity, input.duration_min, input.distance_km);
+
+  return {
+    user_id: user.id,
+    type: input.type,
+    intensity,
+    duration_min: input.duration_min,
+    distance_km: input.distance_km ?? null,
+    met,
+    weight_kg: weightKg,
+    calories_burned: isReported
+      ? Math.round(input.calories_burned as number)
+      : estimateCaloriesBurned(met as number, weightKg, input.duration_min),
+    calories_source: isReported ? 'reported' : 'estimated',
+    performed_at: performedAt,
+    date: formatDateInTimeZone(new Date(performedAt), timeZone),
+    note: input.note || null,
+    created_at: new Date().toISOString()
+  };
+};
+
+// The log and its calories_burned change are written in one transaction, like imported workouts,
+// so a failed write cannot leave the day out of step with its exercise logs.
+export const logExercise = async (user: UserInfo, input: ExerciseInput) => {
+  const log = buildExerciseLog(user, input);
+  const ref: DocumentReference = db.collection('exercise_logs').doc();
+  const [dailyStats] = await db.runTransaction(async (transaction: Transaction) => {
+    const changes = await applyDailyStatsDeltasInTransaction(transaction, user, [
+      { date: log.date, deltas: { calories_burned: log.calories_burned } }
+    ]);
+    transaction.set(ref, log);
+    return changes;
+  });
+
+  logger.info(
+    { userId: user.id, type: log.type, durationMin: log.duration_min, caloriesBurned: log.calories_burned },
+    'Exercise logged'
+  );
+  return { exercise: { id: ref.id, ...log }, daily_stats: dailyStats };
+};
+
+export const listExercisesForDate = async (user: UserInfo, date: string): Promise<ExerciseLog[]> => {
+  const { start, end } = getUtcRangeForDate(date, user.timezone || 'UTC');
+  const snapshot = await db
+    .collection('exercise_logs')
+    .where('user_id', '==', user.id)
+    .where('performed_at', '>=', start.toISOString())
+    .where('performed_at', '<', end.toISOString())
+    .orderBy('performed_at', 'asc')
+    .get();
+  return snapshot.docs.map((doc: QueryDocumentSnapshot<DocumentData>) => ({ id: doc.id, ...doc.data() }) as ExerciseLog);
+};
+
+// Ownership is checked by the route (`requireExerciseOwnership`), which passes the loaded log in.
+// The log is re-read in the transaction, so two deletes of the same log subtract its calories once.
+export const deleteExercise = async (user: UserInfo, exercise: ExerciseLog) => {
+  const ref: DocumentReference = db.collection('exercise_logs').doc(exercise.id);
+  const [dailyStats] = await db.runTransaction(async (transaction: Transaction) => {
+    const doc = await transaction.get(ref);
+    if (!doc.exists) {
+      throw new Error('Exercise not found');
+    }
+    const stored = doc.data() as ExerciseLog;
+    const changes = await applyDailyStatsDeltasInTransaction(transaction, user, [
+      { date: stored.date, deltas: { calories_burned: -stored.calories_burned } }
+    ]);
+    transaction.delete(ref);
+    return changes;
+  });
+
+  logger.info({ userId: user.id, exerciseId: exercise.id }, 'Exercise deleted');
+  return { exercise, daily_stats: dailyStats };
+};
@@ -0,0 +1,434 @@
+import { db } from '../../../firebase';
+import type { DocumentData, QueryDocumentSnapshot } from 'firebase-admin/firestore';
+import { createHash } from 'crypto';
+import { logger } from '../../../utils/logger';
+import { FOOD_CATALOG_SEED, FOOD_CATALOG_SEED_VERSION } from '../data/foods';
+import type { DietaryAttributes } from './dietaryService';
+import type { NutritionLabel } from '../utils/analysisSchema';
+import { NutrientProfile, NutritionTotals, pickTotals, scaleTotals } from '../utils/nutrition';
+
+export interface FoodServing {
+  id: string;
+  name_tr: string;
+  name_en: string;
+  grams: number;
+}
+
+export interface FoodRecord extends DietaryAttributes {
+  id: string;
+  name_tr: string;
+  name_en: string;
+  aliases?: string[];
+  per_100g: NutrientProfile;
+  servings: FoodServing[];
+  source: 'seed' | 'label';
+  brand?: string | null;
+  barcode?: string | null;
+  // Label foods belong to the user who scanned them; older shared label foods have no owner.
+  owner_id?: string | null;
+  label_key?: string;
+  label_confidence?: number;
+  label_scan_count?: number;
+  // Word prefixes of all names and the order candidates are loaded in, for `searchFoods`; not
+  // returned to clients.
+  search_prefixes?: string[];
+  search_rank?: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export type FoodSeed = Omit<
+  FoodRecord,
+  | 'source'
+  | 'brand'
+  | 'barcode'
+  | 'owner_id'
+  | 'label_key'
+  | 'label_confidence'
+  | 'label_scan_count'
+  | 'search_prefixes'
+  | 'search_rank'
+  | 'created_at'
+  | 'updated_at'
+>;
+
+export interface FoodPortionInput {
+  food_id: string;
+  grams?: number;
+  serving_id?: string;
+  quantity?: number;
+}
+
+export interface ResolvedFoodPortion extends NutritionTotals {
+  food_id: string;
+  serving_id: string | null;
+  name: string;
+  amount: number;
+  unit: string;
+}
+
+const CANDIDATE_CACHE_TTL_MS = 10 * 60_000;
+const DEFAULT_SEARCH_LIMIT = 20;
+const MAX_SEARCH_LIMIT = 50;
+// Shorter queries only match word prefixes; typo tolerance on one or two letters matches almost anything.
+const MIN_FUZZY_QUERY_LENGTH = 3;
+// Foods are indexed by the first PREFIX_LENGTH letters of each word of their names; a search loads
+// only the foods sharing the query's prefix, the MAX_CANDIDATES highest ranked of them.
+const PREFIX_LENGTH = 2;
+const MAX_CANDIDATES = 500;
+// Catalog foods always rank above label foods, which rank by how often they were scanned.
+const SEED_SEARCH_RANK = 1_000_000;
+
+const candidateCache = new Map<string, { foods: FoodRecord[]; loadedAt: number }>();
+
+const TURKISH_CHAR_MAP: Record<string, string> = {
+  ç: 'c',
+  ğ: 'g',
+  ı: 'i',
+  ö: 'o',
+  ş: 's',
+  ü: 'u'
+};
+
+export const normalizeFoodText = (value: string) =>
+  (value || '')
+    .toLocaleLowerCase('tr')
+    .replace(/[çğıöşü]/g, char => TURKISH_CHAR_MAP[char] || char)
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+
+const levenshtein = (a: string, b: string) => {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i += 1) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j += 1) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(current[j - 1] + 1, previous[j] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+const getSearchNames = (food: Pick<FoodRecord, 'name_tr' | 'name_en' | 'aliases'>) =>
+  [food.name_tr, food.name_en, ...(food.aliases || [])].map(normalizeFoodText).filter(Boolean);
+
+const getSearchPrefixes = (food: Pick<FoodRecord, 'name_tr' | 'name_en' | 'aliases'>) => {
+  const prefixes = new Set<string>();
+  getSearchNames(food).forEach(name =>
+    name.split(' ').forEach(word => {
+      for (let length = 1; length <= Math.min(PREFIX_LENGTH, word.length); length += 1) {
+        prefixes.add(word.slice(0, length));
+      }
+    })
+  );
+  return Array.from(prefixes).sort();
+};
+
+const getSearchRank = (food: Pick<FoodRecord, 'source' | 'label_scan_count'>) =>
+  food.source === 'seed' ? SEED_SEARCH_RANK : Math.min(food.label_scan_count ?? 1, SEED_SEARCH_RANK - 1);
+
+const getSearchFields = (food: FoodRecord) => ({
+  search_prefixes: getSearchPrefixes(food),
+  search_rank: getSearchRank(food)
+});
+
+const toFoodRecord = (doc: { id: string; data: () => DocumentData | undefined }) => {
+  const { search_prefixes: _prefixes, search_rank: _rank, ...data } = doc.data() || {};
+  return { id: doc.id, ...data } as FoodRecord;
+};
+
+// Another user's label reading is private to them; catalog foods and unowned label foods are shared.
+const isVisibleFood = (food: FoodRecord, userId?: string) =>
+  food.source !== 'label' || !food.owner_id || food.owner_id === userId;
+
+/**
+ * Scores how well a normalized query matches a food. Exact and prefix matches rank above substring
+ * matches; a small edit distance against individual words catches typos ("tavk" → "tavuk").
+ */
+const scoreFood = (food: FoodRecord, query: string) => {
+  const names = getSearchNames(food);
+  let best = 0;
+
+  names.forEach(name => {
+    if (name === query) {
+      best = Math.max(best, 100);
+      return;
+    }
+    if (name.startsWith(query)) {
+      best = Math.max(best, 90);
+      return;
+    }
+    const words = name.split(' ');
+    if (words.some(word => word.startsWith(query))) {
+      best = Math.max(best, 80);
+      return;
+    }
+    if (name.includes(query)) {
+      best = Math.max(best, 60);
+      return;
+    }
+
+    if (query.length < MIN_FUZZY_QUERY_LENGTH) {
+      return;
+    }
+    const maxDistance = query.length <= 4 ? 1 : 2;
+    words.forEach(word => {
+      const candidate = word.length > query.length ? word.slice(0, query.length) : word;
+      const distance = levenshtein(query, candidate);
+      if (distance <= maxDistance) {
+        best = Math.max(best, 40 - distance * 10);
+      }
+    });
+  });
+
+  return best;
+};
+
+export const seedFoodCatalog = async () => {
+  const metaRef = db.collection('food_catalog_meta').doc('seed');
+  const metaDoc = await metaRef.get();
+  if (metaDoc.exists && metaDoc.data()?.version === FOOD_CATALOG_SEED_VERSION) {
+    return { seeded: false, count: 0 };
+  }
+
+  const now = new Date().toISOString();
+  const batch = db.batch();
+  FOOD_CATALOG_SEED.forEach(seed => {
+    const record: FoodRecord = {
+      ...seed,
+      source: 'seed',
+      created_at: now,
+      updated_at: now
+    };
+    batch.set(db.collection('foods').doc(seed.id), { ...record, ...getSearchFields(record) }, { merge: true });
+  });
+  batch.set(metaRef, { version: FOOD_CATALOG_SEED_VERSION, count: FOOD_CATALOG_SEED.length, seeded_at: now });
+  await batch.commit();
+
+  // Label foods saved before search prefixes or ranks existed are indexed once, on the first seed that
+  // adds them; searches only load foods that have both.
+  const labelFoods = await db.collection('foods').where('source', '==', 'label').get();
+  const unindexed = labelFoods.docs.filter((doc: QueryDocumentSnapshot<DocumentData>) => {
+    const data = doc.data();
+    return !data.search_prefixes || data.search_rank === undefined;
+  });
+  for (let index = 0; index < unindexed.length; index += 500) {
+    const labelBatch = db.batch();
+    unindexed.slice(index, index + 500).forEach((doc: QueryDocumentSnapshot<DocumentData>) => {
+      labelBatch.set(doc.ref, getSearchFields(doc.data() as FoodRecord), { merge: true });
+    });
+    await labelBatch.commit();
+  }
+
+  candidateCache.clear();
+  logger.info({ version: FOOD_CATALOG_SEED_VERSION, count: FOOD_CATALOG_SEED.length }, 'Food catalog seeded');
+  return { seeded: true, count: FOOD_CATALOG_SEED.length };
+};
+
+const getLabelKey = (label: Pick<NutritionLabel, 'product_name' | 'brand'>) =>
+  normalizeFoodText(`${label.brand || ''} ${label.product_name}`);
+
+const getLabelFoodId = (userId: string, key: string) =>
+  `label-${createHash('sha1').update(`${userId}:${key}`).digest('hex').slice(0, 20)}`;
+
+const getLabelServings = (label: NutritionLabel): FoodServing[] => {
+  if (!label.serving_size_g) {
+    return [];
+  }
+  const servings: FoodServing[] = [
+    {
+      id: 'serving',
+      name_tr: label.serving_label || '1 porsiyon',
+      name_en: label.serving_label || '1 serving',
+      grams: label.serving_size_g
+    }
+  ];
+  if (label.servings_per_container) {
+    servings.push({
+      id: 'package',
+      name_tr: '1 paket',
+      name_en: '1 package',
+      grams: Math.round(label.serving_size_g * label.servings_per_container * 10) / 10
+    });
+  }
+  return servings;
+};
+
+/**
+ * Returns the label food a user saved for a barcode, or null. Other users' readings of the same
+ * product are not considered.
+ */
+export const findLabelFoodByBarcode = async (userId: string, barcode: string) => {
+  const snapshot = await db
+    .collection('foods')
+    .where('owner_id', '==', userId)
+    .where('barcode', '==', barcode)
+    .limit(1)
+    .get();
+  return snapshot.empty ? null : toFoodRecord(snapshot.docs[0]);
+};
+
+const findLabelFood = async (userId: string, labelKey: string, barcode: string | null) => {
+  if (barcode) {
+    const food = await findLabelFoodByBarcode(userId, barcode);
+    if (food) {
+      return food;
+    }
+  }
+  const doc = await db.collection('foods').doc(getLabelFoodId(userId, labelKey)).get();
+  return doc.exists ? toFoodRecord(doc) : null;
+};
+
+/**
+ * Saves a product read from a nutrition label as a food of the user who scanned it. The same product
+ * scanned again by that user (same barcode, or same brand and name) updates their record instead of
+ * creating a copy; its values are only replaced when the new reading is at least as confident.
+ * Readings never change catalog foods or other users' label foods.
+ */
+export const saveLabelFood = async (label: NutritionLabel, userId: string) => {
+  const labelKey = getLabelKey(label);
+  const existing = await findLabelFood(userId, labelKey, label.barcode);
+
+  const now = new Date().toISOString();
+  const name = label.brand ? `${label.brand} ${label.product_name}` : label.product_name;
+  const values = {
+    name_tr: name,
+    name_en: name,
+    brand: label.brand,
+    per_100g: label.per_100g,
+    servings: getLabelServings(label),
+    label_confidence: label.confidence
+  };
+
+  let food: FoodRecord;
+  if (existing) {
+    const isBetterReading = label.confidence >= (existing.label_confidence ?? 0);
+    food = {
+      ...existing,
+      ...(isBetterReading ? values : {}),
+      barcode: existing.barcode || label.barcode,
+      allergens: Array.from(new Set([...(existing.allergens || []), ...label.allergens])),
+      contains: Array.from(new Set([...(existing.contains || []), ...label.contains])),
+      label_scan_count: (existing.label_scan_count ?? 1) + 1,
+      updated_at: now
+    };
+  } else {
+    food = {
+      id: getLabelFoodId(userId, labelKey),
+      ...values,
+      aliases: label.brand ? [label.product_name] : [],
+      barcode: label.barcode,
+      allergens: label.allergens,
+      contains: label.contains,
+      source: 'label',
+      owner_id: userId,
+      label_key: labelKey,
+      label_scan_count: 1,
+      created_at: now,
+      updated_at: now
+    };
+  }
+
+  await db.collection('foods').doc(food.id).set({ ...food, ...getSearchFields(food) });
+  candidateCache.clear();
+  logger.info({ foodId: food.id, userId, isNew: !existing, barcode: food.barcode }, 'Nutrition label food saved');
+  return { food, isNew: !existing };
+};
+
+const loadCandidates = async (prefix: string): Promise<FoodRecord[]> => {
+  const cached = candidateCache.get(prefix);
+  if (cached && Date.now() - cached.loadedAt < CANDIDATE_CACHE_TTL_MS) {
+    return cached.foods;
+  }
+
+  const snapshot = await db
+    .collection('foods')
+    .where('search_prefixes', 'array-contains', prefix)
+    .orderBy('search_rank', 'desc')
+    .limit(MAX_CANDIDATES)
+    .get();
+  const foods = snapshot.docs.map(toFoodRecord);
+  candidateCache.set(prefix, { foods, loadedAt: Date.now() });
+  return foods;
+};
+
+/**
+ * Ranks foods sharing a word prefix with the query. Typos are tolerated from the third letter of
+ * the query on, and only after its first PREFIX_LENGTH letters. Label foods of other users are
+ * left out.
+ */
+export const searchFoods = async (query: string, limit = DEFAULT_SEARCH_LIMIT, userId?: string) => {
+  const normalized = normalizeFoodText(query);
+  if (!normalized) {
+    return [];
+  }
+
+  const foods = await loadCandidates(normalized.split(' ')[0].slice(0, PREFIX_LENGTH));
+  const boundedLimit = Math.min(Math.max(limit, 1), MAX_SEARCH_LIMIT);
+  return foods
+    .filter(food => isVisibleFood(food, userId))
+    .map(food => ({ food, score: scoreFood(food, normalized) }))
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score || a.food.name_tr.localeCompare(b.food.name_tr, 'tr'))
+    .slice(0, boundedLimit)
+    .map(({ food, score }) => ({ ...food, match_score: score }));
+};
+
+export const getFood = async (foodId: string, userId?: string): Promise<FoodRecord | null> => {
+  const doc = await db.collection('foods').doc(foodId).get();
+  if (!doc.exists) {
+    return null;
+  }
+  const food = toFoodRecord(doc);
+  return isVisibleFood(food, userId) ? food : null;
+};
+
+export const getFoodName = (food: Pick<FoodRecord, 'name_tr' | 'name_en'>, language?: string) =>
+  (language || 'tr').toLowerCase().startsWith('en') ? food.name_en : food.name_tr;
+
+/**
+ * Turns "2 slices of bread" or "150 g of rice" into item values computed from the food's per-100g
+ * nutrients. Throws when the food or serving does not exist or no quantity is given.
+ */
+export const resolveFoodPortion = async (
+  input: FoodPortionInput,
+  language?: string,
+  userId?: string
+): Promise<ResolvedFoodPortion> => {
+  const food = await getFood(input.food_id, userId);
+  if (!food) {
+    throw new Error(`Food not found: ${input.food_id}`);
+  }
+
+  let grams = Number(input.grams);
+  let servingId: string | null = null;
+  if (input.serving_id) {
+    const serving = (food.servings || []).find(item => item.id === input.serving_id);
+    if (!serving) {
+      throw new Error(`Serving not found: ${input.serving_id}`);
+    }
+    const quantity = input.quantity === undefined ? 1 : Number(input.quantity);
+    grams = serving.grams * quantity;
+    servingId = serving.id;
+  }
+
+  if (!Number.isFinite(grams) || grams <= 0) {
+    throw new Error(`Invalid quantity for food: ${input.food_id}`);
+  }
+
+  return {
+    food_id: food.id,
+    serving_id: servingId,
+    name: getFoodName(food, language),
+    amount: Math.round(grams * 10) / 10,
+    unit: 'g',
+    ...scaleTotals(pickTotals(food.per_100g), grams / 100)
+  };
+};
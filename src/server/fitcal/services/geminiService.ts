@@ -1,6 +1,16 @@
 import axios from 'axios';
 import { logger } from '../../../utils/logger';
-import { BIG_SYSTEM_PROMPT, MASTER_FOOD_ANALYSIS_PROMPT } from '../constants';
+import {
+  ANALYSIS_CORRECTION_PROMPT,
+  BEFORE_AFTER_ANALYSIS_ADDENDUM,
+  BIG_SYSTEM_PROMPT,
+  CLARIFICATION_ANALYSIS_ADDENDUM,
+  MASTER_FOOD_ANALYSIS_PROMPT,
+  MULTI_IMAGE_ANALYSIS_ADDENDUM,
+  NUTRITION_LABEL_ANALYSIS_PROMPT,
+  TEXT_FOOD_ANALYSIS_PROMPT
+} from '../constants';
+import { MealAnalysisSchemaError, validateMealAnalysis, validateNutritionLabel } from '../utils/analysisSchema';
 
 const GEMINI_BASE_URL = 'https://generativelanguage.googleapis.com/v1beta';
 const DEFAULT_GEMINI_VISION_MODEL = process.env.GEMINI_VISION_MODEL
@@ -19,32 +29,65 @@ const cleanJsonResponse = (text: string) => {
   return text.replace(/```json|```/g, '').trim();
 };
 
-const createMockAnalysis = (language: string) => {
+const createMockAnalysis = (language: string, consumedRatio?: number) => {
   const isTurkish = (language || '').toLowerCase().startsWith('tr');
-  return {
+  const analysis = {
     total_calories: 480,
-    total_macros: { p: 32, c: 46, f: 18 },
+    total_macros: { p: 58, c: 40, f: 10 },
     items: [
       {
         name: isTurkish ? 'Tavuk Izgara' : 'Grilled Chicken',
         amount: 150,
         unit: 'g',
         calories: 248,
-        macros: { p: 31, c: 0, f: 5 }
+        macros: { p: 50, c: 0, f: 5 },
+        nutrients: {
+          fiber_g: 0,
+          sugar_g: 0,
+          saturated_fat_g: 1.5,
+          sodium_mg: 110,
+          potassium_mg: 390,
+          calcium_mg: 15,
+          iron_mg: 1.1,
+          vitamin_c_mg: 0,
+          vitamin_d_mcg: 0.2
+        }
       },
       {
         name: isTurkish ? 'Kinoa' : 'Quinoa',
         amount: 120,
         unit: 'g',
         calories: 170,
-        macros: { p: 6, c: 30, f: 3 }
+        macros: { p: 6, c: 30, f: 3 },
+        nutrients: {
+          fiber_g: 3.4,
+          sugar_g: 1,
+          saturated_fat_g: 0.3,
+          sodium_mg: 8,
+          potassium_mg: 210,
+          calcium_mg: 20,
+          iron_mg: 1.8,
+          vitamin_c_mg: 0,
+          vitamin_d_mcg: 0
+        }
       },
       {
         name: isTurkish ? 'Salata' : 'Salad',
         amount: 80,
         unit: 'g',
         calories: 62,
-        macros: { p: 2, c: 10, f: 2 }
+        macros: { p: 2, c: 10, f: 2 },
+        nutrients: {
+          fiber_g: 1.8,
+          sugar_g: 3.2,
+          saturated_fat_g: 0.3,
+          sodium_mg: 25,
+          potassium_mg: 190,
+          calcium_mg: 28,
+          iron_mg: 0.7,
+          vitamin_c_mg: 14,
+          vitamin_d_mcg: 0
+        }
       }
     ],
     confidence: 0.38,
@@ -53,6 +96,94 @@ const createMockAnalysis = (language: string) => {
       ? 'Demo modunda örnek bir analiz gösteriliyor. Gerçek analiz için GEMINI_API_KEY ekleyin.'
       : 'Showing a demo analysis. Add GEMINI_API_KEY for real meal analysis.'
   };
+
+  if (consumedRatio === undefined) {
+    return analysis;
+  }
+
+  const scale = (value: number) => Math.round(value * consumedRatio);
+  return {
+    ...analysis,
+    total_calories: scale(analysis.total_calories),
+    total_macros: {
+      p: scale(analysis.total_macros.p),
+      c: scale(analysis.total_macros.c),
+      f: scale(analysis.total_macros.f)
+    },
+    items: analysis.items.map(item => ({
+      ...item,
+      amount: scale(item.amount),
+      leftover_amount: item.amount - scale(item.amount),
+      calories: scale(item.calories),
+      macros: { p: scale(item.macros.p), c: scale(item.macros.c), f: scale(item.macros.f) },
+      nutrients: Object.fromEntries(
+        Object.entries(item.nutrients).map(([key, value]) => [key, Math.round(value * consumedRatio * 10) / 10])
+      )
+    })),
+    served_total_calories: analysis.total_calories,
+    consumed_ratio: consumedRatio
+  };
+};
+
+// Splits "2 eggs, bread and tea" into rough parts so the demo analysis mirrors what the user typed.
+const createMockTextAnalysis = (description: string, language: string) => {
+  const isTurkish = (language || '').toLowerCase().startsWith('tr');
+  const parts = description
+    .split(/,|;|\+|\s+(?:and|with|ve|ile)\s+/i)
+    .map(part => part.trim())
+    .filter(Boolean)
+    .slice(0, 10);
+  const names = parts.length ? parts : [description.trim()];
+  const items = names.map(name => ({
+    name,
+    amount: 100,
+    unit: 'g',
+    calories: 150,
+    macros: { p: 6, c: 18, f: 6 }
+  }));
+
+  return {
+    meal_name: names.join(', '),
+    total_calories: items.length * 150,
+    total_macros: { p: items.length * 6, c: items.length * 18, f: items.length * 6 },
+    items,
+    confidence: 0.3,
+    health_score: 60,
+    coach_note: isTurkish
+      ? 'Demo modunda örnek bir metin analizi gösteriliyor. Gerçek analiz için GEMINI_API_KEY ekleyin.'
+      : 'Showing a demo text analysis. Add GEMINI_API_KEY for real meal analysis.'
+  };
+};
+
+const createMockNutritionLabel = (language: string) => {
+  const isTurkish = (language || '').toLowerCase().startsWith('tr');
+  return {
+    product_name: isTurkish ? 'Tam Buğdaylı Bisküvi (Demo)' : 'Whole Wheat Biscuits (Demo)',
+    brand: null,
+    barcode: null,
+    serving_size_g: 30,
+    serving_label: isTurkish ? '3 adet (30 g)' : '3 biscuits (30 g)',
+    servings_per_container: 6,
+    per_100g: {
+      calories: 460,
+      protein_g: 8,
+      carbs_g: 66,
+      fat_g: 18,
+      fiber_g: 6,
+      sugar_g: 20,
+      saturated_fat_g: 8,
+      sodium_mg: 360,
+      potassium_mg: 0,
+      calcium_mg: 0,
+      iron_mg: 0,
+      vitamin_c_mg: 0,
+      vitamin_d_mcg: 0
+    },
+    per_serving: null,
+    allergens: ['gluten', 'milk'],
+    contains: ['dairy'],
+    confidence: 0.4
+  };
 };
 
 type GeminiResponse = {
@@ -75,6 +206,10 @@ type InlineImagePayload = {
   mimeType: string;
 };
 
+export type MealAnalysisImage = InlineImagePayload & {
+  role?: 'primary' | 'angle' | 'before' | 'after';
+};
+
 const extractCandidateText = (candidate?: any) => {
   if (!candidate?.content?.parts?.length) {
     return '';
@@ -116,53 +251,165 @@ const buildGeminiContents = (history: ChatHistoryItem[], image?: InlineImagePayl
   });
 };
 
-export const analyzeMealImage = async (
-  imageBase64: string,
-  mimeType: string,
+type GeminiPart = { text?: string; inlineData?: { data: string; mimeType: string } };
+
+const requestAnalysisText = async (
+  apiKey: string,
+  model: string,
+  contents: Array<{ role: string; parts: GeminiPart[] }>
+) => {
+  const response = await axios.post<GeminiResponse>(
+    `${GEMINI_BASE_URL}/models/${model}:generateContent?key=${apiKey}`,
+    { contents }
+  );
+
+  const text = response.data?.candidates?.[0]?.content?.parts?.[0]?.text || '';
+  if (!text) {
+    logger.warn({ response: response.data }, 'Gemini analysis returned empty response');
+    throw new Error('Gemini returned empty response');
+  }
+  return text;
+};
+
+/**
+ * Requests an analysis and validates it against the analysis schema. When the reply is not valid
+ * JSON or does not match the schema, the model gets one follow-up turn with the errors and is asked
+ * to resend a corrected response.
+ */
+const requestAnalysisJson = async <T>(
+  apiKey: string,
+  model: string,
+  parts: GeminiPart[],
+  validate: (raw: unknown, attempt: number) => T
+) => {
+  const contents = [{ role: 'user', parts }];
+  let lastError: unknown = null;
+
+  for (let attempt = 1; attempt <= 2; attempt += 1) {
+    const text = await requestAnalysisText(apiKey, model, contents);
+    try {
+      return validate(JSON.parse(cleanJsonResponse(text)), attempt);
+    } catch (error) {
+      lastError = error;
+      const problems = error instanceof MealAnalysisSchemaError ? error.issues : [(error as Error).message];
+      logger.warn({ model, attempt, problems }, 'Gemini analysis response failed validation');
+      contents.push(
+        { role: 'model', parts: [{ text }] },
+        { role: 'user', parts: [{ text: `${ANALYSIS_CORRECTION_PROMPT}\n\n${problems.map(problem => `- ${problem}`).join('\n')}` }] }
+      );
+    }
+  }
+
+  throw new Error(`Gemini returned an invalid analysis: ${(lastError as Error)?.message || 'unknown error'}`);
+};
+
+const hasBeforeAfterPair = (images: MealAnalysisImage[]) =>
+  images.some(image => image.role === 'before') && images.some(image => image.role === 'after');
+
+const buildClarificationSection = (clarification?: string) =>
+  clarification ? `${CLARIFICATION_ANALYSIS_ADDENDUM}\n\n${clarification}` : null;
+
+const buildImageAnalysisPrompt = (images: MealAnalysisImage[], language: string, clarification?: string) => {
+  const sections = [MASTER_FOOD_ANALYSIS_PROMPT];
+  if (images.length > 1) {
+    sections.push(MULTI_IMAGE_ANALYSIS_ADDENDUM);
+    sections.push(images.map((image, index) => `Görsel ${index + 1}: ${image.role || 'primary'}`).join('\n'));
+  }
+  if (hasBeforeAfterPair(images)) {
+    sections.push(BEFORE_AFTER_ANALYSIS_ADDENDUM);
+  }
+  const clarificationSection = buildClarificationSection(clarification);
+  if (clarificationSection) {
+    sections.push(clarificationSection);
+  }
+  sections.push(`Dil: ${language || 'tr'}.`);
+  return sections.join('\n\n');
+};
+
+/**
+ * Analyzes one or more photos of the same meal. Images are sent in order with their roles so the
+ * model can cross-check portions between angles and, for before/after pairs, report only what was eaten.
+ * `clarification` carries the previous analysis and the user's answers to its clarifying questions.
+ */
+export const analyzeMealImages = async (
+  images: MealAnalysisImage[],
   language: string,
-  model?: string
+  model?: string,
+  clarification?: string
 ) => {
   const apiKey = getApiKey();
   if (!apiKey) {
     if (process.env.NODE_ENV !== 'production') {
       logger.warn('GEMINI_API_KEY missing; returning mock analysis for non-production');
-      return createMockAnalysis(language);
+      const mock = createMockAnalysis(language, hasBeforeAfterPair(images) ? 0.7 : undefined);
+      return validateMealAnalysis(clarification ? { ...mock, confidence: 0.75 } : mock);
     }
     throw new Error('GEMINI_API_KEY is not configured');
   }
 
   const resolvedModel = model || DEFAULT_GEMINI_VISION_MODEL;
-  logger.info({ mimeType, language }, 'Gemini meal analysis request started');
-  const requestBody = {
-    contents: [
-      {
-        role: 'user',
-        parts: [
-          { text: `${MASTER_FOOD_ANALYSIS_PROMPT}\n\nDil: ${language || 'tr'}.` },
-          {
-            inlineData: {
-              data: imageBase64,
-              mimeType
-            }
-          }
-        ]
+  logger.info(
+    { mimeTypes: images.map(image => image.mimeType), roles: images.map(image => image.role), language },
+    'Gemini meal analysis request started'
+  );
+  return requestAnalysisJson(apiKey, resolvedModel, [
+    { text: buildImageAnalysisPrompt(images, language, clarification) },
+    ...images.map(image => ({
+      inlineData: {
+        data: image.data,
+        mimeType: image.mimeType
       }
-    ]
-  };
+    }))
+  ], validateMealAnalysis);
+};
 
-  const response = await axios.post<GeminiResponse>(
-    `${GEMINI_BASE_URL}/models/${resolvedModel}:generateContent?key=${apiKey}`,
-    requestBody
-  );
+export const analyzeMealText = async (description: string, language: string, model?: string, clarification?: string) => {
+  const apiKey = getApiKey();
+  if (!apiKey) {
+    if (process.env.NODE_ENV !== 'production') {
+      logger.warn('GEMINI_API_KEY missing; returning mock text analysis for non-production');
+      const mock = createMockTextAnalysis(description, language);
+      return validateMealAnalysis(clarification ? { ...mock, confidence: 0.75 } : mock);
+    }
+    throw new Error('GEMINI_API_KEY is not configured');
+  }
 
-  const text = response.data?.candidates?.[0]?.content?.parts?.[0]?.text || '';
-  if (!text) {
-    logger.warn({ response: response.data }, 'Gemini analysis returned empty response');
-    throw new Error('Gemini returned empty response');
+  const resolvedModel = model || DEFAULT_GEMINI_VISION_MODEL;
+  logger.info({ language, length: description.length }, 'Gemini meal text analysis request started');
+  return requestAnalysisJson(apiKey, resolvedModel, [
+    {
+      text: [TEXT_FOOD_ANALYSIS_PROMPT, buildClarificationSection(clarification), `Dil: ${language || 'tr'}.`, `Öğün: ${description}`]
+        .filter(Boolean)
+        .join('\n\n')
+    }
+  ], validateMealAnalysis);
+};
+
+/**
+ * Reads a packaged-food nutrition facts panel. Several photos may be sent when the panel, the
+ * ingredient list and the barcode are on different sides of the package.
+ */
+export const analyzeNutritionLabel = async (images: MealAnalysisImage[], language: string, model?: string) => {
+  const apiKey = getApiKey();
+  if (!apiKey) {
+    if (process.env.NODE_ENV !== 'production') {
+      logger.warn('GEMINI_API_KEY missing; returning mock nutrition label for non-production');
+      return validateNutritionLabel(createMockNutritionLabel(language));
+    }
+    throw new Error('GEMINI_API_KEY is not configured');
   }
 
-  const cleaned = cleanJsonResponse(text);
-  return JSON.parse(cleaned);
+  const resolvedModel = model || DEFAULT_GEMINI_VISION_MODEL;
+  logger.info({ mimeTypes: images.map(image => image.mimeType), language }, 'Gemini nutrition label request started');
+  return requestAnalysisJson(apiKey, resolvedModel, [
+    { text: `${NUTRITION_LABEL_ANALYSIS_PROMPT}\n\nDil: ${language || 'tr'}.` },
+    ...images.map(image => ({
+      inlineData: {
+        data: image.data,
+        mimeType: image.mimeType
+      }
+    }))
+  ], validateNutritionLabel);
 };
 
 export const generateCoachResponse = async (
@@ -0,0 +1,397 @@
+import { createHash } from 'crypto';
+import { db, FieldValue } from '../../../firebase';
+import type { DocumentData, DocumentReference, Query, QueryDocumentSnapshot, Transaction } from 'firebase-admin/firestore';
+import { logger } from '../../../utils/logger';
+import { formatDateInTimeZone } from '../utils/timezone';
+import { buildExerciseLog, ExerciseLog, ExerciseType, isExerciseType } from './exerciseService';
+import { getOrCreateDailyStats } from './progressService';
+import { MAX_WEIGHT_KG, MIN_WEIGHT_KG, syncCurrentWeight, WeightLog } from './weightService';
+import { UserInfo } from './userInfoService';
+
+export const HEALTH_SAMPLE_TYPES = ['steps', 'active_energy', 'workout', 'body_weight', 'sleep'] as const;
+
+export type HealthSampleType = (typeof HEALTH_SAMPLE_TYPES)[number];
+
+export interface HealthSampleInput {
+  type: HealthSampleType;
+  // Platform or app the sample came from, e.g. `apple_health` or `health_connect`.
+  source: string;
+  // Id of the sample in its source; re-sending the same id updates the stored sample.
+  source_id: string;
+  start: string;
+  end: string;
+  // Steps for `steps`, kcal for `active_energy` and `workout`, kg for `body_weight`; unused for `sleep`.
+  value: number | null;
+  workout_type?: ExerciseType;
+  distance_km?: number | null;
+}
+
+export interface HealthSample extends HealthSampleInput {
+  id: string;
+  user_id: string;
+  date: string;
+  imported_at: string;
+}
+
+export interface HealthImportResult {
+  received: number;
+  dates: string[];
+  weight_synced: boolean;
+}
+
+export const MAX_HEALTH_SAMPLES_PER_IMPORT = 500;
+
+// Sources earlier in the list win when several report the same metric for a day; any other source
+// ranks after these, in alphabetical order.
+const SOURCE_PRIORITY = ['apple_health', 'health_connect', 'google_fit', 'fitbit', 'garmin'];
+
+const SOURCE_PATTERN = /^[a-z0-9_.-]{1,64}$/;
+const MAX_SOURCE_ID_LENGTH = 256;
+const MAX_SAMPLE_DURATION_MS = 24 * 60 * 60_000;
+const MAX_STEPS_PER_SAMPLE = 200_000;
+const MAX_ENERGY_PER_SAMPLE = 10_000;
+const MAX_DISTANCE_KM = 500;
+// Allows for small clock differences between the device and the server.
+const FUTURE_TOLERANCE_MS = 5 * 60_000;
+// Firestore batches are limited to 500 writes.
+const WRITE_BATCH_SIZE = 500;
+
+const WORKOUT_TYPE_ALIASES: Record<string, ExerciseType> = {
+  walk: 'walking',
+  run: 'running',
+  running_treadmill: 'running',
+  biking: 'cycling',
+  cycling_stationary: 'cycling',
+  swimming_pool: 'swimming',
+  swimming_open_water: 'swimming',
+  strength_training: 'strength',
+  weightlifting: 'strength',
+  high_intensity_interval_training: 'hiit'
+};
+
+const compareSources = (a: string, b: string) => {
+  const rankA = SOURCE_PRIORITY.indexOf(a);
+  const rankB = SOURCE_PRIORITY.indexOf(b);
+  if (rankA !== rankB) {
+    return (rankA === -1 ? SOURCE_PRIORITY.length : rankA) - (rankB === -1 ? SOURCE_PRIORITY.length : rankB);
+  }
+  return a.localeCompare(b);
+};
+
+// Source ids are opaque and may contain characters Firestore does not allow in document ids.
+const getHealthSampleId = (userId: string, sample: Pick<HealthSampleInput, 'type' | 'source' | 'source_id'>) =>
+  `hs-${createHash('sha1').update(`${userId}:${sample.type}:${sample.source}:${sample.source_id}`).digest('hex')}`;
+
+const toWorkoutType = (value: unknown): ExerciseType => {
+  if (typeof value !== 'string') {
+    return 'other';
+  }
+  const normalized = value.trim().toLowerCase();
+  if (isExerciseType(normalized)) {
+    return normalized;
+  }
+  return WORKOUT_TYPE_ALIASES[normalized] || 'other';
+};
+
+/**
+ * Validates a batch of normalized samples. Errors name the offending sample by its index so the
+ * client can fix and re-send the whole batch; stored samples are keyed by source id, so re-sending
+ * samples that were already imported is harmless.
+ */
+export const sanitizeHealthSamples = (body: Record<string, any>) => {
+  const samples: HealthSampleInput[] = [];
+  const errors: string[] = [];
+
+  if (!Array.isArray(body.samples) || !body.samples.length) {
+    return { samples, errors: ['samples must be a non-empty array'] };
+  }
+  if (body.samples.length > MAX_HEALTH_SAMPLES_PER_IMPORT) {
+    return { samples, errors: [`at most ${MAX_HEALTH_SAMPLES_PER_IMPORT} samples can be imported at once`] };
+  }
+
+  body.samples.forEach((raw: any, index: number) => {
+    const prefix = `samples[${index}]`;
+    const sampleErrors: string[] = [];
+    if (!raw || typeof raw !== 'object') {
+      errors.push(`${prefix} must be an object`);
+      return;
+    }
+
+    if (!(HEALTH_SAMPLE_TYPES as readonly string[]).includes(raw.type)) {
+      sampleErrors.push(`${prefix}.type must be one of ${HEALTH_SAMPLE_TYPES.join(', ')}`);
+    }
+    if (typeof raw.source !== 'string' || !SOURCE_PATTERN.test(raw.source)) {
+      sampleErrors.push(`${prefix}.source must be a lowercase identifier`);
+    }
+    if (typeof raw.source_id !== 'string' || !raw.source_id.trim() || raw.source_id.length > MAX_SOURCE_ID_LENGTH) {
+      sampleErrors.push(`${prefix}.source_id must be a non-empty string of at most ${MAX_SOURCE_ID_LENGTH} characters`);
+    }
+
+    const start = new Date(raw.start);
+    // Point-in-time samples such as a weigh-in may omit `end`.
+    const end = raw.end === undefined ? start : new Date(raw.end);
+    if (Number.isNaN(start.getTime()) || Number.isNaN(end.getTime())) {
+      sampleErrors.push(`${prefix}.start and end must be ISO dates`);
+    } else if (end < start || end.getTime() - start.getTime() > MAX_SAMPLE_DURATION_MS) {
+      sampleErrors.push(`${prefix}.end must not be before start and the sample at most 24 hours long`);
+    } else if (end.getTime() > Date.now() + FUTURE_TOLERANCE_MS) {
+      sampleErrors.push(`${prefix}.end must not be in the future`);
+    }
+
+    const value = raw.value === undefined || raw.value === null ? null : Number(raw.value);
+    if (value !== null && !Number.isFinite(value)) {
+      sampleErrors.push(`${prefix}.value must be a number`);
+    } else if (raw.type === 'steps' && (value === null || !Number.isInteger(value) || value < 0 || value > MAX_STEPS_PER_SAMPLE)) {
+      sampleErrors.push(`${prefix}.value must be an integer between 0 and ${MAX_STEPS_PER_SAMPLE}`);
+    } else if (raw.type === 'active_energy' && (value === null || value < 0 || value > MAX_ENERGY_PER_SAMPLE)) {
+      sampleErrors.push(`${prefix}.value must be between 0 and ${MAX_ENERGY_PER_SAMPLE} kcal`);
+    } else if (raw.type === 'workout' && value !== null && (value < 0 || value > MAX_ENERGY_PER_SAMPLE)) {
+      sampleErrors.push(`${prefix}.value must be between 0 and ${MAX_ENERGY_PER_SAMPLE} kcal`);
+    } else if (raw.type === 'body_weight' && (value === null || value < MIN_WEIGHT_KG || value > MAX_WEIGHT_KG)) {
+      sampleErrors.push(`${prefix}.value must be between ${MIN_WEIGHT_KG} and ${MAX_WEIGHT_KG} kg`);
+    }
+
+    let distanceKm: number | null = null;
+    if (raw.type === 'workout' && raw.distance_km !== undefined && raw.distance_km !== null) {
+      distanceKm = Number(raw.distance_km);
+      if (!Number.isFinite(distanceKm) || distanceKm <= 0 || distanceKm > MAX_DISTANCE_KM) {
+        sampleErrors.push(`${prefix}.distance_km must be a positive number up to ${MAX_DISTANCE_KM}`);
+      }
+    }
+
+    if (sampleErrors.length) {
+      errors.push(...sampleErrors);
+      return;
+    }
+    samples.push({
+      type: raw.type,
+      source: raw.source,
+      source_id: raw.source_id.trim(),
+      start: start.toISOString(),
+      end: end.toISOString(),
+      value: raw.type === 'sleep' ? null : value,
+      ...(raw.type === 'workout' ? { workout_type: toWorkoutType(raw.workout_type), distance_km: distanceKm } : {})
+    });
+  });
+
+  return { samples, errors };
+};
+
+/**
+ * The day a sample counts towards, in the user's time zone: sleep belongs to the day it ends (the
+ * morning you wake up), everything else to the day it starts.
+ */
+const getSampleDate = (sample: HealthSampleInput, timeZone: string) =>
+  formatDateInTimeZone(new Date(sample.type === 'sleep' ? sample.end : sample.start), timeZone);
+
+const pickPreferredSource = (samples: HealthSample[]) => {
+  const sources = Array.from(new Set(samples.map(sample => sample.source))).sort(compareSources);
+  return samples.filter(sample => sample.source === sources[0]);
+};
+
+// Minutes covered by the union of the intervals, so overlapping stages of one night count once.
+const countCoveredMinutes = (samples: HealthSample[]) => {
+  const intervals = samples
+    .map(sample => [new Date(sample.start).getTime(), new Date(sample.end).getTime()])
+    .sort((a, b) => a[0] - b[0]);
+  let total = 0;
+  let coveredUntil = -Infinity;
+  intervals.forEach(([start, end]) => {
+    const from = Math.max(start, coveredUntil);
+    if (end > from) {
+      total += end - from;
+    }
+    coveredUntil = Math.max(coveredUntil, end);
+  });
+  return Math.round(total / 60_000);
+};
+
+// Keeps every workout of the best source, and a lower-ranked source's workout only when it does not
+// overlap one that is already kept (the same session recorded by a watch and a phone, say).
+const dedupeWorkouts = (samples: HealthSample[]) => {
+  const kept: HealthSample[] = [];
+  [...samples]
+    .sort((a, b) => compareSources(a.source, b.source) || a.start.localeCompare(b.start) || a.id.localeCompare(b.id))
+    .forEach(sample => {
+      const overlaps = kept.some(
+        other => other.source !== sample.source && other.start < sample.end && sample.start < other.end
+      );
+      if (!overlaps) {
+        kept.push(sample);
+      }
+    });
+  return kept;
+};
+
+const listSamplesForDay = async (userId: string, date: string): Promise<HealthSample[]> => {
+  const snapshot = await db
+    .collection('health_samples')
+    .where('user_id', '==', userId)
+    .where('date', '==', date)
+    .get();
+  return snapshot.docs.map((doc: QueryDocumentSnapshot<DocumentData>) => ({ ...doc.data(), id: doc.id }) as HealthSample);
+};
+
+const listImportedDocs = async (transaction: Transaction, collection: string, userId: string, date: string) => {
+  const query: Query = db.collection(collection).where('user_id', '==', userId).where('date', '==', date);
+  const snapshot = await transaction.get(query);
+  return snapshot.docs.filter(doc => doc.data().health_sample_id);
+};
+
+/**
+ * Rebuilds everything one day derives from imported samples. Working from all stored samples of the
+ * day, rather than the batch just received, keeps the result independent of upload order.
+ */
+const mergeDay = async (user: UserInfo, date: string) => {
+  const samples = await listSamplesForDay(user.id, date);
+  const byType = (type: HealthSampleType) => samples.filter(sample => sample.type === type);
+  const sum = (items: HealthSample[]) => items.reduce((total, sample) => total + (sample.value || 0), 0);
+
+  const daily = await getOrCreateDailyStats(user, date);
+  const dailyUpdates: Record<string, number> = {};
+  const steps = byType('steps');
+  if (steps.length) {
+    // Steps entered through POST /progress/steps are not stored as samples, so an import only raises
+    // the day's count: a phone that missed part of the day must not wipe a higher manual total.
+    dailyUpdates.steps = Math.max(Number(daily.steps) || 0, Math.round(sum(pickPreferredSource(steps))));
+  }
+  const activeEnergy = byType('active_energy');
+  if (activeEnergy.length) {
+    dailyUpdates.active_energy_kcal = Math.round(sum(pickPreferredSource(activeEnergy)));
+  }
+  const sleep = byType('sleep');
+  if (sleep.length) {
+    dailyUpdates.sleep_minutes = countCoveredMinutes(pickPreferredSource(sleep));
+  }
+  if (Object.keys(dailyUpdates).length) {
+    await db.collection('daily_stats').doc(daily.id).update(dailyUpdates);
+  }
+
+  // Imported workouts become exercise logs, so they count towards calories_burned like manual ones.
+  // The logs are replaced and calories_burned adjusted in one transaction: two imports merging the
+  // same day at once would otherwise both subtract the old logs and add the new ones.
+  const workouts = dedupeWorkouts(byType('workout'));
+  const weights = pickPreferredSource(byType('body_weight'));
+  const existingWeightCount = await db.runTransaction(async (transaction: Transaction) => {
+    const existingExercises = await listImportedDocs(transaction, 'exercise_logs', user.id, date);
+    const existingWeights = await listImportedDocs(transaction, 'weight_logs', user.id, date);
+    // A workout re-sent with a start on another day moves its log here; its calories leave that day.
+    const exerciseRefs: DocumentReference[] = workouts.map(sample => db.collection('exercise_logs').doc(sample.id));
+    const movedExercises = (await Promise.all(exerciseRefs.map(ref => transaction.get(ref))))
+      .filter(doc => doc.exists && doc.data()?.date !== date);
+    const movedFromStats = await Promise.all(
+      movedExercises.map(doc => {
+        const query: Query = db.collection('daily_stats').where('user_id', '==', user.id).where('date', '==', doc.data()?.date);
+        return transaction.get(query);
+      })
+    );
+
+    movedExercises.forEach((doc, index) => {
+      const previousDay = movedFromStats[index].docs[0];
+      const calories = Number(doc.data()?.calories_burned) || 0;
+      if (previousDay && calories) {
+        transaction.update(previousDay.ref, { calories_burned: FieldValue.increment(-calories) });
+      }
+    });
+
+    let burnedDelta = 0;
+    existingExercises.forEach(doc => {
+      if (!workouts.some(sample => sample.id === doc.id)) {
+        transaction.delete(doc.ref);
+      }
+      burnedDelta -= Number(doc.data().calories_burned) || 0;
+    });
+    workouts.forEach(sample => {
+      const log: Omit<ExerciseLog, 'id'> = {
+        ...buildExerciseLog(user, {
+          type: sample.workout_type || 'other',
+          duration_min: Math.max(1, Math.round((new Date(sample.end).getTime() - new Date(sample.start).getTime()) / 60_000)),
+          distance_km: sample.distance_km ?? null,
+          calories_burned: sample.value,
+          performed_at: sample.start
+        }),
+        date,
+        health_sample_id: sample.id,
+        source: sample.source
+      };
+      transaction.set(db.collection('exercise_logs').doc(sample.id), log);
+      burnedDelta += log.calories_burned;
+    });
+    // The increment is exactly the difference between the stored logs, rounded like daily_stats
+    // values, so the day keeps matching the sum of its exercise logs.
+    const burnedIncrement = Math.round(burnedDelta * 10) / 10;
+    if (burnedIncrement) {
+      transaction.update(db.collection('daily_stats').doc(daily.id), {
+        calories_burned: FieldValue.increment(burnedIncrement)
+      });
+    }
+
+    existingWeights
+      .filter(doc => !weights.some(sample => sample.id === doc.id))
+      .forEach(doc => transaction.delete(doc.ref));
+    weights.forEach(sample => {
+      const log: Omit<WeightLog, 'id'> = {
+        user_id: user.id,
+        weight_kg: Math.round((sample.value as number) * 100) / 100,
+        logged_at: sample.start,
+        date,
+        note: null,
+        health_sample_id: sample.id,
+        source: sample.source,
+        created_at: new Date().toISOString()
+      };
+      transaction.set(db.collection('weight_logs').doc(sample.id), log);
+    });
+    return existingWeights.length;
+  });
+
+  return { weightsChanged: weights.length > 0 || existingWeightCount > 0 };
+};
+
+/**
+ * Stores the samples under ids derived from their source ids (so importing the same sample twice
+ * is a no-op) and re-merges every day they touch into daily_stats, exercise and weight history.
+ * A re-sent sample that now falls on another day also re-merges the day it was stored under, so
+ * nothing derived from it stays behind there.
+ * Where several sources report the same metric for a day, the highest-ranked source wins.
+ */
+export const importHealthSamples = async (user: UserInfo, samples: HealthSampleInput[]): Promise<HealthImportResult> => {
+  const timeZone = user.timezone || 'UTC';
+  const importedAt = new Date().toISOString();
+  const dates = new Set<string>();
+
+  for (let index = 0; index < samples.length; index += WRITE_BATCH_SIZE) {
+    const chunk = samples.slice(index, index + WRITE_BATCH_SIZE);
+    const refs = chunk.map(sample => db.collection('health_samples').doc(getHealthSampleId(user.id, sample)));
+    const stored = await Promise.all(refs.map(ref => ref.get()));
+    stored.forEach(doc => {
+      if (doc.exists && doc.data()?.date) {
+        dates.add(doc.data().date);
+      }
+    });
+
+    const batch = db.batch();
+    chunk.forEach((sample, chunkIndex) => {
+      const date = getSampleDate(sample, timeZone);
+      dates.add(date);
+      batch.set(refs[chunkIndex], {
+        ...sample,
+        user_id: user.id,
+        date,
+        imported_at: importedAt
+      });
+    });
+    await batch.commit();
+  }
+
+  const sortedDates = Array.from(dates).sort();
+  let weightsChanged = false;
+  for (const date of sortedDates) {
+    const { weightsChanged: changed } = await mergeDay(user, date);
+    weightsChanged = weightsChanged || changed;
+  }
+  const weightSync = weightsChanged ? await syncCurrentWeight(user) : null;
+
+  logger.info({ userId: user.id, samples: samples.length, dates: sortedDates }, 'Health samples imported');
+  return { received: samples.length, dates: sortedDates, weight_synced: Boolean(weightSync) };
+};
@@ -1,11 +1,44 @@
 import { db, storage } from '../../../firebase';
-import type { DocumentData, QueryDocumentSnapshot } from 'firebase-admin/firestore';
+import type {
+  DocumentData,
+  DocumentReference,
+  Query,
+  QueryDocumentSnapshot,
+  Transaction
+} from 'firebase-admin/firestore';
+import type { Storage } from 'firebase-admin/storage';
 import { v4 as uuidv4 } from 'uuid';
 import { logger } from '../../../utils/logger';
-import { analyzeMealImage } from './geminiService';
+import { analyzeMealImages, analyzeMealText, analyzeNutritionLabel, MealAnalysisImage } from './geminiService';
+import {
+  AnalysisValidation,
+  ClarifyingQuestion,
+  MealAnalysis,
+  NutritionLabel,
+  validateMealAnalysis
+} from '../utils/analysisSchema';
+import { FoodRecord, getFood, saveLabelFood } from './foodService';
+import { recordAnalysisCorrection } from './analysisCorrectionService';
+import { applyDailyStatsDeltasInTransaction, DailyStatsDeltas } from './progressService';
+import type { UserInfo } from './userInfoService';
+import type { Allergen, DietaryWarning, DietTag } from './dietaryService';
+import { formatDateInTimeZone, getHourInTimeZone } from '../utils/timezone';
+import { processMealImage } from '../utils/imageProcessing';
+import {
+  EXTENDED_NUTRIENT_KEYS,
+  ExtendedNutrients,
+  NUTRITION_KEYS,
+  NutritionTotals,
+  pickTotals,
+  scaleTotals,
+  sumTotals,
+  toDailyStatsDeltas
+} from '../utils/nutrition';
 import axios from 'axios';
+import { createHash } from 'crypto';
+import { cacheService } from '../../../services/cacheService';
 
-export interface MealItem {
+export interface MealItem extends Partial<ExtendedNutrients> {
   id: string;
   meal_id: string;
   name: string;
@@ -15,22 +48,112 @@ export interface MealItem {
   protein_g: number;
   carbs_g: number;
   fat_g: number;
+  food_id?: string | null;
+  serving_id?: string | null;
+  barcode?: string | null;
+  allergens?: Allergen[];
+  contains?: DietTag[];
 }
 
-export interface MealRecord {
+export type MealSource = 'camera' | 'gallery' | 'manual' | 'barcode' | 'text' | 'label';
+
+// Sources a client may pick when creating a photo meal; the others are set by their own endpoints.
+export const PHOTO_MEAL_SOURCES: MealSource[] = ['camera', 'gallery'];
+
+export const isPhotoMealSource = (value: unknown): value is MealSource => PHOTO_MEAL_SOURCES.includes(value as MealSource);
+
+export type MealType = 'breakfast' | 'lunch' | 'dinner' | 'snack';
+
+export const MEAL_TYPES: MealType[] = ['breakfast', 'lunch', 'dinner', 'snack'];
+
+export type MealImageRole = 'primary' | 'angle' | 'before' | 'after';
+
+export const MEAL_IMAGE_ROLES: MealImageRole[] = ['primary', 'angle', 'before', 'after'];
+
+export const MAX_MEAL_IMAGES = 6;
+
+export interface MealImage {
+  id: string;
+  role: MealImageRole;
+  url: string;
+  mime_type: string;
+  storage_path?: string | null;
+  thumbnail_path?: string | null;
+  // Only on images uploaded before storage became private; new images never carry inline data.
+  base64?: string | null;
+  hash?: string;
+  duplicate_of_meal_id?: string | null;
+  uploaded_at: string;
+}
+
+export interface DuplicateMealUpload {
+  image_id: string;
+  meal_id: string;
+  logged_at: string;
+}
+
+export const MAX_COMPARISON_MODELS = 3;
+
+// Below this confidence the analysis response carries clarifying questions for the user.
+const CLARIFICATION_CONFIDENCE_THRESHOLD = Number(process.env.ANALYSIS_CLARIFICATION_THRESHOLD || 0.6);
+
+const parseModelList = (value: string) =>
+  value
+    .split(',')
+    .map(model => model.trim())
+    .filter(Boolean);
+
+export const DEFAULT_ANALYSIS_MODEL = process.env.GEMINI_MODEL || 'gemini-2.5-flash';
+
+export const DEFAULT_COMPARISON_MODELS = parseModelList(process.env.GEMINI_COMPARISON_MODELS || 'gemini-2.5-flash,gemini-2.5-pro');
+
+// Clients may pick the analysis model, but only from this list so they cannot route requests to
+// arbitrary (or more expensive) models on our API key.
+export const ALLOWED_ANALYSIS_MODELS = process.env.GEMINI_ALLOWED_MODELS
+  ? parseModelList(process.env.GEMINI_ALLOWED_MODELS)
+  : Array.from(new Set([DEFAULT_ANALYSIS_MODEL, ...DEFAULT_COMPARISON_MODELS]));
+
+export const isAllowedAnalysisModel = (value: unknown): value is string =>
+  typeof value === 'string' && ALLOWED_ANALYSIS_MODELS.includes(value);
+
+type Bucket = ReturnType<Storage['bucket']>;
+type File = ReturnType<Bucket['file']>;
+
+// Without Firebase credentials `storage` is a mock that implements only part of this API, so callers
+// check for the methods they need (e.g. `save`) before relying on real storage.
+const getStorageFile = (path: string): File => (storage.bucket() as Bucket).file(path);
+
+const SIGNED_URL_TTL_MS = Number(process.env.MEAL_IMAGE_URL_TTL_SECONDS || 15 * 60) * 1000;
+// Firestore documents are capped at 1 MiB; the development fallback only keeps images that fit.
+const MAX_INLINE_IMAGE_BYTES = 700_000;
+
+const DUPLICATE_UPLOAD_WINDOW_MS = Number(process.env.MEAL_DUPLICATE_UPLOAD_WINDOW_MS || 12 * 60 * 60_000);
+const ANALYSIS_CACHE_TTL_SECONDS = Number(process.env.MEAL_ANALYSIS_CACHE_TTL_SECONDS || 7 * 24 * 60 * 60);
+
+export interface MealRecord extends Partial<ExtendedNutrients> {
   id: string;
   user_id: string;
+  images?: MealImage[];
+  duplicate_of_meal_id?: string | null;
   image_url?: string | null;
   image_base64?: string | null;
   image_mime_type?: string | null;
   label?: string | null;
-  source: 'camera' | 'manual';
+  description?: string | null;
+  source: MealSource;
   meal_time: string;
+  meal_type?: MealType;
+  // True when meal_type was guessed from meal_time rather than chosen by the user.
+  meal_type_inferred?: boolean;
   status: 'draft' | 'confirmed';
   calories?: number;
   protein_g?: number;
   carbs_g?: number;
   fat_g?: number;
+  template_id?: string | null;
+  copied_from_meal_id?: string | null;
+  recipe_id?: string | null;
+  food_id?: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -41,14 +164,32 @@ export interface AnalysisResult {
   model: string;
   confidence: number;
   is_selected: boolean;
+  mode?: 'plate' | 'label';
+  language?: string;
+  food_id?: string | null;
+  comparison_id?: string | null;
+  clarifying_questions?: ClarifyingQuestion[];
+  parent_result_id?: string | null;
+  clarification_answers?: ClarificationAnswer[];
   raw_response: any;
+  validation?: AnalysisValidation;
+  content_hash?: string;
+  from_cache?: boolean;
   created_at: string;
 }
 
+export interface ClarificationAnswer {
+  question_id: string;
+  question: string;
+  option_id: string | null;
+  answer: string;
+}
+
 export interface StoredMealImage {
   url: string;
-  base64?: string;
-  mimeType?: string;
+  storagePath: string | null;
+  thumbnailPath: string | null;
+  mimeType: string;
   isMock?: boolean;
 }
 
@@ -60,67 +201,327 @@ const extractImageFromDataUrl = (dataUrl: string) => {
   return { mimeType: match[1], base64: match[2] };
 };
 
+/**
+ * Stores a meal photo privately: metadata is stripped, a thumbnail is rendered next to it and
+ * nothing is made public. Clients get short-lived signed URLs from `withSignedImageUrls`. Without
+ * working storage (local development) the image is kept in `meal_image_blobs`, never in the meal.
+ */
 export const uploadMealImage = async (
   userId: string,
   mealId: string,
   fileBuffer: Buffer,
-  mimeType: string
+  mimeType: string,
+  imageId?: string
 ): Promise<StoredMealImage> => {
-  const bucket = storage.bucket();
-  const extension = mimeType.split('/')[1] || 'jpg';
-  const path = `meals/${userId}/${mealId}.${extension}`;
+  const processed = await processMealImage(fileBuffer, mimeType);
+  const extension = processed.image.mimeType.split('/')[1] || 'jpg';
+  const basePath = imageId ? `meals/${userId}/${mealId}/${imageId}` : `meals/${userId}/${mealId}`;
+  const path = `${basePath}.${extension}`;
+  const thumbnailPath = processed.thumbnail ? `${basePath}_thumb.jpg` : null;
 
-  const file = bucket.file(path) as any;
+  const file = getStorageFile(path);
   if (typeof file.save === 'function') {
     try {
-      await file.save(fileBuffer, { metadata: { contentType: mimeType } });
-      if (typeof file.makePublic === 'function') {
-        await file.makePublic();
+      await file.save(processed.image.buffer, { metadata: { contentType: processed.image.mimeType } });
+      if (processed.thumbnail && thumbnailPath) {
+        await getStorageFile(thumbnailPath).save(processed.thumbnail.buffer, {
+          metadata: { contentType: processed.thumbnail.mimeType }
+        });
       }
-      const bucketName = 'name' in bucket && typeof (bucket as any).name === 'string'
-        ? (bucket as any).name
-        : process.env.FIREBASE_STORAGE_BUCKET || 'mock';
-      return { url: `https://storage.googleapis.com/${bucketName}/${path}`, isMock: false };
+      return {
+        url: `gs://${file.bucket.name}/${path}`,
+        storagePath: path,
+        thumbnailPath,
+        mimeType: processed.image.mimeType,
+        isMock: false
+      };
     } catch (error) {
-      logger.warn({ err: error }, 'Storage upload failed, falling back to inline base64 storage');
+      logger.warn({ err: error }, 'Storage upload failed, falling back to meal_image_blobs');
     }
   }
 
-  logger.warn('Storage not configured, using inline base64 for meal image');
+  if (processed.image.buffer.length > MAX_INLINE_IMAGE_BYTES) {
+    throw new Error('Meal image storage is unavailable');
+  }
+  logger.warn('Storage not configured, keeping meal image in meal_image_blobs');
+  await db.collection('meal_image_blobs').doc(imageId || mealId).set({
+    user_id: userId,
+    meal_id: mealId,
+    mime_type: processed.image.mimeType,
+    base64: processed.image.buffer.toString('base64'),
+    created_at: new Date().toISOString()
+  });
   return {
     url: `mock://storage/${path}`,
-    base64: fileBuffer.toString('base64'),
-    mimeType,
+    storagePath: null,
+    thumbnailPath: null,
+    mimeType: processed.image.mimeType,
     isMock: true
   };
 };
 
-export const createMeal = async (data: {
+const getStoragePath = (image: MealImage) => {
+  if (image.storage_path) {
+    return image.storage_path;
+  }
+  // Images uploaded while storage was public only have their public URL.
+  const bucketName = (storage.bucket() as Bucket).name;
+  const match = (image.url || '').match(/^https:\/\/storage\.googleapis\.com\/([^/]+)\/(.+)$/);
+  return match && match[1] === bucketName ? decodeURIComponent(match[2]) : null;
+};
+
+// Meal images are only ever stored under their owner's folder (see `uploadMealImage`); a reference
+// anywhere else, e.g. at another user's image, is never signed.
+const isOwnImagePath = (path: string | null | undefined, userId: string | undefined): path is string =>
+  Boolean(path && userId && path.startsWith(`meals/${userId}/`) && !path.split('/').includes('..'));
+
+const signStoragePath = async (path: string, expires: number) => {
+  const [url] = await getStorageFile(path).getSignedUrl({ version: 'v4', action: 'read', expires });
+  return url;
+};
+
+/**
+ * Replaces stored image references with signed URLs that expire after a few minutes, and drops any
+ * inline image data still present on older meals. Meant to run right before a meal is returned.
+ */
+export const withSignedImageUrls = async <T extends Partial<MealRecord>>(meal: T) => {
+  const expires = Date.now() + SIGNED_URL_TTL_MS;
+  const sourceImages = meal.images?.length || meal.image_url ? getMealImages(meal as MealRecord) : [];
+  const images = await Promise.all(
+    sourceImages.map(async ({ base64: _base64, ...image }) => {
+      const path = getStoragePath(image);
+      if (!isOwnImagePath(path, meal.user_id)) {
+        return { ...image, url: null, thumbnail_url: null };
+      }
+      try {
+        const [url, thumbnailUrl] = await Promise.all([
+          signStoragePath(path, expires),
+          isOwnImagePath(image.thumbnail_path, meal.user_id)
+            ? signStoragePath(image.thumbnail_path, expires)
+            : Promise.resolve(null)
+        ]);
+        return { ...image, url, thumbnail_url: thumbnailUrl };
+      } catch (error) {
+        logger.warn({ err: error, mealId: meal.id, imageId: image.id }, 'Failed to sign meal image URL');
+        return { ...image, url: null, thumbnail_url: null };
+      }
+    })
+  );
+
+  const { image_base64: _legacyBase64, ...rest } = meal;
+  const primary = images.find(image => image.role === 'primary') || images[0];
+  return {
+    ...rest,
+    images,
+    image_url: primary ? primary.url : meal.image_url ?? null,
+    thumbnail_url: primary?.thumbnail_url ?? null,
+    image_urls_expire_at: images.length ? new Date(expires).toISOString() : null
+  };
+};
+
+export const isMealImageRole = (value: unknown): value is MealImageRole => MEAL_IMAGE_ROLES.includes(value as MealImageRole);
+
+const hashContent = (content: Buffer | string) => createHash('sha256').update(content).digest('hex');
+
+/**
+ * Remembers which meal a user last uploaded a given image to. Returns the earlier meal when the same
+ * bytes were uploaded to a different, still existing meal within the duplicate window. The hash is
+ * read and replaced in a transaction, so two uploads of the same photo at once cannot both miss the
+ * other.
+ */
+const registerImageHash = (
+  userId: string,
+  mealId: string,
+  imageId: string,
+  hash: string
+): Promise<DuplicateMealUpload | null> =>
+  db.runTransaction(async (transaction: Transaction) => {
+    const hashRef: DocumentReference = db.collection('meal_image_hashes').doc(`${userId}_${hash}`);
+    const hashDoc = await transaction.get(hashRef);
+    const previous = hashDoc.exists ? hashDoc.data() : null;
+    const now = new Date();
+
+    const isRecentDuplicate =
+      !!previous &&
+      previous.meal_id !== mealId &&
+      now.getTime() - new Date(previous.uploaded_at).getTime() <= DUPLICATE_UPLOAD_WINDOW_MS;
+    const previousMealRef: DocumentReference | null = isRecentDuplicate ? db.collection('meals').doc(previous.meal_id) : null;
+    const previousMeal = previousMealRef ? await transaction.get(previousMealRef) : null;
+
+    transaction.set(hashRef, { user_id: userId, hash, meal_id: mealId, image_id: imageId, uploaded_at: now.toISOString() });
+
+    if (!previous || !previousMeal?.exists) {
+      return null;
+    }
+    logger.info({ userId, mealId, duplicateOf: previous.meal_id }, 'Duplicate meal image upload detected');
+    return { image_id: imageId, meal_id: previous.meal_id, logged_at: previous.uploaded_at };
+  });
+
+/**
+ * Uploads images for a meal and appends them to its `images` list. The first primary image also
+ * becomes `image_url` so clients that only know about a single photo keep working.
+ */
+export const addMealImages = async (
+  userId: string,
+  mealId: string,
+  files: Array<{ buffer: Buffer; mimeType: string; role: MealImageRole }>
+) => {
+  const mealRef = db.collection('meals').doc(mealId);
+  const mealDoc = await mealRef.get();
+  if (!mealDoc.exists) {
+    throw new Error('Meal not found');
+  }
+
+  const meal = mealDoc.data() as MealRecord;
+  const existing = meal.images || [];
+  if (existing.length + files.length > MAX_MEAL_IMAGES) {
+    throw new Error(`A meal can have at most ${MAX_MEAL_IMAGES} images`);
+  }
+
+  const uploaded: MealImage[] = [];
+  const duplicates: DuplicateMealUpload[] = [];
+  for (const file of files) {
+    const imageId = uuidv4();
+    const hash = hashContent(file.buffer);
+    const stored = await uploadMealImage(userId, mealId, file.buffer, file.mimeType, imageId);
+    const duplicate = await registerImageHash(userId, mealId, imageId, hash);
+    if (duplicate) {
+      duplicates.push(duplicate);
+    }
+    uploaded.push({
+      id: imageId,
+      role: file.role,
+      url: stored.url,
+      mime_type: stored.mimeType,
+      storage_path: stored.storagePath,
+      thumbnail_path: stored.thumbnailPath,
+      hash,
+      duplicate_of_meal_id: duplicate?.meal_id ?? null,
+      uploaded_at: new Date().toISOString()
+    });
+  }
+
+  const images = [...existing, ...uploaded];
+  const primary = images.find(image => image.role === 'primary') || images[0];
+  const updates: Partial<MealRecord> = { images };
+  if (primary && !meal.image_url) {
+    updates.image_url = primary.url;
+  }
+  if (duplicates.length && !meal.duplicate_of_meal_id) {
+    updates.duplicate_of_meal_id = duplicates[0].meal_id;
+  }
+  await updateMeal(mealId, updates);
+
+  logger.info(
+    { mealId, userId, roles: uploaded.map(image => image.role), duplicateCount: duplicates.length },
+    'Meal images added'
+  );
+  return { images, duplicates };
+};
+
+export const isMealType = (value: unknown): value is MealType => MEAL_TYPES.includes(value as MealType);
+
+/**
+ * Guesses the meal type from the local hour of the meal: 04-11 breakfast, 11-16 lunch,
+ * 16-22 dinner, 22-04 a snack.
+ */
+export const inferMealType = (mealTime: string, timeZone: string): MealType => {
+  const hour = getHourInTimeZone(new Date(mealTime), timeZone);
+  if (hour >= 4 && hour < 11) return 'breakfast';
+  if (hour >= 11 && hour < 16) return 'lunch';
+  if (hour >= 16 && hour < 22) return 'dinner';
+  return 'snack';
+};
+
+type NewMealInput = {
   userId: string;
-  imageUrl?: string | null;
   label?: string | null;
-  source: 'camera' | 'manual';
+  description?: string | null;
+  source: MealSource;
   mealTime?: string;
-}) => {
+  mealType?: MealType;
+  timeZone?: string;
+};
+
+const buildMealRecord = (data: NewMealInput) => {
   const now = new Date().toISOString();
   const mealId = uuidv4();
+  const mealTime = data.mealTime || now;
   const meal: MealRecord = {
     id: mealId,
     user_id: data.userId,
-    image_url: data.imageUrl || null,
+    image_url: null,
     label: data.label || null,
     source: data.source,
-    meal_time: data.mealTime || now,
+    meal_time: mealTime,
+    meal_type: data.mealType || inferMealType(mealTime, data.timeZone || 'UTC'),
+    meal_type_inferred: !data.mealType,
     status: 'draft',
     created_at: now,
     updated_at: now
   };
 
-  await db.collection('meals').doc(mealId).set(meal);
-  logger.info({ mealId, userId: data.userId, source: data.source }, 'Meal created');
+  if (data.description) {
+    meal.description = data.description;
+  }
+  return meal;
+};
+
+export const createMeal = async (data: NewMealInput) => {
+  const meal = buildMealRecord(data);
+  await db.collection('meals').doc(meal.id).set(meal);
+  logger.info({ mealId: meal.id, userId: data.userId, source: data.source }, 'Meal created');
   return meal;
 };
 
+/**
+ * Creates an already-confirmed meal from known items (catalog foods, templates, recipes, barcodes)
+ * and adds its totals to the day's daily_stats, all in one transaction. Used by every logging path
+ * that skips AI analysis.
+ */
+export const logMealWithItems = async (
+  user: UserInfo,
+  data: {
+    source: MealRecord['source'];
+    label?: string | null;
+    mealTime?: string;
+    mealType?: MealType;
+    items: Array<Omit<MealItem, 'id' | 'meal_id'>>;
+    origin?: Pick<MealRecord, 'template_id' | 'copied_from_meal_id' | 'recipe_id'>;
+  }
+) => {
+  const meal = buildMealRecord({
+    userId: user.id,
+    label: data.label || null,
+    source: data.source,
+    mealTime: data.mealTime,
+    mealType: data.mealType,
+    timeZone: user.timezone
+  });
+
+  const items: MealItem[] = data.items.map(item => ({ ...item, id: uuidv4(), meal_id: meal.id }));
+  const totals = sumTotals(items);
+  const confirmed: MealRecord = {
+    ...meal,
+    ...data.origin,
+    ...totals,
+    status: 'confirmed'
+  };
+
+  const date = formatDateInTimeZone(new Date(confirmed.meal_time), user.timezone || 'UTC');
+  const [dailyStats] = await db.runTransaction(async (transaction: Transaction) => {
+    const stats = await applyDailyStatsDeltasInTransaction(transaction, user, [
+      { date, deltas: toDailyStatsDeltas(totals) }
+    ]);
+    items.forEach(item => transaction.set(db.collection('meal_items').doc(item.id), item));
+    transaction.set(db.collection('meals').doc(meal.id), confirmed);
+    return stats;
+  });
+
+  logger.info({ mealId: meal.id, userId: user.id, source: data.source, itemCount: items.length }, 'Meal logged with items');
+  return { meal: confirmed, items, totals, daily_stats: dailyStats };
+};
+
 export const listMealsForDate = async (userId: string, start: Date, end: Date) => {
   const snapshot = await db
     .collection('meals')
@@ -130,7 +531,29 @@ export const listMealsForDate = async (userId: string, start: Date, end: Date) =
     .orderBy('meal_time', 'desc')
     .get();
 
-  return snapshot.docs.map((doc: QueryDocumentSnapshot<DocumentData>) => ({ id: doc.id, ...doc.data() }));
+  return snapshot.docs.map((doc: QueryDocumentSnapshot<DocumentData>) => ({ id: doc.id, ...doc.data() }) as MealRecord);
+};
+
+const resolveMealType = (meal: Pick<MealRecord, 'meal_type' | 'meal_time'>, timeZone: string) =>
+  isMealType(meal.meal_type) ? meal.meal_type : inferMealType(meal.meal_time, timeZone);
+
+export const groupMealsByType = <T extends Pick<MealRecord, 'meal_type' | 'meal_time'>>(meals: T[], timeZone: string) => {
+  const grouped = Object.fromEntries(MEAL_TYPES.map(type => [type, [] as T[]])) as Record<MealType, T[]>;
+  meals.forEach(meal => {
+    grouped[resolveMealType(meal, timeZone)].push(meal);
+  });
+  return grouped;
+};
+
+/**
+ * Per-meal-type calorie and macro subtotals for confirmed meals. Meals stored before meal_type
+ * existed are classified from their meal_time.
+ */
+export const summarizeMealsByType = (meals: MealRecord[], timeZone: string) => {
+  const grouped = groupMealsByType(meals.filter(meal => meal.status === 'confirmed'), timeZone);
+  return Object.fromEntries(
+    MEAL_TYPES.map(type => [type, { ...sumTotals(grouped[type]), meal_count: grouped[type].length }])
+  ) as Record<MealType, NutritionTotals & { meal_count: number }>;
 };
 
 export const getMeal = async (mealId: string) => {
@@ -161,57 +584,363 @@ export const updateMeal = async (mealId: string, updates: Partial<MealRecord>) =
   await db.collection('meals').doc(mealId).set({ ...updates, updated_at: now }, { merge: true });
 };
 
-export const analyzeMeal = async (mealId: string, model: string, language: string) => {
-  const mealDoc = await db.collection('meals').doc(mealId).get();
-  if (!mealDoc.exists) {
-    throw new Error('Meal not found');
+export type MealEditableFields = Partial<Pick<MealRecord, 'label' | 'meal_time' | 'meal_type'> & NutritionTotals>;
+
+export const sanitizeMealUpdates = (body: Record<string, any>) => {
+  const updates: MealEditableFields = {};
+  const errors: string[] = [];
+
+  if (body.label !== undefined) {
+    updates.label = typeof body.label === 'string' && body.label.trim() !== '' ? body.label.trim() : null;
   }
 
-  const mealData = mealDoc.data() as MealRecord;
-  let imageBase64 = mealData?.image_base64 || null;
-  let mimeType = mealData?.image_mime_type || 'image/jpeg';
+  if (body.meal_time !== undefined) {
+    const mealTime = new Date(body.meal_time);
+    if (Number.isNaN(mealTime.getTime())) {
+      errors.push('meal_time must be a valid date');
+    } else {
+      updates.meal_time = mealTime.toISOString();
+    }
+  }
 
-  if (!imageBase64 && mealData?.image_url) {
-    const inline = extractImageFromDataUrl(mealData.image_url);
-    if (inline) {
-      imageBase64 = inline.base64;
-      mimeType = inline.mimeType || mimeType;
+  if (body.meal_type !== undefined) {
+    if (!isMealType(body.meal_type)) {
+      errors.push(`meal_type must be one of ${MEAL_TYPES.join(', ')}`);
+    } else {
+      updates.meal_type = body.meal_type;
     }
   }
 
-  if (!imageBase64 && mealData?.image_url) {
-    if (mealData.image_url.startsWith('mock://')) {
-      throw new Error('Meal image is stored locally and cannot be analyzed. Please re-upload the meal image.');
+  NUTRITION_KEYS.forEach(field => {
+    if (body[field] === undefined) {
+      return;
     }
-    logger.info({ mealId, model }, 'Starting meal image analysis');
-    const imageResponse = await axios.get<ArrayBuffer>(mealData.image_url, { responseType: 'arraybuffer' });
-    if (imageResponse.status >= 400) {
-      throw new Error('Failed to download meal image');
+    const value = Number(body[field]);
+    if (!Number.isFinite(value) || value < 0) {
+      errors.push(`${field} must be a non-negative number`);
+      return;
     }
-    const buffer = Buffer.from(imageResponse.data);
-    mimeType = imageResponse.headers['content-type'] || mimeType;
-    imageBase64 = buffer.toString('base64');
+    updates[field] = value;
+  });
+
+  return { updates, errors };
+};
+
+/**
+ * Returns the daily_stats deltas needed to move from one version of a meal to another.
+ * Only confirmed meals count towards daily_stats, so drafts contribute nothing on either side.
+ */
+export const getMealDailyStatsChanges = (
+  before: Pick<MealRecord, 'status' | 'meal_time'> & Partial<NutritionTotals> | null,
+  after: Pick<MealRecord, 'status' | 'meal_time'> & Partial<NutritionTotals> | null,
+  timeZone: string
+) => {
+  const changes: Array<{ date: string; deltas: DailyStatsDeltas }> = [];
+  if (before?.status === 'confirmed') {
+    changes.push({
+      date: formatDateInTimeZone(new Date(before.meal_time), timeZone),
+      deltas: toDailyStatsDeltas(pickTotals(before), -1)
+    });
   }
+  if (after?.status === 'confirmed') {
+    changes.push({
+      date: formatDateInTimeZone(new Date(after.meal_time), timeZone),
+      deltas: toDailyStatsDeltas(pickTotals(after))
+    });
+  }
+  return changes;
+};
 
-  if (!imageBase64) {
-    throw new Error('Meal image is missing');
+// Meals stored before meal_type_inferred existed count as inferred when their type still matches their hour.
+const isMealTypeInferred = (meal: Pick<MealRecord, 'meal_type' | 'meal_type_inferred' | 'meal_time'>, timeZone: string) =>
+  meal.meal_type_inferred ?? (!isMealType(meal.meal_type) || meal.meal_type === inferMealType(meal.meal_time, timeZone));
+
+export const MEAL_TOTALS_FROM_ITEMS_ERROR = 'Meal totals are calculated from its items; edit the items instead';
+
+/**
+ * Edits a meal and moves daily_stats by the difference. The meal is read and written in one
+ * transaction with the daily_stats increments, so an edit racing a confirm cannot count the meal twice.
+ */
+export const editMeal = async (user: UserInfo, mealId: string, updates: MealEditableFields) => {
+  const mealRef: DocumentReference = db.collection('meals').doc(mealId);
+  const timeZone = user.timezone || 'UTC';
+  const hasTotals = NUTRITION_KEYS.some(field => updates[field] !== undefined);
+
+  const result = await db.runTransaction(async (transaction: Transaction) => {
+    const mealDoc = await transaction.get(mealRef);
+    if (!mealDoc.exists) {
+      throw new Error('Meal not found');
+    }
+
+    // Totals of a meal with items are their sum; an edit here would be lost on the next item change.
+    if (hasTotals) {
+      const itemsQuery: Query = db.collection('meal_items').where('meal_id', '==', mealId).limit(1);
+      const itemsSnapshot = await transaction.get(itemsQuery);
+      if (!itemsSnapshot.empty) {
+        throw new Error(MEAL_TOTALS_FROM_ITEMS_ERROR);
+      }
+    }
+
+    const before = mealDoc.data() as MealRecord;
+    const changes: Partial<MealRecord> = { ...updates };
+    if (updates.meal_type !== undefined) {
+      changes.meal_type_inferred = false;
+    } else if (updates.meal_time !== undefined && isMealTypeInferred(before, timeZone)) {
+      // A type the user never chose follows the meal to its new hour.
+      changes.meal_type = inferMealType(updates.meal_time, timeZone);
+      changes.meal_type_inferred = true;
+    }
+    const after: MealRecord = { ...before, ...changes, updated_at: new Date().toISOString() };
+
+    const statsChanges = getMealDailyStatsChanges(before, after, timeZone);
+    const dailyStats = statsChanges.length
+      ? await applyDailyStatsDeltasInTransaction(transaction, user, statsChanges)
+      : [];
+    transaction.set(mealRef, { ...changes, updated_at: after.updated_at }, { merge: true });
+    return { meal: after, daily_stats: dailyStats, fields: Object.keys(changes) };
+  });
+
+  logger.info({ mealId, userId: user.id, fields: result.fields }, 'Meal edited');
+  return { meal: result.meal, daily_stats: result.daily_stats };
+};
+
+/**
+ * Removes a meal's photos and thumbnails from storage. Runs after the meal is gone, so a failure
+ * only leaves unreferenced files behind and is logged instead of failing the delete.
+ */
+const deleteMealImageFiles = async (meal: MealRecord) => {
+  const paths = getMealImages(meal)
+    .flatMap(image => [getStoragePath(image), image.thumbnail_path])
+    .filter((path): path is string => isOwnImagePath(path, meal.user_id));
+  await Promise.all(
+    paths.map(async path => {
+      const file = getStorageFile(path);
+      if (typeof file.delete !== 'function') {
+        return;
+      }
+      try {
+        await file.delete({ ignoreNotFound: true });
+      } catch (error) {
+        logger.warn({ err: error, mealId: meal.id, path }, 'Failed to delete meal image file');
+      }
+    })
+  );
+};
+
+/**
+ * Deletes a meal with its items, analysis results and image records, and takes a confirmed meal's
+ * totals off its day. The meal is read in the same transaction that deletes it, so a confirm or edit
+ * landing in between cannot leave daily_stats counting a meal that is gone.
+ */
+export const deleteMeal = async (user: UserInfo, mealId: string) => {
+  const mealRef: DocumentReference = db.collection('meals').doc(mealId);
+
+  const result = await db.runTransaction(async (transaction: Transaction) => {
+    const mealDoc = await transaction.get(mealRef);
+    if (!mealDoc.exists) {
+      throw new Error('Meal not found');
+    }
+
+    const meal = mealDoc.data() as MealRecord;
+    // Image blobs and upload hashes still pointing at the meal go with it.
+    const snapshots = await Promise.all(
+      ['meal_items', 'analysis_results', 'meal_image_blobs', 'meal_image_hashes'].map(collection => {
+        const related: Query = db.collection(collection).where('meal_id', '==', mealId);
+        return transaction.get(related);
+      })
+    );
+    const changes = getMealDailyStatsChanges(meal, null, user.timezone || 'UTC');
+    const dailyStats = changes.length ? await applyDailyStatsDeltasInTransaction(transaction, user, changes) : [];
+
+    snapshots.forEach(snapshot => snapshot.docs.forEach(doc => transaction.delete(doc.ref)));
+    transaction.delete(mealRef);
+    return { meal, dailyStats };
+  });
+  await deleteMealImageFiles({ ...result.meal, id: mealId });
+
+  logger.info({ mealId, userId: user.id, status: result.meal.status }, 'Meal deleted');
+  return { daily_stats: result.dailyStats };
+};
+
+// Meals created before multi-photo support only carry image_url / image_base64.
+const getMealImages = (meal: MealRecord): MealImage[] => {
+  if (meal.images?.length) {
+    return meal.images;
+  }
+  if (!meal.image_url && !meal.image_base64) {
+    return [];
+  }
+  return [
+    {
+      id: 'primary',
+      role: 'primary',
+      url: meal.image_url || '',
+      mime_type: meal.image_mime_type || 'image/jpeg',
+      base64: meal.image_base64 || null,
+      uploaded_at: meal.created_at
+    }
+  ];
+};
+
+const loadMealImagePayload = async (image: MealImage): Promise<MealAnalysisImage> => {
+  if (image.base64) {
+    return { data: image.base64, mimeType: image.mime_type || 'image/jpeg', role: image.role };
+  }
+
+  const inline = extractImageFromDataUrl(image.url);
+  if (inline) {
+    return { data: inline.base64, mimeType: inline.mimeType || image.mime_type || 'image/jpeg', role: image.role };
+  }
+
+  if (image.storage_path) {
+    const [buffer] = await getStorageFile(image.storage_path).download();
+    return { data: buffer.toString('base64'), mimeType: image.mime_type || 'image/jpeg', role: image.role };
+  }
+
+  if (image.url?.startsWith('mock://')) {
+    const blob = await db.collection('meal_image_blobs').doc(image.id).get();
+    if (blob.exists) {
+      return { data: blob.data().base64, mimeType: blob.data().mime_type || image.mime_type || 'image/jpeg', role: image.role };
+    }
+  }
+
+  if (!image.url || image.url.startsWith('mock://')) {
+    throw new Error('Meal image is stored locally and cannot be analyzed. Please re-upload the meal image.');
+  }
+
+  const imageResponse = await axios.get<ArrayBuffer>(image.url, { responseType: 'arraybuffer' });
+  if (imageResponse.status >= 400) {
+    throw new Error('Failed to download meal image');
+  }
+  return {
+    data: Buffer.from(imageResponse.data).toString('base64'),
+    mimeType: imageResponse.headers['content-type'] || image.mime_type || 'image/jpeg',
+    role: image.role
+  };
+};
+
+const loadMealImagePayloads = async (images: MealImage[], prefix = '') => {
+  const payloads = await Promise.all(images.map(loadMealImagePayload));
+  const contentHash = hashContent(
+    prefix + payloads.map(payload => `${payload.role}:${hashContent(Buffer.from(payload.data, 'base64'))}`).join('|')
+  );
+  return { payloads, contentHash };
+};
+
+type AnalyzedMeal = { analysis: MealAnalysis; validation: AnalysisValidation };
+
+/**
+ * Identical inputs (same photos or description, model and language) reuse the earlier result instead
+ * of paying for another model call, e.g. when a user retries or re-uploads the same photo.
+ */
+const analyzeWithCache = async <T>(
+  contentHash: string,
+  model: string,
+  language: string,
+  analyze: () => Promise<T>
+) => {
+  const cacheKey = `meal-analysis:${contentHash}:${model}:${language}`;
+  const cached = await cacheService.get<T>(cacheKey);
+  if (cached) {
+    logger.info({ contentHash, model, language }, 'Meal analysis served from cache');
+    return { result: cached, hit: true };
   }
 
-  const analysis = await analyzeMealImage(imageBase64, mimeType, language, model);
+  const result = await analyze();
+  await cacheService.set(cacheKey, result, ANALYSIS_CACHE_TTL_SECONDS);
+  return { result, hit: false };
+};
+
+const listAnalysisResults = async (mealId: string): Promise<AnalysisResult[]> => {
+  const snapshot = await db
+    .collection('analysis_results')
+    .where('meal_id', '==', mealId)
+    .orderBy('created_at', 'desc')
+    .get();
+  return snapshot.docs.map((doc: QueryDocumentSnapshot<DocumentData>) => ({ id: doc.id, ...doc.data() }) as AnalysisResult);
+};
 
+// Only one result per meal is selected at a time; selecting one clears the flag on all others.
+const selectAnalysisResult = async (mealId: string, analysisResultId: string) => {
+  const results = await listAnalysisResults(mealId);
+  const batch = db.batch();
+  let changes = 0;
+  results.forEach(result => {
+    const isSelected = result.id === analysisResultId;
+    if (result.is_selected !== isSelected) {
+      batch.update(db.collection('analysis_results').doc(result.id), { is_selected: isSelected });
+      changes += 1;
+    }
+  });
+  if (changes) {
+    await batch.commit();
+  }
+  return results;
+};
+
+// The model is asked for questions when it is unsure; if it gave none, fall back to asking about the
+// portion size, which is the largest source of error in photo estimates.
+const getClarifyingQuestions = (analysis: MealAnalysis, language: string): ClarifyingQuestion[] => {
+  if ((analysis.confidence ?? 0) >= CLARIFICATION_CONFIDENCE_THRESHOLD) {
+    return [];
+  }
+  if (analysis.clarifying_questions?.length) {
+    return analysis.clarifying_questions;
+  }
+  const isEnglish = (language || 'tr').toLowerCase().startsWith('en');
+  const labels = isEnglish
+    ? ['Smaller (about half)', 'About right', 'Larger (about 1.5x)']
+    : ['Daha küçük (yaklaşık yarısı)', 'Doğru', 'Daha büyük (yaklaşık 1,5 katı)'];
+  return [
+    {
+      id: 'q1',
+      question: isEnglish ? 'Is the estimated portion size right?' : 'Tahmin edilen porsiyon büyüklüğü doğru mu?',
+      item_name: null,
+      options: labels.map((label, index) => ({ id: `q1_o${index + 1}`, label }))
+    }
+  ];
+};
+
+/**
+ * A plain analysis becomes the meal's selected result. Results produced for a model comparison stay
+ * unselected until the user picks one on confirm.
+ */
+const storeAnalysisResult = async (
+  mealId: string,
+  model: string,
+  language: string,
+  { analysis, validation }: AnalyzedMeal,
+  cache: { contentHash: string; hit: boolean },
+  extra: { comparisonId?: string | null; parentResultId?: string | null; clarificationAnswers?: ClarificationAnswer[] } = {}
+) => {
+  const comparisonId = extra.comparisonId || null;
   const resultId = uuidv4();
   const result: AnalysisResult = {
     id: resultId,
     meal_id: mealId,
     model,
     confidence: analysis.confidence ?? 0,
-    is_selected: true,
+    is_selected: !comparisonId,
+    language,
+    comparison_id: comparisonId,
+    clarifying_questions: getClarifyingQuestions(analysis, language),
+    parent_result_id: extra.parentResultId || null,
+    clarification_answers: extra.clarificationAnswers || [],
     raw_response: analysis,
+    validation,
+    content_hash: cache.contentHash,
+    from_cache: cache.hit,
     created_at: new Date().toISOString()
   };
 
   await db.collection('analysis_results').doc(resultId).set(result);
-  logger.info({ mealId, analysisResultId: resultId, confidence: result.confidence }, 'Meal analysis stored');
+  if (!comparisonId) {
+    await selectAnalysisResult(mealId, resultId);
+  }
+  logger.info(
+    { mealId, analysisResultId: resultId, confidence: result.confidence, validation: validation.status, fromCache: cache.hit, comparisonId },
+    'Meal analysis stored'
+  );
 
   return {
     analysis: result,
@@ -219,77 +948,743 @@ export const analyzeMeal = async (mealId: string, model: string, language: strin
   };
 };
 
-export const confirmMeal = async (mealId: string, analysisResultId?: string) => {
+export const analyzeMeal = async (
+  mealId: string,
+  model: string,
+  language: string,
+  options: {
+    comparisonId?: string;
+    clarification?: { parentResultId: string; answers: ClarificationAnswer[]; prompt: string };
+  } = {}
+) => {
+  const clarification = options.clarification;
+  const storeOptions = {
+    comparisonId: options.comparisonId,
+    parentResultId: clarification?.parentResultId,
+    clarificationAnswers: clarification?.answers
+  };
+
   const mealDoc = await db.collection('meals').doc(mealId).get();
   if (!mealDoc.exists) {
     throw new Error('Meal not found');
   }
 
   const mealData = mealDoc.data() as MealRecord;
-  let selectedAnalysis: any = null;
 
-  if (analysisResultId) {
-    const analysisDoc = await db.collection('analysis_results').doc(analysisResultId).get();
-    if (analysisDoc.exists) {
-      selectedAnalysis = analysisDoc.data();
-      await db.collection('analysis_results').doc(analysisResultId).update({ is_selected: true });
+  if (mealData.source === 'text') {
+    if (!mealData.description) {
+      throw new Error('Meal description is missing');
     }
+    logger.info({ mealId, model }, 'Starting meal text analysis');
+    const description = mealData.description;
+    const contentHash = hashContent(`text:${description.trim().toLocaleLowerCase()}${clarification?.prompt || ''}`);
+    const { result, hit } = await analyzeWithCache(contentHash, model, language, () =>
+      analyzeMealText(description, language, model, clarification?.prompt)
+    );
+    return storeAnalysisResult(mealId, model, language, result, { contentHash, hit }, storeOptions);
   }
 
-  if (!selectedAnalysis) {
-    const analysisSnapshot = await db
-      .collection('analysis_results')
-      .where('meal_id', '==', mealId)
-      .orderBy('created_at', 'desc')
-      .limit(1)
-      .get();
-    selectedAnalysis = analysisSnapshot.docs[0]?.data();
+  const images = getMealImages(mealData);
+  if (!images.length) {
+    throw new Error('Meal image is missing');
+  }
+  if (images.some(image => image.role === 'after') && !images.some(image => image.role === 'before')) {
+    throw new Error('An "after" meal image requires a "before" image');
   }
 
-  const now = new Date().toISOString();
-  const totals = selectedAnalysis?.raw_response?.total_macros
-    ? {
-        calories: selectedAnalysis.raw_response.total_calories,
-        protein_g: selectedAnalysis.raw_response.total_macros.p,
-        carbs_g: selectedAnalysis.raw_response.total_macros.c,
-        fat_g: selectedAnalysis.raw_response.total_macros.f
-      }
-    : {
-        calories: mealData.calories || 0,
-        protein_g: mealData.protein_g || 0,
-        carbs_g: mealData.carbs_g || 0,
-        fat_g: mealData.fat_g || 0
-      };
+  logger.info({ mealId, model, imageCount: images.length }, 'Starting meal image analysis');
+  const { payloads, contentHash: imagesHash } = await loadMealImagePayloads(images);
+  const contentHash = clarification ? hashContent(`${imagesHash}${clarification.prompt}`) : imagesHash;
+  const { result, hit } = await analyzeWithCache(contentHash, model, language, () =>
+    analyzeMealImages(payloads, language, model, clarification?.prompt)
+  );
+  return storeAnalysisResult(mealId, model, language, result, { contentHash, hit }, storeOptions);
+};
+
+/**
+ * Runs the same meal through several models so the user can compare the results side by side.
+ * A model that fails does not fail the comparison as long as at least one model succeeds.
+ */
+export const compareMealAnalyses = async (mealId: string, models: string[], language: string) => {
+  const meal = await getMeal(mealId);
+  if (!meal) {
+    throw new Error('Meal not found');
+  }
+  if (meal.source === 'label') {
+    throw new Error('Nutrition label meals cannot be compared across models');
+  }
+
+  const comparisonId = uuidv4();
+  logger.info({ mealId, comparisonId, models }, 'Starting meal analysis comparison');
+  const settled = await Promise.allSettled(models.map(model => analyzeMeal(mealId, model, language, { comparisonId })));
+  const results = settled.flatMap(outcome => (outcome.status === 'fulfilled' ? [outcome.value] : []));
+  const failures = settled.flatMap((outcome, index) =>
+    outcome.status === 'rejected'
+      ? [{ model: models[index], error: (outcome.reason as Error)?.message || 'Meal analysis failed' }]
+      : []
+  );
+  if (!results.length) {
+    throw (settled[0] as PromiseRejectedResult).reason;
+  }
+  if (failures.length) {
+    logger.warn({ mealId, comparisonId, failures }, 'Some comparison models failed');
+  }
+
+  return { comparisonId, results, failures };
+};
 
+/**
+ * Re-runs the estimate for a meal with the user's answers to a result's clarifying questions. The
+ * previous result is kept; the new one references it through `parent_result_id` and becomes the
+ * selected result.
+ */
+export const answerClarifyingQuestions = async (
+  mealId: string,
+  analysisResultId: string,
+  answers: Array<{ question_id: string; option_id?: string; text?: string }>,
+  language: string,
+  model?: string
+) => {
+  const resultDoc = await db.collection('analysis_results').doc(analysisResultId).get();
+  const parent = resultDoc.exists ? ({ id: resultDoc.id, ...resultDoc.data() } as AnalysisResult) : null;
+  if (!parent || parent.meal_id !== mealId) {
+    throw new Error('Analysis result not found');
+  }
+  const questions = parent.clarifying_questions || [];
+  if (parent.mode === 'label' || !questions.length) {
+    throw new Error('Analysis result has no clarifying questions');
+  }
+
+  const resolved: ClarificationAnswer[] = answers.map(answer => {
+    const question = questions.find(candidate => candidate.id === answer.question_id);
+    if (!question) {
+      throw new Error(`Unknown clarifying question: ${answer.question_id}`);
+    }
+    const option = answer.option_id ? question.options.find(candidate => candidate.id === answer.option_id) : undefined;
+    if (answer.option_id && !option) {
+      throw new Error(`Unknown clarifying answer: ${answer.option_id}`);
+    }
+    return {
+      question_id: question.id,
+      question: question.question,
+      option_id: option?.id || null,
+      answer: option?.label || (answer.text || '').trim()
+    };
+  });
+
+  const { clarifying_questions: _questions, ...previousAnalysis } = parent.raw_response || {};
+  const prompt = [
+    `Önceki analiz: ${JSON.stringify(previousAnalysis)}`,
+    'Cevaplar:',
+    ...resolved.map(answer => `- ${answer.question} -> ${answer.answer}`)
+  ].join('\n');
+
+  logger.info({ mealId, parentResultId: parent.id, answers: resolved.length }, 'Re-running meal analysis with clarifications');
+  return analyzeMeal(mealId, model || parent.model, language, {
+    clarification: { parentResultId: parent.id, answers: resolved, prompt }
+  });
+};
+
+// Response shape shared by the synchronous analyze endpoint and analysis jobs.
+export const formatAnalysisResponse = (
+  result: Awaited<ReturnType<typeof analyzeMeal>>,
+  dietaryWarnings: DietaryWarning[] = []
+) => ({
+  calories: result.raw.total_calories,
+  macros: {
+    protein_g: result.raw.total_macros?.p || 0,
+    carbs_g: result.raw.total_macros?.c || 0,
+    fat_g: result.raw.total_macros?.f || 0
+  },
+  protein: result.raw.total_macros?.p || 0,
+  carbs: result.raw.total_macros?.c || 0,
+  fat: result.raw.total_macros?.f || 0,
+  nutrients: result.raw.total_nutrients ?? null,
+  items: result.raw.items || [],
+  confidence: result.raw.confidence || 0,
+  health_score: result.raw.health_score ?? null,
+  coach_note: result.raw.coach_note ?? null,
+  served_total_calories: result.raw.served_total_calories ?? null,
+  consumed_ratio: result.raw.consumed_ratio ?? null,
+  from_cache: result.analysis.from_cache ?? false,
+  dietary_warnings: dietaryWarnings,
+  analysis_result_id: result.analysis.id,
+  model: result.analysis.model,
+  is_selected: result.analysis.is_selected,
+  needs_clarification: Boolean(result.analysis.clarifying_questions?.length),
+  clarifying_questions: result.analysis.clarifying_questions ?? [],
+  parent_result_id: result.analysis.parent_result_id ?? null
+});
+
+/**
+ * Label mode: the photos show a packaged food's nutrition facts panel instead of a plate. The reading
+ * is saved as a food of the meal's owner and linked to the meal, which is then logged in servings on
+ * confirm. Analyzing a meal this way also switches its source to "label".
+ */
+export const analyzeNutritionLabelMeal = async (mealId: string, model: string, language: string) => {
+  const mealDoc = await db.collection('meals').doc(mealId).get();
+  if (!mealDoc.exists) {
+    throw new Error('Meal not found');
+  }
+
+  const mealData = mealDoc.data() as MealRecord;
+  const images = getMealImages(mealData);
+  if (!images.length) {
+    throw new Error('Meal image is missing');
+  }
+
+  logger.info({ mealId, model, imageCount: images.length }, 'Starting nutrition label analysis');
+  const { payloads, contentHash } = await loadMealImagePayloads(images, 'label:');
+  const { result, hit } = await analyzeWithCache(contentHash, model, language, () =>
+    analyzeNutritionLabel(payloads, language, model)
+  );
+  const { food, isNew } = await saveLabelFood(result.label, mealData.user_id);
+
+  const resultId = uuidv4();
+  const analysis: AnalysisResult = {
+    id: resultId,
+    meal_id: mealId,
+    model,
+    confidence: result.label.confidence,
+    is_selected: true,
+    mode: 'label',
+    language,
+    food_id: food.id,
+    raw_response: result.label,
+    validation: result.validation,
+    content_hash: contentHash,
+    from_cache: hit,
+    created_at: new Date().toISOString()
+  };
+  await db.collection('analysis_results').doc(resultId).set(analysis);
+  await selectAnalysisResult(mealId, resultId);
   await db.collection('meals').doc(mealId).set(
-    {
-      status: 'confirmed',
-      ...totals,
-      updated_at: now
-    },
+    { source: 'label', food_id: food.id, label: mealData.label || food.name_tr, updated_at: analysis.created_at },
     { merge: true }
   );
-  logger.info({ mealId, totals }, 'Meal confirmed');
+  logger.info({ mealId, analysisResultId: resultId, foodId: food.id, isNewFood: isNew, fromCache: hit }, 'Nutrition label analysis stored');
+
+  return { analysis, raw: result.label, food, isNewFood: isNew };
+};
+
+export const formatLabelAnalysisResponse = (
+  result: { analysis: AnalysisResult; raw: NutritionLabel; food: FoodRecord; isNewFood: boolean },
+  dietaryWarnings: DietaryWarning[] = []
+) => ({
+  mode: 'label' as const,
+  food_id: result.food.id,
+  is_new_food: result.isNewFood,
+  product_name: result.raw.product_name,
+  brand: result.raw.brand,
+  barcode: result.raw.barcode,
+  serving_size_g: result.raw.serving_size_g,
+  serving_label: result.raw.serving_label,
+  servings_per_container: result.raw.servings_per_container,
+  per_100g: result.raw.per_100g,
+  per_serving: result.raw.per_serving,
+  servings: result.food.servings,
+  allergens: result.raw.allergens,
+  contains: result.raw.contains,
+  confidence: result.raw.confidence,
+  from_cache: result.analysis.from_cache ?? false,
+  dietary_warnings: dietaryWarnings,
+  analysis_result_id: result.analysis.id
+});
+
+const pickExtendedNutrients = (source?: Partial<ExtendedNutrients> | null) => {
+  const nutrients = {} as ExtendedNutrients;
+  EXTENDED_NUTRIENT_KEYS.forEach(key => {
+    nutrients[key] = Number(source?.[key]) || 0;
+  });
+  return nutrients;
+};
+
+const analysisToTotals = (analysis: MealAnalysis): NutritionTotals => ({
+  calories: analysis.total_calories,
+  protein_g: analysis.total_macros.p,
+  carbs_g: analysis.total_macros.c,
+  fat_g: analysis.total_macros.f,
+  ...pickExtendedNutrients(analysis.total_nutrients)
+});
+
+// Results stored before schema validation existed are checked again before they reach daily totals.
+const getConfirmableAnalysis = (mealId: string, selectedAnalysis: AnalysisResult | null): MealAnalysis | null => {
+  if (!selectedAnalysis?.raw_response) {
+    return null;
+  }
+  try {
+    return validateMealAnalysis(selectedAnalysis.raw_response).analysis;
+  } catch (error) {
+    logger.warn({ err: error, mealId, analysisResultId: selectedAnalysis.id }, 'Stored analysis failed validation; using meal totals');
+    return null;
+  }
+};
+
+/**
+ * Remembers which model's result the user kept when they were shown a comparison, so pick rates per
+ * model can be tracked over time.
+ */
+const recordModelSelection = async (meal: MealRecord, selected: AnalysisResult, results: AnalysisResult[]) => {
+  if (!selected.comparison_id) {
+    return;
+  }
+  const candidates = results.filter(result => result.comparison_id === selected.comparison_id);
+  const selectionId = uuidv4();
+  await db.collection('analysis_model_selections').doc(selectionId).set({
+    id: selectionId,
+    user_id: meal.user_id,
+    meal_id: meal.id,
+    comparison_id: selected.comparison_id,
+    analysis_result_id: selected.id,
+    selected_model: selected.model,
+    candidate_models: candidates.map(candidate => candidate.model),
+    candidates: candidates.map(candidate => ({
+      analysis_result_id: candidate.id,
+      model: candidate.model,
+      confidence: candidate.confidence,
+      total_calories: candidate.raw_response?.total_calories ?? null
+    })),
+    created_at: new Date().toISOString()
+  });
+  logger.info({ mealId: meal.id, comparisonId: selected.comparison_id, model: selected.model }, 'Analysis model selection recorded');
+};
+
+export interface LabelPortion {
+  servings?: number;
+  grams?: number;
+}
+
+/**
+ * Label meals are logged as a portion of the catalog product: N servings by default, or an explicit
+ * weight when the label gives no serving size.
+ */
+const getLabelMealItem = async (mealData: MealRecord, portion: LabelPortion = {}) => {
+  if (!mealData.food_id) {
+    throw new Error('Nutrition label has not been analyzed yet');
+  }
+  const food = await getFood(mealData.food_id, mealData.user_id);
+  if (!food) {
+    throw new Error(`Food not found: ${mealData.food_id}`);
+  }
+
+  const serving = (food.servings || []).find(item => item.id === 'serving');
+  const grams = portion.grams ?? (serving ? serving.grams * (portion.servings ?? 1) : NaN);
+  if (!Number.isFinite(grams) || grams <= 0) {
+    throw new Error('Product has no serving size; grams is required');
+  }
+
+  return {
+    name: food.name_tr,
+    amount: Math.round(grams * 10) / 10,
+    unit: 'g',
+    food_id: food.id,
+    serving_id: portion.grams === undefined && serving ? serving.id : null,
+    ...scaleTotals(pickTotals(food.per_100g), grams / 100),
+    allergens: food.allergens || [],
+    contains: food.contains || []
+  };
+};
+
+const analysisItemToMealItem = (item: MealAnalysis['items'][number]) => ({
+  name: item.name,
+  amount: item.amount || 0,
+  unit: item.unit || 'g',
+  calories: item.calories || 0,
+  protein_g: item.macros?.p || 0,
+  carbs_g: item.macros?.c || 0,
+  fat_g: item.macros?.f || 0,
+  ...pickExtendedNutrients(item.nutrients),
+  allergens: item.allergens || [],
+  contains: item.contains || []
+});
+
+/**
+ * Items the user edited before confirming replace the analysis items. Dietary tags are carried over
+ * from the analysis item an edited item came from, since users do not edit those.
+ */
+const confirmedInputToMealItem = (input: ConfirmedMealItemInput, analysis: MealAnalysis | null) => {
+  const source = typeof input.analysis_item_index === 'number' ? analysis?.items[input.analysis_item_index] : undefined;
+  return {
+    name: input.name || source?.name || '',
+    amount: input.amount ?? 0,
+    unit: input.unit || 'g',
+    calories: input.calories ?? 0,
+    protein_g: input.protein_g ?? 0,
+    carbs_g: input.carbs_g ?? 0,
+    fat_g: input.fat_g ?? 0,
+    ...pickExtendedNutrients(input),
+    allergens: source?.allergens || [],
+    contains: source?.contains || []
+  };
+};
+
+/**
+ * Confirms a meal and moves daily_stats by the difference to what the meal counted before, so
+ * confirming again (a client retry, or after re-analysis) replaces the meal's items and totals
+ * instead of adding them a second time. The meal's status is read in the same transaction that
+ * writes the meal, its items and the daily_stats increments, so concurrent confirms count it once.
+ */
+export const confirmMeal = async (
+  user: UserInfo,
+  mealId: string,
+  analysisResultId?: string,
+  options: { labelPortion?: LabelPortion; items?: ConfirmedMealItemInput[] } = {}
+) => {
+  const mealRef: DocumentReference = db.collection('meals').doc(mealId);
+  const mealDoc = await mealRef.get();
+  if (!mealDoc.exists) {
+    throw new Error('Meal not found');
+  }
+
+  const mealData = { ...(mealDoc.data() as MealRecord), id: mealId };
+  let items: Array<Omit<MealItem, 'id' | 'meal_id'>>;
+  // Null for meals logged with totals only; those keep the totals stored on the meal.
+  let totals: NutritionTotals | null;
+  let selection: { selected: AnalysisResult; results: AnalysisResult[] } | null = null;
+  let correction: Parameters<typeof recordAnalysisCorrection>[0] | null = null;
+
+  if (mealData.source === 'label') {
+    const item = await getLabelMealItem(mealData, options.labelPortion);
+    items = [item];
+    totals = pickTotals(item);
+  } else {
+    const results = await listAnalysisResults(mealId);
+    const requested = analysisResultId ? results.find(result => result.id === analysisResultId) : undefined;
+    if (analysisResultId && !requested) {
+      throw new Error('Analysis result not found');
+    }
+    const selectedAnalysis = requested || results.find(result => result.is_selected) || results[0] || null;
+
+    if (requested) {
+      await selectAnalysisResult(mealId, requested.id);
+      selection = { selected: requested, results };
+    }
 
-  if (selectedAnalysis?.raw_response?.items) {
-    const batch = db.batch();
-    selectedAnalysis.raw_response.items.forEach((item: any) => {
+    const analysis = getConfirmableAnalysis(mealId, selectedAnalysis);
+    items = options.items
+      ? options.items.map(input => confirmedInputToMealItem(input, analysis))
+      : (analysis?.items || []).map(analysisItemToMealItem);
+    totals = options.items ? sumTotals(items) : analysis ? analysisToTotals(analysis) : null;
+
+    if (analysis && selectedAnalysis) {
+      correction = {
+        meal: mealData,
+        analysisResult: selectedAnalysis,
+        analysis,
+        confirmedItems: options.items
+          ? items.map((item, index) => ({ ...item, analysis_item_index: options.items?.[index].analysis_item_index }))
+          : analysis.items.map((_item, index) => ({ ...items[index], analysis_item_index: index }))
+      };
+    }
+  }
+
+  const timeZone = user.timezone || 'UTC';
+  const confirmed = await db.runTransaction(async (transaction: Transaction) => {
+    const current = await transaction.get(mealRef);
+    if (!current.exists) {
+      throw new Error('Meal not found');
+    }
+    const before = { ...(current.data() as MealRecord), id: mealId };
+    // Confirmed items replace the meal's items; without any (totals-only meals) existing items stay.
+    const itemsQuery: Query = db.collection('meal_items').where('meal_id', '==', mealId);
+    const existingItems = items.length ? await transaction.get(itemsQuery) : null;
+
+    const confirmedTotals = totals || pickTotals(before);
+    const now = new Date().toISOString();
+    const after: MealRecord = { ...before, status: 'confirmed', ...confirmedTotals, updated_at: now };
+    const dailyStats = await applyDailyStatsDeltasInTransaction(
+      transaction,
+      user,
+      getMealDailyStatsChanges(before, after, timeZone)
+    );
+
+    transaction.set(mealRef, { status: 'confirmed', ...confirmedTotals, updated_at: now }, { merge: true });
+    existingItems?.docs.forEach(doc => transaction.delete(doc.ref));
+    items.forEach(item => {
       const itemId = uuidv4();
-      const itemRef = db.collection('meal_items').doc(itemId);
-      batch.set(itemRef, {
-        id: itemId,
-        meal_id: mealId,
-        name: item.name,
-        amount: item.amount || 0,
-        unit: item.unit || 'g',
-        calories: item.calories || 0,
-        protein_g: item.macros?.p || 0,
-        carbs_g: item.macros?.c || 0,
-        fat_g: item.macros?.f || 0
-      });
+      transaction.set(db.collection('meal_items').doc(itemId), { id: itemId, meal_id: mealId, ...item });
     });
-    await batch.commit();
+
+    const date = formatDateInTimeZone(new Date(after.meal_time), timeZone);
+    return {
+      meal: after,
+      totals: confirmedTotals,
+      isReconfirm: before.status === 'confirmed',
+      dailyStats: dailyStats.find(day => day.date === date)
+    };
+  });
+  logger.info(
+    { mealId, totals: confirmed.totals, edited: Boolean(options.items), reconfirm: confirmed.isReconfirm },
+    'Meal confirmed'
+  );
+
+  // Only the first confirmation is a user verdict on the analysis; re-confirms would duplicate it.
+  if (!confirmed.isReconfirm) {
+    if (selection) {
+      await recordModelSelection(confirmed.meal, selection.selected, selection.results);
+    }
+    if (correction) {
+      try {
+        await recordAnalysisCorrection(correction);
+      } catch (error) {
+        logger.warn({ err: error, mealId }, 'Failed to record analysis correction');
+      }
+    }
+  }
+
+  return { totals: confirmed.totals, daily_stats: confirmed.dailyStats };
+};
+
+const ITEM_NUTRIENT_FIELDS = ['calories', 'protein_g', 'carbs_g', 'fat_g'] as const;
+
+export type MealItemInput = Partial<Pick<
+  MealItem,
+  'name' | 'amount' | 'unit' | 'calories' | 'protein_g' | 'carbs_g' | 'fat_g'
+> & ExtendedNutrients>;
+
+export const sanitizeMealItemInput = (body: Record<string, any>, options: { requireAll: boolean }) => {
+  const input: MealItemInput = {};
+  const errors: string[] = [];
+
+  if (body.name !== undefined || options.requireAll) {
+    if (typeof body.name !== 'string' || body.name.trim() === '') {
+      errors.push('name is required');
+    } else {
+      input.name = body.name.trim();
+    }
+  }
+
+  if (body.unit !== undefined) {
+    if (typeof body.unit !== 'string' || body.unit.trim() === '') {
+      errors.push('unit must be a non-empty string');
+    } else {
+      input.unit = body.unit.trim();
+    }
+  }
+
+  [...(['amount', ...ITEM_NUTRIENT_FIELDS] as const), ...EXTENDED_NUTRIENT_KEYS].forEach(field => {
+    if (body[field] === undefined) {
+      if (options.requireAll && !EXTENDED_NUTRIENT_KEYS.includes(field as keyof ExtendedNutrients)) {
+        errors.push(`${field} is required`);
+      }
+      return;
+    }
+    const value = Number(body[field]);
+    if (!Number.isFinite(value) || value < 0) {
+      errors.push(`${field} must be a non-negative number`);
+      return;
+    }
+    input[field] = value;
+  });
+
+  return { input, errors };
+};
+
+export type ConfirmedMealItemInput = MealItemInput & { analysis_item_index?: number | null };
+
+const MAX_CONFIRMED_ITEMS = 50;
+
+/**
+ * Validates the item list a user sends when confirming an edited analysis. `analysis_item_index`
+ * points at the analysis item an entry was edited from; new items leave it out.
+ */
+export const sanitizeConfirmedItems = (value: unknown) => {
+  const items: ConfirmedMealItemInput[] = [];
+  const errors: string[] = [];
+
+  if (!Array.isArray(value) || value.length === 0 || value.length > MAX_CONFIRMED_ITEMS) {
+    return { items, errors: [`items must be a list of 1 to ${MAX_CONFIRMED_ITEMS} entries`] };
+  }
+
+  value.forEach((body: Record<string, any>, index: number) => {
+    const { input, errors: itemErrors } = sanitizeMealItemInput(body || {}, { requireAll: true });
+    itemErrors.forEach(error => errors.push(`items[${index}].${error}`));
+    const sourceIndex = body?.analysis_item_index;
+    if (sourceIndex !== undefined && sourceIndex !== null && !(Number.isInteger(sourceIndex) && sourceIndex >= 0)) {
+      errors.push(`items[${index}].analysis_item_index must be a non-negative integer`);
+    }
+    items.push({ ...input, analysis_item_index: Number.isInteger(sourceIndex) ? sourceIndex : null });
+  });
+
+  return { items, errors };
+};
+
+export const listMealItems = async (mealId: string): Promise<MealItem[]> => {
+  const snapshot = await db.collection('meal_items').where('meal_id', '==', mealId).get();
+  return snapshot.docs.map((doc: QueryDocumentSnapshot<DocumentData>) => ({ id: doc.id, ...doc.data() }) as MealItem);
+};
+
+/**
+ * Rewrites the parent meal totals from its items and, for confirmed meals, moves daily_stats by the
+ * difference. Reads the days through the transaction, so it has to run before the caller's writes.
+ */
+const writeMealTotalsFromItems = async (
+  transaction: Transaction,
+  user: UserInfo,
+  meal: MealRecord,
+  items: MealItem[]
+) => {
+  const totals = sumTotals(items);
+  const updatedAt = new Date().toISOString();
+  const after: MealRecord = { ...meal, ...totals, updated_at: updatedAt };
+
+  const changes = getMealDailyStatsChanges(meal, after, user.timezone || 'UTC');
+  const dailyStats = changes.length ? await applyDailyStatsDeltasInTransaction(transaction, user, changes) : [];
+  transaction.set(db.collection('meals').doc(meal.id), { ...totals, updated_at: updatedAt }, { merge: true });
+  return { meal: after, daily_stats: dailyStats };
+};
+
+const getMealRecord = async (mealId: string) => {
+  const mealDoc = await db.collection('meals').doc(mealId).get();
+  if (!mealDoc.exists) {
+    throw new Error('Meal not found');
+  }
+  return { ...(mealDoc.data() as MealRecord), id: mealDoc.id };
+};
+
+const getMealWithItemsInTransaction = async (transaction: Transaction, mealId: string) => {
+  const mealRef: DocumentReference = db.collection('meals').doc(mealId);
+  const itemsQuery: Query = db.collection('meal_items').where('meal_id', '==', mealId);
+  const [mealDoc, itemsSnapshot] = await Promise.all([transaction.get(mealRef), transaction.get(itemsQuery)]);
+  if (!mealDoc.exists) {
+    throw new Error('Meal not found');
+  }
+  return {
+    meal: { ...(mealDoc.data() as MealRecord), id: mealId },
+    items: itemsSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }) as MealItem)
+  };
+};
+
+// A meal logged with totals only is represented by one item carrying those totals.
+const getTotalsOnlyItem = (meal: MealRecord): Omit<MealItem, 'id' | 'meal_id'> => ({
+  name: meal.label || 'Meal',
+  amount: 1,
+  unit: 'portion',
+  ...pickTotals(meal)
+});
+
+const hasLoggedTotals = (meal: MealRecord) => NUTRITION_KEYS.some(key => (meal[key] || 0) > 0);
+
+/**
+ * Adds an item and rewrites the meal totals from the items. The first item added to a meal logged
+ * with totals only comes with an item carrying those totals, so the logged calories are kept.
+ */
+export const addMealItem = async (user: UserInfo, mealId: string, input: MealItemInput) => {
+  const itemId = uuidv4();
+  const item: MealItem = {
+    id: itemId,
+    meal_id: mealId,
+    name: input.name || '',
+    amount: input.amount || 0,
+    unit: input.unit || 'g',
+    ...pickTotals(input)
+  };
+
+  const result = await db.runTransaction(async (transaction: Transaction) => {
+    const { meal, items } = await getMealWithItemsInTransaction(transaction, mealId);
+    const added = [item];
+    if (!items.length && hasLoggedTotals(meal)) {
+      added.unshift({ ...getTotalsOnlyItem(meal), id: uuidv4(), meal_id: mealId });
+    }
+
+    const updated = await writeMealTotalsFromItems(transaction, user, meal, [...items, ...added]);
+    added.forEach(current => transaction.set(db.collection('meal_items').doc(current.id), current));
+    return updated;
+  });
+
+  logger.info({ mealId, itemId, userId: user.id }, 'Meal item added');
+  return { item, ...result };
+};
+
+export const updateMealItem = async (user: UserInfo, mealId: string, itemId: string, input: MealItemInput) => {
+  const result = await db.runTransaction(async (transaction: Transaction) => {
+    const { meal, items } = await getMealWithItemsInTransaction(transaction, mealId);
+    const existing = items.find(item => item.id === itemId);
+    if (!existing) {
+      throw new Error('Meal item not found');
+    }
+
+    const hasExplicitNutrients = NUTRITION_KEYS.some(field => input[field] !== undefined);
+    let nutrients = pickTotals(existing);
+    if (input.amount !== undefined && !hasExplicitNutrients && existing.amount > 0) {
+      nutrients = scaleTotals(nutrients, input.amount / existing.amount);
+    }
+    NUTRITION_KEYS.forEach(key => {
+      if (input[key] !== undefined) {
+        nutrients[key] = input[key] as number;
+      }
+    });
+
+    const item: MealItem = {
+      ...existing,
+      name: input.name ?? existing.name,
+      unit: input.unit ?? existing.unit,
+      amount: input.amount ?? existing.amount,
+      ...nutrients
+    };
+
+    const updated = await writeMealTotalsFromItems(
+      transaction,
+      user,
+      meal,
+      items.map(current => (current.id === itemId ? item : current))
+    );
+    transaction.set(db.collection('meal_items').doc(itemId), item);
+    return { item, ...updated };
+  });
+
+  logger.info({ mealId, itemId, userId: user.id }, 'Meal item updated');
+  return result;
+};
+
+export const deleteMealItem = async (user: UserInfo, mealId: string, itemId: string) => {
+  const result = await db.runTransaction(async (transaction: Transaction) => {
+    const { meal, items } = await getMealWithItemsInTransaction(transaction, mealId);
+    if (!items.some(item => item.id === itemId)) {
+      throw new Error('Meal item not found');
+    }
+
+    const updated = await writeMealTotalsFromItems(
+      transaction,
+      user,
+      meal,
+      items.filter(item => item.id !== itemId)
+    );
+    transaction.delete(db.collection('meal_items').doc(itemId));
+    return updated;
+  });
+
+  logger.info({ mealId, itemId, userId: user.id }, 'Meal item deleted');
+  return result;
+};
+
+/**
+ * Returns a meal's items without their ids so they can be copied onto a new meal. Meals logged with
+ * totals only (manual entries) are represented by a single item carrying those totals.
+ */
+export const getCopyableMealItems = async (meal: MealRecord): Promise<Array<Omit<MealItem, 'id' | 'meal_id'>>> => {
+  const items = await listMealItems(meal.id);
+  if (items.length) {
+    return items.map(({ id: _id, meal_id: _mealId, ...item }) => item);
   }
+  return [getTotalsOnlyItem(meal)];
+};
 
-  return totals;
+export const duplicateMeal = async (user: UserInfo, mealId: string, mealTime?: string) => {
+  const meal = await getMealRecord(mealId);
+  if (meal.user_id !== user.id) {
+    throw new Error('Meal not found');
+  }
+  if (meal.status !== 'confirmed') {
+    throw new Error('Only confirmed meals can be duplicated');
+  }
+
+  const items = await getCopyableMealItems(meal);
+  return logMealWithItems(user, {
+    source: 'manual',
+    label: meal.label || null,
+    mealTime,
+    items,
+    origin: { copied_from_meal_id: meal.id }
+  });
 };
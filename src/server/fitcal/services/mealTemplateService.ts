@@ -0,0 +1,98 @@
+import { db } from '../../../firebase';
+import type { DocumentData, QueryDocumentSnapshot } from 'firebase-admin/firestore';
+import { v4 as uuidv4 } from 'uuid';
+import { logger } from '../../../utils/logger';
+import { NutritionTotals, sumTotals } from '../utils/nutrition';
+import { getCopyableMealItems, logMealWithItems, MealItem, MealRecord } from './mealService';
+import type { UserInfo } from './userInfoService';
+
+export interface MealTemplate {
+  id: string;
+  user_id: string;
+  name: string;
+  label: string | null;
+  source_meal_id: string;
+  items: Array<Omit<MealItem, 'id' | 'meal_id'>>;
+  totals: NutritionTotals;
+  use_count: number;
+  last_used_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export const createMealTemplateFromMeal = async (user: UserInfo, mealId: string, name?: string) => {
+  const mealDoc = await db.collection('meals').doc(mealId).get();
+  const meal = mealDoc.exists ? ({ ...mealDoc.data(), id: mealDoc.id } as MealRecord) : null;
+  if (!meal || meal.user_id !== user.id) {
+    throw new Error('Meal not found');
+  }
+  if (meal.status !== 'confirmed') {
+    throw new Error('Only confirmed meals can be saved as favorites');
+  }
+
+  const items = await getCopyableMealItems(meal);
+  const now = new Date().toISOString();
+  const template: MealTemplate = {
+    id: uuidv4(),
+    user_id: user.id,
+    name: name || meal.label || items.map(item => item.name).join(', '),
+    label: meal.label || null,
+    source_meal_id: meal.id,
+    items,
+    totals: sumTotals(items),
+    use_count: 0,
+    last_used_at: null,
+    created_at: now,
+    updated_at: now
+  };
+
+  await db.collection('meal_templates').doc(template.id).set(template);
+  logger.info({ templateId: template.id, mealId, userId: user.id }, 'Meal template created');
+  return template;
+};
+
+export const listMealTemplates = async (userId: string) => {
+  const snapshot = await db
+    .collection('meal_templates')
+    .where('user_id', '==', userId)
+    .orderBy('updated_at', 'desc')
+    .get();
+  return snapshot.docs.map((doc: QueryDocumentSnapshot<DocumentData>) => ({ id: doc.id, ...doc.data() }) as MealTemplate);
+};
+
+export const getMealTemplate = async (userId: string, templateId: string) => {
+  const doc = await db.collection('meal_templates').doc(templateId).get();
+  const template = doc.exists ? ({ id: doc.id, ...doc.data() } as MealTemplate) : null;
+  return template && template.user_id === userId ? template : null;
+};
+
+export const deleteMealTemplate = async (userId: string, templateId: string) => {
+  const template = await getMealTemplate(userId, templateId);
+  if (!template) {
+    throw new Error('Meal template not found');
+  }
+  await db.collection('meal_templates').doc(templateId).delete();
+  logger.info({ templateId, userId }, 'Meal template deleted');
+};
+
+export const logMealFromTemplate = async (user: UserInfo, templateId: string, mealTime?: string) => {
+  const template = await getMealTemplate(user.id, templateId);
+  if (!template) {
+    throw new Error('Meal template not found');
+  }
+
+  const result = await logMealWithItems(user, {
+    source: 'manual',
+    label: template.label || template.name,
+    mealTime,
+    items: template.items,
+    origin: { template_id: template.id }
+  });
+
+  const now = new Date().toISOString();
+  await db.collection('meal_templates').doc(templateId).set(
+    { use_count: (template.use_count || 0) + 1, last_used_at: now, updated_at: now },
+    { merge: true }
+  );
+  return result;
+};
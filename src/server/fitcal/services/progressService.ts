@@ -1,25 +1,45 @@
-import { db } from '../../../firebase';
-import type { DocumentData, QueryDocumentSnapshot } from 'firebase-admin/firestore';
-import { formatDateInTimeZone, getUtcRangeForDate } from '../utils/timezone';
+import { db, FieldValue } from '../../../firebase';
+import type { DocumentData, Query, QueryDocumentSnapshot, Transaction, WriteBatch } from 'firebase-admin/firestore';
+import {
+  addDaysToDate,
+  DEFAULT_WEEK_START_DAY,
+  formatDateInTimeZone,
+  getMonthRange,
+  getUtcRangeForDate,
+  getWeekRangeForDate,
+  listDatesInRange
+} from '../utils/timezone';
 import { calculateDailyTargets, DailyTargets, UserInfo } from './userInfoService';
+import {
+  DAILY_STATS_CONSUMED_FIELDS,
+  DailyStatsConsumedField,
+  EXTENDED_NUTRIENT_KEYS,
+  ExtendedNutrients,
+  NUTRITION_KEYS,
+  NutritionTotals
+} from '../utils/nutrition';
 import { logger } from '../../../utils/logger';
 
-export interface DailyStats {
+export interface DailyStats extends DailyTargets, Record<DailyStatsConsumedField, number> {
   id: string;
   user_id: string;
   date: string;
-  calories_goal: number;
-  calories_consumed: number;
-  protein_goal_g: number;
-  protein_consumed_g: number;
-  carbs_goal_g: number;
-  carbs_consumed_g: number;
-  fat_goal_g: number;
-  fat_consumed_g: number;
   water_ml: number;
   steps: number;
+  calories_burned: number;
+  // Only present on days synced from a health platform.
+  active_energy_kcal?: number;
+  sleep_minutes?: number;
 }
 
+const emptyConsumed = () =>
+  NUTRITION_KEYS.reduce((consumed, key) => {
+    consumed[DAILY_STATS_CONSUMED_FIELDS[key]] = 0;
+    return consumed;
+  }, {} as Record<DailyStatsConsumedField, number>);
+
+export const getDailyStatsRef = (userId: string, date: string) => db.collection('daily_stats').doc(`${userId}_${date}`);
+
 export const getOrCreateDailyStats = async (user: UserInfo, date: string) => {
   const snapshot = await db
     .collection('daily_stats')
@@ -28,49 +48,194 @@ export const getOrCreateDailyStats = async (user: UserInfo, date: string) => {
     .limit(1)
     .get();
 
+  const targets: DailyTargets = calculateDailyTargets(user);
   if (!snapshot.empty) {
     const doc = snapshot.docs[0];
     const data = doc.data() as DailyStats;
-    return { ...data, id: doc.id };
+    // Days stored before fiber/micronutrient tracking lack those goals and totals; fill them in on read.
+    return { ...targets, ...emptyConsumed(), ...data, calories_burned: data.calories_burned || 0, id: doc.id };
   }
 
-  const targets: DailyTargets = calculateDailyTargets(user);
-  const stats: DailyStats = {
-    id: '',
-    user_id: user.id,
-    date,
-    calories_goal: targets.calories_goal,
-    calories_consumed: 0,
-    protein_goal_g: targets.protein_goal_g,
-    protein_consumed_g: 0,
-    carbs_goal_g: targets.carbs_goal_g,
-    carbs_consumed_g: 0,
-    fat_goal_g: targets.fat_goal_g,
-    fat_consumed_g: 0,
-    water_ml: 0,
-    steps: 0
-  };
+  // The id is derived from user and date so two requests creating the same day write one document.
+  // Only goals are written here: counters are left to increments, which treat a missing field as 0.
+  const ref = getDailyStatsRef(user.id, date);
+  await ref.set({ user_id: user.id, date, ...targets }, { merge: true });
+  const created = await ref.get();
+  return { ...targets, ...emptyConsumed(), water_ml: 0, steps: 0, calories_burned: 0, ...created.data(), id: ref.id } as DailyStats;
+};
+
+const DELTA_FIELDS = [...Object.values(DAILY_STATS_CONSUMED_FIELDS), 'water_ml', 'steps', 'calories_burned'] as const;
+
+export type DailyStatsDeltas = Partial<Pick<DailyStats, (typeof DELTA_FIELDS)[number]>>;
+
+const applyDeltas = (daily: DailyStats, deltas: DailyStatsDeltas) => {
+  const updated: Record<string, number> = {};
+  DELTA_FIELDS.forEach(field => {
+    const next = (daily[field] || 0) + (deltas[field] || 0);
+    updated[field] = Math.max(0, Math.round(next * 10) / 10);
+  });
+  return updated as Required<DailyStatsDeltas>;
+};
 
-  const ref = await db.collection('daily_stats').add(stats);
-  return { ...stats, id: ref.id };
+/**
+ * Server-side increments, so concurrent writes to the same day all land. Unlike the values
+ * returned to the caller they are not clamped at 0; `reconcileDailyStats` repairs any drift.
+ */
+const toIncrements = (deltas: DailyStatsDeltas) => {
+  const increments: Record<string, unknown> = {};
+  DELTA_FIELDS.forEach(field => {
+    if (deltas[field]) {
+      increments[field] = FieldValue.increment(deltas[field] as number);
+    }
+  });
+  return increments;
 };
 
 export const incrementDailyStats = async (user: UserInfo, date: string, deltas: Partial<DailyStats>) => {
   const daily = await getOrCreateDailyStats(user, date);
-  const updated = {
-    calories_consumed: daily.calories_consumed + (deltas.calories_consumed || 0),
-    protein_consumed_g: daily.protein_consumed_g + (deltas.protein_consumed_g || 0),
-    carbs_consumed_g: daily.carbs_consumed_g + (deltas.carbs_consumed_g || 0),
-    fat_consumed_g: daily.fat_consumed_g + (deltas.fat_consumed_g || 0),
-    water_ml: daily.water_ml + (deltas.water_ml || 0),
-    steps: daily.steps + (deltas.steps || 0)
-  };
+  const updated = applyDeltas(daily, deltas);
 
-  await db.collection('daily_stats').doc(daily.id).update(updated);
+  const increments = toIncrements(deltas);
+  if (Object.keys(increments).length) {
+    await db.collection('daily_stats').doc(daily.id).update(increments);
+  }
   logger.info({ userId: user.id, date, deltas }, 'Daily stats incremented');
   return { ...daily, ...updated };
 };
 
+/**
+ * Applies signed deltas to several days at once (e.g. a meal moved from one day to another).
+ * All daily_stats writes go into a single batch; when a batch is passed in, the caller commits it
+ * so the daily_stats changes land together with its own writes.
+ */
+export type DailyStatsChange = { date: string; deltas: DailyStatsDeltas };
+
+// Sums the deltas per date, so a day touched twice (e.g. a meal edited within the same day) gets one write.
+const mergeDailyStatsChanges = (changes: DailyStatsChange[]) => {
+  const merged = new Map<string, DailyStatsDeltas>();
+  changes.forEach(({ date, deltas }) => {
+    const current = merged.get(date) || {};
+    DELTA_FIELDS.forEach(field => {
+      if (deltas[field]) {
+        current[field] = (current[field] || 0) + (deltas[field] || 0);
+      }
+    });
+    merged.set(date, current);
+  });
+  return merged;
+};
+
+export const applyDailyStatsDeltas = async (
+  user: UserInfo,
+  changes: DailyStatsChange[],
+  batch?: WriteBatch
+) => {
+  const merged = mergeDailyStatsChanges(changes);
+
+  const writeBatch = batch || db.batch();
+  const results: DailyStats[] = [];
+  for (const [date, deltas] of merged) {
+    const daily = await getOrCreateDailyStats(user, date);
+    const updated = applyDeltas(daily, deltas);
+    const increments = toIncrements(deltas);
+    if (Object.keys(increments).length) {
+      writeBatch.update(db.collection('daily_stats').doc(daily.id), increments);
+    }
+    results.push({ ...daily, ...updated });
+  }
+
+  if (!batch) {
+    await writeBatch.commit();
+  }
+  logger.info({ userId: user.id, dates: Array.from(merged.keys()) }, 'Daily stats deltas applied');
+  return results;
+};
+
+/**
+ * Transaction counterpart of `applyDailyStatsDeltas`, for writes that depend on state read in the
+ * same transaction (e.g. a meal's status). The days are read through the transaction, so this has to
+ * run before the transaction's first write; missing days are created with the current goals.
+ */
+export const applyDailyStatsDeltasInTransaction = async (
+  transaction: Transaction,
+  user: UserInfo,
+  changes: DailyStatsChange[]
+) => {
+  const merged = Array.from(mergeDailyStatsChanges(changes));
+  const targets = calculateDailyTargets(user);
+  const snapshots = await Promise.all(
+    merged.map(([date]) =>
+      transaction.get(db.collection('daily_stats').where('user_id', '==', user.id).where('date', '==', date).limit(1))
+    )
+  );
+
+  return merged.map(([date, deltas], index) => {
+    const doc = snapshots[index].docs[0] as QueryDocumentSnapshot<DocumentData> | undefined;
+    const ref = doc ? doc.ref : getDailyStatsRef(user.id, date);
+    const daily = {
+      ...targets,
+      ...emptyConsumed(),
+      water_ml: 0,
+      steps: 0,
+      calories_burned: 0,
+      user_id: user.id,
+      date,
+      ...(doc ? doc.data() : {}),
+      id: ref.id
+    } as DailyStats;
+    const increments = toIncrements(deltas);
+    if (doc) {
+      if (Object.keys(increments).length) {
+        transaction.update(ref, increments as DocumentData);
+      }
+    } else {
+      transaction.set(ref, { user_id: user.id, date, ...targets, ...increments }, { merge: true });
+    }
+    return { ...daily, ...applyDeltas(daily, deltas) };
+  });
+};
+
+/**
+ * Goals are stored on each day when it is created. After a profile change (e.g. a new weight) the
+ * given day is brought up to date; earlier days keep the goals they were logged against.
+ */
+export const refreshDailyTargets = async (user: UserInfo, date: string) => {
+  const daily = await getOrCreateDailyStats(user, date);
+  const targets = calculateDailyTargets(user);
+  await db.collection('daily_stats').doc(daily.id).update(targets);
+  return { ...daily, ...targets };
+};
+
+/**
+ * Step counters on phones and watches report a running total for the day, so syncing it replaces
+ * the stored value instead of adding to it.
+ */
+export const setDailySteps = async (user: UserInfo, date: string, steps: number) => {
+  const daily = await getOrCreateDailyStats(user, date);
+  await db.collection('daily_stats').doc(daily.id).update({ steps });
+  logger.info({ userId: user.id, date, steps }, 'Daily steps set');
+  return { ...daily, steps };
+};
+
+/**
+ * Net calories are eaten minus burned by logged exercise. The budget is the calorie goal, raised by
+ * the burned calories only when exercise is "eaten back".
+ */
+export const getEnergyBalance = (
+  daily: Pick<DailyStats, 'calories_goal' | 'calories_consumed' | 'calories_burned'>,
+  addExerciseCalories: boolean
+) => {
+  const burned = daily.calories_burned || 0;
+  const budget = daily.calories_goal + (addExerciseCalories ? burned : 0);
+  return {
+    calories_burned: burned,
+    net_calories: Math.round(daily.calories_consumed - burned),
+    calories_budget: Math.round(budget),
+    calories_remaining: Math.round(budget - daily.calories_consumed),
+    add_exercise_calories: addExerciseCalories
+  };
+};
+
 export const logWater = async (userId: string, amount: number, timestamp: string) => {
   const log = {
     user_id: userId,
@@ -82,42 +247,215 @@ export const logWater = async (userId: string, amount: number, timestamp: string
   return { id: ref.id, ...log };
 };
 
-export const getWeeklyStats = async (user: UserInfo, weekStart: string) => {
-  const { start, end } = getUtcRangeForDate(weekStart, user.timezone || 'UTC');
-  const snapshot = await db
-    .collection('daily_stats')
-    .where('user_id', '==', user.id)
-    .where('date', '>=', formatDateInTimeZone(start, user.timezone || 'UTC'))
-    .where('date', '<=', formatDateInTimeZone(new Date(end.getTime() - 1000), user.timezone || 'UTC'))
-    .get();
+type GoalRule = { goal: keyof DailyTargets; kind: 'target' | 'minimum' | 'limit' };
 
-  const stats = snapshot.docs.map((doc: QueryDocumentSnapshot<DocumentData>) => doc.data() as DailyStats);
-  const totalMealsSnapshot = await db
-    .collection('meals')
-    .where('user_id', '==', user.id)
-    .where('meal_time', '>=', start.toISOString())
-    .where('meal_time', '<', end.toISOString())
-    .get();
+// Calories and macros count as met within TARGET_TOLERANCE of the goal, minimums at
+// MINIMUM_SHARE of the goal or more, limits when not exceeded.
+const GOAL_RULES: Record<keyof NutritionTotals, GoalRule> = {
+  calories: { goal: 'calories_goal', kind: 'target' },
+  protein_g: { goal: 'protein_goal_g', kind: 'minimum' },
+  carbs_g: { goal: 'carbs_goal_g', kind: 'target' },
+  fat_g: { goal: 'fat_goal_g', kind: 'target' },
+  fiber_g: { goal: 'fiber_goal_g', kind: 'minimum' },
+  sugar_g: { goal: 'sugar_limit_g', kind: 'limit' },
+  saturated_fat_g: { goal: 'saturated_fat_limit_g', kind: 'limit' },
+  sodium_mg: { goal: 'sodium_limit_mg', kind: 'limit' },
+  potassium_mg: { goal: 'potassium_goal_mg', kind: 'minimum' },
+  calcium_mg: { goal: 'calcium_goal_mg', kind: 'minimum' },
+  iron_mg: { goal: 'iron_goal_mg', kind: 'minimum' },
+  vitamin_c_mg: { goal: 'vitamin_c_goal_mg', kind: 'minimum' },
+  vitamin_d_mcg: { goal: 'vitamin_d_goal_mcg', kind: 'minimum' }
+};
+
+const TARGET_TOLERANCE = 0.1;
+const MINIMUM_SHARE = 0.9;
+
+export const MAX_PROGRESS_RANGE_DAYS = 366;
+
+const isGoalMet = (rule: GoalRule, consumed: number, goal: number) => {
+  if (!goal) {
+    return true;
+  }
+  if (rule.kind === 'limit') {
+    return consumed <= goal;
+  }
+  if (rule.kind === 'minimum') {
+    return consumed >= goal * MINIMUM_SHARE;
+  }
+  return Math.abs(consumed - goal) <= goal * TARGET_TOLERANCE;
+};
+
+// A day counts as logged once anything with calories was confirmed for it.
+const isLoggedDay = (day: DailyStats) => (day.calories_consumed || 0) > 0;
+
+const STREAK_PAGE_SIZE = 60;
+
+/**
+ * Consecutive logged days ending today, read from the user's whole history rather than a single
+ * range. When nothing is logged today yet, the streak is counted up to yesterday so it does not
+ * reset every morning.
+ */
+const getCurrentStreak = async (userId: string, today: string) => {
+  let streak = 0;
+  let expected = today;
+  let cursor: QueryDocumentSnapshot<DocumentData> | null = null;
 
-  const totals = stats.reduce(
-    (acc: { calories: number; protein: number; carbs: number; fat: number }, day: DailyStats) => {
-      acc.calories += day.calories_consumed || 0;
-      acc.protein += day.protein_consumed_g || 0;
-      acc.carbs += day.carbs_consumed_g || 0;
-      acc.fat += day.fat_consumed_g || 0;
-      return acc;
+  for (;;) {
+    let query: Query = db
+      .collection('daily_stats')
+      .where('user_id', '==', userId)
+      .where('date', '<=', today)
+      .orderBy('date', 'desc')
+      .limit(STREAK_PAGE_SIZE);
+    if (cursor) {
+      query = query.startAfter(cursor);
+    }
+    const snapshot = await query.get();
+
+    for (const doc of snapshot.docs) {
+      const day = doc.data() as DailyStats;
+      if (expected === today && !(day.date === today && isLoggedDay(day))) {
+        expected = addDaysToDate(today, -1);
+        if (day.date === today) {
+          continue;
+        }
+      }
+      if (day.date !== expected || !isLoggedDay(day)) {
+        return streak;
+      }
+      streak += 1;
+      expected = addDaysToDate(expected, -1);
+    }
+
+    if (snapshot.size < STREAK_PAGE_SIZE) {
+      return streak;
+    }
+    cursor = snapshot.docs[snapshot.docs.length - 1];
+  }
+};
+
+const getLongestStreak = (days: DailyStats[]) =>
+  days.reduce(
+    (acc, day) => {
+      const current = isLoggedDay(day) ? acc.current + 1 : 0;
+      return { current, longest: Math.max(acc.longest, current) };
     },
-    { calories: 0, protein: 0, carbs: 0, fat: 0 }
+    { current: 0, longest: 0 }
+  ).longest;
+
+/**
+ * Aggregates daily_stats for the inclusive date range `from`..`to` (YYYY-MM-DD in the user's time
+ * zone). Every date in the range appears in `days`; dates without a daily_stats document are empty
+ * days carrying the current goals. Averages and adherence only count logged days, and
+ * `total_meals` only confirmed meals. `streak_days` is the current streak as of today, whatever
+ * the range.
+ */
+export const getProgressForRange = async (user: UserInfo, from: string, to: string) => {
+  const timeZone = user.timezone || 'UTC';
+  const start = getUtcRangeForDate(from, timeZone).start;
+  const end = getUtcRangeForDate(to, timeZone).end;
+  const [statsSnapshot, mealsSnapshot, streakDays] = await Promise.all([
+    db
+      .collection('daily_stats')
+      .where('user_id', '==', user.id)
+      .where('date', '>=', from)
+      .where('date', '<=', to)
+      .get(),
+    db
+      .collection('meals')
+      .where('user_id', '==', user.id)
+      .where('meal_time', '>=', start.toISOString())
+      .where('meal_time', '<', end.toISOString())
+      .get(),
+    getCurrentStreak(user.id, formatDateInTimeZone(new Date(), timeZone))
+  ]);
+
+  const targets = calculateDailyTargets(user);
+  const statsByDate = new Map<string, DailyStats>();
+  statsSnapshot.docs.forEach((doc: QueryDocumentSnapshot<DocumentData>) => {
+    const data = doc.data() as DailyStats;
+    statsByDate.set(data.date, { ...targets, ...emptyConsumed(), ...data, water_ml: data.water_ml || 0, steps: data.steps || 0, calories_burned: data.calories_burned || 0, id: doc.id });
+  });
+
+  const days: DailyStats[] = listDatesInRange(from, to).map(
+    date =>
+      statsByDate.get(date) || {
+        id: '',
+        user_id: user.id,
+        date,
+        ...targets,
+        ...emptyConsumed(),
+        water_ml: 0,
+        steps: 0,
+        calories_burned: 0
+      }
   );
+  const loggedDays = days.filter(isLoggedDay);
+  const loggedCount = loggedDays.length;
+  const confirmedMeals = mealsSnapshot.docs.filter(
+    (doc: QueryDocumentSnapshot<DocumentData>) => doc.data().status === 'confirmed'
+  );
+
+  const averages = NUTRITION_KEYS.reduce((acc, key) => {
+    const field = DAILY_STATS_CONSUMED_FIELDS[key];
+    const total = loggedDays.reduce((sum, day) => sum + (day[field] || 0), 0);
+    acc[key] = loggedCount ? Math.round((total / loggedCount) * 10) / 10 : 0;
+    return acc;
+  }, {} as NutritionTotals);
+
+  const adherence = NUTRITION_KEYS.reduce((acc, key) => {
+    const rule = GOAL_RULES[key];
+    const met = loggedDays.filter(day => isGoalMet(rule, day[DAILY_STATS_CONSUMED_FIELDS[key]] || 0, day[rule.goal])).length;
+    acc[key] = loggedCount ? Math.round((met / loggedCount) * 100) : 0;
+    return acc;
+  }, {} as Record<keyof NutritionTotals, number>);
+
+  const extendedAverages = EXTENDED_NUTRIENT_KEYS.reduce((acc, key) => {
+    acc[`avg_${key}`] = averages[key];
+    return acc;
+  }, {} as Record<`avg_${keyof ExtendedNutrients}`, number>);
 
-  const daysCount = stats.length || 1;
   return {
-    week_start: weekStart,
-    avg_calories: Math.round(totals.calories / daysCount),
-    avg_protein_g: Math.round(totals.protein / daysCount),
-    avg_carbs_g: Math.round(totals.carbs / daysCount),
-    avg_fat_g: Math.round(totals.fat / daysCount),
-    total_meals: totalMealsSnapshot.size,
-    streak_days: stats.filter((day: DailyStats) => day.calories_consumed > 0).length
+    from,
+    to,
+    days_in_range: days.length,
+    days_logged: loggedCount,
+    logged_pct: days.length ? Math.round((loggedCount / days.length) * 100) : 0,
+    avg_calories: Math.round(averages.calories),
+    avg_protein_g: Math.round(averages.protein_g),
+    avg_carbs_g: Math.round(averages.carbs_g),
+    avg_fat_g: Math.round(averages.fat_g),
+    ...extendedAverages,
+    avg_water_ml: days.length ? Math.round(days.reduce((sum, day) => sum + (day.water_ml || 0), 0) / days.length) : 0,
+    avg_steps: days.length ? Math.round(days.reduce((sum, day) => sum + (day.steps || 0), 0) / days.length) : 0,
+    avg_calories_burned: days.length
+      ? Math.round(days.reduce((sum, day) => sum + (day.calories_burned || 0), 0) / days.length)
+      : 0,
+    adherence_pct: adherence,
+    total_meals: confirmedMeals.length,
+    targets,
+    streak_days: streakDays,
+    longest_streak_days: getLongestStreak(days),
+    days: days.map(day => {
+      const { id: _id, user_id: _userId, ...values } = day;
+      return { ...values, logged: isLoggedDay(day) };
+    })
   };
 };
+
+/**
+ * Stats for the week containing `date`, starting on the user's `week_start_day` (Monday unless
+ * set otherwise).
+ */
+export const getWeeklyStats = async (user: UserInfo, date: string) => {
+  const { start, end } = getWeekRangeForDate(date, user.week_start_day || DEFAULT_WEEK_START_DAY);
+  const progress = await getProgressForRange(user, start, end);
+  return { week_start: start, week_end: end, ...progress };
+};
+
+// `month` is YYYY-MM.
+export const getMonthlyStats = async (user: UserInfo, month: string) => {
+  const { start, end } = getMonthRange(month);
+  const progress = await getProgressForRange(user, start, end);
+  return { month, ...progress };
+};
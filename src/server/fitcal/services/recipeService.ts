@@ -0,0 +1,248 @@
+import { db } from '../../../firebase';
+import type { DocumentData, QueryDocumentSnapshot } from 'firebase-admin/firestore';
+import { v4 as uuidv4 } from 'uuid';
+import { logger } from '../../../utils/logger';
+import { NUTRITION_KEYS, NutritionTotals, pickTotals, scaleTotals, sumTotals } from '../utils/nutrition';
+import { FoodPortionInput, resolveFoodPortion } from './foodService';
+import { logMealWithItems } from './mealService';
+import type { UserInfo } from './userInfoService';
+
+export interface RecipeIngredient extends NutritionTotals {
+  id: string;
+  food_id: string | null;
+  serving_id: string | null;
+  name: string;
+  amount: number;
+  unit: string;
+}
+
+export interface Recipe {
+  id: string;
+  user_id: string;
+  name: string;
+  servings: number;
+  total_yield_g: number | null;
+  notes: string | null;
+  ingredients: RecipeIngredient[];
+  totals: NutritionTotals;
+  per_serving: NutritionTotals;
+  created_at: string;
+  updated_at: string;
+}
+
+export type RecipeIngredientInput = FoodPortionInput | (Partial<NutritionTotals> & {
+  name: string;
+  amount?: number;
+  unit?: string;
+});
+
+export interface RecipeInput {
+  name?: string;
+  servings?: number;
+  total_yield_g?: number | null;
+  notes?: string | null;
+  ingredients?: RecipeIngredientInput[];
+}
+
+const isPositiveNumber = (value: unknown) => Number.isFinite(Number(value)) && Number(value) > 0;
+
+export const sanitizeRecipeInput = (body: Record<string, any>, options: { requireAll: boolean }) => {
+  const input: RecipeInput = {};
+  const errors: string[] = [];
+
+  if (body.name !== undefined || options.requireAll) {
+    if (typeof body.name !== 'string' || body.name.trim() === '') {
+      errors.push('name is required');
+    } else {
+      input.name = body.name.trim();
+    }
+  }
+
+  if (body.servings !== undefined || options.requireAll) {
+    if (!isPositiveNumber(body.servings)) {
+      errors.push('servings must be a positive number');
+    } else {
+      input.servings = Number(body.servings);
+    }
+  }
+
+  if (body.total_yield_g !== undefined && body.total_yield_g !== null) {
+    if (!isPositiveNumber(body.total_yield_g)) {
+      errors.push('total_yield_g must be a positive number');
+    } else {
+      input.total_yield_g = Number(body.total_yield_g);
+    }
+  } else if (body.total_yield_g === null) {
+    input.total_yield_g = null;
+  }
+
+  if (body.notes !== undefined) {
+    input.notes = typeof body.notes === 'string' && body.notes.trim() ? body.notes.trim() : null;
+  }
+
+  if (body.ingredients !== undefined || options.requireAll) {
+    if (!Array.isArray(body.ingredients) || body.ingredients.length === 0) {
+      errors.push('ingredients are required');
+    } else {
+      body.ingredients.forEach((ingredient: Record<string, any>, index: number) => {
+        if (typeof ingredient?.food_id === 'string') {
+          return;
+        }
+        if (typeof ingredient?.name !== 'string' || ingredient.name.trim() === '') {
+          errors.push(`ingredients[${index}] requires a food_id or a name`);
+          return;
+        }
+        NUTRITION_KEYS.forEach(key => {
+          const value = Number(ingredient[key] ?? 0);
+          if (!Number.isFinite(value) || value < 0) {
+            errors.push(`ingredients[${index}].${key} must be a non-negative number`);
+          }
+        });
+      });
+      input.ingredients = body.ingredients;
+    }
+  }
+
+  return { input, errors };
+};
+
+/**
+ * Catalog ingredients are priced from the food's per-100g values; free-form ingredients keep the
+ * calories and macros the user entered for the stated amount.
+ */
+const resolveIngredients = async (inputs: RecipeIngredientInput[], user: UserInfo): Promise<RecipeIngredient[]> =>
+  Promise.all(
+    inputs.map(async input => {
+      if ('food_id' in input && typeof input.food_id === 'string') {
+        const portion = await resolveFoodPortion(input, user.language, user.id);
+        return { id: uuidv4(), ...portion };
+      }
+      const freeForm = input as Exclude<RecipeIngredientInput, FoodPortionInput>;
+      return {
+        id: uuidv4(),
+        food_id: null,
+        serving_id: null,
+        name: freeForm.name.trim(),
+        amount: Number(freeForm.amount ?? 1) || 1,
+        unit: freeForm.unit || 'portion',
+        ...pickTotals(freeForm)
+      };
+    })
+  );
+
+const withComputedTotals = (recipe: Omit<Recipe, 'totals' | 'per_serving'>): Recipe => {
+  const totals = sumTotals(recipe.ingredients);
+  return {
+    ...recipe,
+    totals,
+    per_serving: scaleTotals(totals, 1 / recipe.servings)
+  };
+};
+
+export const createRecipe = async (user: UserInfo, input: RecipeInput) => {
+  const ingredients = await resolveIngredients(input.ingredients || [], user);
+  const now = new Date().toISOString();
+  const recipe = withComputedTotals({
+    id: uuidv4(),
+    user_id: user.id,
+    name: input.name || '',
+    servings: input.servings || 1,
+    total_yield_g: input.total_yield_g ?? null,
+    notes: input.notes ?? null,
+    ingredients,
+    created_at: now,
+    updated_at: now
+  });
+
+  await db.collection('recipes').doc(recipe.id).set(recipe);
+  logger.info({ recipeId: recipe.id, userId: user.id, ingredientCount: ingredients.length }, 'Recipe created');
+  return recipe;
+};
+
+export const listRecipes = async (userId: string) => {
+  const snapshot = await db
+    .collection('recipes')
+    .where('user_id', '==', userId)
+    .orderBy('updated_at', 'desc')
+    .get();
+  return snapshot.docs.map((doc: QueryDocumentSnapshot<DocumentData>) => ({ id: doc.id, ...doc.data() }) as Recipe);
+};
+
+export const getRecipe = async (userId: string, recipeId: string) => {
+  const doc = await db.collection('recipes').doc(recipeId).get();
+  const recipe = doc.exists ? ({ id: doc.id, ...doc.data() } as Recipe) : null;
+  return recipe && recipe.user_id === userId ? recipe : null;
+};
+
+export const updateRecipe = async (user: UserInfo, recipeId: string, input: RecipeInput) => {
+  const existing = await getRecipe(user.id, recipeId);
+  if (!existing) {
+    throw new Error('Recipe not found');
+  }
+
+  const ingredients = input.ingredients
+    ? await resolveIngredients(input.ingredients, user)
+    : existing.ingredients;
+  const recipe = withComputedTotals({
+    ...existing,
+    name: input.name ?? existing.name,
+    servings: input.servings ?? existing.servings,
+    total_yield_g: input.total_yield_g !== undefined ? input.total_yield_g : existing.total_yield_g,
+    notes: input.notes !== undefined ? input.notes : existing.notes,
+    ingredients,
+    updated_at: new Date().toISOString()
+  });
+
+  await db.collection('recipes').doc(recipeId).set(recipe);
+  logger.info({ recipeId, userId: user.id }, 'Recipe updated');
+  return recipe;
+};
+
+export const deleteRecipe = async (userId: string, recipeId: string) => {
+  const existing = await getRecipe(userId, recipeId);
+  if (!existing) {
+    throw new Error('Recipe not found');
+  }
+  await db.collection('recipes').doc(recipeId).delete();
+  logger.info({ recipeId, userId }, 'Recipe deleted');
+};
+
+/**
+ * Logs part of a recipe as a confirmed meal. The portion is given in servings or, when the recipe
+ * has a total yield, in grams; every ingredient is scaled by the same fraction of the whole recipe.
+ */
+export const logRecipePortion = async (
+  user: UserInfo,
+  recipeId: string,
+  portion: { servings?: number; grams?: number; mealTime?: string }
+) => {
+  const recipe = await getRecipe(user.id, recipeId);
+  if (!recipe) {
+    throw new Error('Recipe not found');
+  }
+
+  let fraction = (portion.servings ?? 1) / recipe.servings;
+  if (portion.grams !== undefined) {
+    if (!recipe.total_yield_g) {
+      throw new Error('Recipe has no total yield; log it in servings');
+    }
+    fraction = portion.grams / recipe.total_yield_g;
+  }
+
+  const items = recipe.ingredients.map(ingredient => ({
+    name: ingredient.name,
+    amount: Math.round(ingredient.amount * fraction * 10) / 10,
+    unit: ingredient.unit,
+    food_id: ingredient.food_id,
+    serving_id: ingredient.serving_id,
+    ...scaleTotals(pickTotals(ingredient), fraction)
+  }));
+
+  return logMealWithItems(user, {
+    source: 'manual',
+    label: recipe.name,
+    mealTime: portion.mealTime,
+    items,
+    origin: { recipe_id: recipe.id }
+  });
+};
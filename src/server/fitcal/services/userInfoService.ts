@@ -1,6 +1,7 @@
 import { db } from '../../../firebase';
-import { DEFAULT_TIMEZONE } from '../utils/timezone';
+import { DEFAULT_TIMEZONE, WeekDay } from '../utils/timezone';
 import { logger } from '../../../utils/logger';
+import type { Allergen, DietaryPreference } from './dietaryService';
 
 export interface UserInfo {
   id: string;
@@ -13,8 +14,13 @@ export interface UserInfo {
   target_weight_kg?: number;
   activity_level?: 'sedentary' | 'light' | 'moderate' | 'active' | 'very_active';
   goal?: 'lose' | 'maintain' | 'gain';
+  dietary_preferences?: DietaryPreference[];
+  allergens?: Allergen[];
   language?: 'tr' | 'en';
   timezone?: string;
+  week_start_day?: WeekDay;
+  // Whether calories burned by logged exercise raise the day's calorie budget.
+  add_exercise_calories?: boolean;
   onboarding_completed?: boolean;
   onboarding_device_id?: string;
   onboarding_completed_at?: string;
@@ -27,6 +33,15 @@ export interface DailyTargets {
   protein_goal_g: number;
   carbs_goal_g: number;
   fat_goal_g: number;
+  fiber_goal_g: number;
+  sugar_limit_g: number;
+  saturated_fat_limit_g: number;
+  sodium_limit_mg: number;
+  potassium_goal_mg: number;
+  calcium_goal_mg: number;
+  iron_goal_mg: number;
+  vitamin_c_goal_mg: number;
+  vitamin_d_goal_mcg: number;
 }
 
 const activityMultipliers: Record<NonNullable<UserInfo['activity_level']>, number> = {
@@ -121,10 +136,24 @@ export const calculateDailyTargets = (user: UserInfo): DailyTargets => {
   const carbsCalories = roundedCalories * 0.4;
   const fatCalories = roundedCalories * 0.3;
 
+  // Fiber scales with energy intake (14 g per 1000 kcal); free sugar and saturated fat are capped at
+  // 10% of calories each; micronutrient goals follow adult reference intakes by sex and age.
+  const isFemale = gender === 'female';
+  const isMale = gender === 'male';
+
   return {
     calories_goal: roundedCalories,
     protein_goal_g: Math.round(proteinCalories / 4),
     carbs_goal_g: Math.round(carbsCalories / 4),
-    fat_goal_g: Math.round(fatCalories / 9)
+    fat_goal_g: Math.round(fatCalories / 9),
+    fiber_goal_g: Math.round((roundedCalories / 1000) * 14),
+    sugar_limit_g: Math.round((roundedCalories * 0.1) / 4),
+    saturated_fat_limit_g: Math.round((roundedCalories * 0.1) / 9),
+    sodium_limit_mg: 2300,
+    potassium_goal_mg: isMale ? 3400 : isFemale ? 2600 : 3000,
+    calcium_goal_mg: age > 70 || (isFemale && age > 50) ? 1200 : 1000,
+    iron_goal_mg: isFemale && age <= 50 ? 18 : 8,
+    vitamin_c_goal_mg: isMale ? 90 : isFemale ? 75 : 80,
+    vitamin_d_goal_mcg: age > 70 ? 20 : 15
   };
 };
@@ -0,0 +1,227 @@
+import { db } from '../../../firebase';
+import type { DocumentData, QueryDocumentSnapshot } from 'firebase-admin/firestore';
+import { logger } from '../../../utils/logger';
+import { formatDateInTimeZone } from '../utils/timezone';
+import { refreshDailyTargets } from './progressService';
+import { getUserInfo, updateUserInfo, UserInfo } from './userInfoService';
+
+export interface WeightLog {
+  id: string;
+  user_id: string;
+  weight_kg: number;
+  logged_at: string;
+  date: string;
+  note: string | null;
+  // Set on weigh-ins imported from a health platform.
+  health_sample_id?: string;
+  source?: string;
+  created_at: string;
+}
+
+export interface WeightTrendPoint {
+  date: string;
+  weight_kg: number;
+  trend_kg: number;
+}
+
+export type WeightGoalStatus = 'reached' | 'on_track' | 'off_track' | 'unknown';
+
+export const MIN_WEIGHT_KG = 20;
+export const MAX_WEIGHT_KG = 400;
+
+// Share of the gap between the trend and a day's weight that the trend moves per day.
+const TREND_SMOOTHING_PER_DAY = 0.1;
+// The weekly rate is the slope of the trend over this many trailing days.
+const RATE_WINDOW_DAYS = 28;
+const MIN_RATE_SPAN_DAYS = 7;
+// Slower than this the projection would be years out and mostly noise.
+const MIN_PROJECTION_RATE_KG_PER_WEEK = 0.05;
+const MAX_PROJECTION_DAYS = 2 * 365;
+const GOAL_REACHED_TOLERANCE_KG = 0.2;
+const DAY_MS = 24 * 60 * 60_000;
+
+const round = (value: number, precision = 10) => Math.round(value * precision) / precision;
+
+const toDayNumber = (date: string) => {
+  const [year, month, day] = date.split('-').map(Number);
+  return Date.UTC(year, month - 1, day) / DAY_MS;
+};
+
+const fromDayNumber = (dayNumber: number) => new Date(Math.round(dayNumber) * DAY_MS).toISOString().slice(0, 10);
+
+export const logWeight = async (user: UserInfo, weightKg: number, loggedAt: string, note?: string | null) => {
+  const now = new Date().toISOString();
+  const timeZone = user.timezone || 'UTC';
+  const log: Omit<WeightLog, 'id'> = {
+    user_id: user.id,
+    weight_kg: round(weightKg, 100),
+    logged_at: loggedAt,
+    date: formatDateInTimeZone(new Date(loggedAt), timeZone),
+    note: note || null,
+    created_at: now
+  };
+  const ref = await db.collection('weight_logs').add(log);
+
+  // A back-dated entry fills in history but must not replace a more recent current weight.
+  const newer = await db
+    .collection('weight_logs')
+    .where('user_id', '==', user.id)
+    .where('logged_at', '>', loggedAt)
+    .limit(1)
+    .get();
+  const isLatest = newer.empty;
+
+  let updatedUser = user;
+  let dailyStats = null;
+  if (isLatest) {
+    updatedUser = await updateUserInfo(user.id, { current_weight_kg: log.weight_kg });
+    dailyStats = await refreshDailyTargets(
+      { ...updatedUser, timezone: timeZone },
+      formatDateInTimeZone(new Date(), timeZone)
+    );
+  }
+
+  logger.info({ userId: user.id, weightKg: log.weight_kg, loggedAt, isLatest }, 'Weight log created');
+  return { log: { id: ref.id, ...log }, user: updatedUser, daily_stats: dailyStats, is_latest: isLatest };
+};
+
+/**
+ * Points the profile at the most recent weigh-in after history changed in bulk (e.g. an import),
+ * where no single entry knows whether it is the latest. Returns null when nothing changed.
+ */
+export const syncCurrentWeight = async (user: UserInfo) => {
+  const snapshot = await db
+    .collection('weight_logs')
+    .where('user_id', '==', user.id)
+    .orderBy('logged_at', 'desc')
+    .limit(1)
+    .get();
+  if (snapshot.empty) {
+    return null;
+  }
+  const latest = snapshot.docs[0].data() as WeightLog;
+  const stored = await getUserInfo(user.id);
+  if (latest.weight_kg === (stored || user).current_weight_kg) {
+    return null;
+  }
+
+  const timeZone = user.timezone || 'UTC';
+  const updatedUser = await updateUserInfo(user.id, { current_weight_kg: latest.weight_kg });
+  const dailyStats = await refreshDailyTargets(
+    { ...updatedUser, timezone: timeZone },
+    formatDateInTimeZone(new Date(), timeZone)
+  );
+  logger.info({ userId: user.id, weightKg: latest.weight_kg }, 'Current weight synced from weight logs');
+  return { user: updatedUser, daily_stats: dailyStats };
+};
+
+export const listWeightLogs = async (userId: string, from: Date, to: Date): Promise<WeightLog[]> => {
+  const snapshot = await db
+    .collection('weight_logs')
+    .where('user_id', '==', userId)
+    .where('logged_at', '>=', from.toISOString())
+    .where('logged_at', '<=', to.toISOString())
+    .orderBy('logged_at', 'asc')
+    .get();
+  return snapshot.docs.map((doc: QueryDocumentSnapshot<DocumentData>) => ({ id: doc.id, ...doc.data() }) as WeightLog);
+};
+
+/**
+ * Smooths daily weights with an exponential moving average. Several weigh-ins on one day are
+ * averaged first; gaps between days are bridged by applying the daily smoothing once per day.
+ */
+export const calculateWeightTrend = (logs: Array<Pick<WeightLog, 'date' | 'weight_kg'>>): WeightTrendPoint[] => {
+  const byDate = new Map<string, number[]>();
+  logs.forEach(log => {
+    byDate.set(log.date, [...(byDate.get(log.date) || []), log.weight_kg]);
+  });
+
+  const days = Array.from(byDate.keys()).sort();
+  let trend: number | null = null;
+  let previousDay: number | null = null;
+
+  return days.map(date => {
+    const weights = byDate.get(date) as number[];
+    const weight = weights.reduce((sum, value) => sum + value, 0) / weights.length;
+    const dayNumber = toDayNumber(date);
+    if (trend === null || previousDay === null) {
+      trend = weight;
+    } else {
+      const alpha = 1 - (1 - TREND_SMOOTHING_PER_DAY) ** Math.max(1, dayNumber - previousDay);
+      trend += alpha * (weight - trend);
+    }
+    previousDay = dayNumber;
+    return { date, weight_kg: round(weight, 100), trend_kg: round(trend, 100) };
+  });
+};
+
+/**
+ * Least-squares slope of the trend over its last `RATE_WINDOW_DAYS`, in kg per week. Returns null
+ * until the data covers at least a week.
+ */
+export const calculateWeeklyRate = (trend: WeightTrendPoint[]) => {
+  if (trend.length < 2) {
+    return null;
+  }
+  const lastDay = toDayNumber(trend[trend.length - 1].date);
+  const points = trend
+    .map(point => ({ x: toDayNumber(point.date), y: point.trend_kg }))
+    .filter(point => lastDay - point.x <= RATE_WINDOW_DAYS);
+  if (points.length < 2 || lastDay - points[0].x < MIN_RATE_SPAN_DAYS) {
+    return null;
+  }
+
+  const meanX = points.reduce((sum, point) => sum + point.x, 0) / points.length;
+  const meanY = points.reduce((sum, point) => sum + point.y, 0) / points.length;
+  const covariance = points.reduce((sum, point) => sum + (point.x - meanX) * (point.y - meanY), 0);
+  const variance = points.reduce((sum, point) => sum + (point.x - meanX) ** 2, 0);
+  return variance ? round((covariance / variance) * 7, 100) : null;
+};
+
+export const projectGoalDate = (trend: WeightTrendPoint[], weeklyRate: number | null, targetWeightKg?: number) => {
+  const latest = trend[trend.length - 1];
+  if (!targetWeightKg || !latest) {
+    return { target_weight_kg: targetWeightKg ?? null, remaining_kg: null, projected_date: null, status: 'unknown' as WeightGoalStatus };
+  }
+
+  const remaining = round(targetWeightKg - latest.trend_kg, 100);
+  if (Math.abs(remaining) <= GOAL_REACHED_TOLERANCE_KG) {
+    return { target_weight_kg: targetWeightKg, remaining_kg: remaining, projected_date: null, status: 'reached' as WeightGoalStatus };
+  }
+  if (weeklyRate === null || Math.abs(weeklyRate) < MIN_PROJECTION_RATE_KG_PER_WEEK) {
+    return { target_weight_kg: targetWeightKg, remaining_kg: remaining, projected_date: null, status: 'unknown' as WeightGoalStatus };
+  }
+  if (Math.sign(weeklyRate) !== Math.sign(remaining)) {
+    return { target_weight_kg: targetWeightKg, remaining_kg: remaining, projected_date: null, status: 'off_track' as WeightGoalStatus };
+  }
+
+  const days = (remaining / weeklyRate) * 7;
+  return {
+    target_weight_kg: targetWeightKg,
+    remaining_kg: remaining,
+    projected_date: days <= MAX_PROJECTION_DAYS ? fromDayNumber(toDayNumber(latest.date) + Math.ceil(days)) : null,
+    status: 'on_track' as WeightGoalStatus
+  };
+};
+
+export const getWeightHistory = async (user: UserInfo, from: Date, to: Date) => {
+  const logs = await listWeightLogs(user.id, from, to);
+  const trend = calculateWeightTrend(logs);
+  const weeklyRate = calculateWeeklyRate(trend);
+
+  return {
+    from: from.toISOString(),
+    to: to.toISOString(),
+    current_weight_kg: user.current_weight_kg ?? null,
+    points: logs.map(log => ({
+      id: log.id,
+      weight_kg: log.weight_kg,
+      logged_at: log.logged_at,
+      date: log.date,
+      note: log.note
+    })),
+    trend,
+    weekly_rate_kg: weeklyRate,
+    goal: projectGoalDate(trend, weeklyRate, user.target_weight_kg)
+  };
+};
@@ -0,0 +1,451 @@
+import { z } from 'zod';
+import { EXTENDED_NUTRIENT_KEYS, ExtendedNutrients, NUTRITION_KEYS, NutritionTotals, pickTotals, scaleTotals } from './nutrition';
+import { Allergen, DietTag, isAllergen, isDietTag } from '../services/dietaryService';
+
+export const ANALYSIS_SCHEMA_VERSION = 1;
+
+// Per-item ceilings well above any real single food portion; anything larger is a model error.
+const MAX_ITEM_AMOUNT = 5000;
+const MAX_ITEM_CALORIES = 5000;
+const MAX_ITEM_MACRO_G = 500;
+
+// Calories may drift from 4p + 4c + 9f (fibre, alcohol, rounding) before they count as inconsistent.
+const KCAL_TOLERANCE_RATIO = 0.15;
+const KCAL_TOLERANCE_ABS = 25;
+const TOTALS_TOLERANCE_RATIO = 0.05;
+
+// Upper bounds per item by unit: grams, milligrams, micrograms.
+const MAX_ITEM_NUTRIENT: Record<keyof ExtendedNutrients, number> = {
+  fiber_g: MAX_ITEM_MACRO_G,
+  sugar_g: MAX_ITEM_MACRO_G,
+  saturated_fat_g: MAX_ITEM_MACRO_G,
+  sodium_mg: 20000,
+  potassium_mg: 20000,
+  calcium_mg: 10000,
+  iron_mg: 200,
+  vitamin_c_mg: 5000,
+  vitamin_d_mcg: 1000
+};
+
+// Per-100g ceilings for packaged foods: no food has more than 100 g of a macro in 100 g, and pure
+// fat tops out at 900 kcal. Pure salt is about 39 g of sodium per 100 g.
+const MAX_PER_100G: Record<keyof NutritionTotals, number> = {
+  ...MAX_ITEM_NUTRIENT,
+  calories: 900,
+  protein_g: 100,
+  carbs_g: 100,
+  fat_g: 100,
+  fiber_g: 100,
+  sugar_g: 100,
+  saturated_fat_g: 100,
+  sodium_mg: 40000
+};
+const MAX_SERVING_SIZE_G = 2000;
+
+const MAX_CLARIFYING_QUESTIONS = 3;
+const MAX_CLARIFYING_OPTIONS = 4;
+
+const numeric = z.coerce.number().refine(Number.isFinite, 'must be a finite number');
+
+const macrosSchema = z.looseObject({
+  p: numeric.default(0),
+  c: numeric.default(0),
+  f: numeric.default(0)
+});
+
+const nutrientsSchema = z.looseObject({
+  fiber_g: numeric.default(0),
+  sugar_g: numeric.default(0),
+  saturated_fat_g: numeric.default(0),
+  sodium_mg: numeric.default(0),
+  potassium_mg: numeric.default(0),
+  calcium_mg: numeric.default(0),
+  iron_mg: numeric.default(0),
+  vitamin_c_mg: numeric.default(0),
+  vitamin_d_mcg: numeric.default(0)
+});
+
+const itemSchema = z.looseObject({
+  name: z.string().trim().min(1),
+  amount: numeric.default(0),
+  unit: z.string().trim().min(1).default('g'),
+  calories: numeric.default(0),
+  macros: macrosSchema.default({ p: 0, c: 0, f: 0 }),
+  nutrients: nutrientsSchema.optional(),
+  allergens: z.array(z.string()).optional(),
+  contains: z.array(z.string()).optional(),
+  leftover_amount: numeric.optional()
+});
+
+const clarifyingQuestionSchema = z.looseObject({
+  question: z.string().trim().min(1),
+  item_name: z.string().nullable().optional(),
+  options: z
+    .array(z.union([z.string().trim().min(1), z.looseObject({ label: z.string().trim().min(1) })]))
+    .min(2)
+});
+
+export const mealAnalysisSchema = z.looseObject({
+  meal_name: z.string().optional(),
+  total_calories: numeric.optional(),
+  total_macros: macrosSchema.optional(),
+  total_nutrients: nutrientsSchema.optional(),
+  items: z.array(itemSchema).min(1),
+  health_score: numeric.nullable().optional(),
+  coach_note: z.string().nullable().optional(),
+  confidence: numeric.optional(),
+  served_total_calories: numeric.nullable().optional(),
+  consumed_ratio: numeric.nullable().optional(),
+  // Questions are a hint for the user, not part of the estimate; a malformed list is dropped rather
+  // than failing the whole analysis.
+  clarifying_questions: z.array(clarifyingQuestionSchema).optional().catch(undefined)
+});
+
+const labelValuesSchema = nutrientsSchema.extend({
+  calories: numeric.default(0),
+  protein_g: numeric.default(0),
+  carbs_g: numeric.default(0),
+  fat_g: numeric.default(0)
+});
+
+export const nutritionLabelSchema = z.looseObject({
+  product_name: z.string().trim().min(1),
+  brand: z.string().trim().nullable().optional(),
+  barcode: z.union([z.string(), z.number()]).nullable().optional(),
+  serving_size_g: numeric.nullable().optional(),
+  serving_label: z.string().trim().nullable().optional(),
+  servings_per_container: numeric.nullable().optional(),
+  per_100g: labelValuesSchema.nullable().optional(),
+  per_serving: labelValuesSchema.nullable().optional(),
+  allergens: z.array(z.string()).optional(),
+  contains: z.array(z.string()).optional(),
+  confidence: numeric.optional()
+});
+
+export interface MealAnalysisItem {
+  name: string;
+  amount: number;
+  unit: string;
+  calories: number;
+  macros: { p: number; c: number; f: number };
+  nutrients?: ExtendedNutrients;
+  allergens?: Allergen[];
+  contains?: DietTag[];
+  leftover_amount?: number;
+  [key: string]: unknown;
+}
+
+export interface ClarifyingQuestion {
+  id: string;
+  question: string;
+  item_name: string | null;
+  options: Array<{ id: string; label: string }>;
+}
+
+export interface MealAnalysis {
+  meal_name?: string;
+  total_calories: number;
+  total_macros: { p: number; c: number; f: number };
+  total_nutrients?: ExtendedNutrients;
+  items: MealAnalysisItem[];
+  health_score?: number | null;
+  coach_note?: string | null;
+  confidence: number;
+  served_total_calories?: number | null;
+  consumed_ratio?: number | null;
+  clarifying_questions?: ClarifyingQuestion[];
+  [key: string]: unknown;
+}
+
+export interface NutritionLabel {
+  product_name: string;
+  brand: string | null;
+  barcode: string | null;
+  serving_size_g: number | null;
+  serving_label: string | null;
+  servings_per_container: number | null;
+  per_100g: NutritionTotals;
+  per_serving: NutritionTotals | null;
+  allergens: Allergen[];
+  contains: DietTag[];
+  confidence: number;
+}
+
+export interface AnalysisValidation {
+  status: 'valid' | 'repaired';
+  schema_version: number;
+  issues: string[];
+  macro_kcal: number;
+  kcal_deviation_ratio: number;
+  attempts: number;
+}
+
+export class MealAnalysisSchemaError extends Error {
+  issues: string[];
+
+  constructor(issues: string[]) {
+    super(`Analysis response does not match schema: ${issues.join('; ')}`);
+    this.name = 'MealAnalysisSchemaError';
+    this.issues = issues;
+  }
+}
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+const macroKcal = (macros: { p: number; c: number; f: number }) => 4 * macros.p + 4 * macros.c + 9 * macros.f;
+
+const isKcalConsistent = (calories: number, expected: number) =>
+  Math.abs(calories - expected) <= Math.max(KCAL_TOLERANCE_ABS, expected * KCAL_TOLERANCE_RATIO);
+
+// Tags outside the fixed vocabulary cannot be matched against user restrictions, so they are dropped.
+const normalizeTags = <T extends string>(
+  issues: string[],
+  label: string,
+  values: string[] | undefined,
+  isKnown: (value: unknown) => value is T
+) => {
+  if (!values) {
+    return undefined;
+  }
+  const normalized = values.map(value => value.trim().toLowerCase().replace(/[\s-]+/g, '_'));
+  const unknown = normalized.filter(value => !isKnown(value));
+  if (unknown.length) {
+    issues.push(`${label} dropped unknown values: ${unknown.join(', ')}`);
+  }
+  return Array.from(new Set(normalized.filter(isKnown)));
+};
+
+const differs = (reported: number | undefined, computed: number) =>
+  reported === undefined || Math.abs(reported - computed) > Math.max(1, computed * TOTALS_TOLERANCE_RATIO);
+
+/**
+ * Parses a model response against the analysis schema and repairs what can be repaired: values are
+ * clamped to plausible ranges, item calories that contradict their macros are recomputed from the
+ * macros, and totals that disagree with the item sums are replaced by those sums. Throws
+ * MealAnalysisSchemaError when the shape itself is unusable (e.g. no items).
+ */
+export const validateMealAnalysis = (raw: unknown, attempts = 1): { analysis: MealAnalysis; validation: AnalysisValidation } => {
+  const parsed = mealAnalysisSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new MealAnalysisSchemaError(
+      parsed.error.issues.map(issue => `${issue.path.join('.') || 'response'}: ${issue.message}`)
+    );
+  }
+
+  const issues: string[] = [];
+  const data = parsed.data;
+
+  const clampField = (label: string, value: number, min: number, max: number) => {
+    const clamped = clamp(value, min, max);
+    if (clamped !== value) {
+      issues.push(`${label} clamped from ${value} to ${clamped}`);
+    }
+    return round(clamped);
+  };
+
+  // Sugar is part of carbs and saturated fat part of fat, so neither can exceed its parent macro.
+  const repairNutrients = (label: string, nutrients: ExtendedNutrients, macros: { c: number; f: number }) => {
+    const repaired = {} as ExtendedNutrients;
+    EXTENDED_NUTRIENT_KEYS.forEach(key => {
+      repaired[key] = clampField(`${label}.nutrients.${key}`, nutrients[key], 0, MAX_ITEM_NUTRIENT[key]);
+    });
+    repaired.sugar_g = clampField(`${label}.nutrients.sugar_g`, repaired.sugar_g, 0, macros.c);
+    repaired.saturated_fat_g = clampField(`${label}.nutrients.saturated_fat_g`, repaired.saturated_fat_g, 0, macros.f);
+    return repaired;
+  };
+
+  const items = data.items.map((item, index): MealAnalysisItem => {
+    const label = `items[${index}]`;
+    const macros = {
+      p: clampField(`${label}.macros.p`, item.macros.p, 0, MAX_ITEM_MACRO_G),
+      c: clampField(`${label}.macros.c`, item.macros.c, 0, MAX_ITEM_MACRO_G),
+      f: clampField(`${label}.macros.f`, item.macros.f, 0, MAX_ITEM_MACRO_G)
+    };
+    let calories = clampField(`${label}.calories`, item.calories, 0, MAX_ITEM_CALORIES);
+    const expected = round(macroKcal(macros));
+    if (expected > 0 && !isKcalConsistent(calories, expected)) {
+      issues.push(`${label}.calories ${calories} recomputed from macros as ${expected}`);
+      calories = expected;
+    }
+    return {
+      ...item,
+      amount: clampField(`${label}.amount`, item.amount, 0, MAX_ITEM_AMOUNT),
+      calories,
+      macros,
+      nutrients: item.nutrients ? repairNutrients(label, item.nutrients, macros) : undefined,
+      allergens: normalizeTags(issues, `${label}.allergens`, item.allergens, isAllergen),
+      contains: normalizeTags(issues, `${label}.contains`, item.contains, isDietTag)
+    };
+  });
+
+  const summed = items.reduce(
+    (acc, item) => ({
+      calories: acc.calories + item.calories,
+      p: acc.p + item.macros.p,
+      c: acc.c + item.macros.c,
+      f: acc.f + item.macros.f
+    }),
+    { calories: 0, p: 0, c: 0, f: 0 }
+  );
+
+  let totalCalories = data.total_calories;
+  let totalMacros = data.total_macros ? { p: data.total_macros.p, c: data.total_macros.c, f: data.total_macros.f } : undefined;
+  if (differs(totalCalories, summed.calories)) {
+    issues.push(`total_calories ${totalCalories ?? 'missing'} recomputed from items as ${round(summed.calories)}`);
+    totalCalories = summed.calories;
+  }
+  if (!totalMacros || (['p', 'c', 'f'] as const).some(key => differs(totalMacros?.[key], summed[key]))) {
+    issues.push('total_macros recomputed from items');
+    totalMacros = { p: summed.p, c: summed.c, f: summed.f };
+  }
+
+  const total_macros = { p: round(totalMacros.p), c: round(totalMacros.c), f: round(totalMacros.f) };
+
+  let totalNutrients = data.total_nutrients ? repairNutrients('total_nutrients', data.total_nutrients, total_macros) : undefined;
+  const itemsWithNutrients = items.filter(item => item.nutrients);
+  if (itemsWithNutrients.length) {
+    const summedNutrients = {} as ExtendedNutrients;
+    EXTENDED_NUTRIENT_KEYS.forEach(key => {
+      summedNutrients[key] = round(itemsWithNutrients.reduce((sum, item) => sum + (item.nutrients?.[key] || 0), 0));
+    });
+    if (totalNutrients && EXTENDED_NUTRIENT_KEYS.some(key => differs(totalNutrients?.[key], summedNutrients[key]))) {
+      issues.push('total_nutrients recomputed from items');
+    }
+    totalNutrients = summedNutrients;
+  }
+  const total_calories = round(totalCalories as number);
+  const expectedTotal = round(macroKcal(total_macros));
+  const deviation = expectedTotal > 0 ? Math.abs(total_calories - expectedTotal) / expectedTotal : 0;
+  if (expectedTotal > 0 && !isKcalConsistent(total_calories, expectedTotal)) {
+    issues.push(`total_calories ${total_calories} deviates from 4p+4c+9f (${expectedTotal})`);
+  }
+
+  // Ids are assigned here so answers can reference a question and option regardless of what the
+  // model returned.
+  const questions = data.clarifying_questions || [];
+  if (questions.length > MAX_CLARIFYING_QUESTIONS) {
+    issues.push(`clarifying_questions truncated from ${questions.length} to ${MAX_CLARIFYING_QUESTIONS}`);
+  }
+  const clarifyingQuestions = questions.slice(0, MAX_CLARIFYING_QUESTIONS).map((question, index): ClarifyingQuestion => {
+    const id = `q${index + 1}`;
+    return {
+      id,
+      question: question.question,
+      item_name: question.item_name || null,
+      options: question.options.slice(0, MAX_CLARIFYING_OPTIONS).map((option, optionIndex) => ({
+        id: `${id}_o${optionIndex + 1}`,
+        label: typeof option === 'string' ? option : option.label
+      }))
+    };
+  });
+
+  const analysis: MealAnalysis = {
+    ...data,
+    items,
+    clarifying_questions: clarifyingQuestions,
+    total_calories,
+    total_macros,
+    total_nutrients: totalNutrients,
+    confidence: data.confidence === undefined ? 0 : clampField('confidence', data.confidence, 0, 1),
+    health_score: data.health_score === undefined || data.health_score === null
+      ? data.health_score
+      : clampField('health_score', data.health_score, 0, 100),
+    consumed_ratio: data.consumed_ratio === undefined || data.consumed_ratio === null
+      ? data.consumed_ratio
+      : clampField('consumed_ratio', data.consumed_ratio, 0, 1)
+  };
+
+  return {
+    analysis,
+    validation: {
+      status: issues.length ? 'repaired' : 'valid',
+      schema_version: ANALYSIS_SCHEMA_VERSION,
+      issues,
+      macro_kcal: expectedTotal,
+      kcal_deviation_ratio: Math.round(deviation * 1000) / 1000,
+      attempts
+    }
+  };
+};
+
+/**
+ * Parses a nutrition-label reading. The printed values are authoritative, so unlike meal analyses
+ * calories are never recomputed from macros; a mismatch is only recorded as an issue. Per-100g values
+ * fall back to the per-serving column scaled by the serving size, and per-serving values are always
+ * derived from per-100g so the two cannot disagree.
+ */
+export const validateNutritionLabel = (raw: unknown, attempts = 1): { label: NutritionLabel; validation: AnalysisValidation } => {
+  const parsed = nutritionLabelSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new MealAnalysisSchemaError(
+      parsed.error.issues.map(issue => `${issue.path.join('.') || 'response'}: ${issue.message}`)
+    );
+  }
+
+  const issues: string[] = [];
+  const data = parsed.data;
+
+  const clampField = (label: string, value: number, min: number, max: number) => {
+    const clamped = clamp(value, min, max);
+    if (clamped !== value) {
+      issues.push(`${label} clamped from ${value} to ${clamped}`);
+    }
+    return round(clamped);
+  };
+
+  const servingSize = data.serving_size_g ? clampField('serving_size_g', data.serving_size_g, 0, MAX_SERVING_SIZE_G) : 0;
+
+  let per100g: NutritionTotals;
+  if (data.per_100g) {
+    per100g = pickTotals(data.per_100g);
+  } else if (data.per_serving && servingSize > 0) {
+    per100g = scaleTotals(pickTotals(data.per_serving), 100 / servingSize);
+    issues.push('per_100g derived from per_serving');
+  } else {
+    throw new MealAnalysisSchemaError(['per_100g: required unless per_serving and serving_size_g are given']);
+  }
+
+  NUTRITION_KEYS.forEach(key => {
+    per100g[key] = clampField(`per_100g.${key}`, per100g[key], 0, MAX_PER_100G[key]);
+  });
+  per100g.sugar_g = clampField('per_100g.sugar_g', per100g.sugar_g, 0, per100g.carbs_g);
+  per100g.saturated_fat_g = clampField('per_100g.saturated_fat_g', per100g.saturated_fat_g, 0, per100g.fat_g);
+
+  const expected = round(macroKcal({ p: per100g.protein_g, c: per100g.carbs_g, f: per100g.fat_g }));
+  const deviation = expected > 0 ? Math.abs(per100g.calories - expected) / expected : 0;
+  if (expected > 0 && !isKcalConsistent(per100g.calories, expected)) {
+    issues.push(`per_100g.calories ${per100g.calories} deviates from 4p+4c+9f (${expected})`);
+  }
+
+  const barcode = data.barcode === null || data.barcode === undefined ? '' : String(data.barcode).replace(/\D/g, '');
+
+  const label: NutritionLabel = {
+    product_name: data.product_name,
+    brand: data.brand || null,
+    barcode: barcode || null,
+    serving_size_g: servingSize || null,
+    serving_label: data.serving_label || null,
+    servings_per_container: data.servings_per_container
+      ? clampField('servings_per_container', data.servings_per_container, 0, 1000)
+      : null,
+    per_100g: per100g,
+    per_serving: servingSize > 0 ? scaleTotals(per100g, servingSize / 100) : null,
+    allergens: normalizeTags(issues, 'allergens', data.allergens, isAllergen) || [],
+    contains: normalizeTags(issues, 'contains', data.contains, isDietTag) || [],
+    confidence: data.confidence === undefined ? 0 : clampField('confidence', data.confidence, 0, 1)
+  };
+
+  return {
+    label,
+    validation: {
+      status: issues.length ? 'repaired' : 'valid',
+      schema_version: ANALYSIS_SCHEMA_VERSION,
+      issues,
+      macro_kcal: expected,
+      kcal_deviation_ratio: Math.round(deviation * 1000) / 1000,
+      attempts
+    }
+  };
+};
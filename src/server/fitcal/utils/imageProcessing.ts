@@ -0,0 +1,246 @@
+import type { CanvasRenderingContext2D, Image } from 'canvas';
+import { logger } from '../../../utils/logger';
+
+export interface ProcessedImage {
+  buffer: Buffer;
+  mimeType: string;
+  width: number | null;
+  height: number | null;
+}
+
+export interface ProcessedMealImage {
+  image: ProcessedImage;
+  thumbnail: ProcessedImage | null;
+}
+
+type CanvasModule = typeof import('canvas');
+
+const FULL_IMAGE_MAX_SIZE = Number(process.env.MEAL_IMAGE_MAX_SIZE || 2048);
+const THUMBNAIL_MAX_SIZE = Number(process.env.MEAL_THUMBNAIL_MAX_SIZE || 320);
+const FULL_IMAGE_QUALITY = 0.9;
+const THUMBNAIL_QUALITY = 0.8;
+
+// JPEG APP1-APP15 carry EXIF, XMP, IPTC and vendor data (GPS included); COM holds free-text comments.
+const isJpegMetadataMarker = (marker: number) => (marker >= 0xffe1 && marker <= 0xffef) || marker === 0xfffe;
+const PNG_METADATA_CHUNKS = ['eXIf', 'tEXt', 'iTXt', 'zTXt', 'tIME'];
+const WEBP_METADATA_CHUNKS = ['EXIF', 'XMP '];
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+let canvasModule: CanvasModule | null | undefined;
+
+// canvas is a native module; when its binary is missing images are still stored, just without thumbnails.
+const loadCanvas = () => {
+  if (canvasModule === undefined) {
+    try {
+      // eslint-disable-next-line @typescript-eslint/no-var-requires
+      canvasModule = require('canvas') as CanvasModule;
+    } catch (error) {
+      logger.warn({ err: error }, 'canvas is unavailable; meal images are stored without thumbnails');
+      canvasModule = null;
+    }
+  }
+  return canvasModule;
+};
+
+const isJpeg = (buffer: Buffer) => buffer.length > 3 && buffer.readUInt16BE(0) === 0xffd8;
+
+const isPng = (buffer: Buffer) => buffer.length > 8 && buffer.subarray(0, 8).equals(PNG_SIGNATURE);
+
+const isWebp = (buffer: Buffer) =>
+  buffer.length > 12 && buffer.toString('ascii', 0, 4) === 'RIFF' && buffer.toString('ascii', 8, 12) === 'WEBP';
+
+/**
+ * Reads the EXIF orientation (1-8) of a JPEG. Re-encoding drops the tag, so the rotation it
+ * describes has to be applied to the pixels instead.
+ */
+export const readJpegOrientation = (buffer: Buffer) => {
+  if (!isJpeg(buffer)) {
+    return 1;
+  }
+  try {
+    let offset = 2;
+    while (offset + 4 <= buffer.length) {
+      const marker = buffer.readUInt16BE(offset);
+      if ((marker & 0xff00) !== 0xff00 || marker === 0xffda) {
+        return 1;
+      }
+      const length = buffer.readUInt16BE(offset + 2);
+      if (marker === 0xffe1 && buffer.toString('ascii', offset + 4, offset + 10) === 'Exif\0\0') {
+        const tiff = offset + 10;
+        const littleEndian = buffer.toString('ascii', tiff, tiff + 2) === 'II';
+        const read16 = (at: number) => (littleEndian ? buffer.readUInt16LE(at) : buffer.readUInt16BE(at));
+        const read32 = (at: number) => (littleEndian ? buffer.readUInt32LE(at) : buffer.readUInt32BE(at));
+        const ifd = tiff + read32(tiff + 4);
+        const entries = read16(ifd);
+        for (let index = 0; index < entries; index += 1) {
+          const entry = ifd + 2 + index * 12;
+          if (read16(entry) === 0x0112) {
+            const orientation = read16(entry + 8);
+            return orientation >= 1 && orientation <= 8 ? orientation : 1;
+          }
+        }
+        return 1;
+      }
+      offset += 2 + length;
+    }
+  } catch (error) {
+    logger.debug({ err: error }, 'Failed to read JPEG orientation');
+  }
+  return 1;
+};
+
+const stripJpegMetadata = (buffer: Buffer) => {
+  const parts: Buffer[] = [buffer.subarray(0, 2)];
+  let offset = 2;
+  while (offset + 4 <= buffer.length) {
+    const marker = buffer.readUInt16BE(offset);
+    if ((marker & 0xff00) !== 0xff00) {
+      break;
+    }
+    // Start of scan: the compressed image data follows and runs to the end of the file.
+    if (marker === 0xffda) {
+      parts.push(buffer.subarray(offset));
+      return Buffer.concat(parts);
+    }
+    const end = offset + 2 + buffer.readUInt16BE(offset + 2);
+    if (!isJpegMetadataMarker(marker)) {
+      parts.push(buffer.subarray(offset, end));
+    }
+    offset = end;
+  }
+  parts.push(buffer.subarray(offset));
+  return Buffer.concat(parts);
+};
+
+const stripPngMetadata = (buffer: Buffer) => {
+  const parts: Buffer[] = [PNG_SIGNATURE];
+  let offset = PNG_SIGNATURE.length;
+  while (offset + 12 <= buffer.length) {
+    const length = buffer.readUInt32BE(offset);
+    const type = buffer.toString('ascii', offset + 4, offset + 8);
+    const end = offset + 12 + length;
+    if (!PNG_METADATA_CHUNKS.includes(type)) {
+      parts.push(buffer.subarray(offset, end));
+    }
+    offset = end;
+  }
+  return Buffer.concat(parts);
+};
+
+const stripWebpMetadata = (buffer: Buffer) => {
+  const chunks: Buffer[] = [];
+  let offset = 12;
+  while (offset + 8 <= buffer.length) {
+    const type = buffer.toString('ascii', offset, offset + 4);
+    const size = buffer.readUInt32LE(offset + 4);
+    const end = offset + 8 + size + (size % 2);
+    if (!WEBP_METADATA_CHUNKS.includes(type)) {
+      const chunk = Buffer.from(buffer.subarray(offset, end));
+      // VP8X flags announce EXIF (bit 3) and XMP (bit 2) chunks; clear them along with the chunks.
+      if (type === 'VP8X' && chunk.length > 8) {
+        chunk[8] &= ~0x0c;
+      }
+      chunks.push(chunk);
+    }
+    offset = end;
+  }
+  const body = Buffer.concat(chunks);
+  const header = Buffer.alloc(12);
+  header.write('RIFF', 0, 'ascii');
+  header.writeUInt32LE(body.length + 4, 4);
+  header.write('WEBP', 8, 'ascii');
+  return Buffer.concat([header, body]);
+};
+
+/**
+ * Removes EXIF (including GPS), XMP and text metadata without touching the pixel data. Formats
+ * other than JPEG, PNG and WebP are returned unchanged.
+ */
+export const stripImageMetadata = (buffer: Buffer) => {
+  try {
+    if (isJpeg(buffer)) {
+      return stripJpegMetadata(buffer);
+    }
+    if (isPng(buffer)) {
+      return stripPngMetadata(buffer);
+    }
+    if (isWebp(buffer)) {
+      return stripWebpMetadata(buffer);
+    }
+  } catch (error) {
+    logger.warn({ err: error }, 'Failed to strip image metadata');
+  }
+  return buffer;
+};
+
+// Maps EXIF orientations to the transform that draws the stored pixels upright.
+const applyOrientation = (context: CanvasRenderingContext2D, orientation: number, width: number, height: number) => {
+  switch (orientation) {
+    case 2:
+      context.transform(-1, 0, 0, 1, width, 0);
+      break;
+    case 3:
+      context.transform(-1, 0, 0, -1, width, height);
+      break;
+    case 4:
+      context.transform(1, 0, 0, -1, 0, height);
+      break;
+    case 5:
+      context.transform(0, 1, 1, 0, 0, 0);
+      break;
+    case 6:
+      context.transform(0, 1, -1, 0, height, 0);
+      break;
+    case 7:
+      context.transform(0, -1, -1, 0, height, width);
+      break;
+    case 8:
+      context.transform(0, -1, 1, 0, 0, width);
+      break;
+    default:
+      break;
+  }
+};
+
+const renderJpeg = (canvas: CanvasModule, image: Image, orientation: number, maxSize: number, quality: number): ProcessedImage => {
+  const swapsAxes = orientation >= 5;
+  const orientedWidth = swapsAxes ? image.height : image.width;
+  const orientedHeight = swapsAxes ? image.width : image.height;
+  const scale = Math.min(1, maxSize / Math.max(orientedWidth, orientedHeight));
+  const width = Math.max(1, Math.round(orientedWidth * scale));
+  const height = Math.max(1, Math.round(orientedHeight * scale));
+
+  const target = canvas.createCanvas(width, height);
+  const context = target.getContext('2d');
+  context.scale(width / orientedWidth, height / orientedHeight);
+  applyOrientation(context, orientation, image.width, image.height);
+  context.drawImage(image, 0, 0);
+
+  return { buffer: target.toBuffer('image/jpeg', { quality }), mimeType: 'image/jpeg', width, height };
+};
+
+/**
+ * Prepares an uploaded meal photo for storage. With canvas the photo is re-encoded as an upright JPEG
+ * (which drops all metadata) and a thumbnail is rendered; without it, or for images canvas cannot
+ * decode, metadata is stripped from the original bytes and no thumbnail is produced.
+ */
+export const processMealImage = async (buffer: Buffer, mimeType: string): Promise<ProcessedMealImage> => {
+  const canvas = loadCanvas();
+  if (canvas) {
+    try {
+      const image = await canvas.loadImage(buffer);
+      const orientation = readJpegOrientation(buffer);
+      return {
+        image: renderJpeg(canvas, image, orientation, FULL_IMAGE_MAX_SIZE, FULL_IMAGE_QUALITY),
+        thumbnail: renderJpeg(canvas, image, orientation, THUMBNAIL_MAX_SIZE, THUMBNAIL_QUALITY)
+      };
+    } catch (error) {
+      logger.warn({ err: error, mimeType }, 'Failed to re-encode meal image; stripping metadata only');
+    }
+  }
+
+  return {
+    image: { buffer: stripImageMetadata(buffer), mimeType, width: null, height: null },
+    thumbnail: null
+  };
+};
@@ -0,0 +1,103 @@
+export interface MacroTotals {
+  calories: number;
+  protein_g: number;
+  carbs_g: number;
+  fat_g: number;
+}
+
+// Fiber, sugar, saturated fat, sodium and a few key micronutrients. Older records do not carry these,
+// so readers treat a missing value as 0.
+export interface ExtendedNutrients {
+  fiber_g: number;
+  sugar_g: number;
+  saturated_fat_g: number;
+  sodium_mg: number;
+  potassium_mg: number;
+  calcium_mg: number;
+  iron_mg: number;
+  vitamin_c_mg: number;
+  vitamin_d_mcg: number;
+}
+
+export interface NutritionTotals extends MacroTotals, ExtendedNutrients {}
+
+// Reference values (per 100 g, per serving) where only the macros are known for certain.
+export type NutrientProfile = MacroTotals & Partial<ExtendedNutrients>;
+
+export const MACRO_KEYS: Array<keyof MacroTotals> = ['calories', 'protein_g', 'carbs_g', 'fat_g'];
+
+export const EXTENDED_NUTRIENT_KEYS: Array<keyof ExtendedNutrients> = [
+  'fiber_g',
+  'sugar_g',
+  'saturated_fat_g',
+  'sodium_mg',
+  'potassium_mg',
+  'calcium_mg',
+  'iron_mg',
+  'vitamin_c_mg',
+  'vitamin_d_mcg'
+];
+
+export const NUTRITION_KEYS: Array<keyof NutritionTotals> = [...MACRO_KEYS, ...EXTENDED_NUTRIENT_KEYS];
+
+// daily_stats field names: the unit suffix moves behind "consumed" (protein_g -> protein_consumed_g).
+export const DAILY_STATS_CONSUMED_FIELDS = {
+  calories: 'calories_consumed',
+  protein_g: 'protein_consumed_g',
+  carbs_g: 'carbs_consumed_g',
+  fat_g: 'fat_consumed_g',
+  fiber_g: 'fiber_consumed_g',
+  sugar_g: 'sugar_consumed_g',
+  saturated_fat_g: 'saturated_fat_consumed_g',
+  sodium_mg: 'sodium_consumed_mg',
+  potassium_mg: 'potassium_consumed_mg',
+  calcium_mg: 'calcium_consumed_mg',
+  iron_mg: 'iron_consumed_mg',
+  vitamin_c_mg: 'vitamin_c_consumed_mg',
+  vitamin_d_mcg: 'vitamin_d_consumed_mcg'
+} as const;
+
+export type DailyStatsConsumedField = (typeof DAILY_STATS_CONSUMED_FIELDS)[keyof NutritionTotals];
+
+const toNumber = (value: unknown) => {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : 0;
+};
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+export const emptyTotals = (): NutritionTotals =>
+  NUTRITION_KEYS.reduce((totals, key) => ({ ...totals, [key]: 0 }), {} as NutritionTotals);
+
+export const pickTotals = (source?: Partial<Record<keyof NutritionTotals, unknown>> | null): NutritionTotals => {
+  const totals = emptyTotals();
+  NUTRITION_KEYS.forEach(key => {
+    totals[key] = toNumber(source?.[key]);
+  });
+  return totals;
+};
+
+export const addTotals = (a: NutritionTotals, b: NutritionTotals): NutritionTotals => {
+  const totals = emptyTotals();
+  NUTRITION_KEYS.forEach(key => {
+    totals[key] = round(a[key] + b[key]);
+  });
+  return totals;
+};
+
+export const scaleTotals = (source: NutritionTotals, factor: number): NutritionTotals => {
+  const totals = emptyTotals();
+  NUTRITION_KEYS.forEach(key => {
+    totals[key] = round(source[key] * factor);
+  });
+  return totals;
+};
+
+export const sumTotals = (items: Array<Partial<Record<keyof NutritionTotals, unknown>>>): NutritionTotals =>
+  items.reduce<NutritionTotals>((acc, item) => addTotals(acc, pickTotals(item)), emptyTotals());
+
+export const toDailyStatsDeltas = (totals: NutritionTotals, sign: 1 | -1 = 1) =>
+  NUTRITION_KEYS.reduce((deltas, key) => {
+    deltas[DAILY_STATS_CONSUMED_FIELDS[key]] = sign * totals[key];
+    return deltas;
+  }, {} as Record<DailyStatsConsumedField, number>);
@@ -48,3 +48,61 @@ export const formatDateInTimeZone = (date: Date, timeZone: string) => {
   const day = parts.find(part => part.type === 'day')?.value || '01';
   return `${year}-${month}-${day}`;
 };
+
+export const getHourInTimeZone = (date: Date, timeZone: string) => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hour: '2-digit',
+    hourCycle: 'h23'
+  }).formatToParts(date);
+
+  return Number(parts.find(part => part.type === 'hour')?.value || 0);
+};
+
+export const WEEK_DAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'] as const;
+
+export type WeekDay = (typeof WEEK_DAYS)[number];
+
+export const DEFAULT_WEEK_START_DAY: WeekDay = 'monday';
+
+const DATE_STRING_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+const parseDateString = (dateString: string) => {
+  const [year, month, day] = dateString.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+};
+
+// Rejects values like 2026-02-30 that `Date` would silently roll over into the next month.
+export const isValidDateString = (value: unknown): value is string => {
+  if (typeof value !== 'string' || !DATE_STRING_PATTERN.test(value)) {
+    return false;
+  }
+  const date = parseDateString(value);
+  return !Number.isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value;
+};
+
+// Calendar arithmetic on YYYY-MM-DD strings; the result does not depend on any time zone.
+export const addDaysToDate = (dateString: string, days: number) => {
+  const date = parseDateString(dateString);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+};
+
+export const countDaysInRange = (from: string, to: string) =>
+  Math.round((parseDateString(to).getTime() - parseDateString(from).getTime()) / (24 * 60 * 60_000)) + 1;
+
+export const listDatesInRange = (from: string, to: string) =>
+  Array.from({ length: Math.max(countDaysInRange(from, to), 0) }, (_, index) => addDaysToDate(from, index));
+
+export const getWeekRangeForDate = (dateString: string, weekStartDay: WeekDay = DEFAULT_WEEK_START_DAY) => {
+  const offset = (parseDateString(dateString).getUTCDay() - WEEK_DAYS.indexOf(weekStartDay) + 7) % 7;
+  const start = addDaysToDate(dateString, -offset);
+  return { start, end: addDaysToDate(start, 6) };
+};
+
+// `month` is YYYY-MM.
+export const getMonthRange = (month: string) => {
+  const [year, monthIndex] = month.split('-').map(Number);
+  const lastDay = new Date(Date.UTC(year, monthIndex, 0)).getUTCDate();
+  return { start: `${month}-01`, end: `${month}-${String(lastDay).padStart(2, '0')}` };
+};
@@ -154,7 +154,15 @@ class DataExportService {
       logger.warn({ err: error }, 'Failed to fetch messages subcollection');
     }
 
-    // 8. Storage metadata (file list, not actual files)
+    // 8. FitCal recipes
+    const recipes = await this.fetchCollectionByField(
+      'recipes',
+      'user_id',
+      userId,
+      config.dataExport.maxRecipes
+    );
+
+    // 9. Storage metadata (file list, not actual files)
     const storageMetadata = await this.fetchStorageMetadata(userId);
 
     const exportPayload = {
@@ -171,6 +179,7 @@ class DataExportService {
         deviceTokensCount: deviceTokens.length,
         pushTokensCount: pushTokens.length,
         messagesFromSubcollectionCount: messagesFromSubcollection.length,
+        recipesCount: recipes.length,
         storageFilesCount: storageMetadata.files.length,
       },
       data: {
@@ -183,6 +192,7 @@ class DataExportService {
         deviceTokens,
         pushTokens,
         messagesFromSubcollection,
+        recipes,
         storageMetadata,
       },
     };
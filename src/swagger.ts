@@ -1706,9 +1706,8 @@ export const swaggerSpec = {
                 type: 'object',
                 properties: {
                   image: { type: 'string', format: 'binary' },
-                  source: { type: 'string', example: 'camera' },
+                  source: { type: 'string', enum: ['camera', 'gallery'], example: 'camera' },
                   meal_time: { type: 'string', format: 'date-time' },
-                  image_url: { type: 'string', format: 'uri' },
                   label: { type: 'string', example: 'Lunch' },
                 },
               },
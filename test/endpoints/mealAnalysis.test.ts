@@ -0,0 +1,87 @@
+import express from 'express';
+import request from 'supertest';
+import { db } from '../../src/firebase';
+import { authenticateToken } from '../../src/middleware/authMiddleware';
+import { createMealsRouter } from '../../src/routes/meals';
+import * as mealService from '../../src/server/fitcal/services/mealService';
+import * as userInfoService from '../../src/server/fitcal/services/userInfoService';
+
+jest.mock('../../src/firebase', () => require('../mocks/firebase'));
+jest.mock('../../src/middleware/authMiddleware', () => ({ authenticateToken: jest.fn() }));
+// Everything but the model allow-list is mocked, so the routes validate models for real.
+jest.mock('../../src/server/fitcal/services/mealService', () => {
+  const actual = jest.requireActual('../../src/server/fitcal/services/mealService');
+  return {
+    ...jest.createMockFromModule<object>('../../src/server/fitcal/services/mealService'),
+    ALLOWED_ANALYSIS_MODELS: actual.ALLOWED_ANALYSIS_MODELS,
+    DEFAULT_ANALYSIS_MODEL: actual.DEFAULT_ANALYSIS_MODEL,
+    DEFAULT_COMPARISON_MODELS: actual.DEFAULT_COMPARISON_MODELS,
+    MAX_COMPARISON_MODELS: actual.MAX_COMPARISON_MODELS,
+    isAllowedAnalysisModel: actual.isAllowedAnalysisModel
+  };
+});
+jest.mock('../../src/server/fitcal/services/mealTemplateService');
+jest.mock('../../src/server/fitcal/services/analysisJobService');
+jest.mock('../../src/server/fitcal/services/userInfoService');
+
+const USER_ID = 'user-1';
+
+describe('Meal analysis model selection', () => {
+  const app = express();
+  app.use(express.json());
+  app.use('/meals', createMealsRouter());
+
+  const post = (path: string, body: object) => request(app).post(path).set('x-test-user', USER_ID).send(body);
+
+  beforeEach(() => {
+    jest.mocked(db.collection).mockImplementation(() => ({
+      doc: (id: string) => ({
+        get: async () => ({ id, exists: true, data: () => ({ user_id: USER_ID, source: 'camera', status: 'draft' }) })
+      })
+    }));
+    jest.mocked(authenticateToken).mockImplementation(((req: any, _res: any, next: () => void) => {
+      req.user = { id: req.headers['x-test-user'] };
+      next();
+    }) as any);
+    jest.mocked(userInfoService.ensureUserInfo).mockImplementation(async (id: string) => ({ id, timezone: 'UTC', language: 'en' }));
+    jest.mocked(mealService.getMeal).mockResolvedValue({ id: 'meal-1', user_id: USER_ID, source: 'camera' } as any);
+    jest.mocked(mealService.analyzeMeal).mockResolvedValue({ raw: { items: [] } } as any);
+    jest.mocked(mealService.compareMealAnalyses).mockResolvedValue({ comparisonId: 'comparison-1', results: [], failures: [] });
+    jest.mocked(mealService.formatAnalysisResponse).mockReturnValue({ calories: 0 } as any);
+  });
+
+  it('analyzes with an allowed model', async () => {
+    const response = await post('/meals/meal-1/analyze', { model: 'gemini-2.5-pro' });
+
+    expect(response.status).toBe(200);
+    expect(mealService.analyzeMeal).toHaveBeenCalledWith('meal-1', 'gemini-2.5-pro', 'en');
+  });
+
+  it('returns 400 for a model outside the allow-list', async () => {
+    const response = await post('/meals/meal-1/analyze', { model: 'gemini-1.0-ultra', async: true });
+
+    expect(response.status).toBe(400);
+    expect(response.body).toEqual({ error: 'invalid_request', message: expect.stringMatching(/^model must be one of gemini-2\.5-flash/) });
+    expect(mealService.analyzeMeal).not.toHaveBeenCalled();
+  });
+
+  it('compares the default models, and returns 400 when any requested model is not allowed', async () => {
+    const defaults = await post('/meals/meal-1/analyze/compare', {});
+    expect(defaults.status).toBe(200);
+    expect(mealService.compareMealAnalyses).toHaveBeenCalledWith('meal-1', ['gemini-2.5-flash', 'gemini-2.5-pro'], 'en');
+
+    const response = await post('/meals/meal-1/analyze/compare', { models: ['gemini-2.5-flash', 'gpt-4o'] });
+    expect(response.status).toBe(400);
+    expect(mealService.compareMealAnalyses).toHaveBeenCalledTimes(1);
+  });
+
+  it('returns 400 for a disallowed model when answering clarifying questions', async () => {
+    const response = await post('/meals/meal-1/analysis/result-1/answers', {
+      answers: [{ question_id: 'q1', option_id: 'q1_o1' }],
+      model: 'gemini-1.0-ultra'
+    });
+
+    expect(response.status).toBe(400);
+    expect(mealService.answerClarifyingQuestions).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,167 @@
+import express from 'express';
+import request from 'supertest';
+import { db } from '../../src/firebase';
+import { authenticateToken } from '../../src/middleware/authMiddleware';
+import { createMealsRouter } from '../../src/routes/meals';
+import { createChatRouter } from '../../src/routes/chat';
+import * as mealService from '../../src/server/fitcal/services/mealService';
+import * as analysisJobService from '../../src/server/fitcal/services/analysisJobService';
+import * as chatService from '../../src/server/fitcal/services/chatService';
+import * as progressService from '../../src/server/fitcal/services/progressService';
+import * as userInfoService from '../../src/server/fitcal/services/userInfoService';
+
+jest.mock('../../src/firebase', () => require('../mocks/firebase'));
+jest.mock('../../src/middleware/authMiddleware', () => ({ authenticateToken: jest.fn() }));
+jest.mock('../../src/server/fitcal/services/mealService');
+jest.mock('../../src/server/fitcal/services/mealTemplateService');
+jest.mock('../../src/server/fitcal/services/analysisJobService');
+jest.mock('../../src/server/fitcal/services/chatService');
+jest.mock('../../src/server/fitcal/services/progressService');
+jest.mock('../../src/server/fitcal/services/userInfoService');
+
+const OWNER_ID = 'user-owner';
+const OTHER_ID = 'user-other';
+
+const documents: Record<string, Record<string, Record<string, unknown>>> = {
+  meals: {
+    'meal-1': { user_id: OWNER_ID, source: 'camera', status: 'draft', meal_time: '2026-01-01T12:00:00.000Z' }
+  },
+  chat_sessions: {
+    'session-1': { user_id: OWNER_ID, status: 'open' }
+  }
+};
+
+const createApp = () => {
+  const app = express();
+  app.use(express.json());
+  app.use('/meals', createMealsRouter());
+  app.use('/chat', createChatRouter());
+  return app;
+};
+
+const mealRoutes: Array<{ method: 'get' | 'post' | 'patch' | 'delete'; path: string; body?: object; reaches: () => jest.Mock }> = [
+  { method: 'get', path: '/meals/meal-1', reaches: () => jest.mocked(mealService.getMeal) },
+  { method: 'patch', path: '/meals/meal-1', body: { label: 'Lunch' }, reaches: () => jest.mocked(mealService.editMeal) },
+  { method: 'delete', path: '/meals/meal-1', reaches: () => jest.mocked(mealService.deleteMeal) },
+  { method: 'get', path: '/meals/meal-1/items', reaches: () => jest.mocked(mealService.getMeal) },
+  { method: 'post', path: '/meals/meal-1/items', body: { name: 'Rice' }, reaches: () => jest.mocked(mealService.addMealItem) },
+  { method: 'patch', path: '/meals/meal-1/items/item-1', body: { name: 'Rice' }, reaches: () => jest.mocked(mealService.updateMealItem) },
+  { method: 'delete', path: '/meals/meal-1/items/item-1', reaches: () => jest.mocked(mealService.deleteMealItem) },
+  { method: 'post', path: '/meals/meal-1/images', reaches: () => jest.mocked(mealService.getMeal) },
+  { method: 'post', path: '/meals/meal-1/duplicate', reaches: () => jest.mocked(mealService.duplicateMeal) },
+  { method: 'post', path: '/meals/meal-1/analyze', reaches: () => jest.mocked(mealService.analyzeMeal) },
+  {
+    method: 'post',
+    path: '/meals/meal-1/analyze/compare',
+    body: { models: ['model-a', 'model-b'] },
+    reaches: () => jest.mocked(mealService.compareMealAnalyses)
+  },
+  {
+    method: 'post',
+    path: '/meals/meal-1/analysis/result-1/answers',
+    body: { answers: [{ question_id: 'q1', option_id: 'q1_o1' }] },
+    reaches: () => jest.mocked(mealService.answerClarifyingQuestions)
+  },
+  { method: 'get', path: '/meals/meal-1/analysis-jobs/job-1', reaches: () => jest.mocked(analysisJobService.getAnalysisJob) },
+  { method: 'post', path: '/meals/meal-1/confirm', reaches: () => jest.mocked(mealService.confirmMeal) }
+];
+
+describe('Resource ownership', () => {
+  const app = createApp();
+
+  beforeEach(() => {
+    jest.mocked(db.collection).mockImplementation((collection: string) => ({
+      doc: (id: string) => ({
+        get: async () => ({
+          id,
+          exists: Boolean(documents[collection]?.[id]),
+          data: () => documents[collection]?.[id]
+        })
+      })
+    }));
+    jest.mocked(authenticateToken).mockImplementation(((req: any, res: any, next: () => void) => {
+      const userId = req.headers['x-test-user'];
+      if (!userId) {
+        res.status(401).json({ error: 'access_denied', message: 'Access token required' });
+        return;
+      }
+      req.user = { id: userId, email: `${userId}@example.com` };
+      next();
+    }) as any);
+
+    jest.mocked(userInfoService.ensureUserInfo).mockImplementation(async (id: string) => ({ id, timezone: 'UTC', language: 'en' }));
+    jest.mocked(mealService.sanitizeMealUpdates).mockReturnValue({ updates: { label: 'Lunch' }, errors: [] });
+    jest.mocked(mealService.sanitizeMealItemInput).mockReturnValue({ input: { name: 'Rice' }, errors: [] });
+    jest.mocked(mealService.isAllowedAnalysisModel).mockReturnValue(true);
+    jest.mocked(mealService.getMeal).mockResolvedValue({ id: 'meal-1', ...documents.meals['meal-1'] });
+    jest.mocked(progressService.getOrCreateDailyStats).mockResolvedValue({} as any);
+  });
+
+  describe('meal routes', () => {
+    it.each(mealRoutes)('$method $path is handled for the meal owner', async route => {
+      await request(app)[route.method](route.path).set('x-test-user', OWNER_ID).send(route.body);
+
+      expect(route.reaches()).toHaveBeenCalled();
+    });
+
+    it.each(mealRoutes)('$method $path returns 404 for another user\'s meal', async route => {
+      const response = await request(app)[route.method](route.path).set('x-test-user', OTHER_ID).send(route.body);
+
+      expect(response.status).toBe(404);
+      expect(response.body).toEqual({ error: 'not_found', message: 'Meal not found' });
+      expect(route.reaches()).not.toHaveBeenCalled();
+    });
+
+    it.each(mealRoutes)('$method $path returns 404 for an unknown meal id', async route => {
+      const response = await request(app)[route.method](route.path.replace('meal-1', 'meal-missing'))
+        .set('x-test-user', OWNER_ID)
+        .send(route.body);
+
+      expect(response.status).toBe(404);
+      expect(route.reaches()).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('chat routes', () => {
+    it('lists messages of an owned session', async () => {
+      jest.mocked(chatService.listChatMessages).mockResolvedValue([]);
+
+      const response = await request(app).get('/chat/sessions/session-1/messages').set('x-test-user', OWNER_ID);
+
+      expect(response.status).toBe(200);
+      expect(chatService.listChatMessages).toHaveBeenCalledWith('session-1');
+    });
+
+    it('returns 404 for another user\'s session messages', async () => {
+      const response = await request(app).get('/chat/sessions/session-1/messages').set('x-test-user', OTHER_ID);
+
+      expect(response.status).toBe(404);
+      expect(response.body).toEqual({ error: 'not_found', message: 'Chat session not found' });
+      expect(chatService.listChatMessages).not.toHaveBeenCalled();
+    });
+
+    it('does not post into another user\'s session', async () => {
+      const response = await request(app)
+        .post('/chat')
+        .set('x-test-user', OTHER_ID)
+        .send({ sessionId: 'session-1', message: 'Hello' });
+
+      expect(response.status).toBe(404);
+      expect(chatService.handleChatMessage).not.toHaveBeenCalled();
+    });
+
+    it('posts into an owned session and allows starting a new one', async () => {
+      jest.mocked(chatService.handleChatMessage).mockResolvedValue({ reply: 'Hi' } as any);
+
+      const owned = await request(app)
+        .post('/chat')
+        .set('x-test-user', OWNER_ID)
+        .send({ sessionId: 'session-1', message: 'Hello' });
+      const started = await request(app).post('/chat').set('x-test-user', OTHER_ID).send({ message: 'Hello' });
+
+      expect(owned.status).toBe(200);
+      expect(started.status).toBe(200);
+      expect(chatService.handleChatMessage).toHaveBeenCalledTimes(2);
+    });
+  });
+});
@@ -0,0 +1,21 @@
+/**
+ * Stand-in for src/firebase in service unit tests:
+ *
+ *   jest.mock('../../src/firebase', () => require('../mocks/firebase'));
+ *
+ * Firestore entry points are bare jest.fn()s that each test stubs for the collections it reads.
+ * `FieldValue.increment` returns a plain marker so tests can apply increments to their stored docs.
+ */
+export const db = {
+  collection: jest.fn(),
+  batch: jest.fn(),
+  runTransaction: jest.fn()
+};
+
+export const storage = {
+  bucket: jest.fn()
+};
+
+export const FieldValue = {
+  increment: (operand: number) => ({ increment: operand })
+};
@@ -0,0 +1,74 @@
+import { CorrectionItem, diffAnalysisItems } from '../../src/server/fitcal/services/analysisCorrectionService';
+
+jest.mock('../../src/firebase', () => require('../mocks/firebase'));
+
+const item = (name: string, amount: number, calories: number): CorrectionItem => ({
+  name,
+  amount,
+  unit: 'g',
+  calories,
+  protein_g: 0,
+  carbs_g: 0,
+  fat_g: 0
+});
+
+describe('diffAnalysisItems', () => {
+  const predicted = [item('Pilav', 200, 260), item('Tavuk', 150, 250), item('Salata', 100, 40)];
+
+  it('reports no changes when the prediction is confirmed as is', () => {
+    const { changes, metrics } = diffAnalysisItems(predicted, predicted);
+
+    expect(changes).toEqual([]);
+    expect(metrics).toMatchObject({ predicted_items: 3, confirmed_items: 3, calorie_error: 0, calorie_error_ratio: 0 });
+  });
+
+  it('matches items by name regardless of case and Turkish characters', () => {
+    const { changes } = diffAnalysisItems([item('Çiğ köfte', 100, 200)], [item('cig KOFTE', 100, 200)]);
+
+    expect(changes).toEqual([]);
+  });
+
+  it('pairs edited items through their analysis_item_index', () => {
+    const { changes, metrics } = diffAnalysisItems(predicted, [
+      { ...item('Bulgur pilavı', 200, 260), analysis_item_index: 0 },
+      item('Tavuk', 150, 250),
+      item('Salata', 100, 40)
+    ]);
+
+    expect(changes).toEqual([{ type: 'renamed', index: 0, from: 'Pilav', to: 'Bulgur pilavı' }]);
+    expect(metrics.renamed).toBe(1);
+  });
+
+  it('reports a portion change instead of the calorie change it causes', () => {
+    const { changes } = diffAnalysisItems(predicted, [item('Pilav', 300, 390), item('Tavuk', 150, 250), item('Salata', 100, 40)]);
+
+    expect(changes).toEqual([
+      { type: 'portion_changed', index: 0, name: 'Pilav', unit: 'g', from_amount: 200, to_amount: 300 }
+    ]);
+  });
+
+  it('reports calorie edits on an unchanged portion and ignores small differences', () => {
+    const { changes } = diffAnalysisItems(predicted, [item('Pilav', 200, 330), item('Tavuk', 152, 255), item('Salata', 100, 40)]);
+
+    expect(changes).toEqual([
+      { type: 'nutrition_changed', index: 0, name: 'Pilav', from_calories: 260, to_calories: 330 }
+    ]);
+  });
+
+  it('counts deleted and added items and the calorie error', () => {
+    const { changes, metrics } = diffAnalysisItems(predicted, [item('Pilav', 200, 260), item('Tavuk', 150, 250), item('Ayran', 200, 76)]);
+
+    expect(changes).toEqual([
+      { type: 'added', name: 'Ayran', amount: 200, unit: 'g', calories: 76 },
+      { type: 'deleted', index: 2, name: 'Salata', amount: 100, unit: 'g', calories: 40 }
+    ]);
+    expect(metrics).toMatchObject({
+      added: 1,
+      deleted: 1,
+      predicted_calories: 550,
+      confirmed_calories: 586,
+      calorie_error: -36,
+      calorie_error_ratio: 0.061
+    });
+  });
+});
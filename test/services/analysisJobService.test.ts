@@ -0,0 +1,188 @@
+import { db } from '../../src/firebase';
+import {
+  AnalysisJob,
+  MEAL_ANALYSIS_EVENT,
+  enqueueMealAnalysis,
+  resumePendingAnalysisJobs
+} from '../../src/server/fitcal/services/analysisJobService';
+import * as mealService from '../../src/server/fitcal/services/mealService';
+import { getUserInfo } from '../../src/server/fitcal/services/userInfoService';
+import { getWebSocketService } from '../../src/services/websocketService';
+
+jest.mock('../../src/firebase', () => require('../mocks/firebase'));
+jest.mock('../../src/server/fitcal/services/mealService');
+jest.mock('../../src/server/fitcal/services/userInfoService');
+jest.mock('../../src/services/websocketService');
+
+type Data = Record<string, any>;
+
+// Lets the queued job run to completion; retry delays are skipped by the setTimeout stub below.
+const settle = async () => {
+  for (let i = 0; i < 50; i += 1) {
+    await new Promise(resolve => setImmediate(resolve));
+  }
+};
+
+const inAnHour = () => new Date(Date.now() + 60 * 60_000).toISOString();
+
+describe('meal analysis jobs', () => {
+  let jobs: Record<string, Data>;
+  let sendToUser: jest.Mock;
+  let delays: number[];
+
+  const ref = (id: string) => ({
+    id,
+    get: async () => ({ id, exists: Boolean(jobs[id]), data: () => jobs[id] && { ...jobs[id] } }),
+    set: async (data: Data) => {
+      jobs[id] = { ...data };
+    },
+    update: async (data: Data) => {
+      jobs[id] = { ...jobs[id], ...data };
+    }
+  });
+
+  const takeOver = (jobId: string) => {
+    jobs[jobId] = { ...jobs[jobId], worker_id: 'other-instance', lease_expires_at: inAnHour() };
+  };
+
+  const statuses = () => sendToUser.mock.calls.map(([, , payload]) => payload.status);
+
+  beforeEach(() => {
+    jobs = {};
+    delays = [];
+    sendToUser = jest.fn();
+    jest.mocked(db.collection).mockImplementation(() => ({
+      doc: ref,
+      where: (field: string, _op: string, value: unknown) => ({
+        get: async () => ({
+          docs: Object.entries(jobs)
+            .filter(([, data]) => data[field] === value)
+            .map(([id, data]) => ({ id, data: () => ({ ...data }) }))
+        })
+      })
+    }));
+    jest.mocked(db.runTransaction).mockImplementation(async (update: (transaction: Data) => unknown) =>
+      update({
+        get: (target: ReturnType<typeof ref>) => target.get(),
+        update: (target: ReturnType<typeof ref>, data: Data) => target.update(data)
+      })
+    );
+    jest.mocked(getUserInfo).mockResolvedValue(null);
+    jest.mocked(getWebSocketService).mockReturnValue({ sendToUser } as any);
+    jest.mocked(mealService.formatAnalysisResponse).mockReturnValue({ items: [] } as any);
+    jest.spyOn(global, 'setTimeout').mockImplementation(((resolve: () => void, ms: number) => {
+      delays.push(ms);
+      resolve();
+      return { unref: () => undefined };
+    }) as any);
+  });
+
+  const enqueue = () => enqueueMealAnalysis({ userId: 'user-1', mealId: 'meal-1', model: 'gemini-2.5-flash', language: 'tr' });
+
+  it('stores the result and notifies the user when the analysis succeeds', async () => {
+    jest.mocked(mealService.analyzeMeal).mockResolvedValue({ raw: { items: [] } } as any);
+
+    const job = await enqueue();
+    await settle();
+
+    expect(jobs[job.id]).toMatchObject({ status: 'succeeded', attempts: 1, result: { items: [] }, lease_expires_at: null });
+    expect(sendToUser).toHaveBeenLastCalledWith('user-1', MEAL_ANALYSIS_EVENT, expect.objectContaining({ status: 'succeeded' }));
+  });
+
+  it('retries failed attempts with exponential backoff', async () => {
+    jest.mocked(mealService.analyzeMeal)
+      .mockRejectedValueOnce(new Error('Gemini is overloaded'))
+      .mockRejectedValueOnce(new Error('Gemini is overloaded'))
+      .mockResolvedValue({ raw: { items: [] } } as any);
+
+    const job = await enqueue();
+    await settle();
+
+    expect(mealService.analyzeMeal).toHaveBeenCalledTimes(3);
+    expect(delays).toEqual([2000, 4000]);
+    expect(jobs[job.id]).toMatchObject({ status: 'succeeded', attempts: 3, error: null });
+    expect(statuses()).toEqual(['running', 'running', 'running', 'succeeded']);
+  });
+
+  it('fails the job once the attempts run out', async () => {
+    jest.mocked(mealService.analyzeMeal).mockRejectedValue(new Error('Gemini is overloaded'));
+
+    const job = await enqueue();
+    await settle();
+
+    expect(mealService.analyzeMeal).toHaveBeenCalledTimes(3);
+    expect(jobs[job.id]).toMatchObject({ status: 'failed', attempts: 3, error: 'Gemini is overloaded' });
+  });
+
+  it('does not retry errors caused by the meal itself', async () => {
+    jest.mocked(mealService.analyzeMeal).mockRejectedValue(new Error('Meal not found'));
+
+    const job = await enqueue();
+    await settle();
+
+    expect(mealService.analyzeMeal).toHaveBeenCalledTimes(1);
+    expect(delays).toEqual([]);
+    expect(jobs[job.id]).toMatchObject({ status: 'failed', attempts: 1, error: 'Meal not found' });
+  });
+
+  it('drops its result when another instance took the job over during the analysis', async () => {
+    let jobId = '';
+    jest.mocked(mealService.analyzeMeal).mockImplementation(async () => {
+      takeOver(jobId);
+      return { raw: { items: [] } } as any;
+    });
+
+    jobId = (await enqueue()).id;
+    await settle();
+
+    expect(jobs[jobId]).toMatchObject({ status: 'running', worker_id: 'other-instance', result: null });
+    expect(statuses()).toEqual(['running']);
+  });
+
+  it('stops retrying once another instance took the job over', async () => {
+    let jobId = '';
+    jest.mocked(mealService.analyzeMeal).mockImplementation(async () => {
+      takeOver(jobId);
+      throw new Error('Gemini is overloaded');
+    });
+
+    jobId = (await enqueue()).id;
+    await settle();
+
+    expect(mealService.analyzeMeal).toHaveBeenCalledTimes(1);
+    expect(delays).toEqual([]);
+    expect(jobs[jobId]).toMatchObject({ status: 'running', attempts: 0, error: null, worker_id: 'other-instance' });
+  });
+
+  it('resumes only jobs whose lease has expired', async () => {
+    const stored = (id: string, lease_expires_at: string): AnalysisJob => ({
+      id,
+      meal_id: `meal-${id}`,
+      user_id: 'user-1',
+      model: 'gemini-2.5-flash',
+      language: 'tr',
+      mode: 'plate',
+      status: 'running',
+      attempts: 1,
+      max_attempts: 3,
+      result: null,
+      error: 'Gemini is overloaded',
+      created_at: '2026-10-18T08:00:00.000Z',
+      updated_at: '2026-10-18T08:00:00.000Z',
+      started_at: '2026-10-18T08:00:00.000Z',
+      finished_at: null,
+      worker_id: 'other-instance',
+      lease_expires_at
+    });
+    jobs.live = stored('live', inAnHour());
+    jobs.expired = stored('expired', '2026-10-18T08:02:00.000Z');
+    jest.mocked(mealService.analyzeMeal).mockResolvedValue({ raw: { items: [] } } as any);
+
+    await expect(resumePendingAnalysisJobs()).resolves.toBe(1);
+    await settle();
+
+    expect(mealService.analyzeMeal).toHaveBeenCalledWith('meal-expired', 'gemini-2.5-flash', 'tr');
+    expect(jobs.expired).toMatchObject({ status: 'succeeded', attempts: 2 });
+    expect(jobs.live).toMatchObject({ status: 'running', worker_id: 'other-instance' });
+  });
+});
@@ -0,0 +1,133 @@
+import { db } from '../../src/firebase';
+import {
+  BarcodeProduct,
+  logBarcodeProduct,
+  lookupBarcodeProduct,
+  normalizeBarcode
+} from '../../src/server/fitcal/services/barcodeService';
+import { findLabelFoodByBarcode } from '../../src/server/fitcal/services/foodService';
+import { logMealWithItems } from '../../src/server/fitcal/services/mealService';
+import type { UserInfo } from '../../src/server/fitcal/services/userInfoService';
+
+jest.mock('../../src/firebase', () => require('../mocks/firebase'));
+jest.mock('../../src/server/fitcal/services/foodService');
+jest.mock('../../src/server/fitcal/services/mealService');
+
+describe('normalizeBarcode', () => {
+  it('accepts EAN-13 and EAN-8 codes with a valid check digit', () => {
+    expect(normalizeBarcode('4006381333931')).toBe('4006381333931');
+    expect(normalizeBarcode('96385074')).toBe('96385074');
+  });
+
+  it('widens UPC-A codes to EAN-13', () => {
+    expect(normalizeBarcode('036000291452')).toBe('0036000291452');
+  });
+
+  it('ignores spaces and dashes', () => {
+    expect(normalizeBarcode('400 6381 33393-1')).toBe('4006381333931');
+  });
+
+  it('rejects codes with a wrong check digit', () => {
+    expect(normalizeBarcode('4006381333932')).toBeNull();
+    expect(normalizeBarcode('036000291453')).toBeNull();
+    expect(normalizeBarcode('96385075')).toBeNull();
+  });
+
+  it('rejects unsupported lengths and non-digit input', () => {
+    expect(normalizeBarcode('')).toBeNull();
+    expect(normalizeBarcode('12345')).toBeNull();
+    expect(normalizeBarcode('40063813339310')).toBeNull();
+    expect(normalizeBarcode('40063813339a1')).toBeNull();
+  });
+});
+
+describe('lookupBarcodeProduct', () => {
+  const productSet = jest.fn();
+
+  beforeEach(() => {
+    jest.mocked(db.collection).mockReturnValue({
+      doc: (id: string) => ({ get: async () => ({ exists: false, id }), set: productSet })
+    } as any);
+  });
+
+  it("returns the user's saved label food for a barcode without caching it for everyone", async () => {
+    jest.mocked(findLabelFoodByBarcode).mockResolvedValue({
+      id: 'label-abc',
+      name_tr: 'Acme Granola',
+      name_en: 'Acme Granola',
+      aliases: ['Granola'],
+      brand: 'Acme',
+      barcode: '4006381333931',
+      owner_id: 'user-1',
+      per_100g: { calories: 450, protein_g: 10, carbs_g: 60, fat_g: 18 },
+      servings: [{ id: 'serving', name_tr: '1 kase', name_en: '1 bowl', grams: 40 }],
+      source: 'label',
+      created_at: '2024-05-01T00:00:00.000Z',
+      updated_at: '2024-05-01T00:00:00.000Z'
+    });
+
+    const product = await lookupBarcodeProduct('4006381333931', 'user-1');
+
+    expect(findLabelFoodByBarcode).toHaveBeenCalledWith('user-1', '4006381333931');
+    expect(product).toMatchObject({
+      id: 'label-abc',
+      barcode: '4006381333931',
+      name: 'Granola',
+      brand: 'Acme',
+      serving_size_g: 40,
+      serving_label: '1 bowl',
+      source: 'label'
+    });
+    expect(productSet).not.toHaveBeenCalled();
+  });
+
+  it('skips label foods when no user is given', async () => {
+    const product = await lookupBarcodeProduct('4006381333931');
+
+    expect(findLabelFoodByBarcode).not.toHaveBeenCalled();
+    expect(product).toBeNull();
+  });
+});
+
+describe('logBarcodeProduct', () => {
+  const user = { id: 'user-1', timezone: 'Europe/Istanbul' } as UserInfo;
+  const product: BarcodeProduct = {
+    id: '4006381333931',
+    barcode: '4006381333931',
+    name: 'Granola',
+    brand: 'Acme',
+    serving_size_g: 40,
+    serving_label: '1 bowl',
+    per_100g: { calories: 450, protein_g: 10, carbs_g: 60, fat_g: 18 },
+    source: 'local-stub',
+    created_at: '2024-05-01T00:00:00.000Z',
+    updated_at: '2024-05-01T00:00:00.000Z'
+  };
+
+  it('logs the servings as one confirmed meal item', async () => {
+    jest.mocked(logMealWithItems).mockImplementation(async (_user, data) => ({
+      meal: { id: 'meal-1' },
+      items: data.items.map(item => ({ ...item, id: 'item-1', meal_id: 'meal-1' })),
+      totals: { calories: 360, protein_g: 8, carbs_g: 48, fat_g: 14.4 },
+      daily_stats: { date: '2024-05-01' }
+    }) as any);
+
+    const result = await logBarcodeProduct(user, product, { servings: 2, mealTime: '2024-05-01T07:30:00.000Z' });
+
+    expect(logMealWithItems).toHaveBeenCalledTimes(1);
+    expect(logMealWithItems).toHaveBeenCalledWith(user, {
+      source: 'barcode',
+      label: 'Granola',
+      mealTime: '2024-05-01T07:30:00.000Z',
+      items: [expect.objectContaining({ name: 'Acme Granola', amount: 80, unit: 'g', barcode: '4006381333931', calories: 360 })]
+    });
+    expect(result).toMatchObject({ meal_id: 'meal-1', item: { id: 'item-1', amount: 80 }, daily_stats: { date: '2024-05-01' } });
+  });
+
+  it('requires grams when the product has no serving size', async () => {
+    await expect(logBarcodeProduct(user, { ...product, serving_size_g: null }, {})).rejects.toThrow(
+      'Product has no serving size; grams is required'
+    );
+    expect(logMealWithItems).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,184 @@
+import { db } from '../../src/firebase';
+import {
+  reconcileDailyStats,
+  reconcileRecentDailyStats
+} from '../../src/server/fitcal/services/dailyStatsReconciliationService';
+import * as userInfoService from '../../src/server/fitcal/services/userInfoService';
+
+jest.mock('../../src/firebase', () => require('../mocks/firebase'));
+jest.mock('../../src/server/fitcal/services/userInfoService');
+
+const user = { id: 'user-1', timezone: 'UTC' } as userInfoService.UserInfo;
+const DATE = '2026-01-01';
+const STATS_ID = `${user.id}_${DATE}`;
+
+describe('reconcileDailyStats', () => {
+  let documents: Record<string, Array<{ id: string; data: Record<string, unknown> }>>;
+  let transaction: { get: jest.Mock; set: jest.Mock; delete: jest.Mock };
+
+  const ref = (collection: string, id: string) => ({ collection, id });
+
+  beforeEach(() => {
+    documents = { daily_stats: [], meals: [], water_logs: [], exercise_logs: [] };
+    jest.mocked(userInfoService.calculateDailyTargets).mockReturnValue({ calories_goal: 2000 } as userInfoService.DailyTargets);
+    // Filters only apply to the fields a fixture sets, so fixtures can leave out what a test is not about.
+    const query = (collection: string, filters: Array<(data: Record<string, any>) => boolean>): any => ({
+      doc: (id: string) => ref(collection, id),
+      where: (field: string, op: string, value: any) =>
+        query(collection, [
+          ...filters,
+          data => !(field in data) || (op === '==' ? data[field] === value : op === '>=' ? data[field] >= value : data[field] < value)
+        ]),
+      get: async () => ({
+        docs: (documents[collection] || [])
+          .filter(doc => filters.every(filter => filter(doc.data)))
+          .map(doc => ({ id: doc.id, ref: ref(collection, doc.id), data: () => doc.data }))
+      })
+    });
+    jest.mocked(db.collection).mockImplementation((collection: string) => query(collection, []));
+    transaction = {
+      get: jest.fn(target => target.get()),
+      set: jest.fn(),
+      delete: jest.fn()
+    };
+    jest.mocked(db.runTransaction).mockImplementation(async (update: (t: typeof transaction) => unknown) => update(transaction));
+  });
+
+  it('rewrites counters that drifted from the meals, water and exercise logs', async () => {
+    documents.daily_stats = [{ id: STATS_ID, data: { user_id: user.id, date: DATE, calories_consumed: 900, water_ml: 250, calories_burned: 300, steps: 4000 } }];
+    documents.meals = [
+      { id: 'meal-1', data: { status: 'confirmed', calories: 500, protein_g: 30 } },
+      { id: 'meal-2', data: { status: 'confirmed', calories: 300, protein_g: 10 } },
+      { id: 'meal-3', data: { status: 'draft', calories: 200 } }
+    ];
+    documents.water_logs = [{ id: 'water-1', data: { amount_ml: 250 } }, { id: 'water-2', data: { amount_ml: 250 } }];
+    documents.exercise_logs = [{ id: 'exercise-1', data: { calories_burned: 300 } }];
+
+    const report = await reconcileDailyStats(user, DATE, DATE);
+
+    expect(report).toMatchObject({ days_checked: 1, days_repaired: 1, dry_run: false });
+    expect(report.repairs[0]).toEqual({
+      date: DATE,
+      created: false,
+      duplicates_removed: 0,
+      fields: {
+        calories_consumed: { stored: 900, expected: 800 },
+        protein_consumed_g: { stored: 0, expected: 40 },
+        water_ml: { stored: 250, expected: 500 }
+      }
+    });
+    expect(transaction.set).toHaveBeenCalledWith(
+      ref('daily_stats', STATS_ID),
+      expect.objectContaining({ calories_consumed: 800, protein_consumed_g: 40, water_ml: 500, calories_burned: 300, steps: 4000 }),
+      { merge: true }
+    );
+  });
+
+  it('counts exercise logs towards their stored date rather than the day they were performed', async () => {
+    documents.daily_stats = [{ id: STATS_ID, data: { user_id: user.id, date: DATE, calories_burned: 300 } }];
+    documents.exercise_logs = [
+      // An imported workout that started before midnight but was imported into the next day.
+      { id: 'exercise-1', data: { date: DATE, performed_at: '2025-12-31T23:30:00.000Z', calories_burned: 300 } },
+      { id: 'exercise-2', data: { date: '2026-01-02', performed_at: '2026-01-01T12:00:00.000Z', calories_burned: 200 } }
+    ];
+
+    const report = await reconcileDailyStats(user, DATE, DATE);
+
+    expect(report.repairs).toEqual([]);
+    expect(transaction.set).not.toHaveBeenCalled();
+  });
+
+  it('leaves days that match their sources alone', async () => {
+    documents.daily_stats = [{ id: STATS_ID, data: { user_id: user.id, date: DATE, water_ml: 500 } }];
+    documents.water_logs = [{ id: 'water-1', data: { amount_ml: 500 } }];
+
+    const report = await reconcileDailyStats(user, DATE, DATE);
+
+    expect(report.repairs).toEqual([]);
+    expect(transaction.set).not.toHaveBeenCalled();
+  });
+
+  it('only reports drift on a dry run', async () => {
+    documents.daily_stats = [{ id: STATS_ID, data: { user_id: user.id, date: DATE, water_ml: 250 } }];
+    documents.water_logs = [{ id: 'water-1', data: { amount_ml: 500 } }];
+
+    const report = await reconcileDailyStats(user, DATE, DATE, { dryRun: true });
+
+    expect(report.days_repaired).toBe(0);
+    expect(report.repairs[0].fields).toEqual({ water_ml: { stored: 250, expected: 500 } });
+    expect(transaction.set).not.toHaveBeenCalled();
+    expect(transaction.delete).not.toHaveBeenCalled();
+  });
+
+  it('merges duplicate documents into the one with the canonical id', async () => {
+    documents.daily_stats = [
+      { id: 'random-id', data: { user_id: user.id, date: DATE, water_ml: 250, steps: 6000 } },
+      { id: STATS_ID, data: { user_id: user.id, date: DATE, water_ml: 250, steps: 4000 } }
+    ];
+    documents.water_logs = [{ id: 'water-1', data: { amount_ml: 250 } }];
+
+    const report = await reconcileDailyStats(user, DATE, DATE);
+
+    expect(report.repairs[0]).toMatchObject({ created: false, duplicates_removed: 1, fields: {} });
+    expect(transaction.set).toHaveBeenCalledWith(
+      ref('daily_stats', STATS_ID),
+      expect.objectContaining({ water_ml: 250, steps: 6000 }),
+      { merge: true }
+    );
+    expect(transaction.delete).toHaveBeenCalledWith(ref('daily_stats', 'random-id'));
+  });
+
+  it('creates a missing day that has activity, and skips empty days', async () => {
+    documents.exercise_logs = [{ id: 'exercise-1', data: { calories_burned: 300 } }];
+
+    const report = await reconcileDailyStats(user, DATE, DATE);
+
+    expect(report.repairs[0]).toMatchObject({ created: true, fields: { calories_burned: { stored: 0, expected: 300 } } });
+    expect(transaction.set).toHaveBeenCalledWith(
+      ref('daily_stats', STATS_ID),
+      expect.objectContaining({ user_id: user.id, date: DATE, calories_goal: 2000, calories_burned: 300, steps: 0 })
+    );
+
+    documents.exercise_logs = [];
+    const empty = await reconcileDailyStats(user, DATE, DATE);
+    expect(empty.repairs).toEqual([]);
+  });
+});
+
+describe('reconcileRecentDailyStats', () => {
+  let lease: Record<string, unknown> | null;
+  let dailyStatsQuery: jest.Mock;
+
+  beforeEach(() => {
+    lease = null;
+    dailyStatsQuery = jest.fn(async () => ({ docs: [] }));
+    jest.mocked(db.collection).mockImplementation(() => {
+      const query = { doc: () => ({}), where: () => query, get: dailyStatsQuery };
+      return query;
+    });
+    jest.mocked(db.runTransaction).mockImplementation(async (update: (t: unknown) => unknown) =>
+      update({
+        get: async () => ({ exists: Boolean(lease), data: () => lease }),
+        set: (_ref: unknown, data: Record<string, unknown>) => {
+          lease = data;
+        }
+      })
+    );
+  });
+
+  it('runs once per interval across instances', async () => {
+    await expect(reconcileRecentDailyStats()).resolves.toMatchObject({ users_checked: 0 });
+    expect(dailyStatsQuery).toHaveBeenCalledTimes(1);
+
+    lease = { ...lease, worker_id: 'another-instance' };
+    await expect(reconcileRecentDailyStats()).resolves.toBeNull();
+    expect(dailyStatsQuery).toHaveBeenCalledTimes(1);
+  });
+
+  it('takes over once the other instance\'s lease has expired', async () => {
+    lease = { worker_id: 'another-instance', lease_expires_at: new Date(Date.now() - 1000).toISOString() };
+
+    await expect(reconcileRecentDailyStats()).resolves.toMatchObject({ users_checked: 0 });
+    expect(lease.worker_id).not.toBe('another-instance');
+  });
+});
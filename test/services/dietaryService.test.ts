@@ -0,0 +1,63 @@
+import {
+  describeDietaryRestrictions,
+  findDietaryConflicts,
+  sanitizeDietaryRestrictions
+} from '../../src/server/fitcal/services/dietaryService';
+
+describe('findDietaryConflicts', () => {
+  it('warns about allergens the user avoids and items that break their diet', () => {
+    const warnings = findDietaryConflicts({ allergens: ['gluten'], dietary_preferences: ['vegetarian'], language: 'en' }, [
+      { name: 'Lahmacun', allergens: ['gluten'], contains: ['meat'] },
+      { name: 'Ayran', allergens: ['milk'], contains: ['dairy'] }
+    ]);
+
+    expect(warnings).toEqual([
+      { type: 'allergen', code: 'gluten', item_name: 'Lahmacun', message: 'Lahmacun may contain gluten.' },
+      { type: 'diet', code: 'vegetarian', item_name: 'Lahmacun', message: 'Lahmacun may not fit your vegetarian diet (meat).' }
+    ]);
+  });
+
+  it('flags meat and dairy in the same meal for a kosher diet', () => {
+    const warnings = findDietaryConflicts({ dietary_preferences: ['kosher'] }, [
+      { name: 'İskender', contains: ['meat'] },
+      { name: 'Yoğurt', contains: ['dairy'] }
+    ]);
+
+    expect(warnings).toEqual([expect.objectContaining({ type: 'diet', code: 'kosher', item_name: null })]);
+  });
+
+  it('returns nothing for users without restrictions or for fitting items', () => {
+    const items = [{ name: 'Mercimek çorbası', allergens: [], contains: [] }];
+
+    expect(findDietaryConflicts({}, [{ name: 'Sucuk', contains: ['meat'] }])).toEqual([]);
+    expect(findDietaryConflicts({ allergens: ['peanut'], dietary_preferences: ['vegan'] }, items)).toEqual([]);
+  });
+});
+
+describe('sanitizeDietaryRestrictions', () => {
+  it('keeps known values once', () => {
+    const { updates, errors } = sanitizeDietaryRestrictions({ dietary_preferences: ['halal', 'halal'], allergens: ['sesame'] });
+
+    expect(errors).toEqual([]);
+    expect(updates).toEqual({ dietary_preferences: ['halal'], allergens: ['sesame'] });
+  });
+
+  it('rejects unknown diets and allergens instead of dropping them', () => {
+    const { updates, errors } = sanitizeDietaryRestrictions({ dietary_preferences: ['keto'], allergens: 'gluten' });
+
+    expect(updates).toEqual({});
+    expect(errors).toEqual([
+      expect.stringMatching(/^dietary_preferences must be a list of /),
+      expect.stringMatching(/^allergens must be a list of /)
+    ]);
+  });
+});
+
+describe('describeDietaryRestrictions', () => {
+  it('lists the restrictions for the coach context', () => {
+    expect(describeDietaryRestrictions({ dietary_preferences: ['vegan'], allergens: ['tree_nut'] })).toBe(
+      'Beslenme kısıtları: Diyet: vegan, Alerjen/intolerans: sert kabuklu yemiş. Önerilerinde bunlara kesinlikle uy.'
+    );
+    expect(describeDietaryRestrictions({})).toBe('Beslenme kısıtı belirtilmemiş.');
+  });
+});
@@ -0,0 +1,144 @@
+import { db } from '../../src/firebase';
+import {
+  ExerciseLog,
+  buildExerciseLog,
+  deleteExercise,
+  estimateCaloriesBurned,
+  getExerciseMet,
+  logExercise,
+  sanitizeExerciseInput
+} from '../../src/server/fitcal/services/exerciseService';
+import * as progressService from '../../src/server/fitcal/services/progressService';
+import type { UserInfo } from '../../src/server/fitcal/services/userInfoService';
+
+jest.mock('../../src/firebase', () => require('../mocks/firebase'));
+jest.mock('../../src/server/fitcal/services/progressService');
+
+const user = { id: 'user-1', timezone: 'Europe/Istanbul', current_weight_kg: 80 } as UserInfo;
+
+describe('getExerciseMet', () => {
+  it('uses the intensity table without a distance', () => {
+    expect(getExerciseMet('running', 'moderate', 30)).toBe(9.8);
+    expect(getExerciseMet('yoga', 'light', 60)).toBe(2.5);
+  });
+
+  it('uses the speed band for activities with a distance', () => {
+    // 10 km in 60 min is 10 km/h, inside the 9.7-11.3 km/h band.
+    expect(getExerciseMet('running', 'light', 60, 10)).toBe(9.8);
+    // 5 km/h walking, between the 4.8 and 5.6 km/h bands.
+    expect(getExerciseMet('walking', 'vigorous', 60, 5)).toBe(3.5);
+    expect(getExerciseMet('cycling', 'light', 60, 35)).toBe(15.8);
+  });
+
+  it('ignores the distance for activities without speed bands', () => {
+    expect(getExerciseMet('swimming', 'moderate', 30, 1.5)).toBe(7.0);
+  });
+});
+
+describe('estimateCaloriesBurned', () => {
+  it('multiplies MET by body weight and hours', () => {
+    expect(estimateCaloriesBurned(9.8, 80, 30)).toBe(392);
+    expect(estimateCaloriesBurned(3.5, 70, 45)).toBe(184);
+  });
+});
+
+describe('buildExerciseLog', () => {
+  it('estimates calories from the profile weight', () => {
+    const log = buildExerciseLog(user, { type: 'running', duration_min: 30, performed_at: '2026-01-01T22:30:00.000Z' });
+
+    expect(log).toMatchObject({ intensity: 'moderate', met: 9.8, weight_kg: 80, calories_burned: 392, calories_source: 'estimated' });
+    // Dated in the user's time zone (UTC+3).
+    expect(log.date).toBe('2026-01-02');
+  });
+
+  it('falls back to 70 kg without a profile weight', () => {
+    const log = buildExerciseLog({ ...user, current_weight_kg: undefined }, { type: 'walking', duration_min: 60 });
+
+    expect(log).toMatchObject({ weight_kg: 70, calories_burned: 245 });
+  });
+
+  it('keeps reported calories instead of estimating', () => {
+    const log = buildExerciseLog(user, { type: 'hiit', duration_min: 20, calories_burned: 310.4 });
+
+    expect(log).toMatchObject({ met: null, calories_burned: 310, calories_source: 'reported' });
+  });
+});
+
+describe('sanitizeExerciseInput', () => {
+  it('rounds valid values', () => {
+    const { input, errors } = sanitizeExerciseInput({ type: 'cycling', duration_min: 45.25, distance_km: 20.123 });
+
+    expect(errors).toEqual([]);
+    expect(input).toEqual({ type: 'cycling', duration_min: 45.3, distance_km: 20.12 });
+  });
+
+  it('rejects unknown types, bad durations and future dates', () => {
+    const { errors } = sanitizeExerciseInput({
+      type: 'skydiving',
+      duration_min: 0,
+      performed_at: new Date(Date.now() + 60 * 60_000).toISOString()
+    });
+
+    expect(errors).toHaveLength(3);
+  });
+});
+
+describe('logging and deleting exercises', () => {
+  let stored: Record<string, Record<string, any>>;
+  let transaction: { get: jest.Mock; set: jest.Mock; delete: jest.Mock };
+
+  const ref = (id: string) => ({ id, get: async () => ({ id, exists: Boolean(stored[id]), data: () => stored[id] }) });
+
+  beforeEach(() => {
+    stored = {};
+    transaction = {
+      get: jest.fn((target: ReturnType<typeof ref>) => target.get()),
+      set: jest.fn((target: ReturnType<typeof ref>, data: Record<string, any>) => {
+        stored[target.id] = data;
+      }),
+      delete: jest.fn((target: ReturnType<typeof ref>) => {
+        delete stored[target.id];
+      })
+    };
+    jest.mocked(db.collection).mockImplementation(() => ({ doc: (id = 'exercise-1') => ref(id) }));
+    jest.mocked(db.runTransaction).mockImplementation(async (update: (t: typeof transaction) => unknown) => update(transaction));
+    jest.mocked(progressService.applyDailyStatsDeltasInTransaction).mockImplementation(async (_transaction, _user, changes) =>
+      changes.map(({ date, deltas }) => ({ date, ...deltas }) as progressService.DailyStats)
+    );
+  });
+
+  it('writes the log and its calories_burned change in one transaction', async () => {
+    const result = await logExercise(user, { type: 'running', duration_min: 30, performed_at: '2026-01-01T22:30:00.000Z' });
+
+    expect(progressService.applyDailyStatsDeltasInTransaction).toHaveBeenCalledWith(transaction, user, [
+      { date: '2026-01-02', deltas: { calories_burned: 392 } }
+    ]);
+    expect(stored['exercise-1']).toMatchObject({ type: 'running', date: '2026-01-02', calories_burned: 392 });
+    expect(result).toMatchObject({ exercise: { id: 'exercise-1' }, daily_stats: { date: '2026-01-02', calories_burned: 392 } });
+  });
+
+  it('writes nothing when the daily stats update fails', async () => {
+    jest.mocked(progressService.applyDailyStatsDeltasInTransaction).mockRejectedValue(new Error('contention'));
+
+    await expect(logExercise(user, { type: 'running', duration_min: 30 })).rejects.toThrow('contention');
+    expect(stored).toEqual({});
+  });
+
+  it('deletes the stored log and subtracts its calories in one transaction', async () => {
+    stored['exercise-1'] = { date: '2026-01-02', calories_burned: 392 };
+
+    await deleteExercise(user, { id: 'exercise-1', date: '2026-01-02', calories_burned: 392 } as ExerciseLog);
+
+    expect(progressService.applyDailyStatsDeltasInTransaction).toHaveBeenCalledWith(transaction, user, [
+      { date: '2026-01-02', deltas: { calories_burned: -392 } }
+    ]);
+    expect(stored).toEqual({});
+  });
+
+  it('rejects a log that was already deleted', async () => {
+    await expect(
+      deleteExercise(user, { id: 'exercise-1', date: '2026-01-02', calories_burned: 392 } as ExerciseLog)
+    ).rejects.toThrow('Exercise not found');
+    expect(progressService.applyDailyStatsDeltasInTransaction).not.toHaveBeenCalled();
+  });
+});
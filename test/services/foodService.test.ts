@@ -0,0 +1,115 @@
+import { db } from '../../src/firebase';
+import {
+  FoodRecord,
+  normalizeFoodText,
+  resolveFoodPortion,
+  searchFoods
+} from '../../src/server/fitcal/services/foodService';
+
+jest.mock('../../src/firebase', () => require('../mocks/firebase'));
+
+type Data = Record<string, any>;
+
+const food = (id: string, nameTr: string, nameEn: string, overrides: Partial<FoodRecord> = {}): Data => {
+  const words = `${normalizeFoodText(nameTr)} ${normalizeFoodText(nameEn)}`.split(' ');
+  return {
+    id,
+    name_tr: nameTr,
+    name_en: nameEn,
+    per_100g: { calories: 200, protein_g: 10, carbs_g: 20, fat_g: 5 },
+    servings: [{ id: 'portion', name_tr: '1 porsiyon', name_en: '1 portion', grams: 150 }],
+    source: 'seed',
+    search_prefixes: Array.from(new Set(words.flatMap(word => [word.slice(0, 1), word.slice(0, 2)]))),
+    search_rank: overrides.source === 'label' ? 1 : 1_000_000,
+    ...overrides
+  };
+};
+
+describe('foodService', () => {
+  let foods: Data[];
+
+  beforeEach(() => {
+    foods = [
+      food('tavuk-gogsu', 'Tavuk göğsü', 'Chicken breast'),
+      food('tavuk-sote', 'Tavuk sote', 'Chicken saute'),
+      food('izgara-tavuk', 'Izgara tavuk', 'Grilled chicken'),
+      food('tava-balik', 'Tava balık', 'Pan-fried fish'),
+      food('cig-kofte', 'Çiğ köfte', 'Raw meatballs'),
+      food('label-own', 'Tavuklu wrap', 'Tavuklu wrap', { source: 'label', owner_id: 'user-1' }),
+      food('label-other', 'Tavuk nuggets', 'Tavuk nuggets', { source: 'label', owner_id: 'user-2' })
+    ];
+    jest.mocked(db.collection).mockImplementation(() => ({
+      doc: (id: string) => ({
+        get: async () => {
+          const data = foods.find(item => item.id === id);
+          return { id, exists: Boolean(data), data: () => data };
+        }
+      }),
+      where: (_field: string, _op: string, prefix: string) => ({
+        orderBy: () => ({
+          limit: () => ({
+            get: async () => ({
+              docs: foods
+                .filter(item => item.search_prefixes.includes(prefix))
+                .sort((a, b) => b.search_rank - a.search_rank)
+                .map(item => ({ id: item.id, data: () => item }))
+            })
+          })
+        })
+      })
+    }));
+  });
+
+  describe('searchFoods', () => {
+    it('ranks name prefixes above word prefixes and typos, and leaves out label foods of other users', async () => {
+      const results = await searchFoods('tavuk', 20, 'user-1');
+
+      expect(results.map(result => [result.id, result.match_score])).toEqual([
+        ['tavuk-gogsu', 90],
+        ['tavuk-sote', 90],
+        ['label-own', 90],
+        ['izgara-tavuk', 80],
+        // "tava" is two edits away from "tavuk".
+        ['tava-balik', 20]
+      ]);
+      expect(results[0]).not.toHaveProperty('search_prefixes');
+    });
+
+    it('matches without Turkish characters and tolerates typos', async () => {
+      await expect(searchFoods('cig kofte')).resolves.toEqual([expect.objectContaining({ id: 'cig-kofte', match_score: 100 })]);
+
+      const typo = await searchFoods('tavk');
+      expect(typo.map(result => result.id)).toEqual(expect.arrayContaining(['tavuk-gogsu', 'izgara-tavuk']));
+      expect(typo.every(result => result.match_score < 60)).toBe(true);
+    });
+
+    it('returns nothing for an empty query without loading foods', async () => {
+      await expect(searchFoods(' ?! ')).resolves.toEqual([]);
+      expect(db.collection).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('resolveFoodPortion', () => {
+    it('computes the nutrients of a number of servings', async () => {
+      const portion = await resolveFoodPortion({ food_id: 'tavuk-gogsu', serving_id: 'portion', quantity: 2 }, 'en');
+
+      expect(portion).toMatchObject({
+        food_id: 'tavuk-gogsu',
+        serving_id: 'portion',
+        name: 'Chicken breast',
+        amount: 300,
+        unit: 'g',
+        calories: 600,
+        protein_g: 30
+      });
+    });
+
+    it('rejects unknown servings, missing quantities and label foods of other users', async () => {
+      await expect(resolveFoodPortion({ food_id: 'tavuk-gogsu', serving_id: 'slice' })).rejects.toThrow('Serving not found: slice');
+      await expect(resolveFoodPortion({ food_id: 'tavuk-gogsu' })).rejects.toThrow('Invalid quantity for food: tavuk-gogsu');
+      await expect(resolveFoodPortion({ food_id: 'label-other', grams: 100 }, 'tr', 'user-1')).rejects.toThrow(
+        'Food not found: label-other'
+      );
+    });
+  });
+});
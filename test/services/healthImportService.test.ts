@@ -0,0 +1,235 @@
+import { db } from '../../src/firebase';
+import { HealthSampleInput, importHealthSamples } from '../../src/server/fitcal/services/healthImportService';
+import * as progressService from '../../src/server/fitcal/services/progressService';
+import * as weightService from '../../src/server/fitcal/services/weightService';
+import type { UserInfo } from '../../src/server/fitcal/services/userInfoService';
+
+jest.mock('../../src/firebase', () => require('../mocks/firebase'));
+jest.mock('../../src/server/fitcal/services/progressService');
+jest.mock('../../src/server/fitcal/services/weightService', () => ({
+  ...jest.requireActual('../../src/server/fitcal/services/weightService'),
+  syncCurrentWeight: jest.fn()
+}));
+
+type Data = Record<string, any>;
+
+const user = { id: 'user-1', timezone: 'UTC', current_weight_kg: 80 } as UserInfo;
+const DATE = '2026-01-10';
+const STATS_ID = `${user.id}_${DATE}`;
+
+const sample = (
+  type: HealthSampleInput['type'],
+  source: string,
+  sourceId: string,
+  start: string,
+  end: string,
+  value: number | null,
+  extra: Partial<HealthSampleInput> = {}
+): HealthSampleInput => ({
+  type,
+  source,
+  source_id: sourceId,
+  start: `${DATE}T${start}:00.000Z`,
+  end: `${DATE}T${end}:00.000Z`,
+  value,
+  ...extra
+});
+
+describe('importHealthSamples', () => {
+  let store: Record<string, Map<string, Data>>;
+
+  const docRef = (collection: string, id: string) => {
+    const documents = () => (store[collection] = store[collection] || new Map());
+    return {
+      id,
+      get: async () => ({ id, exists: documents().has(id), data: () => documents().get(id) }),
+      set: async (data: Data) => {
+        documents().set(id, data);
+      },
+      update: async (data: Data) => {
+        const current = { ...(documents().get(id) || {}) };
+        Object.entries(data).forEach(([field, value]) => {
+          current[field] = value && typeof value.increment === 'number' ? (current[field] || 0) + value.increment : value;
+        });
+        documents().set(id, current);
+      },
+      delete: async () => {
+        documents().delete(id);
+      }
+    };
+  };
+
+  const query = (collection: string, filters: Array<[string, unknown]>): Data => ({
+    where: (field: string, _op: string, value: unknown) => query(collection, [...filters, [field, value]]),
+    get: async () => ({
+      docs: Array.from((store[collection] || new Map()).entries())
+        .filter(([, data]) => filters.every(([field, value]) => data[field] === value))
+        .map(([id, data]) => ({ id, ref: docRef(collection, id), data: () => data }))
+    })
+  });
+
+  const queuedWrites = () => {
+    const writes: Array<() => Promise<void>> = [];
+    const queue = {
+      set: (ref: Data, data: Data) => writes.push(() => ref.set(data)),
+      update: (ref: Data, data: Data) => writes.push(() => ref.update(data)),
+      delete: (ref: Data) => writes.push(() => ref.delete()),
+      flush: async () => {
+        for (const write of writes.splice(0)) {
+          await write();
+        }
+      }
+    };
+    return queue;
+  };
+
+  const dailyStats = () => store.daily_stats.get(STATS_ID) as Data;
+  const docs = (collection: string) => Array.from((store[collection] || new Map()).values());
+
+  beforeEach(() => {
+    store = { daily_stats: new Map([[STATS_ID, { user_id: user.id, date: DATE }]]) };
+    jest.mocked(db.collection).mockImplementation((collection: string) => ({
+      doc: (id: string) => docRef(collection, id),
+      where: (field: string, _op: string, value: unknown) => query(collection, [[field, value]])
+    }));
+    jest.mocked(db.batch).mockImplementation(() => {
+      const writes = queuedWrites();
+      return { set: writes.set, delete: writes.delete, commit: writes.flush };
+    });
+    jest.mocked(db.runTransaction).mockImplementation(async (update: (transaction: Data) => Promise<unknown>) => {
+      const writes = queuedWrites();
+      const result = await update({ get: (target: Data) => target.get(), ...writes });
+      await writes.flush();
+      return result;
+    });
+    jest.mocked(progressService.getOrCreateDailyStats).mockImplementation(async (_user: UserInfo, date: string) => ({
+      id: `${user.id}_${date}`
+    }) as progressService.DailyStats);
+    jest.mocked(weightService.syncCurrentWeight).mockResolvedValue({ user, daily_stats: {} as progressService.DailyStats });
+  });
+
+  it('takes steps and active energy from the highest-ranked source only', async () => {
+    await importHealthSamples(user, [
+      sample('steps', 'google_fit', 'g1', '08:00', '20:00', 8000),
+      sample('steps', 'apple_health', 'a1', '08:00', '12:00', 3000),
+      sample('steps', 'apple_health', 'a2', '12:00', '20:00', 2000),
+      sample('active_energy', 'zepp', 'z1', '08:00', '20:00', 500),
+      sample('active_energy', 'oura', 'o1', '08:00', '20:00', 420)
+    ]);
+
+    // Sources outside the priority list rank alphabetically.
+    expect(dailyStats()).toMatchObject({ steps: 5000, active_energy_kcal: 420 });
+  });
+
+  it('keeps a higher step count entered by hand and raises a lower one', async () => {
+    jest.mocked(progressService.getOrCreateDailyStats).mockImplementation(async (_user: UserInfo, date: string) => ({
+      ...dailyStats(),
+      id: `${user.id}_${date}`
+    }) as progressService.DailyStats);
+    store.daily_stats.set(STATS_ID, { user_id: user.id, date: DATE, steps: 9000 });
+
+    await importHealthSamples(user, [sample('steps', 'apple_health', 'a1', '08:00', '12:00', 3000)]);
+    expect(dailyStats().steps).toBe(9000);
+
+    await importHealthSamples(user, [sample('steps', 'apple_health', 'a2', '12:00', '20:00', 7000)]);
+    expect(dailyStats().steps).toBe(10000);
+  });
+
+  it('counts overlapping sleep stages once', async () => {
+    await importHealthSamples(user, [
+      sample('sleep', 'apple_health', 's1', '00:00', '04:00', null),
+      sample('sleep', 'apple_health', 's2', '03:00', '06:30', null)
+    ]);
+
+    expect(dailyStats().sleep_minutes).toBe(390);
+  });
+
+  it('keeps a lower-ranked workout only when it does not overlap a preferred one', async () => {
+    await importHealthSamples(user, [
+      sample('workout', 'apple_health', 'w1', '08:00', '08:30', 300, { workout_type: 'running' }),
+      sample('workout', 'google_fit', 'w2', '08:05', '08:35', 280, { workout_type: 'running' }),
+      sample('workout', 'google_fit', 'w3', '18:00', '18:45', 150, { workout_type: 'cycling' })
+    ]);
+
+    const exercises = docs('exercise_logs');
+    expect(exercises.map(log => [log.source, log.type, log.calories_burned])).toEqual(
+      expect.arrayContaining([
+        ['apple_health', 'running', 300],
+        ['google_fit', 'cycling', 150]
+      ])
+    );
+    expect(exercises).toHaveLength(2);
+    expect(dailyStats().calories_burned).toBe(450);
+  });
+
+  it('adjusts calories_burned by the difference when a workout is re-imported', async () => {
+    const workout = sample('workout', 'apple_health', 'w1', '08:00', '08:30', 300, { workout_type: 'running' });
+    await importHealthSamples(user, [workout]);
+    await importHealthSamples(user, [{ ...workout, value: 350 }]);
+    await importHealthSamples(user, [{ ...workout, value: 350 }]);
+
+    expect(docs('exercise_logs')).toHaveLength(1);
+    expect(dailyStats().calories_burned).toBe(350);
+  });
+
+  // Days are merged in date order, so moving forwards and backwards take different paths.
+  it.each([
+    ['a later', '2026-01-11'],
+    ['an earlier', '2026-01-09']
+  ])('moves a re-sent workout and its calories to %s day it now starts on', async (_label, otherDate) => {
+    const otherId = `${user.id}_${otherDate}`;
+    store.daily_stats.set(otherId, { user_id: user.id, date: otherDate });
+    const workout = sample('workout', 'apple_health', 'w1', '12:00', '12:30', 300, { workout_type: 'running' });
+    await importHealthSamples(user, [workout]);
+    const result = await importHealthSamples(user, [
+      { ...workout, start: `${otherDate}T12:00:00.000Z`, end: `${otherDate}T12:30:00.000Z` }
+    ]);
+
+    expect(result.dates).toEqual([DATE, otherDate].sort());
+    expect(docs('exercise_logs').map(log => log.date)).toEqual([otherDate]);
+    expect(dailyStats().calories_burned).toBe(0);
+    expect(store.daily_stats.get(otherId)?.calories_burned).toBe(300);
+  });
+
+  it('keeps calories_burned equal to the stored logs when replacing a fractional log', async () => {
+    const workout = sample('workout', 'apple_health', 'w1', '08:00', '08:30', 300, { workout_type: 'running' });
+    await importHealthSamples(user, [workout]);
+    const [logId, log] = Array.from(store.exercise_logs.entries())[0];
+    // Logs imported before calories were rounded carry fractional values.
+    store.exercise_logs.set(logId, { ...log, calories_burned: 300.4 });
+    store.daily_stats.set(STATS_ID, { ...dailyStats(), calories_burned: 300.4 });
+
+    await importHealthSamples(user, [{ ...workout, value: 350.6 }]);
+
+    expect(docs('exercise_logs').map(entry => entry.calories_burned)).toEqual([351]);
+    expect(dailyStats().calories_burned).toBe(351);
+  });
+
+  it('replaces a workout when a preferred source reports the same session later', async () => {
+    await importHealthSamples(user, [sample('workout', 'google_fit', 'w2', '08:05', '08:35', 280)]);
+    await importHealthSamples(user, [sample('workout', 'apple_health', 'w1', '08:00', '08:30', 300)]);
+
+    expect(docs('exercise_logs').map(log => log.source)).toEqual(['apple_health']);
+    expect(dailyStats().calories_burned).toBe(300);
+  });
+
+  it('stores weights from the preferred source and syncs the current weight', async () => {
+    const result = await importHealthSamples(user, [
+      sample('body_weight', 'fitbit', 'b1', '07:00', '07:00', 79.4),
+      sample('body_weight', 'health_connect', 'b2', '07:05', '07:05', 79.52)
+    ]);
+
+    expect(docs('weight_logs').map(log => [log.source, log.weight_kg])).toEqual([['health_connect', 79.52]]);
+    expect(result).toEqual({ received: 2, dates: [DATE], weight_synced: true });
+  });
+
+  it('stores samples under stable ids so re-sending them is harmless', async () => {
+    const steps = sample('steps', 'apple_health', 'a1', '08:00', '20:00', 4000);
+    await importHealthSamples(user, [steps]);
+    await importHealthSamples(user, [steps]);
+
+    expect(docs('health_samples')).toHaveLength(1);
+    expect(dailyStats().steps).toBe(4000);
+    expect(weightService.syncCurrentWeight).not.toHaveBeenCalled();
+  });
+});
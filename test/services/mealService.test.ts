@@ -0,0 +1,851 @@
+import { createHash } from 'crypto';
+import { db, storage } from '../../src/firebase';
+import {
+  addMealImages,
+  addMealItem,
+  analyzeMeal,
+  analyzeNutritionLabelMeal,
+  answerClarifyingQuestions,
+  compareMealAnalyses,
+  confirmMeal,
+  deleteMeal,
+  deleteMealItem,
+  duplicateMeal,
+  editMeal,
+  inferMealType,
+  MAX_MEAL_IMAGES,
+  MealImage,
+  MealRecord,
+  sanitizeMealItemInput,
+  updateMealItem,
+  uploadMealImage,
+  withSignedImageUrls
+} from '../../src/server/fitcal/services/mealService';
+import * as foodService from '../../src/server/fitcal/services/foodService';
+import * as geminiService from '../../src/server/fitcal/services/geminiService';
+import * as progressService from '../../src/server/fitcal/services/progressService';
+import type { UserInfo } from '../../src/server/fitcal/services/userInfoService';
+import { processMealImage } from '../../src/server/fitcal/utils/imageProcessing';
+import { cacheService } from '../../src/services/cacheService';
+
+jest.mock('../../src/firebase', () => require('../mocks/firebase'));
+jest.mock('../../src/server/fitcal/services/progressService');
+jest.mock('../../src/server/fitcal/services/geminiService');
+jest.mock('../../src/server/fitcal/services/foodService');
+jest.mock('../../src/server/fitcal/services/analysisCorrectionService');
+jest.mock('../../src/server/fitcal/utils/imageProcessing');
+jest.mock('../../src/services/cacheService');
+
+type Data = Record<string, any>;
+
+const user = { id: 'user-1', timezone: 'Europe/Istanbul' } as UserInfo;
+const MEAL_ID = 'meal-1';
+
+const meal = (overrides: Partial<MealRecord> = {}): MealRecord => ({
+  id: MEAL_ID,
+  user_id: user.id,
+  image_url: null,
+  label: 'Lunch',
+  source: 'manual',
+  meal_time: '2026-01-10T10:00:00.000Z',
+  meal_type: 'lunch',
+  status: 'confirmed',
+  calories: 500,
+  protein_g: 30,
+  carbs_g: 50,
+  fat_g: 20,
+  created_at: '2026-01-10T10:00:00.000Z',
+  updated_at: '2026-01-10T10:00:00.000Z',
+  ...overrides
+});
+
+// What the Gemini helpers resolve to: a validated analysis of one item.
+const analyzed = (overrides: Data = {}) =>
+  ({
+    analysis: {
+      items: [{ name: 'Yumurta', amount: 2, unit: 'piece', calories: 140, protein_g: 12, carbs_g: 1, fat_g: 10 }],
+      total_calories: 140,
+      total_macros: { p: 12, c: 1, f: 10 },
+      confidence: 0.9,
+      ...overrides
+    },
+    validation: { status: 'valid' }
+  }) as any;
+
+// Matches the calorie and protein deltas of one day; the other nutrients are zero in these meals.
+const change = (date: string, calories: number, protein: number) => ({
+  date,
+  deltas: expect.objectContaining({ calories_consumed: calories, protein_consumed_g: protein })
+});
+
+describe('inferMealType', () => {
+  it.each([
+    ['03:59', 'snack'],
+    ['04:00', 'breakfast'],
+    ['10:59', 'breakfast'],
+    ['11:00', 'lunch'],
+    ['15:59', 'lunch'],
+    ['16:00', 'dinner'],
+    ['16:45', 'dinner'],
+    ['21:59', 'dinner'],
+    ['22:00', 'snack']
+  ])('classifies %s as %s', (time, type) => {
+    expect(inferMealType(`2026-01-10T${time}:00.000Z`, 'UTC')).toBe(type);
+  });
+
+  it("uses the hour in the user's time zone", () => {
+    // 13:30 UTC is 16:30 in Istanbul.
+    expect(inferMealType('2026-01-10T13:30:00.000Z', 'Europe/Istanbul')).toBe('dinner');
+    expect(inferMealType('2026-01-10T13:30:00.000Z', 'UTC')).toBe('lunch');
+  });
+});
+
+describe('sanitizeMealItemInput', () => {
+  it('accepts fiber, sugar, sodium and micronutrients and does not require them', () => {
+    const { input, errors } = sanitizeMealItemInput(
+      { name: 'Mercimek çorbası', amount: 250, calories: 180, protein_g: 11, carbs_g: 28, fat_g: 3, fiber_g: 6, sodium_mg: '720' },
+      { requireAll: true }
+    );
+
+    expect(errors).toEqual([]);
+    expect(input).toMatchObject({ fiber_g: 6, sodium_mg: 720 });
+    expect(input).not.toHaveProperty('iron_mg');
+  });
+
+  it('rejects negative or non-numeric nutrient values', () => {
+    const { errors } = sanitizeMealItemInput({ sodium_mg: -5, vitamin_d_mcg: 'a lot' }, { requireAll: false });
+
+    expect(errors).toEqual(['sodium_mg must be a non-negative number', 'vitamin_d_mcg must be a non-negative number']);
+  });
+});
+
+describe('mealService', () => {
+  let documents: Record<string, Record<string, Data>>;
+  let batch: { set: jest.Mock; update: jest.Mock; delete: jest.Mock; commit: jest.Mock };
+  let transaction: { get: jest.Mock; set: jest.Mock; update: jest.Mock; delete: jest.Mock };
+
+  const ref = (collection: string, id: string) => ({
+    id,
+    collection,
+    get: async () => ({ id, exists: Boolean(documents[collection]?.[id]), data: () => documents[collection]?.[id] }),
+    set: async (data: Data, options?: { merge?: boolean }) => {
+      const existing = options?.merge ? documents[collection]?.[id] : undefined;
+      documents[collection] = { ...documents[collection], [id]: { ...existing, ...data } };
+    }
+  });
+
+  const query = (collection: string, filters: Array<[string, unknown]> = []): any => ({
+    where: (field: string, _op: string, value: unknown) => query(collection, [...filters, [field, value]]),
+    orderBy: () => query(collection, filters),
+    limit: () => query(collection, filters),
+    get: async () => {
+      const docs = Object.entries(documents[collection] || {})
+        .filter(([, data]) => filters.every(([field, value]) => data[field] === value))
+        .map(([id, data]) => ({ id, ref: ref(collection, id), data: () => data }));
+      return { docs, empty: docs.length === 0, size: docs.length };
+    }
+  });
+
+  beforeEach(() => {
+    documents = { meals: {}, meal_items: {}, analysis_results: {}, meal_image_blobs: {}, meal_image_hashes: {} };
+    batch = { set: jest.fn(), update: jest.fn(), delete: jest.fn(), commit: jest.fn() };
+    jest.mocked(db.collection).mockImplementation((collection: string) => ({
+      doc: (id: string) => ref(collection, id),
+      where: (field: string, op: string, value: unknown) => query(collection).where(field, op, value)
+    }));
+    jest.mocked(db.batch).mockReturnValue(batch);
+    transaction = {
+      get: jest.fn((target: Data) => target.get()),
+      set: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn()
+    };
+    jest.mocked(db.runTransaction).mockImplementation(async (update: (transaction: Data) => Promise<unknown>) =>
+      update(transaction)
+    );
+    jest.mocked(progressService.applyDailyStatsDeltas).mockResolvedValue([]);
+    jest.mocked(progressService.applyDailyStatsDeltasInTransaction).mockImplementation(async (_transaction, _user, changes) =>
+      changes.map(({ date }) => ({ date }) as progressService.DailyStats)
+    );
+  });
+
+  describe('editMeal', () => {
+    it('moves the totals of a confirmed meal from its old day to its new one', async () => {
+      documents.meals[MEAL_ID] = meal();
+
+      await editMeal(user, MEAL_ID, { meal_time: '2026-01-11T09:00:00.000Z' });
+
+      expect(progressService.applyDailyStatsDeltasInTransaction).toHaveBeenCalledWith(expect.anything(), user, [
+        change('2026-01-10', -500, -30),
+        change('2026-01-11', 500, 30)
+      ]);
+    });
+
+    it('replaces the old totals with the edited ones on the same day', async () => {
+      documents.meals[MEAL_ID] = meal();
+
+      await editMeal(user, MEAL_ID, { calories: 650 });
+
+      expect(progressService.applyDailyStatsDeltasInTransaction).toHaveBeenCalledWith(expect.anything(), user, [
+        change('2026-01-10', -500, -30),
+        change('2026-01-10', 650, 30)
+      ]);
+    });
+
+    it('leaves daily_stats alone for drafts', async () => {
+      documents.meals[MEAL_ID] = meal({ status: 'draft' });
+
+      await editMeal(user, MEAL_ID, { calories: 650 });
+
+      expect(progressService.applyDailyStatsDeltasInTransaction).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('deleteMeal', () => {
+    it('takes the totals of a confirmed meal off its day in the transaction that deletes it', async () => {
+      documents.meals[MEAL_ID] = meal();
+      documents.meal_items['item-1'] = { meal_id: MEAL_ID, name: 'Rice' };
+
+      await deleteMeal(user, MEAL_ID);
+
+      expect(progressService.applyDailyStatsDeltasInTransaction).toHaveBeenCalledWith(transaction, user, [
+        change('2026-01-10', -500, -30)
+      ]);
+      expect(transaction.delete.mock.calls.map(([target]) => `${target.collection}/${target.id}`)).toEqual([
+        'meal_items/item-1',
+        `meals/${MEAL_ID}`
+      ]);
+    });
+
+    it('leaves daily_stats alone for drafts', async () => {
+      documents.meals[MEAL_ID] = meal({ status: 'draft' });
+
+      await deleteMeal(user, MEAL_ID);
+
+      expect(progressService.applyDailyStatsDeltasInTransaction).not.toHaveBeenCalled();
+      expect(transaction.delete).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('duplicateMeal', () => {
+    it('logs a confirmed copy of the meal and its items at the new time', async () => {
+      documents.meals[MEAL_ID] = meal();
+      documents.meal_items['item-1'] = { meal_id: MEAL_ID, name: 'Rice', amount: 200, unit: 'g', calories: 260, protein_g: 5 };
+
+      const result = await duplicateMeal(user, MEAL_ID, '2026-01-11T10:00:00.000Z');
+
+      expect(result.meal).toMatchObject({ status: 'confirmed', copied_from_meal_id: MEAL_ID, calories: 260, label: 'Lunch' });
+      expect(result.items).toEqual([expect.objectContaining({ name: 'Rice', meal_id: result.meal.id })]);
+      expect(progressService.applyDailyStatsDeltasInTransaction).toHaveBeenCalledWith(transaction, user, [
+        change('2026-01-11', 260, 5)
+      ]);
+    });
+
+    it('copies the totals of a meal logged without items', async () => {
+      documents.meals[MEAL_ID] = meal();
+
+      const result = await duplicateMeal(user, MEAL_ID);
+
+      expect(result.items).toEqual([expect.objectContaining({ name: 'Lunch', amount: 1, unit: 'portion', calories: 500 })]);
+    });
+
+    it('rejects drafts and meals of other users', async () => {
+      documents.meals[MEAL_ID] = meal({ status: 'draft' });
+      await expect(duplicateMeal(user, MEAL_ID)).rejects.toThrow('Only confirmed meals can be duplicated');
+
+      documents.meals[MEAL_ID] = meal({ user_id: 'user-2' });
+      await expect(duplicateMeal(user, MEAL_ID)).rejects.toThrow('Meal not found');
+      expect(transaction.set).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('confirmMeal', () => {
+    const items = [{ name: 'Rice', amount: 200, unit: 'g', calories: 260, protein_g: 5, carbs_g: 56, fat_g: 1 }];
+
+    it('adds the totals of a draft to its day', async () => {
+      documents.meals[MEAL_ID] = meal({ status: 'draft' });
+
+      const result = await confirmMeal(user, MEAL_ID, undefined, { items });
+
+      expect(progressService.applyDailyStatsDeltasInTransaction).toHaveBeenCalledWith(expect.anything(), user, [
+        change('2026-01-10', 260, 5)
+      ]);
+      expect(result.daily_stats).toEqual({ date: '2026-01-10' });
+    });
+
+    it('replaces what a confirmed meal counted when it is confirmed again', async () => {
+      documents.meals[MEAL_ID] = meal();
+
+      await confirmMeal(user, MEAL_ID, undefined, { items });
+
+      expect(progressService.applyDailyStatsDeltasInTransaction).toHaveBeenCalledWith(expect.anything(), user, [
+        change('2026-01-10', -500, -30),
+        change('2026-01-10', 260, 5)
+      ]);
+    });
+
+    it('adds fiber, sodium and the other tracked nutrients to the day', async () => {
+      documents.meals[MEAL_ID] = meal({ status: 'draft' });
+
+      await confirmMeal(user, MEAL_ID, undefined, { items: [{ ...items[0], fiber_g: 2, sodium_mg: 400 }] });
+
+      expect(progressService.applyDailyStatsDeltasInTransaction).toHaveBeenCalledWith(expect.anything(), user, [
+        { date: '2026-01-10', deltas: expect.objectContaining({ fiber_consumed_g: 2, sodium_consumed_mg: 400 }) }
+      ]);
+    });
+
+    it('selects the picked comparison result exclusively and records the chosen model', async () => {
+      documents.meals[MEAL_ID] = meal({ status: 'draft', source: 'camera' });
+      const result = (model: string, isSelected: boolean) => ({
+        meal_id: MEAL_ID,
+        model,
+        confidence: 0.8,
+        is_selected: isSelected,
+        comparison_id: 'comparison-1',
+        raw_response: { total_calories: model === 'gemini-2.5-pro' ? 520 : 480 },
+        created_at: '2026-01-10T10:05:00.000Z'
+      });
+      documents.analysis_results = {
+        'result-flash': result('gemini-2.5-flash', true),
+        'result-pro': result('gemini-2.5-pro', false)
+      };
+
+      await confirmMeal(user, MEAL_ID, 'result-pro');
+
+      expect(batch.update.mock.calls.map(([target, data]) => [target.id, data])).toEqual([
+        ['result-flash', { is_selected: false }],
+        ['result-pro', { is_selected: true }]
+      ]);
+      expect(Object.values(documents.analysis_model_selections)).toEqual([
+        expect.objectContaining({
+          comparison_id: 'comparison-1',
+          selected_model: 'gemini-2.5-pro',
+          candidate_models: ['gemini-2.5-flash', 'gemini-2.5-pro']
+        })
+      ]);
+    });
+
+    it('rejects an analysis result of another meal', async () => {
+      documents.meals[MEAL_ID] = meal({ status: 'draft', source: 'camera' });
+      documents.analysis_results['result-other'] = { meal_id: 'meal-2', model: 'gemini-2.5-flash', is_selected: true };
+
+      await expect(confirmMeal(user, MEAL_ID, 'result-other')).rejects.toThrow('Analysis result not found');
+      expect(progressService.applyDailyStatsDeltasInTransaction).not.toHaveBeenCalled();
+    });
+
+    it("returns the stats of the meal's day", async () => {
+      documents.meals[MEAL_ID] = meal({ meal_time: '2026-01-10T22:30:00.000Z' });
+
+      const result = await confirmMeal(user, MEAL_ID, undefined, { items });
+
+      // 22:30 UTC is already the next day in Istanbul.
+      expect(result.daily_stats).toEqual({ date: '2026-01-11' });
+    });
+  });
+
+  describe('updateMealItem', () => {
+    const ITEM_ID = 'item-1';
+
+    beforeEach(() => {
+      documents.meals[MEAL_ID] = meal({ calories: 300, protein_g: 20, carbs_g: 30, fat_g: 10 });
+      documents.meal_items[ITEM_ID] = {
+        id: ITEM_ID,
+        meal_id: MEAL_ID,
+        name: 'Chicken',
+        amount: 100,
+        unit: 'g',
+        calories: 300,
+        protein_g: 20,
+        carbs_g: 30,
+        fat_g: 10
+      };
+    });
+
+    it('rescales the nutrients when only the amount changes', async () => {
+      const { item } = await updateMealItem(user, MEAL_ID, ITEM_ID, { amount: 150 });
+
+      expect(item).toMatchObject({ amount: 150, calories: 450, protein_g: 30, carbs_g: 45, fat_g: 15 });
+      expect(transaction.set).toHaveBeenCalledWith(expect.objectContaining({ id: ITEM_ID }), item);
+    });
+
+    it('keeps explicit nutrients and does not rescale the others', async () => {
+      const { item } = await updateMealItem(user, MEAL_ID, ITEM_ID, { amount: 150, calories: 400 });
+
+      expect(item).toMatchObject({ amount: 150, calories: 400, protein_g: 20, carbs_g: 30, fat_g: 10 });
+    });
+
+    it('moves daily_stats by the difference for a confirmed meal in the same transaction', async () => {
+      await updateMealItem(user, MEAL_ID, ITEM_ID, { amount: 50 });
+
+      expect(progressService.applyDailyStatsDeltasInTransaction).toHaveBeenCalledWith(transaction, user, [
+        change('2026-01-10', -300, -20),
+        change('2026-01-10', 150, 10)
+      ]);
+    });
+
+    it('takes a deleted item off the meal and its day', async () => {
+      const result = await deleteMealItem(user, MEAL_ID, ITEM_ID);
+
+      expect(result.meal).toMatchObject({ calories: 0, protein_g: 0 });
+      expect(progressService.applyDailyStatsDeltasInTransaction).toHaveBeenCalledWith(transaction, user, [
+        change('2026-01-10', -300, -20),
+        change('2026-01-10', 0, 0)
+      ]);
+      expect(transaction.delete).toHaveBeenCalledWith(expect.objectContaining({ collection: 'meal_items', id: ITEM_ID }));
+    });
+
+    it('rejects items of another meal', async () => {
+      await expect(updateMealItem(user, MEAL_ID, 'item-2', { amount: 50 })).rejects.toThrow('Meal item not found');
+      expect(transaction.set).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('addMealItem', () => {
+    const rice = { name: 'Rice', amount: 200, unit: 'g', calories: 260, protein_g: 5, carbs_g: 56, fat_g: 1 };
+
+    it('adds the item to the totals of a meal with items', async () => {
+      documents.meals[MEAL_ID] = meal({ calories: 300, protein_g: 20, carbs_g: 30, fat_g: 10 });
+      documents.meal_items['item-1'] = { meal_id: MEAL_ID, name: 'Chicken', amount: 100, unit: 'g', calories: 300, protein_g: 20, carbs_g: 30, fat_g: 10 };
+
+      const result = await addMealItem(user, MEAL_ID, rice);
+
+      expect(result.meal).toMatchObject({ calories: 560, protein_g: 25 });
+      expect(transaction.set).toHaveBeenCalledWith(expect.objectContaining({ collection: 'meal_items' }), result.item);
+    });
+
+    it('keeps the logged totals of a meal without items as an item of their own', async () => {
+      documents.meals[MEAL_ID] = meal();
+
+      const result = await addMealItem(user, MEAL_ID, rice);
+
+      expect(result.meal).toMatchObject({ calories: 760, protein_g: 35 });
+      const written = transaction.set.mock.calls
+        .filter(([target]) => target.collection === 'meal_items')
+        .map(([, item]) => item);
+      expect(written).toEqual([
+        expect.objectContaining({ name: 'Lunch', amount: 1, unit: 'portion', calories: 500, meal_id: MEAL_ID }),
+        expect.objectContaining({ name: 'Rice', calories: 260, meal_id: MEAL_ID })
+      ]);
+      expect(progressService.applyDailyStatsDeltasInTransaction).toHaveBeenCalledWith(transaction, user, [
+        change('2026-01-10', -500, -30),
+        change('2026-01-10', 760, 35)
+      ]);
+    });
+
+    it('does not add an empty totals item to a draft without totals', async () => {
+      documents.meals[MEAL_ID] = meal({ status: 'draft', calories: 0, protein_g: 0, carbs_g: 0, fat_g: 0 });
+
+      const result = await addMealItem(user, MEAL_ID, rice);
+
+      expect(result.meal).toMatchObject({ calories: 260 });
+      expect(transaction.set.mock.calls.filter(([target]) => target.collection === 'meal_items')).toHaveLength(1);
+      expect(progressService.applyDailyStatsDeltasInTransaction).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('addMealImages', () => {
+    const photo = { buffer: Buffer.from('photo'), mimeType: 'image/jpeg', role: 'primary' as const };
+
+    beforeEach(() => {
+      // Without a storage bucket the images land in meal_image_blobs.
+      jest.mocked(storage.bucket).mockReturnValue({ file: () => ({}) } as any);
+      jest.mocked(processMealImage).mockImplementation(async buffer => ({
+        image: { buffer, mimeType: 'image/jpeg', width: null, height: null },
+        thumbnail: null
+      }));
+      transaction.set.mockImplementation((target: Data, data: Data) => target.set(data));
+    });
+
+    it('flags the same photo uploaded to another meal, reading the hash in a transaction', async () => {
+      documents.meals = { 'meal-1': meal({ id: 'meal-1', images: [] }), 'meal-2': meal({ id: 'meal-2', images: [] }) };
+
+      const first = await addMealImages(user.id, 'meal-1', [photo]);
+      const second = await addMealImages(user.id, 'meal-2', [photo]);
+
+      expect(first.duplicates).toEqual([]);
+      expect(second.duplicates).toEqual([expect.objectContaining({ meal_id: 'meal-1' })]);
+      expect(documents.meals['meal-2'].duplicate_of_meal_id).toBe('meal-1');
+      expect(transaction.get).toHaveBeenCalledWith(expect.objectContaining({ collection: 'meal_image_hashes' }));
+      expect(Object.values(documents.meal_image_hashes)).toEqual([expect.objectContaining({ meal_id: 'meal-2' })]);
+    });
+
+    it('appends photos with their roles and keeps the first primary photo as image_url', async () => {
+      documents.meals[MEAL_ID] = meal({ images: [] });
+
+      const { images } = await addMealImages(user.id, MEAL_ID, [
+        { ...photo, role: 'before' },
+        { ...photo, buffer: Buffer.from('leftovers'), role: 'after' }
+      ]);
+
+      expect(images.map(image => image.role)).toEqual(['before', 'after']);
+      expect(documents.meals[MEAL_ID]).toMatchObject({ images, image_url: images[0].url });
+    });
+
+    it('rejects more photos than a meal can hold', async () => {
+      const images = Array.from({ length: MAX_MEAL_IMAGES }, (_, index) => ({ id: `image-${index}`, role: 'angle' }) as MealImage);
+      documents.meals[MEAL_ID] = meal({ images });
+
+      await expect(addMealImages(user.id, MEAL_ID, [photo])).rejects.toThrow(`A meal can have at most ${MAX_MEAL_IMAGES} images`);
+      expect(processMealImage).not.toHaveBeenCalled();
+    });
+
+    it('does not flag a photo whose earlier meal was deleted', async () => {
+      documents.meals = { 'meal-2': meal({ id: 'meal-2', images: [] }) };
+      const hashId = `${user.id}_${createHash('sha256').update(photo.buffer).digest('hex')}`;
+      documents.meal_image_hashes = { [hashId]: { meal_id: 'meal-1', uploaded_at: new Date().toISOString() } };
+
+      const result = await addMealImages(user.id, 'meal-2', [photo]);
+
+      expect(result.duplicates).toEqual([]);
+      expect(documents.meal_image_hashes[hashId]).toMatchObject({ meal_id: 'meal-2' });
+    });
+  });
+
+  describe('private meal images', () => {
+    let files: Record<string, { save: jest.Mock; getSignedUrl: jest.Mock; makePublic: jest.Mock }>;
+
+    const image = (id: string, overrides: Partial<MealImage> = {}): MealImage => ({
+      id,
+      role: 'primary',
+      url: `gs://fitcal-bucket/meals/${user.id}/${MEAL_ID}/${id}.jpg`,
+      mime_type: 'image/jpeg',
+      uploaded_at: '2026-01-10T10:00:00.000Z',
+      ...overrides
+    });
+
+    beforeEach(() => {
+      files = {};
+      jest.mocked(storage.bucket).mockReturnValue({
+        name: 'fitcal-bucket',
+        file: (path: string) => {
+          files[path] = files[path] || {
+            save: jest.fn(),
+            getSignedUrl: jest.fn(async () => [`https://signed.example/${path}`]),
+            makePublic: jest.fn()
+          };
+          return { ...files[path], bucket: { name: 'fitcal-bucket' } };
+        }
+      } as any);
+    });
+
+    it('uploads photos and thumbnails under the owner folder without making them public', async () => {
+      jest.mocked(processMealImage).mockResolvedValue({
+        image: { buffer: Buffer.from('photo'), mimeType: 'image/jpeg', width: 1024, height: 768 },
+        thumbnail: { buffer: Buffer.from('thumb'), mimeType: 'image/jpeg', width: 256, height: 192 }
+      });
+
+      const stored = await uploadMealImage(user.id, MEAL_ID, Buffer.from('photo'), 'image/jpeg', 'image-1');
+
+      expect(stored).toEqual({
+        url: 'gs://fitcal-bucket/meals/user-1/meal-1/image-1.jpeg',
+        storagePath: 'meals/user-1/meal-1/image-1.jpeg',
+        thumbnailPath: 'meals/user-1/meal-1/image-1_thumb.jpg',
+        mimeType: 'image/jpeg',
+        isMock: false
+      });
+      expect(Object.keys(files)).toEqual([stored.storagePath, stored.thumbnailPath]);
+      expect(Object.values(files).some(file => file.makePublic.mock.calls.length)).toBe(false);
+    });
+
+    it('signs the photos and thumbnails of the owner and drops inline image data', async () => {
+      const path = `meals/${user.id}/${MEAL_ID}/image-1.jpg`;
+      const thumbnailPath = `meals/${user.id}/${MEAL_ID}/image-1_thumb.jpg`;
+
+      const signed = await withSignedImageUrls(
+        meal({ images: [image('image-1', { storage_path: path, thumbnail_path: thumbnailPath, base64: 'cGhvdG8=' })] })
+      );
+
+      expect(signed.images).toEqual([
+        expect.objectContaining({ url: `https://signed.example/${path}`, thumbnail_url: `https://signed.example/${thumbnailPath}` })
+      ]);
+      expect(signed.images[0]).not.toHaveProperty('base64');
+      expect(signed.image_url).toBe(`https://signed.example/${path}`);
+      expect(signed.image_urls_expire_at).toEqual(expect.any(String));
+    });
+
+    it("does not sign paths outside the owner's folder", async () => {
+      const signed = await withSignedImageUrls(
+        meal({
+          images: [
+            image('foreign', { storage_path: 'meals/user-2/meal-9/photo.jpg', thumbnail_path: 'meals/user-2/meal-9/photo_thumb.jpg' }),
+            image('escaping', { storage_path: `meals/${user.id}/../user-2/meal-9/photo.jpg` }),
+            // Only a gs:// URL, which is never turned into a path.
+            image('gs', { url: 'gs://fitcal-bucket/meals/user-2/meal-9/photo.jpg' }),
+            image('legacy', { url: 'https://storage.googleapis.com/fitcal-bucket/meals/user-2/meal-9/photo.jpg' })
+          ]
+        })
+      );
+
+      expect(signed.images).toEqual(Array(4).fill(expect.objectContaining({ url: null, thumbnail_url: null })));
+      expect(Object.values(files).some(file => file.getSignedUrl.mock.calls.length)).toBe(false);
+    });
+  });
+
+  describe('nutrition label meals', () => {
+    const food = (servings: Array<{ id: string; grams: number }>) =>
+      ({
+        id: 'label-food',
+        name_tr: 'Yulaf bar',
+        name_en: 'Oat bar',
+        per_100g: { calories: 400, protein_g: 10, carbs_g: 60, fat_g: 15 },
+        servings: servings.map(serving => ({ ...serving, name_tr: '1 adet', name_en: '1 bar' })),
+        source: 'label',
+        owner_id: user.id
+      }) as any;
+
+    it('reads the label into a food of the owner and links it to the meal', async () => {
+      documents.meals[MEAL_ID] = meal({
+        status: 'draft',
+        source: 'camera',
+        label: null,
+        images: [{ id: 'label', role: 'primary', url: '', mime_type: 'image/jpeg', base64: 'bGFiZWw=', uploaded_at: '' }]
+      });
+      const label = { product_name: 'Yulaf bar', confidence: 0.95, per_100g: { calories: 400 } };
+      jest.mocked(geminiService.analyzeNutritionLabel).mockResolvedValue({ label, validation: { status: 'valid' } } as any);
+      jest.mocked(foodService.saveLabelFood).mockResolvedValue({ food: food([{ id: 'serving', grams: 40 }]), isNew: true });
+
+      const result = await analyzeNutritionLabelMeal(MEAL_ID, 'gemini-2.5-flash', 'tr');
+
+      expect(foodService.saveLabelFood).toHaveBeenCalledWith(label, user.id);
+      expect(geminiService.analyzeMealImages).not.toHaveBeenCalled();
+      expect(documents.analysis_results[result.analysis.id]).toMatchObject({ mode: 'label', food_id: 'label-food', is_selected: true });
+      expect(documents.meals[MEAL_ID]).toMatchObject({ source: 'label', food_id: 'label-food', label: 'Yulaf bar', status: 'draft' });
+    });
+
+    it('logs a number of servings of the product on confirm', async () => {
+      documents.meals[MEAL_ID] = meal({ status: 'draft', source: 'label', food_id: 'label-food' });
+      jest.mocked(foodService.getFood).mockResolvedValue(food([{ id: 'serving', grams: 40 }]));
+
+      await confirmMeal(user, MEAL_ID, undefined, { labelPortion: { servings: 2 } });
+
+      expect(foodService.getFood).toHaveBeenCalledWith('label-food', user.id);
+      expect(progressService.applyDailyStatsDeltasInTransaction).toHaveBeenCalledWith(expect.anything(), user, [
+        change('2026-01-10', 320, 8)
+      ]);
+    });
+
+    it('rejects confirming before the label is read, and products without a serving size unless grams are given', async () => {
+      documents.meals[MEAL_ID] = meal({ status: 'draft', source: 'label' });
+      await expect(confirmMeal(user, MEAL_ID)).rejects.toThrow('Nutrition label has not been analyzed yet');
+
+      documents.meals[MEAL_ID] = meal({ status: 'draft', source: 'label', food_id: 'label-food' });
+      jest.mocked(foodService.getFood).mockResolvedValue(food([]));
+      await expect(confirmMeal(user, MEAL_ID)).rejects.toThrow('Product has no serving size; grams is required');
+      expect(progressService.applyDailyStatsDeltasInTransaction).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('analyzeMeal', () => {
+    it('analyzes a text meal from its description and selects the result', async () => {
+      documents.meals[MEAL_ID] = meal({ status: 'draft', source: 'text', description: '2 yumurta ve şekerli çay' });
+      jest.mocked(geminiService.analyzeMealText).mockResolvedValue(analyzed());
+
+      const result = await analyzeMeal(MEAL_ID, 'gemini-2.5-flash', 'tr');
+
+      expect(geminiService.analyzeMealText).toHaveBeenCalledWith('2 yumurta ve şekerli çay', 'tr', 'gemini-2.5-flash', undefined);
+      expect(geminiService.analyzeMealImages).not.toHaveBeenCalled();
+      expect(documents.analysis_results[result.analysis.id]).toMatchObject({
+        meal_id: MEAL_ID,
+        model: 'gemini-2.5-flash',
+        is_selected: true,
+        raw_response: { total_calories: 140 }
+      });
+    });
+
+    it('sends every photo of the meal with its role', async () => {
+      documents.meals[MEAL_ID] = meal({
+        status: 'draft',
+        source: 'camera',
+        images: [
+          { id: 'before', role: 'before', url: '', mime_type: 'image/jpeg', base64: 'YmVmb3Jl', uploaded_at: '' },
+          { id: 'after', role: 'after', url: '', mime_type: 'image/png', base64: 'YWZ0ZXI=', uploaded_at: '' }
+        ]
+      });
+      jest.mocked(geminiService.analyzeMealImages).mockResolvedValue(analyzed({ consumed_ratio: 0.6 }));
+
+      await analyzeMeal(MEAL_ID, 'gemini-2.5-flash', 'tr');
+
+      expect(geminiService.analyzeMealImages).toHaveBeenCalledWith(
+        [
+          { data: 'YmVmb3Jl', mimeType: 'image/jpeg', role: 'before' },
+          { data: 'YWZ0ZXI=', mimeType: 'image/png', role: 'after' }
+        ],
+        'tr',
+        'gemini-2.5-flash',
+        undefined
+      );
+    });
+
+    it('rejects an "after" photo without a "before" photo', async () => {
+      documents.meals[MEAL_ID] = meal({
+        status: 'draft',
+        source: 'camera',
+        images: [{ id: 'after', role: 'after', url: '', mime_type: 'image/jpeg', base64: 'YWZ0ZXI=', uploaded_at: '' }]
+      });
+
+      await expect(analyzeMeal(MEAL_ID, 'gemini-2.5-flash', 'tr')).rejects.toThrow('An "after" meal image requires a "before" image');
+      expect(geminiService.analyzeMealImages).not.toHaveBeenCalled();
+    });
+
+    describe('analysis cache', () => {
+      beforeEach(() => {
+        documents.meals[MEAL_ID] = meal({
+          status: 'draft',
+          source: 'camera',
+          images: [{ id: 'primary', role: 'primary', url: '', mime_type: 'image/jpeg', base64: 'cGxhdGU=', uploaded_at: '' }]
+        });
+      });
+
+      it('calls the model on a miss and caches the result under the photos, model and language', async () => {
+        jest.mocked(geminiService.analyzeMealImages).mockResolvedValue(analyzed());
+
+        const result = await analyzeMeal(MEAL_ID, 'gemini-2.5-flash', 'tr');
+
+        const key = jest.mocked(cacheService.get).mock.calls[0][0];
+        expect(key).toMatch(/^meal-analysis:[0-9a-f]{64}:gemini-2\.5-flash:tr$/);
+        expect(cacheService.set).toHaveBeenCalledWith(key, analyzed(), expect.any(Number));
+        expect(result.analysis).toMatchObject({ from_cache: false, content_hash: expect.any(String) });
+      });
+
+      it('reuses a cached analysis of the same photos without calling the model', async () => {
+        jest.mocked(cacheService.get).mockResolvedValue(analyzed());
+
+        const result = await analyzeMeal(MEAL_ID, 'gemini-2.5-flash', 'tr');
+
+        expect(geminiService.analyzeMealImages).not.toHaveBeenCalled();
+        expect(cacheService.set).not.toHaveBeenCalled();
+        expect(documents.analysis_results[result.analysis.id]).toMatchObject({ from_cache: true, raw_response: { total_calories: 140 } });
+      });
+
+      it('does not share cached results across models or languages', async () => {
+        jest.mocked(geminiService.analyzeMealImages).mockResolvedValue(analyzed());
+
+        await analyzeMeal(MEAL_ID, 'gemini-2.5-flash', 'tr');
+        await analyzeMeal(MEAL_ID, 'gemini-2.5-pro', 'tr');
+        await analyzeMeal(MEAL_ID, 'gemini-2.5-flash', 'en');
+
+        const keys = jest.mocked(cacheService.get).mock.calls.map(([key]) => key);
+        expect(new Set(keys).size).toBe(3);
+        expect(geminiService.analyzeMealImages).toHaveBeenCalledTimes(3);
+      });
+    });
+
+    describe('compareMealAnalyses', () => {
+      beforeEach(() => {
+        documents.meals[MEAL_ID] = meal({ status: 'draft', source: 'text', description: 'Bir kase mercimek çorbası' });
+      });
+
+      it('stores one unselected result per model under a shared comparison id', async () => {
+        jest.mocked(geminiService.analyzeMealText).mockResolvedValue(analyzed());
+
+        const comparison = await compareMealAnalyses(MEAL_ID, ['gemini-2.5-flash', 'gemini-2.5-pro'], 'tr');
+
+        expect(comparison.failures).toEqual([]);
+        expect(comparison.results.map(result => result.analysis.model)).toEqual(['gemini-2.5-flash', 'gemini-2.5-pro']);
+        expect(Object.values(documents.analysis_results)).toEqual([
+          expect.objectContaining({ model: 'gemini-2.5-flash', is_selected: false, comparison_id: comparison.comparisonId }),
+          expect.objectContaining({ model: 'gemini-2.5-pro', is_selected: false, comparison_id: comparison.comparisonId })
+        ]);
+        expect(batch.update).not.toHaveBeenCalled();
+      });
+
+      it('reports a failing model as long as another one succeeds', async () => {
+        jest.mocked(geminiService.analyzeMealText).mockImplementation(async (_description, _language, model) => {
+          if (model === 'gemini-2.5-pro') {
+            throw new Error('Gemini is overloaded');
+          }
+          return analyzed();
+        });
+
+        const comparison = await compareMealAnalyses(MEAL_ID, ['gemini-2.5-flash', 'gemini-2.5-pro'], 'tr');
+
+        expect(comparison.results).toHaveLength(1);
+        expect(comparison.failures).toEqual([{ model: 'gemini-2.5-pro', error: 'Gemini is overloaded' }]);
+      });
+
+      it('fails when every model fails, and rejects label meals', async () => {
+        jest.mocked(geminiService.analyzeMealText).mockRejectedValue(new Error('Gemini is overloaded'));
+        await expect(compareMealAnalyses(MEAL_ID, ['gemini-2.5-flash', 'gemini-2.5-pro'], 'tr')).rejects.toThrow(
+          'Gemini is overloaded'
+        );
+
+        documents.meals[MEAL_ID] = meal({ status: 'draft', source: 'label' });
+        await expect(compareMealAnalyses(MEAL_ID, ['gemini-2.5-flash', 'gemini-2.5-pro'], 'tr')).rejects.toThrow(
+          'Nutrition label meals cannot be compared across models'
+        );
+      });
+    });
+
+    describe('clarifying questions', () => {
+      const question = {
+        id: 'q1',
+        question: 'Is the estimated portion size right?',
+        item_name: null,
+        options: [
+          { id: 'q1_o1', label: 'Smaller (about half)' },
+          { id: 'q1_o3', label: 'Larger (about 1.5x)' }
+        ]
+      };
+
+      beforeEach(() => {
+        documents.meals[MEAL_ID] = meal({ status: 'draft', source: 'text', description: 'Bir tabak pilav' });
+        documents.analysis_results['result-1'] = {
+          meal_id: MEAL_ID,
+          model: 'gemini-2.5-flash',
+          confidence: 0.4,
+          clarifying_questions: [question],
+          raw_response: { total_calories: 300, confidence: 0.4, clarifying_questions: [question] }
+        };
+      });
+
+      it('asks about the portion size when the model is unsure and asked nothing', async () => {
+        jest.mocked(geminiService.analyzeMealText).mockResolvedValue(analyzed({ confidence: 0.4 }));
+
+        const result = await analyzeMeal(MEAL_ID, 'gemini-2.5-flash', 'en');
+
+        expect(result.analysis.clarifying_questions).toEqual([
+          expect.objectContaining({ id: 'q1', question: 'Is the estimated portion size right?', options: expect.any(Array) })
+        ]);
+        expect(result.analysis.clarifying_questions?.[0].options.map(option => option.id)).toEqual(['q1_o1', 'q1_o2', 'q1_o3']);
+      });
+
+      it('re-runs the analysis with the answers and links the new result to the previous one', async () => {
+        jest.mocked(geminiService.analyzeMealText).mockResolvedValue(analyzed());
+
+        const result = await answerClarifyingQuestions(MEAL_ID, 'result-1', [{ question_id: 'q1', option_id: 'q1_o1' }], 'en');
+
+        const prompt = jest.mocked(geminiService.analyzeMealText).mock.calls[0][3];
+        expect(prompt).toContain('- Is the estimated portion size right? -> Smaller (about half)');
+        expect(prompt).not.toContain('clarifying_questions');
+        expect(documents.analysis_results[result.analysis.id]).toMatchObject({
+          model: 'gemini-2.5-flash',
+          is_selected: true,
+          parent_result_id: 'result-1',
+          clarification_answers: [
+            { question_id: 'q1', question: question.question, option_id: 'q1_o1', answer: 'Smaller (about half)' }
+          ]
+        });
+      });
+
+      it('rejects unknown questions and answers, results of other meals and results without questions', async () => {
+        const answer = (question_id: string, option_id: string, resultId = 'result-1', mealId = MEAL_ID) =>
+          answerClarifyingQuestions(mealId, resultId, [{ question_id, option_id }], 'en');
+        documents.analysis_results['result-sure'] = { meal_id: MEAL_ID, model: 'gemini-2.5-flash', clarifying_questions: [] };
+
+        await expect(answer('q2', 'q2_o1')).rejects.toThrow('Unknown clarifying question: q2');
+        await expect(answer('q1', 'q1_o9')).rejects.toThrow('Unknown clarifying answer: q1_o9');
+        await expect(answer('q1', 'q1_o1', 'result-1', 'meal-2')).rejects.toThrow('Analysis result not found');
+        await expect(answer('q1', 'q1_o1', 'result-sure')).rejects.toThrow('Analysis result has no clarifying questions');
+        expect(geminiService.analyzeMealText).not.toHaveBeenCalled();
+      });
+    });
+
+    it('rejects a text meal without a description', async () => {
+      documents.meals[MEAL_ID] = meal({ status: 'draft', source: 'text' });
+
+      await expect(analyzeMeal(MEAL_ID, 'gemini-2.5-flash', 'tr')).rejects.toThrow('Meal description is missing');
+      expect(geminiService.analyzeMealText).not.toHaveBeenCalled();
+      expect(documents.analysis_results).toEqual({});
+    });
+  });
+});
@@ -0,0 +1,82 @@
+import { db } from '../../src/firebase';
+import * as mealService from '../../src/server/fitcal/services/mealService';
+import {
+  createMealTemplateFromMeal,
+  logMealFromTemplate
+} from '../../src/server/fitcal/services/mealTemplateService';
+import type { UserInfo } from '../../src/server/fitcal/services/userInfoService';
+
+jest.mock('../../src/firebase', () => require('../mocks/firebase'));
+jest.mock('../../src/server/fitcal/services/mealService');
+
+type Data = Record<string, any>;
+
+const user = { id: 'user-1', timezone: 'UTC' } as UserInfo;
+
+const items = [
+  { name: 'Simit', amount: 1, unit: 'piece', calories: 280, protein_g: 9, carbs_g: 50, fat_g: 5 },
+  { name: 'Çay', amount: 1, unit: 'glass', calories: 2, protein_g: 0, carbs_g: 0, fat_g: 0 }
+] as Array<Omit<mealService.MealItem, 'id' | 'meal_id'>>;
+
+describe('mealTemplateService', () => {
+  let documents: Record<string, Record<string, Data>>;
+
+  beforeEach(() => {
+    documents = { meals: {}, meal_templates: {} };
+    jest.mocked(db.collection).mockImplementation((collection: string) => ({
+      doc: (id: string) => ({
+        get: async () => ({ id, exists: Boolean(documents[collection][id]), data: () => documents[collection][id] }),
+        set: async (data: Data, options?: { merge: boolean }) => {
+          documents[collection][id] = options?.merge ? { ...documents[collection][id], ...data } : data;
+        }
+      })
+    }));
+    jest.mocked(mealService.getCopyableMealItems).mockResolvedValue(items);
+    jest.mocked(mealService.logMealWithItems).mockImplementation(async (_user, data) => ({ meal: { label: data.label } }) as any);
+  });
+
+  describe('createMealTemplateFromMeal', () => {
+    it('saves the items and totals of a confirmed meal', async () => {
+      documents.meals['meal-1'] = { user_id: user.id, status: 'confirmed', label: 'Kahvaltı' };
+
+      const template = await createMealTemplateFromMeal(user, 'meal-1');
+
+      expect(template).toMatchObject({ name: 'Kahvaltı', source_meal_id: 'meal-1', items, use_count: 0 });
+      expect(template.totals).toMatchObject({ calories: 282, protein_g: 9 });
+      expect(documents.meal_templates[template.id]).toEqual(template);
+    });
+
+    it('rejects drafts and meals of other users', async () => {
+      documents.meals['meal-1'] = { user_id: user.id, status: 'draft' };
+      documents.meals['meal-2'] = { user_id: 'user-2', status: 'confirmed' };
+
+      await expect(createMealTemplateFromMeal(user, 'meal-1')).rejects.toThrow('Only confirmed meals can be saved as favorites');
+      await expect(createMealTemplateFromMeal(user, 'meal-2')).rejects.toThrow('Meal not found');
+      expect(documents.meal_templates).toEqual({});
+    });
+  });
+
+  describe('logMealFromTemplate', () => {
+    it('logs the template items at the given time and counts the use', async () => {
+      documents.meal_templates['template-1'] = { user_id: user.id, name: 'Simit ve çay', label: null, items, use_count: 2 };
+
+      await logMealFromTemplate(user, 'template-1', '2026-01-10T07:00:00.000Z');
+
+      expect(mealService.logMealWithItems).toHaveBeenCalledWith(user, {
+        source: 'manual',
+        label: 'Simit ve çay',
+        mealTime: '2026-01-10T07:00:00.000Z',
+        items,
+        origin: { template_id: 'template-1' }
+      });
+      expect(documents.meal_templates['template-1']).toMatchObject({ use_count: 3, last_used_at: expect.any(String) });
+    });
+
+    it('rejects templates of other users', async () => {
+      documents.meal_templates['template-1'] = { user_id: 'user-2', name: 'Simit', items, use_count: 0 };
+
+      await expect(logMealFromTemplate(user, 'template-1')).rejects.toThrow('Meal template not found');
+      expect(mealService.logMealWithItems).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,157 @@
+import { db } from '../../src/firebase';
+import { getProgressForRange } from '../../src/server/fitcal/services/progressService';
+import * as userInfoService from '../../src/server/fitcal/services/userInfoService';
+import { listDatesInRange } from '../../src/server/fitcal/utils/timezone';
+
+jest.mock('../../src/firebase', () => require('../mocks/firebase'));
+jest.mock('../../src/server/fitcal/services/userInfoService');
+
+const user = { id: 'user-1', timezone: 'UTC' } as userInfoService.UserInfo;
+
+const targets = {
+  calories_goal: 2000,
+  protein_goal_g: 100,
+  carbs_goal_g: 0,
+  fat_goal_g: 0,
+  fiber_goal_g: 0,
+  sugar_limit_g: 0,
+  saturated_fat_limit_g: 0,
+  sodium_limit_mg: 0,
+  potassium_goal_mg: 0,
+  calcium_goal_mg: 0,
+  iron_goal_mg: 0,
+  vitamin_c_goal_mg: 0,
+  vitamin_d_goal_mcg: 0
+};
+
+const day = (date: string, calories: number, protein: number) => ({
+  user_id: user.id,
+  date,
+  ...targets,
+  calories_consumed: calories,
+  protein_consumed_g: protein
+});
+
+describe('getProgressForRange', () => {
+  let stats: Array<Record<string, any>>;
+  let meals: Array<Record<string, any>>;
+
+  // Applies the date bounds, descending order, limit and cursor of the daily_stats queries; meals
+  // are returned unfiltered.
+  const createQuery = (rows: Array<Record<string, any>>) => {
+    let filtered = rows;
+    let descending = false;
+    let limit = Infinity;
+    let after: string | null = null;
+    const query = {
+      where: (field: string, op: string, value: string) => {
+        if (field === 'date') {
+          filtered = filtered.filter(row => (op === '>=' ? row.date >= value : row.date <= value));
+        }
+        return query;
+      },
+      orderBy: (_field: string, direction: string) => {
+        descending = direction === 'desc';
+        return query;
+      },
+      limit: (count: number) => {
+        limit = count;
+        return query;
+      },
+      startAfter: (doc: { data: () => Record<string, any> }) => {
+        after = doc.data().date;
+        return query;
+      },
+      get: async () => {
+        const ordered = [...filtered].sort((a, b) =>
+          descending ? String(b.date).localeCompare(a.date) : String(a.date).localeCompare(b.date)
+        );
+        const docs = ordered
+          .filter(row => after === null || (descending ? row.date < after : row.date > after))
+          .slice(0, limit)
+          .map(data => ({ id: `${user.id}_${data.date}`, data: () => data }));
+        return { docs, size: docs.length };
+      }
+    };
+    return query;
+  };
+
+  beforeEach(() => {
+    stats = [];
+    meals = [];
+    jest.mocked(userInfoService.calculateDailyTargets).mockReturnValue(targets);
+    jest.mocked(db.collection).mockImplementation((collection: string) =>
+      createQuery(collection === 'daily_stats' ? stats : meals)
+    );
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('fills missing dates and only averages logged days', async () => {
+    stats = [day('2026-01-01', 2000, 100), day('2026-01-02', 2500, 50), day('2026-01-04', 1900, 95), day('2026-01-05', 1800, 120)];
+
+    const progress = await getProgressForRange(user, '2026-01-01', '2026-01-05');
+
+    expect(progress.days.map(entry => entry.logged)).toEqual([true, true, false, true, true]);
+    expect(progress).toMatchObject({ days_in_range: 5, days_logged: 4, logged_pct: 80, avg_calories: 2050, avg_protein_g: 91 });
+  });
+
+  it('counts goal adherence per nutrient over logged days', async () => {
+    stats = [day('2026-01-01', 2000, 100), day('2026-01-02', 2500, 50), day('2026-01-04', 1900, 95), day('2026-01-05', 1800, 120)];
+
+    const progress = await getProgressForRange(user, '2026-01-01', '2026-01-05');
+
+    // Calories count within 10% of the goal; protein once 90% of the goal is reached.
+    expect(progress.adherence_pct.calories).toBe(75);
+    expect(progress.adherence_pct.protein_g).toBe(75);
+    // Nutrients without a goal are always met.
+    expect(progress.adherence_pct.fiber_g).toBe(100);
+  });
+
+  it('counts the current streak as of today and the longest streak within the range', async () => {
+    jest.useFakeTimers({ now: new Date('2026-01-08T12:00:00Z') });
+    stats = [
+      day('2026-01-01', 2000, 100),
+      day('2026-01-02', 2000, 100),
+      day('2026-01-03', 2000, 100),
+      day('2026-01-05', 2000, 100),
+      day('2026-01-06', 2000, 100)
+    ];
+
+    const progress = await getProgressForRange(user, '2026-01-01', '2026-01-06');
+
+    // Nothing was logged on the 7th, so the streak ended before today.
+    expect(progress.streak_days).toBe(0);
+    expect(progress.longest_streak_days).toBe(3);
+  });
+
+  it('counts streak days logged before the range', async () => {
+    jest.useFakeTimers({ now: new Date('2026-03-02T12:00:00Z') });
+    stats = listDatesInRange('2025-12-01', '2026-03-02').map(date => day(date, 2000, 100));
+
+    const progress = await getProgressForRange(user, '2026-03-01', '2026-03-07');
+
+    expect(progress.streak_days).toBe(92);
+    expect(progress.days_logged).toBe(2);
+  });
+
+  it('keeps the streak until the end of today and ignores future days', async () => {
+    jest.useFakeTimers({ now: new Date('2026-01-05T08:00:00Z') });
+    stats = [day('2026-01-03', 2000, 100), day('2026-01-04', 2000, 100)];
+
+    const progress = await getProgressForRange(user, '2026-01-01', '2026-01-07');
+
+    expect(progress.streak_days).toBe(2);
+    expect(progress.days_in_range).toBe(7);
+  });
+
+  it('only counts confirmed meals', async () => {
+    meals = [{ status: 'confirmed' }, { status: 'draft' }, { status: 'confirmed' }];
+
+    const progress = await getProgressForRange(user, '2026-01-01', '2026-01-07');
+
+    expect(progress.total_meals).toBe(2);
+  });
+});
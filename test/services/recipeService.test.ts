@@ -0,0 +1,101 @@
+import { db } from '../../src/firebase';
+import { createRecipe, logRecipePortion, Recipe } from '../../src/server/fitcal/services/recipeService';
+import * as mealService from '../../src/server/fitcal/services/mealService';
+import type { UserInfo } from '../../src/server/fitcal/services/userInfoService';
+
+jest.mock('../../src/firebase', () => require('../mocks/firebase'));
+jest.mock('../../src/server/fitcal/services/mealService');
+jest.mock('../../src/server/fitcal/services/foodService');
+
+const user = { id: 'user-1', timezone: 'UTC', language: 'en' } as UserInfo;
+
+const ingredient = (name: string, amount: number, calories: number, protein: number) => ({
+  name,
+  amount,
+  unit: 'g',
+  calories,
+  protein_g: protein,
+  carbs_g: 0,
+  fat_g: 0
+});
+
+describe('recipeService', () => {
+  let stored: Record<string, Recipe>;
+
+  beforeEach(() => {
+    stored = {};
+    jest.mocked(db.collection).mockImplementation(() => ({
+      doc: (id: string) => ({
+        get: async () => ({ id, exists: Boolean(stored[id]), data: () => stored[id] }),
+        set: async (data: Recipe) => {
+          stored[id] = data;
+        }
+      })
+    }));
+    jest.mocked(mealService.logMealWithItems).mockResolvedValue({ meal: { id: 'meal-1' } } as any);
+  });
+
+  it('divides the recipe totals into servings', async () => {
+    const recipe = await createRecipe(user, {
+      name: 'Chili',
+      servings: 4,
+      ingredients: [ingredient('Beans', 400, 480, 32), ingredient('Beef', 500, 1250, 130)]
+    });
+
+    expect(recipe.totals.calories).toBe(1730);
+    expect(recipe.totals.protein_g).toBe(162);
+    expect(recipe.per_serving.calories).toBe(432.5);
+    expect(recipe.per_serving.protein_g).toBe(40.5);
+  });
+
+  it('logs a portion in servings by scaling every ingredient', async () => {
+    const recipe = await createRecipe(user, {
+      name: 'Chili',
+      servings: 4,
+      ingredients: [ingredient('Beans', 400, 480, 32), ingredient('Beef', 500, 1250, 130)]
+    });
+
+    await logRecipePortion(user, recipe.id, { servings: 2 });
+
+    const [, input] = jest.mocked(mealService.logMealWithItems).mock.calls[0];
+    expect(input.label).toBe('Chili');
+    expect(input.origin).toEqual({ recipe_id: recipe.id });
+    expect(input.items).toEqual([
+      expect.objectContaining({ name: 'Beans', amount: 200, calories: 240, protein_g: 16 }),
+      expect.objectContaining({ name: 'Beef', amount: 250, calories: 625, protein_g: 65 })
+    ]);
+  });
+
+  it('logs a portion in grams as a share of the total yield', async () => {
+    const recipe = await createRecipe(user, {
+      name: 'Chili',
+      servings: 4,
+      total_yield_g: 1000,
+      ingredients: [ingredient('Beans', 400, 480, 32), ingredient('Beef', 500, 1250, 130)]
+    });
+
+    await logRecipePortion(user, recipe.id, { grams: 250 });
+
+    const [, input] = jest.mocked(mealService.logMealWithItems).mock.calls[0];
+    expect(input.items.map((item: { calories: number }) => item.calories)).toEqual([120, 312.5]);
+  });
+
+  it('rejects grams for recipes without a total yield', async () => {
+    const recipe = await createRecipe(user, {
+      name: 'Chili',
+      servings: 4,
+      ingredients: [ingredient('Beans', 400, 480, 32)]
+    });
+
+    await expect(logRecipePortion(user, recipe.id, { grams: 100 })).rejects.toThrow(
+      'Recipe has no total yield; log it in servings'
+    );
+    expect(mealService.logMealWithItems).not.toHaveBeenCalled();
+  });
+
+  it('does not log another user\'s recipe', async () => {
+    const recipe = await createRecipe(user, { name: 'Chili', servings: 1, ingredients: [] });
+
+    await expect(logRecipePortion({ ...user, id: 'user-2' }, recipe.id, {})).rejects.toThrow('Recipe not found');
+  });
+});
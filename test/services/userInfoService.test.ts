@@ -0,0 +1,28 @@
+import { calculateDailyTargets, UserInfo } from '../../src/server/fitcal/services/userInfoService';
+
+jest.mock('../../src/firebase', () => require('../mocks/firebase'));
+
+// A birth date that makes the user `years` old (and a half, so the birthday never falls on the test day).
+const bornYearsAgo = (years: number) => new Date(Date.now() - (years + 0.5) * 365.25 * 24 * 60 * 60 * 1000).toISOString();
+
+describe('calculateDailyTargets', () => {
+  it('derives fiber, sugar and saturated fat targets from the calorie goal', () => {
+    const targets = calculateDailyTargets({ id: 'user-1', gender: 'female', birth_date: bornYearsAgo(30) } as UserInfo);
+
+    expect(targets).toMatchObject({
+      calories_goal: 1742,
+      fiber_goal_g: 24,
+      sugar_limit_g: 44,
+      saturated_fat_limit_g: 19,
+      sodium_limit_mg: 2300
+    });
+  });
+
+  it('takes micronutrient goals from the reference intakes for sex and age', () => {
+    const woman = calculateDailyTargets({ id: 'user-1', gender: 'female', birth_date: bornYearsAgo(30) } as UserInfo);
+    const man = calculateDailyTargets({ id: 'user-2', gender: 'male', birth_date: bornYearsAgo(75) } as UserInfo);
+
+    expect(woman).toMatchObject({ potassium_goal_mg: 2600, calcium_goal_mg: 1000, iron_goal_mg: 18, vitamin_c_goal_mg: 75, vitamin_d_goal_mcg: 15 });
+    expect(man).toMatchObject({ potassium_goal_mg: 3400, calcium_goal_mg: 1200, iron_goal_mg: 8, vitamin_c_goal_mg: 90, vitamin_d_goal_mcg: 20 });
+  });
+});
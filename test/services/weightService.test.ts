@@ -0,0 +1,93 @@
+import {
+  calculateWeeklyRate,
+  calculateWeightTrend,
+  projectGoalDate,
+  WeightTrendPoint
+} from '../../src/server/fitcal/services/weightService';
+
+jest.mock('../../src/firebase', () => require('../mocks/firebase'));
+jest.mock('../../src/server/fitcal/services/progressService');
+jest.mock('../../src/server/fitcal/services/userInfoService');
+
+// One trend point a day from 2026-01-01, starting at `start` kg and moving `perDay` kg each day.
+const linearTrend = (days: number, start: number, perDay: number): WeightTrendPoint[] =>
+  Array.from({ length: days }, (_, index) => {
+    const weight = Math.round((start + perDay * index) * 100) / 100;
+    return { date: `2026-01-${String(index + 1).padStart(2, '0')}`, weight_kg: weight, trend_kg: weight };
+  });
+
+describe('calculateWeightTrend', () => {
+  it('starts at the first weight and moves a tenth of the way towards each new one', () => {
+    const trend = calculateWeightTrend([
+      { date: '2026-01-01', weight_kg: 80 },
+      { date: '2026-01-02', weight_kg: 79 }
+    ]);
+
+    expect(trend).toEqual([
+      { date: '2026-01-01', weight_kg: 80, trend_kg: 80 },
+      { date: '2026-01-02', weight_kg: 79, trend_kg: 79.9 }
+    ]);
+  });
+
+  it('averages several weigh-ins on one day and sorts by date', () => {
+    const trend = calculateWeightTrend([
+      { date: '2026-01-02', weight_kg: 78.5 },
+      { date: '2026-01-01', weight_kg: 80 },
+      { date: '2026-01-02', weight_kg: 79.5 }
+    ]);
+
+    expect(trend.map(point => point.weight_kg)).toEqual([80, 79]);
+  });
+
+  it('applies the daily smoothing once per day across gaps', () => {
+    const trend = calculateWeightTrend([
+      { date: '2026-01-01', weight_kg: 80 },
+      { date: '2026-01-03', weight_kg: 78 }
+    ]);
+
+    // 1 - 0.9^2 = 0.19 of the way from 80 to 78.
+    expect(trend[1].trend_kg).toBe(79.62);
+  });
+});
+
+describe('calculateWeeklyRate', () => {
+  it('returns the slope of the trend in kg per week', () => {
+    expect(calculateWeeklyRate(linearTrend(14, 80, -0.1))).toBe(-0.7);
+  });
+
+  it('returns null until the trend covers a week', () => {
+    expect(calculateWeeklyRate(linearTrend(1, 80, 0))).toBeNull();
+    expect(calculateWeeklyRate(linearTrend(5, 80, -0.1))).toBeNull();
+  });
+});
+
+describe('projectGoalDate', () => {
+  const trend = linearTrend(14, 81.3, -0.1);
+
+  it('projects the date the trend reaches the target', () => {
+    expect(projectGoalDate(trend, -0.7, 77)).toEqual({
+      target_weight_kg: 77,
+      remaining_kg: -3,
+      projected_date: '2026-02-13',
+      status: 'on_track'
+    });
+  });
+
+  it('reports a goal within tolerance as reached', () => {
+    expect(projectGoalDate(trend, -0.7, 80.1)).toMatchObject({ status: 'reached', projected_date: null });
+  });
+
+  it('reports a trend moving away from the target as off track', () => {
+    expect(projectGoalDate(trend, 0.3, 77)).toMatchObject({ status: 'off_track', remaining_kg: -3, projected_date: null });
+  });
+
+  it('does not project without a target, a rate or meaningful progress', () => {
+    expect(projectGoalDate(trend, -0.7)).toMatchObject({ status: 'unknown', remaining_kg: null });
+    expect(projectGoalDate(trend, null, 77)).toMatchObject({ status: 'unknown', remaining_kg: -3 });
+    expect(projectGoalDate(trend, -0.01, 77)).toMatchObject({ status: 'unknown' });
+  });
+
+  it('leaves the date empty when the goal is more than two years away', () => {
+    expect(projectGoalDate(trend, -0.06, 70)).toMatchObject({ status: 'on_track', projected_date: null });
+  });
+});
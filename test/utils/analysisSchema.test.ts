@@ -0,0 +1,158 @@
+import { MealAnalysisSchemaError, validateMealAnalysis, validateNutritionLabel } from '../../src/server/fitcal/utils/analysisSchema';
+
+const item = (overrides: Record<string, unknown> = {}) => ({
+  name: 'Grilled Chicken',
+  amount: 150,
+  unit: 'g',
+  calories: 250,
+  macros: { p: 46, c: 0, f: 7 },
+  ...overrides
+});
+
+describe('validateMealAnalysis', () => {
+  it('accepts a consistent response unchanged', () => {
+    const { analysis, validation } = validateMealAnalysis({
+      items: [item()],
+      total_calories: 250,
+      total_macros: { p: 46, c: 0, f: 7 },
+      confidence: 0.9
+    });
+
+    expect(validation.status).toBe('valid');
+    expect(validation.issues).toEqual([]);
+    expect(analysis.total_calories).toBe(250);
+    expect(analysis.confidence).toBe(0.9);
+  });
+
+  it('coerces numeric strings and fills defaults', () => {
+    const { analysis } = validateMealAnalysis({
+      items: [{ name: 'Rice', amount: '200', calories: '260', macros: { p: '5', c: '57' } }]
+    });
+
+    expect(analysis.items[0]).toMatchObject({ amount: 200, unit: 'g', calories: 260, macros: { p: 5, c: 57, f: 0 } });
+  });
+
+  it('clamps out-of-range values and records each repair', () => {
+    const { analysis, validation } = validateMealAnalysis({
+      items: [item({ amount: -20, macros: { p: 46, c: 0, f: 7 } })],
+      confidence: 1.4,
+      health_score: 140
+    });
+
+    expect(analysis.items[0].amount).toBe(0);
+    expect(analysis.confidence).toBe(1);
+    expect(analysis.health_score).toBe(100);
+    expect(validation.status).toBe('repaired');
+    expect(validation.issues).toEqual(
+      expect.arrayContaining([
+        'items[0].amount clamped from -20 to 0',
+        'confidence clamped from 1.4 to 1',
+        'health_score clamped from 140 to 100'
+      ])
+    );
+  });
+
+  it('recomputes item calories that contradict the macros', () => {
+    const { analysis, validation } = validateMealAnalysis({ items: [item({ calories: 900 })] });
+
+    expect(analysis.items[0].calories).toBe(247);
+    expect(validation.issues).toContain('items[0].calories 900 recomputed from macros as 247');
+  });
+
+  it('replaces totals that disagree with the item sums', () => {
+    const { analysis, validation } = validateMealAnalysis({
+      items: [item(), item({ name: 'Rice', calories: 260, macros: { p: 5, c: 57, f: 0.5 } })],
+      total_calories: 100,
+      total_macros: { p: 1, c: 1, f: 1 }
+    });
+
+    expect(analysis.total_calories).toBe(510);
+    expect(analysis.total_macros).toEqual({ p: 51, c: 57, f: 7.5 });
+    expect(validation.issues).toEqual(
+      expect.arrayContaining(['total_calories 100 recomputed from items as 510', 'total_macros recomputed from items'])
+    );
+  });
+
+  it('caps sugar and saturated fat at their parent macro', () => {
+    const { analysis } = validateMealAnalysis({
+      items: [item({ nutrients: { sugar_g: 12, saturated_fat_g: 9 } })]
+    });
+
+    expect(analysis.items[0].nutrients).toMatchObject({ sugar_g: 0, saturated_fat_g: 7 });
+    expect(analysis.total_nutrients).toMatchObject({ sugar_g: 0, saturated_fat_g: 7 });
+  });
+
+  it('normalizes allergen tags and drops unknown ones', () => {
+    const { analysis, validation } = validateMealAnalysis({ items: [item({ allergens: ['Milk', 'milk', 'unicorn'] })] });
+
+    expect(analysis.items[0].allergens).toEqual(['milk']);
+    expect(validation.issues).toContain('items[0].allergens dropped unknown values: unicorn');
+  });
+
+  it('throws a schema error when the response has no items', () => {
+    expect(() => validateMealAnalysis({ items: [] })).toThrow(MealAnalysisSchemaError);
+    expect(() => validateMealAnalysis('not json')).toThrow(MealAnalysisSchemaError);
+  });
+});
+
+describe('validateNutritionLabel', () => {
+  const per100g = { calories: 389, protein_g: 13, carbs_g: 67, fat_g: 7, sugar_g: 1, saturated_fat_g: 1.2 };
+
+  it('derives per-serving values from per-100g values', () => {
+    const { label, validation } = validateNutritionLabel({
+      product_name: 'Oats',
+      serving_size_g: 40,
+      per_100g: per100g,
+      confidence: 0.8
+    });
+
+    expect(validation.status).toBe('valid');
+    expect(label.per_100g.calories).toBe(389);
+    expect(label.per_serving).toMatchObject({ calories: 155.6, protein_g: 5.2, carbs_g: 26.8, fat_g: 2.8 });
+  });
+
+  it('falls back to the per-serving column scaled by the serving size', () => {
+    const { label, validation } = validateNutritionLabel({
+      product_name: 'Oats',
+      serving_size_g: 40,
+      per_serving: { calories: 155.6, protein_g: 5.2, carbs_g: 26.8, fat_g: 2.8 }
+    });
+
+    expect(label.per_100g).toMatchObject({ calories: 389, protein_g: 13, carbs_g: 67, fat_g: 7 });
+    expect(validation.issues).toContain('per_100g derived from per_serving');
+  });
+
+  it('clamps per-100g values to what 100 g can hold', () => {
+    const { label, validation } = validateNutritionLabel({
+      product_name: 'Oats',
+      per_100g: { ...per100g, carbs_g: 670, sugar_g: 80 }
+    });
+
+    expect(label.per_100g.carbs_g).toBe(100);
+    expect(label.per_100g.sugar_g).toBe(80);
+    expect(validation.issues).toContain('per_100g.carbs_g clamped from 670 to 100');
+  });
+
+  it('keeps printed calories and only records a mismatch with the macros', () => {
+    const { label, validation } = validateNutritionLabel({
+      product_name: 'Oats',
+      per_100g: { ...per100g, calories: 250 }
+    });
+
+    expect(label.per_100g.calories).toBe(250);
+    expect(validation.issues).toContain('per_100g.calories 250 deviates from 4p+4c+9f (383)');
+  });
+
+  it('keeps only the digits of the barcode', () => {
+    const { label } = validateNutritionLabel({ product_name: 'Oats', barcode: '40 0638-1333931', per_100g: per100g });
+
+    expect(label.barcode).toBe('4006381333931');
+    expect(label.per_serving).toBeNull();
+  });
+
+  it('throws when neither per-100g values nor a usable serving are given', () => {
+    expect(() =>
+      validateNutritionLabel({ product_name: 'Oats', per_serving: { calories: 150 } })
+    ).toThrow(MealAnalysisSchemaError);
+  });
+});
@@ -0,0 +1,173 @@
+import { createCanvas, loadImage } from 'canvas';
+import {
+  processMealImage,
+  readJpegOrientation,
+  stripImageMetadata
+} from '../../src/server/fitcal/utils/imageProcessing';
+
+jest.mock('canvas', () => ({ createCanvas: jest.fn(), loadImage: jest.fn() }));
+
+const jpegSegment = (marker: number, payload: Buffer) => {
+  const header = Buffer.alloc(4);
+  header.writeUInt16BE(marker, 0);
+  header.writeUInt16BE(payload.length + 2, 2);
+  return Buffer.concat([header, payload]);
+};
+
+// A big-endian EXIF block whose first IFD holds only the orientation tag.
+const exifPayload = (orientation: number) => {
+  const tiff = Buffer.alloc(26);
+  tiff.write('MM', 0, 'ascii');
+  tiff.writeUInt16BE(0x002a, 2);
+  tiff.writeUInt32BE(8, 4);
+  tiff.writeUInt16BE(1, 8);
+  tiff.writeUInt16BE(0x0112, 10);
+  tiff.writeUInt16BE(3, 12);
+  tiff.writeUInt32BE(1, 14);
+  tiff.writeUInt16BE(orientation, 18);
+  return Buffer.concat([Buffer.from('Exif\0\0', 'binary'), tiff]);
+};
+
+const JFIF = jpegSegment(0xffe0, Buffer.from('JFIF\0\x01\x01\0\0\x01\0\x01\0\0', 'binary'));
+const QUANT_TABLE = jpegSegment(0xffdb, Buffer.alloc(5, 1));
+const SCAN = Buffer.concat([jpegSegment(0xffda, Buffer.alloc(4, 2)), Buffer.from([0x12, 0x34, 0xff, 0xd9])]);
+
+const jpeg = (...segments: Buffer[]) => Buffer.concat([Buffer.from([0xff, 0xd8]), ...segments]);
+
+const pngChunk = (type: string, data: Buffer) => {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length, 0);
+  return Buffer.concat([length, Buffer.from(type, 'ascii'), data, Buffer.alloc(4)]);
+};
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+const webpChunk = (type: string, data: Buffer) => {
+  const size = Buffer.alloc(4);
+  size.writeUInt32LE(data.length, 0);
+  return Buffer.concat([Buffer.from(type, 'ascii'), size, data, Buffer.alloc(data.length % 2)]);
+};
+
+const webp = (...chunks: Buffer[]) => {
+  const body = Buffer.concat(chunks);
+  const header = Buffer.alloc(12);
+  header.write('RIFF', 0, 'ascii');
+  header.writeUInt32LE(body.length + 4, 4);
+  header.write('WEBP', 8, 'ascii');
+  return Buffer.concat([header, body]);
+};
+
+describe('readJpegOrientation', () => {
+  it('reads the orientation tag from the EXIF block', () => {
+    expect(readJpegOrientation(jpeg(JFIF, jpegSegment(0xffe1, exifPayload(6)), SCAN))).toBe(6);
+  });
+
+  it('defaults to upright without EXIF or for other formats', () => {
+    expect(readJpegOrientation(jpeg(JFIF, SCAN))).toBe(1);
+    expect(readJpegOrientation(Buffer.concat([PNG_SIGNATURE, pngChunk('IEND', Buffer.alloc(0))]))).toBe(1);
+  });
+});
+
+describe('stripImageMetadata', () => {
+  it('drops EXIF, XMP and comment segments from a JPEG and keeps the image data', () => {
+    const xmp = jpegSegment(0xffe1, Buffer.from('http://ns.adobe.com/xap/1.0/\0<x:xmpmeta/>', 'binary'));
+    const comment = jpegSegment(0xfffe, Buffer.from('taken at home', 'ascii'));
+    const input = jpeg(JFIF, jpegSegment(0xffe1, exifPayload(6)), xmp, comment, QUANT_TABLE, SCAN);
+
+    expect(stripImageMetadata(input)).toEqual(jpeg(JFIF, QUANT_TABLE, SCAN));
+  });
+
+  it('drops EXIF and text chunks from a PNG', () => {
+    const header = pngChunk('IHDR', Buffer.alloc(13, 1));
+    const data = pngChunk('IDAT', Buffer.alloc(6, 2));
+    const end = pngChunk('IEND', Buffer.alloc(0));
+    const input = Buffer.concat([
+      PNG_SIGNATURE,
+      header,
+      pngChunk('eXIf', exifPayload(1).subarray(6)),
+      pngChunk('tEXt', Buffer.from('Comment\0kitchen', 'binary')),
+      pngChunk('tIME', Buffer.alloc(7)),
+      data,
+      end
+    ]);
+
+    expect(stripImageMetadata(input)).toEqual(Buffer.concat([PNG_SIGNATURE, header, data, end]));
+  });
+
+  it('drops EXIF and XMP chunks from a WebP and clears their VP8X flags', () => {
+    const extended = Buffer.alloc(10);
+    extended[0] = 0x0c | 0x10;
+    const bitstream = webpChunk('VP8L', Buffer.alloc(5, 3));
+    const input = webp(
+      webpChunk('VP8X', extended),
+      bitstream,
+      webpChunk('EXIF', exifPayload(1).subarray(6)),
+      webpChunk('XMP ', Buffer.from('<x:xmpmeta/>', 'ascii'))
+    );
+
+    const cleared = Buffer.from(extended);
+    cleared[0] = 0x10;
+    expect(stripImageMetadata(input)).toEqual(webp(webpChunk('VP8X', cleared), bitstream));
+  });
+
+  it('returns other formats unchanged', () => {
+    const gif = Buffer.from('GIF89a\x01\0\x01\0', 'binary');
+
+    expect(stripImageMetadata(gif)).toBe(gif);
+  });
+});
+
+describe('processMealImage', () => {
+  let context: { scale: jest.Mock; transform: jest.Mock; drawImage: jest.Mock };
+
+  beforeEach(() => {
+    context = { scale: jest.fn(), transform: jest.fn(), drawImage: jest.fn() };
+    jest.mocked(createCanvas).mockImplementation(
+      (width: number, height: number) =>
+        ({
+          getContext: () => context,
+          toBuffer: () => Buffer.from(`jpeg ${width}x${height}`)
+        }) as any
+    );
+  });
+
+  it('re-encodes the photo and renders a thumbnail within the size limits', async () => {
+    jest.mocked(loadImage).mockResolvedValue({ width: 4000, height: 3000 } as any);
+
+    const result = await processMealImage(jpeg(JFIF, SCAN), 'image/jpeg');
+
+    expect(result.image).toEqual({ buffer: Buffer.from('jpeg 2048x1536'), mimeType: 'image/jpeg', width: 2048, height: 1536 });
+    expect(result.thumbnail).toEqual({ buffer: Buffer.from('jpeg 320x240'), mimeType: 'image/jpeg', width: 320, height: 240 });
+    expect(context.transform).not.toHaveBeenCalled();
+  });
+
+  it('rotates photos upright from their EXIF orientation', async () => {
+    jest.mocked(loadImage).mockResolvedValue({ width: 4000, height: 3000 } as any);
+
+    const result = await processMealImage(jpeg(JFIF, jpegSegment(0xffe1, exifPayload(6)), SCAN), 'image/jpeg');
+
+    expect(result.thumbnail).toMatchObject({ width: 240, height: 320 });
+    expect(context.transform).toHaveBeenCalledWith(0, 1, -1, 0, 3000, 0);
+  });
+
+  it('keeps small photos at their size', async () => {
+    jest.mocked(loadImage).mockResolvedValue({ width: 200, height: 100 } as any);
+
+    const result = await processMealImage(jpeg(JFIF, SCAN), 'image/jpeg');
+
+    expect(result.image).toMatchObject({ width: 200, height: 100 });
+    expect(result.thumbnail).toMatchObject({ width: 200, height: 100 });
+  });
+
+  it('strips metadata from the original bytes without a thumbnail when the image cannot be decoded', async () => {
+    jest.mocked(loadImage).mockRejectedValue(new Error('Unsupported image type'));
+    const input = jpeg(JFIF, jpegSegment(0xffe1, exifPayload(6)), SCAN);
+
+    const result = await processMealImage(input, 'image/heic');
+
+    expect(result).toEqual({
+      image: { buffer: jpeg(JFIF, SCAN), mimeType: 'image/heic', width: null, height: null },
+      thumbnail: null
+    });
+  });
+});
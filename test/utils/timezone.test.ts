@@ -0,0 +1,33 @@
+import { getMonthRange, getWeekRangeForDate, listDatesInRange } from '../../src/server/fitcal/utils/timezone';
+
+describe('getWeekRangeForDate', () => {
+  // 2026-10-18 is a Sunday.
+  it('starts weeks on Monday by default', () => {
+    expect(getWeekRangeForDate('2026-10-18')).toEqual({ start: '2026-10-12', end: '2026-10-18' });
+    expect(getWeekRangeForDate('2026-10-12')).toEqual({ start: '2026-10-12', end: '2026-10-18' });
+  });
+
+  it('honours the configured week start day', () => {
+    expect(getWeekRangeForDate('2026-10-18', 'sunday')).toEqual({ start: '2026-10-18', end: '2026-10-24' });
+    expect(getWeekRangeForDate('2026-10-18', 'saturday')).toEqual({ start: '2026-10-17', end: '2026-10-23' });
+  });
+
+  it('spans month and year boundaries', () => {
+    expect(getWeekRangeForDate('2026-11-01')).toEqual({ start: '2026-10-26', end: '2026-11-01' });
+    expect(getWeekRangeForDate('2027-01-01')).toEqual({ start: '2026-12-28', end: '2027-01-03' });
+  });
+});
+
+describe('getMonthRange', () => {
+  it('ends on the last day of the month', () => {
+    expect(getMonthRange('2026-02')).toEqual({ start: '2026-02-01', end: '2026-02-28' });
+    expect(getMonthRange('2028-02')).toEqual({ start: '2028-02-01', end: '2028-02-29' });
+  });
+});
+
+describe('listDatesInRange', () => {
+  it('lists every date of the inclusive range', () => {
+    expect(listDatesInRange('2026-02-27', '2026-03-02')).toEqual(['2026-02-27', '2026-02-28', '2026-03-01', '2026-03-02']);
+    expect(listDatesInRange('2026-03-02', '2026-03-01')).toEqual([]);
+  });
+});